@@ -0,0 +1,99 @@
+'use client';
+import { useState } from 'react';
+
+// Mirrors AnswerComputation and FigureCheck in electron/utils/ai/answer-verification.ts
+export interface FigureCheck {
+  text: string;
+  value: number;
+  status: 'verified' | 'corrected' | 'flagged' | 'unchecked';
+  actual?: number;
+  source?: string;
+}
+
+export interface AnswerComputation {
+  source: 'sql' | 'agent';
+  sql?: string;
+  tools?: string[];
+  rowCount: number;
+  aggregation: string;
+  figures: FigureCheck[];
+}
+
+const STATUS_LABELS: Record<FigureCheck['status'], { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'bg-green-100 text-green-800' },
+  corrected: { label: 'Corrected', className: 'bg-blue-100 text-blue-800' },
+  flagged: { label: 'Not in data', className: 'bg-red-100 text-red-800' },
+  unchecked: { label: 'Not checked', className: 'bg-slate-100 text-slate-700' }
+};
+
+export function ComputationPanel({ computation }: { computation: AnswerComputation }) {
+  const [open, setOpen] = useState(false);
+  const flagged = computation.figures.filter(figure => figure.status === 'flagged').length;
+
+  return (
+    <div className="mt-3 border border-slate-200 rounded-lg text-sm">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex justify-between items-center px-3 py-2 text-left text-slate-700 hover:bg-slate-50"
+      >
+        <span className="font-medium">🔍 How this was computed</span>
+        <span className="text-xs text-slate-500">
+          {flagged > 0 ? `⚠️ ${flagged} unverified figure${flagged === 1 ? '' : 's'}` : `${computation.figures.length} figure${computation.figures.length === 1 ? '' : 's'} checked`}
+          {' '}{open ? '▲' : '▼'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-3 border-t border-slate-200 pt-3">
+          {computation.sql && (
+            <div>
+              <div className="text-xs font-semibold text-slate-600 mb-1">SQL</div>
+              <code className="block font-mono text-xs text-slate-800 bg-slate-50 p-2 rounded break-all">{computation.sql}</code>
+            </div>
+          )}
+
+          {computation.tools && computation.tools.length > 0 && (
+            <div>
+              <div className="text-xs font-semibold text-slate-600 mb-1">Tool calls</div>
+              {computation.tools.map((tool, index) => (
+                <code key={index} className="block font-mono text-xs text-slate-800">{tool}</code>
+              ))}
+            </div>
+          )}
+
+          <div className="text-xs text-slate-700"><span className="font-semibold">{computation.source === 'agent' ? 'Tool results' : 'Rows'}:</span> {computation.rowCount}</div>
+          <div className="text-xs text-slate-700"><span className="font-semibold">Aggregation:</span> {computation.aggregation}</div>
+
+          {computation.figures.length > 0 && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-1 pr-3 font-semibold">Figure</th>
+                  <th className="py-1 pr-3 font-semibold">From the data</th>
+                  <th className="py-1 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {computation.figures.map((figure, index) => (
+                  <tr key={index} className="border-b border-slate-100 align-top">
+                    <td className="py-1 pr-3 whitespace-nowrap text-slate-800">{figure.text}</td>
+                    <td className="py-1 pr-3 text-slate-600">
+                      {figure.source
+                        ? `${Math.abs(figure.actual!).toLocaleString('en-IN', { maximumFractionDigits: 2 })} = ${figure.source}`
+                        : '—'}
+                    </td>
+                    <td className="py-1">
+                      <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_LABELS[figure.status].className}`}>
+                        {STATUS_LABELS[figure.status].label}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+import { useState, useEffect, useCallback } from 'react';
+
+interface QueryAuditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface QueryAuditEntry {
+  timestamp: string;
+  user: string;
+  company?: string;
+  sql: string;
+  collections: string[];
+  allowed: boolean;
+  success: boolean;
+  durationMs: number;
+  rowCount: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+export function QueryAuditModal({ isOpen, onClose }: QueryAuditModalProps) {
+  const [entries, setEntries] = useState<QueryAuditEntry[]>([]);
+  const [logPath, setLogPath] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showRefusedOnly, setShowRefusedOnly] = useState(false);
+
+  const loadEntries = useCallback(async () => {
+    if (!(window as any).electronAPI?.tallyGetQueryAudit) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await (window as any).electronAPI.tallyGetQueryAudit(200);
+      if (result.success) {
+        setEntries(result.entries || []);
+        setLogPath(result.logPath || null);
+      } else {
+        setError(result.error || 'Could not load the query log');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadEntries();
+  }, [isOpen, loadEntries]);
+
+  if (!isOpen) return null;
+
+  const visible = showRefusedOnly ? entries.filter(entry => !entry.allowed) : entries;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-5xl mx-4 max-h-[85vh] flex flex-col">
+        <div className="p-6 border-b border-slate-200">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Query Log</h2>
+              <p className="text-sm text-slate-500 mt-1">Every SQL query run against Tally, newest first</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-xl"
+            >
+              ✕
+            </button>
+          </div>
+
+          <div className="flex items-center justify-between mt-4">
+            <label className="flex items-center space-x-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={showRefusedOnly}
+                onChange={(e) => setShowRefusedOnly(e.target.checked)}
+              />
+              <span>Only refused queries</span>
+            </label>
+            <button
+              onClick={loadEntries}
+              disabled={loading}
+              className="px-3 py-1 text-sm bg-gray-800 text-white rounded-lg hover:bg-gray-700 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+
+          {visible.length === 0 && !loading ? (
+            <div className="text-center py-12 text-slate-500">No queries logged yet</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-slate-600 border-b border-slate-200">
+                  <th className="py-2 pr-3 font-semibold">Time</th>
+                  <th className="py-2 pr-3 font-semibold">User</th>
+                  <th className="py-2 pr-3 font-semibold">Query</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Rows</th>
+                  <th className="py-2 pr-3 font-semibold text-right">Duration</th>
+                  <th className="py-2 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((entry, index) => (
+                  <tr key={`${entry.timestamp}-${index}`} className="border-b border-slate-100 align-top">
+                    <td className="py-2 pr-3 whitespace-nowrap text-slate-600">
+                      {new Date(entry.timestamp).toLocaleString('en-IN')}
+                    </td>
+                    <td className="py-2 pr-3 text-slate-700">
+                      <div>{entry.user}</div>
+                      {entry.company && <div className="text-xs text-slate-500">{entry.company}</div>}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <code className="block font-mono text-xs text-slate-800 break-all">{entry.sql}</code>
+                      {entry.error && <div className="text-xs text-red-600 mt-1">{entry.error}</div>}
+                    </td>
+                    <td className="py-2 pr-3 text-right text-slate-700">
+                      {entry.rowCount}{entry.truncated ? '+' : ''}
+                    </td>
+                    <td className="py-2 pr-3 text-right text-slate-700 whitespace-nowrap">{entry.durationMs} ms</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        !entry.allowed
+                          ? 'bg-red-100 text-red-800'
+                          : entry.success
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {!entry.allowed ? 'Refused' : entry.success ? 'OK' : 'Failed'}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {logPath && (
+          <div className="px-6 py-3 border-t border-slate-200 text-xs text-slate-500 break-all">
+            Log file: {logPath}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
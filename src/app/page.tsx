@@ -1,6 +1,11 @@
 "use client";
 
 import { useState, useEffect, useRef, useCallback, memo } from "react";
+import type { DataExport } from "@/shared/types/tally";
+import { QueryAuditModal } from "./components/QueryAuditModal";
+import { ComputationPanel, AnswerComputation } from "./components/ComputationPanel";
+
+type TableExportFormat = Exclude<DataExport['format'], 'pdf'>;
 
 // Interface Definitions
 interface TallyConfig {
@@ -26,6 +31,11 @@ interface TallyConnectionStatus {
   timestamp?: string;
 }
 
+interface TallyQueueStatus {
+  queued: number;
+  running: { label: string; priority: 'interactive' | 'whatsapp' | 'background'; runningMs: number } | null;
+}
+
 interface ChatMessage {
   id: string;
   type: "user" | "assistant" | "system" | "error" | "warning" | "pdf" | "ledger_pdf";
@@ -36,6 +46,7 @@ interface ChatMessage {
   executionTime?: number;
   aiProcessingTime?: number;
   queryType?: 'smart' | 'sql' | 'general';
+  computation?: AnswerComputation;
 }
 
 // Sample queries for demonstration and testing
@@ -326,12 +337,14 @@ const SetupView = memo(({ config, setConfig, isConnecting, isElectron, onConnect
 SetupView.displayName = 'SetupView';
 
 // Professional Data Table Component with Pagination
-const DataTable = memo(({ data, messageId, title }: {
+const DataTable = memo(({ data, messageId, title, exportTitle }: {
   data: any[],
   messageId: string,
-  title?: string
+  title?: string,
+  exportTitle?: string
 }) => {
   const [showAll, setShowAll] = useState(false);
+  const [exportStatus, setExportStatus] = useState<{ format?: TableExportFormat; filePath?: string; error?: string } | null>(null);
   const [expandedTable, setExpandedTable] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [sortConfig, setSortConfig] = useState<{ key: string | null; direction: 'asc' | 'desc' }>({ key: null, direction: 'desc' });
@@ -381,6 +394,23 @@ const DataTable = memo(({ data, messageId, title }: {
     });
   };
 
+  const handleExport = async (format: TableExportFormat) => {
+    const electronAPI = (window as any).electronAPI;
+    if (!electronAPI?.exportTable) {
+      setExportStatus({ error: 'Export is available in the desktop app' });
+      return;
+    }
+
+    setExportStatus({ format });
+    try {
+      // Export in the order the user is looking at
+      const result = await electronAPI.exportTable({ format, title: title || exportTitle || 'TallyKaro Export', rows: getSortedData(data) });
+      setExportStatus(result.success ? { format, filePath: result.filePath } : { format, error: result.error || 'Export failed' });
+    } catch (error) {
+      setExportStatus({ format, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
   const handleSort = (key: string) => {
     setSortConfig(prev => ({
       key,
@@ -550,9 +580,34 @@ const DataTable = memo(({ data, messageId, title }: {
               +{data.length - itemsToShow.length} more
             </span>
           )}
+          {exportStatus?.filePath && (
+            <button
+              onClick={() => (window as any).electronAPI?.showFileInFolder(exportStatus.filePath)}
+              className="text-emerald-700 text-xs underline truncate max-w-xs"
+              title={exportStatus.filePath}
+            >
+              ✅ Saved {exportStatus.filePath.split(/[\\/]/).pop()}
+            </button>
+          )}
+          {exportStatus?.error && (
+            <span className="text-red-600 text-xs">⚠️ {exportStatus.error}</span>
+          )}
         </div>
 
         <div className="flex items-center space-x-2">
+          {/* Export the full table, not just the visible page */}
+          {(['excel', 'csv', 'json'] as TableExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!!exportStatus?.format && !exportStatus.filePath && !exportStatus.error}
+              className="bg-white hover:bg-slate-100 disabled:opacity-50 border border-slate-300 text-slate-700 font-medium px-2 py-1 rounded-lg transition-all duration-200 text-xs"
+              title={`Export all ${data.length} rows as ${format === 'excel' ? 'Excel (.xlsx)' : format.toUpperCase()}`}
+            >
+              {format === 'excel' ? '📊 Excel' : format === 'csv' ? '📄 CSV' : '{ } JSON'}
+            </button>
+          ))}
+
           {/* Pagination controls for all tables with more than 10 items */}
           {shouldPaginate && totalPages > 1 && (
             <>
@@ -670,9 +725,14 @@ const MessageRenderer = memo(({ message, syncStatus, formatISTTime }: { message:
           <DataTable 
             data={message.data} 
             messageId={message.id} 
+            exportTitle={message.query || message.content.split('\n')[0].replace(/[^\w\s&().,-]/g, '').trim()}
           />
         )}
         
+        {message.computation && !isUser && (
+          <ComputationPanel computation={message.computation} />
+        )}
+        
         {/* PDF Viewer for PDF messages */}
         {message.type === 'pdf' && message.data?.pdfPath && (
           <div className="mt-4 border border-gray-200 rounded-lg overflow-hidden">
@@ -812,7 +872,8 @@ const ChatView = memo(({
   executeUserQuery,
   executeQuickQuery,
   syncStatus,
-  formatISTTime
+  formatISTTime,
+  tallyQueue
 }: {
   sidebarOpen: boolean;
   setSidebarOpen: (open: boolean) => void;
@@ -827,6 +888,7 @@ const ChatView = memo(({
   executeQuickQuery: (query: string) => Promise<void>;
   syncStatus?: any;
   formatISTTime?: (timestamp: string | Date) => string;
+  tallyQueue?: TallyQueueStatus | null;
 }) => {
   return (
     <div className="h-full flex" style={{backgroundColor: '#fff7ed'}}>
@@ -931,9 +993,17 @@ const ChatView = memo(({
             </button>
           </div>
           
-          <div className="mt-2 text-xs text-slate-500 text-center">
-            Try: "What is [account name] balance?" or use Quick Commands from the sidebar
-          </div>
+          {isProcessing && tallyQueue ? (
+            <div className="mt-2 text-xs text-amber-700 text-center">
+              ⏳ Waiting for Tally: {tallyQueue.queued} {tallyQueue.queued === 1 ? 'query' : 'queries'} queued
+              {tallyQueue.running && tallyQueue.running.priority !== 'interactive' &&
+                ` behind a ${tallyQueue.running.priority === 'background' ? 'background sync' : 'WhatsApp'} query (${Math.round(tallyQueue.running.runningMs / 1000)}s)`}
+            </div>
+          ) : (
+            <div className="mt-2 text-xs text-slate-500 text-center">
+              Try: "What is [account name] balance?" or use Quick Commands from the sidebar
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -947,6 +1017,7 @@ export default function TallyKaro() {
   const [connectionStatus, setConnectionStatus] = useState<TallyConnectionStatus>({ isConnected: false });
   const [isConnecting, setIsConnecting] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [showQueryAudit, setShowQueryAudit] = useState(false);
   const [currentView, setCurrentView] = useState<'setup' | 'chat'>('setup');
   
   // Auto-sync states
@@ -956,6 +1027,7 @@ export default function TallyKaro() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputMessage, setInputMessage] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const [tallyQueue, setTallyQueue] = useState<TallyQueueStatus | null>(null);
 
   // Utility function to format timestamp in IST
   const formatISTTime = (timestamp: string | Date) => {
@@ -1077,6 +1149,27 @@ export default function TallyKaro() {
     return () => clearTimeout(timeoutId);
   }, [messages, scrollToBottom]);
 
+  // While a query runs, poll the ODBC queue so a busy Tally shows as waiting rather than stuck
+  useEffect(() => {
+    if (!isProcessing || !(window as any).electronAPI?.odbcSchedulerMetrics) {
+      setTallyQueue(null);
+      return;
+    }
+
+    const intervalId = setInterval(async () => {
+      try {
+        const metrics = await (window as any).electronAPI.odbcSchedulerMetrics();
+        setTallyQueue(metrics.success && metrics.queueDepth > 0
+          ? { queued: metrics.queueDepth, running: metrics.running }
+          : null);
+      } catch (error) {
+        console.warn('Could not read the Tally query queue:', error);
+        setTallyQueue(null);
+      }
+    }, 1000);
+    return () => clearInterval(intervalId);
+  }, [isProcessing]);
+
   // Focus input when in chat view
   useEffect(() => {
     if (currentView === 'chat' && !isProcessing) {
@@ -1100,7 +1193,8 @@ export default function TallyKaro() {
     query?: string, 
     executionTime?: number, 
     aiProcessingTime?: number,
-    queryType?: 'smart' | 'sql' | 'general'
+    queryType?: 'smart' | 'sql' | 'general',
+    computation?: AnswerComputation
   ) => {
     setMessages(prev => [...prev, { 
       id: `${Date.now()}-${Math.random()}`, 
@@ -1111,7 +1205,8 @@ export default function TallyKaro() {
       query, 
       executionTime,
       aiProcessingTime,
-      queryType
+      queryType,
+      computation
     }]);
   }, []);
 
@@ -1358,7 +1453,7 @@ export default function TallyKaro() {
         } else if (result.response || result.message) {
           // Handle any result that has a response or message
           const responseText = result.response || result.message || "Query completed";
-          addMessage("assistant", responseText, result.data || result.ledgers, undefined, result.executionTime, undefined, 'general');
+          addMessage("assistant", responseText, result.data || result.ledgers, undefined, result.executionTime, undefined, 'general', result.computation);
           setConversationContext({});
         } else {
           console.warn('⚠️ Unhandled result type:', result.type);
@@ -1405,7 +1500,7 @@ export default function TallyKaro() {
           addMessage("assistant", "No data found.", undefined, result.sql, sqlResult.executionTime);
         }
       } else if (result.success) {
-        addMessage("assistant", result.response, result.data, undefined, result.executionTime);
+        addMessage("assistant", result.response, result.data, undefined, result.executionTime, undefined, undefined, result.computation);
       } else {
         addMessage("error", result.response || "Query processing failed");
       }
@@ -1469,6 +1564,18 @@ export default function TallyKaro() {
               </button>
             )}
 
+            {currentView === 'chat' && (
+              <button 
+                onClick={() => setShowQueryAudit(true)} 
+                className="p-2 text-slate-400 hover:text-slate-600 transition-colors rounded-lg hover:bg-slate-100"
+                title="Query Log"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                </svg>
+              </button>
+            )}
+
             <div className={`flex items-center space-x-2 px-3 py-2 rounded-full text-sm font-medium ${
               connectionStatus.isConnected 
                 ? 'bg-green-100 text-green-800' 
@@ -1604,9 +1711,12 @@ export default function TallyKaro() {
             executeQuickQuery={executeQuickQuery}
             syncStatus={syncStatus}
             formatISTTime={formatISTTime}
+            tallyQueue={tallyQueue}
           />
         )}
       </main>
+
+      <QueryAuditModal isOpen={showQueryAudit} onClose={() => setShowQueryAudit(false)} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, Menu } from 'electron';
+import { app, BrowserWindow, ipcMain, Menu, dialog, shell } from 'electron';
 import { join } from 'path';
 import { TallyService, TallyConfig } from '../electron/services/tally-services';
 import { BillService } from '../electron/services/bill-service';
@@ -13,6 +13,26 @@ import { ComprehensiveQueryHandler } from '../electron/services/comprehensive-qu
 import { tallyFixer } from '../electron/services/tally-connection-fixer';
 import { SalesPurchaseSyncService } from '../electron/services/sales-purchase-sync-service';
 import { SupabaseService } from '../electron/services/supabase-service';
+import { BaileysWhatsAppService } from '../electron/services/baileys-whatsapp';
+import { PaymentReminderService } from '../electron/services/payment-reminder-service';
+import { BankReconciliationService } from '../electron/services/bank-reconciliation-service';
+import { ExportService, TableExportRequest } from '../electron/services/export-service';
+import { createTallyDataSource, resolveDataSourceKind } from '../electron/services/data-source-factory';
+import { XmlDataSource } from '../electron/services/xml-data-source';
+import { TallyXMLAPIService } from '../electron/services/tally-xml-api';
+import { TallyDataSource, DataSourceKind, DATA_SOURCE_KINDS } from '../electron/services/tally-data-source';
+import { LocalMirrorService } from '../electron/services/local-mirror-service';
+import { MirrorDataSource } from '../electron/services/mirror-data-source';
+import { CompanyContextService } from '../electron/services/company-context-service';
+import { ConsolidatedQueryService } from '../electron/services/consolidated-query-service';
+import { intentRouter, LabelledQuery } from '../electron/services/intent-router';
+import { INTENT_CORPUS } from '../electron/services/intent-corpus';
+import { queryAuditService } from '../electron/services/query-audit-service';
+import { queryResultCache } from '../electron/services/query-result-cache';
+import { llmGateway } from '../electron/utils/ai/llm-gateway';
+import { clientContext } from '../electron/utils/client-context';
+import { checkSqlPolicy, withRowLimit } from '../electron/utils/sql-policy';
+import { odbcScheduler } from '../electron/utils/odbc-scheduler';
 import { writeFileSync } from 'fs';
 import { createLocalServer } from './server';
 
@@ -103,11 +123,66 @@ const optimizedQueryService = new OptimizedQueryService(tallyService);
 const supabaseService = new SupabaseService();
 const salesPurchaseSyncService = new SalesPurchaseSyncService(tallyService, supabaseService);
 const pdfService = new PDFService();
-const comprehensiveQueryHandler = new ComprehensiveQueryHandler(tallyService, pdfService);
+const xmlConfig = { host: 'localhost', port: settingsService.getSettings().tally?.xmlPort || 9000 };
+// Reports and chat read the books through the configured data source (ODBC unless set otherwise)
+const liveDataSource = createTallyDataSource(resolveDataSourceKind(settingsService.getDataSourceKind()), { tallyService, xmlConfig });
+// Report services that need XML-only data (stock valuation, GST detail) share one client addressed to the active company
+const tallyXmlApi = new TallyXMLAPIService(xmlConfig);
+if (liveDataSource instanceof XmlDataSource) {
+  liveDataSource.checkConnection().then(connected => console.log(`Tally XML API ${connected ? 'reachable' : 'not reachable'}`));
+}
+// ...through the local SQLite mirror when it is enabled, so answers survive Tally being closed
+const localMirrorService = new LocalMirrorService();
+const mirrorConfig = settingsService.getMirrorConfig();
+const tallyDataSource: TallyDataSource = mirrorConfig.enabled
+  ? new MirrorDataSource(liveDataSource, localMirrorService, mirrorConfig.maxAgeMinutes)
+  : liveDataSource;
+const comprehensiveQueryHandler = new ComprehensiveQueryHandler(tallyDataSource, pdfService, tallyXmlApi);
+const bankReconciliationService = new BankReconciliationService(tallyDataSource, pdfService, tallyXmlApi);
+const exportService = new ExportService();
+comprehensiveQueryHandler.setBankReconciliationService(bankReconciliationService);
+optimizedQueryService.setDataSource(tallyDataSource, comprehensiveQueryHandler, tallyXmlApi);
+// Pinned companies and the active one; consolidated reports read the live source as it moves between companies
+const companyContextService = new CompanyContextService(tallyService);
+comprehensiveQueryHandler.setCompanyContext(companyContextService, new ConsolidatedQueryService(companyContextService, liveDataSource));
+// Offline start: answer from the mirror of the company that was active last
+const lastActiveCompany = companyContextService.getActive();
+tallyXmlApi.setCompany(lastActiveCompany);
+if (mirrorConfig.enabled && lastActiveCompany) {
+  localMirrorService.useCompany(lastActiveCompany);
+}
 
 // Auto-sync service instance
 let cloudSyncService: EnhancedCloudSyncService | null = null;
 
+// WhatsApp session and payment reminder scheduler (created on first use)
+let whatsappBot: BaileysWhatsAppService | null = null;
+let paymentReminderService: PaymentReminderService | null = null;
+
+function getPaymentReminderService(): PaymentReminderService {
+  if (!paymentReminderService) {
+    whatsappBot = new BaileysWhatsAppService({ authDir: join(app.getPath('userData'), 'whatsapp-auth') });
+    whatsappBot.setDataSource(tallyDataSource);
+    paymentReminderService = new PaymentReminderService(tallyDataSource, whatsappBot, pdfService, tallyXmlApi);
+    comprehensiveQueryHandler.setPaymentReminderService(paymentReminderService);
+  }
+  return paymentReminderService;
+}
+
+// Cloud sync, the local mirror and per-client caches follow the active company
+companyContextService.onCompanyChanged((companyName, clientId) => {
+  tallyXmlApi.setCompany(companyName);
+  if (mirrorConfig.enabled) {
+    localMirrorService.useCompany(companyName);
+    if (liveDataSource.kind === 'odbc') {
+      localMirrorService.syncFrom(liveDataSource).catch(error => console.error("Mirror sync after company change failed:", error));
+    }
+  }
+  if (cloudSyncService && cloudSyncService.getConfig().clientId !== clientId) {
+    cloudSyncService.updateConfig({ clientId });
+  }
+});
+
 // Single instance lock - CRITICAL FIX for multiple instances
 const gotTheLock = app.requestSingleInstanceLock();
 
@@ -260,6 +335,21 @@ app.whenReady().then(async () => {
 
   await createWindow();
 
+  if (mirrorConfig.enabled) {
+    localMirrorService.startAutoSync(liveDataSource, mirrorConfig.intervalMinutes);
+  }
+
+  // Resume payment reminders if they were left switched on
+  try {
+    const reminders = getPaymentReminderService();
+    if (reminders.getConfig().enabled) {
+      await whatsappBot!.start();
+      reminders.start();
+    }
+  } catch (error) {
+    console.error('Failed to resume payment reminders:', error);
+  }
+
   app.on('activate', async () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       console.log('Activating app, creating new window');
@@ -383,6 +473,16 @@ ipcMain.handle("tally-connect", async (event, config: TallyConfig) => {
         (result as any).immediateQueryTest = { success: false, error: String(queryError) };
       }
       
+      // Tally's own name for the company; the company listener then refreshes the local mirror
+      try {
+        const connectedCompany = (await liveDataSource.getCompany())?.name || config.companyName;
+        if (connectedCompany) {
+          companyContextService.setActive(connectedCompany);
+        }
+      } catch (companyError) {
+        console.error("Could not set the active company:", companyError);
+      }
+
     } else {
       console.log("CONNECTION FAILED:", result.error);
     }
@@ -501,19 +601,47 @@ ipcMain.handle("tally-get-companies", async () => {
 });
 
 /**
- * ENHANCED: Execute query with smart query detection
+ * ENHANCED: Execute query with smart query detection. SQL from the renderer must pass the
+ * read-only policy, and every query (run or refused) goes to the audit log.
  */
 ipcMain.handle("tally-execute-query", async (event, sql: string) => {
-  const sanitizedSQL = sql.length > 100 ? sql.substring(0, 100) + "..." : sql;
+  const sanitizedSQL = typeof sql === 'string' && sql.length > 100 ? sql.substring(0, 100) + "..." : sql;
   console.log("\n=== IPC: EXECUTE QUERY REQUEST ===");
   console.log("SQL:", sanitizedSQL);
   console.log("Service connected:", tallyService.isConnected());
-  
+
+  const startTime = Date.now();
+  const policy = checkSqlPolicy(sql);
+  const audit = (outcome: { success: boolean; rowCount?: number; truncated?: boolean; error?: string }) => queryAuditService.record({
+    timestamp: new Date().toISOString(),
+    user: authService.getCurrentSession()?.mobileNumber || 'local',
+    company: clientContext.getActiveCompany() || undefined,
+    sql: typeof sql === 'string' ? sql : String(sql),
+    collections: policy.collections,
+    allowed: policy.allowed,
+    success: outcome.success,
+    durationMs: Date.now() - startTime,
+    rowCount: outcome.rowCount || 0,
+    truncated: outcome.truncated,
+    error: outcome.error
+  });
+
+  if (!policy.allowed) {
+    console.log(`🛡️ Query refused: ${policy.error}`);
+    audit({ success: false, error: policy.error });
+    return {
+      success: false,
+      error: `Query not allowed: ${policy.error}`,
+      query: sanitizedSQL,
+      timestamp: new Date().toISOString(),
+      executionTime: Date.now() - startTime
+    };
+  }
+
   try {
-    const startTime = Date.now();
-    
     if (!tallyService.isConnected()) {
       console.log("Query rejected: Service reports not connected");
+      audit({ success: false, error: 'Not connected' });
       return {
         success: false,
         error: 'Not connected to Tally database. Please connect first.',
@@ -523,25 +651,37 @@ ipcMain.handle("tally-execute-query", async (event, sql: string) => {
       };
     }
     
-    console.log("Executing query via service...");
-    const result = await tallyService.executeQuery(sql);
+    console.log(`Executing query via service (${policy.collections.join(', ')}, max ${policy.maxRows} rows, ${policy.timeoutMs}ms)...`);
+    const result = await tallyService.executeQuery(withRowLimit(sql, policy.maxRows), policy.timeoutMs);
     const executionTime = Date.now() - startTime;
+
+    // TOP asked Tally for one row past the limit; that row only marks the result as truncated
+    const rows = result.data || [];
+    const truncated = rows.length > policy.maxRows;
+    if (truncated) {
+      result.data = rows.slice(0, policy.maxRows);
+      result.rowCount = result.data.length;
+    }
     
     console.log(`Query completed in ${executionTime}ms:`, {
       success: result.success,
       rows: result.rowCount || 0,
+      truncated,
       hasError: !!result.error
     });
+    audit({ success: result.success, rowCount: result.rowCount, truncated, error: result.error });
 
     return {
       ...result,
       query: sanitizedSQL,
+      truncated,
       executionTime: result.executionTime || executionTime,
       timestamp: result.timestamp || new Date().toISOString()
     };
     
   } catch (error) {
     console.error("IPC: Execute query error:", error);
+    audit({ success: false, error: String(error) });
     return {
       success: false,
       error: `Query execution failed: ${error}`,
@@ -551,6 +691,105 @@ ipcMain.handle("tally-execute-query", async (event, sql: string) => {
   }
 });
 
+/**
+ * ODBC scheduler queue depth and wait times, for "waiting for Tally" in the UI
+ */
+ipcMain.handle("odbc-scheduler-metrics", async () => {
+  try {
+    return {
+      success: true,
+      ...odbcScheduler.getMetrics()
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to read ODBC scheduler metrics: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Recent entries from the query audit log, newest first
+ */
+ipcMain.handle("tally-query-audit", async (event, limit?: number) => {
+  console.log("\n=== IPC: QUERY AUDIT LOG ===");
+
+  try {
+    const entries = queryAuditService.getEntries(limit || 200);
+    return {
+      success: true,
+      entries,
+      logPath: queryAuditService.getLogPath(),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("IPC: Query audit error:", error);
+    return {
+      success: false,
+      error: `Failed to read query audit log: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Result cache hit/miss counts, overall and per intent
+ */
+ipcMain.handle("query-cache-stats", async () => {
+  try {
+    return {
+      success: true,
+      ...queryResultCache.getStats()
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to read query cache stats: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+ipcMain.handle("query-cache-clear", async (event, clientId?: string) => {
+  console.log("\n=== IPC: CLEAR QUERY CACHE ===");
+
+  try {
+    const dropped = queryResultCache.clear(clientId);
+    console.log(`🧹 Dropped ${dropped} cached result(s)`);
+    return {
+      success: true,
+      dropped,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to clear query cache: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * LLM requests, tokens and estimated cost per provider since the app started
+ */
+ipcMain.handle("llm-usage", async () => {
+  try {
+    return {
+      success: true,
+      ...llmGateway.getUsage(),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to read LLM usage: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
 /**
  * NEW: Smart ledger query handler
  */
@@ -980,10 +1219,17 @@ async function processDirectTallyQuery(userQuery: string): Promise<any> {
     
     if (result.success) {
       console.log(`✅ Query processed successfully by ${result.category} handler`);
+
+      let response = result.response;
+      if (tallyDataSource instanceof MirrorDataSource && tallyDataSource.isOffline()) {
+        const lastSync = tallyDataSource.getLastSync();
+        response += `\n\n_⚠️ Tally is not reachable - answered from the offline copy${lastSync ? ` synced ${lastSync.toLocaleString('en-IN')}` : ''}_`;
+      }
+
       return {
         success: true,
         type: result.category.toLowerCase(),
-        response: result.response,
+        response,
         data: result.data,
         executionTime: result.executionTime,
         cacheHit: false,
@@ -1027,7 +1273,9 @@ ipcMain.handle("tally-process-ai-query", async (event, userQuery: string) => {
     
     // First sync data from S3 to Supabase if needed
     // Get the real client ID from the auto-sync service instead of hardcoded default
-    const clientId = cloudSyncService?.getConfig?.()?.clientId || 'rohit-steels-from-1-apr-23';
+    const clientId = clientContext.hasClientId()
+      ? clientContext.getClientId()
+      : cloudSyncService?.getConfig?.()?.clientId || 'rohit-steels-from-1-apr-23';
     
     // Check if we should sync (only sync once on startup or if data is stale)
     const shouldSync = await shouldSyncData(clientId);
@@ -1406,6 +1654,27 @@ ipcMain.handle("tally-process-ai-query", async (event, userQuery: string) => {
       }
     }
 
+    // Financial statements are built (and exported to PDF) by the comprehensive handler,
+    // so keep them out of the generic PDF and sales routing below
+    const isFinancialStatementQuery =
+      /profit\s*(&|and)?\s*loss|p\s*&\s*l\b|\bpnl\b|net profit|gross profit|income statement|munafa|nuksa+n/.test(userQueryLower) ||
+      /balance\s*sheet|financial position|net worth|assets (and|&|aur) liabilities/.test(userQueryLower) ||
+      /gstr|gst (return|liability|payable|summary|report|kitna|bharna)|input tax credit|itc claim|hsn summary|vat return/.test(userQueryLower) ||
+      /margin|(item|customer|party)[ -]?wise profit|profit per (item|customer)|los(e|ing) money|loss making/.test(userQueryLower) ||
+      /cash\s*flow|fund flow|cash (projection|forecast)|projected cash|enough cash|pais[ae] kaafi|liquidity/.test(userQueryLower) ||
+      /ageing|aging|overdue|bills? (receivable|payable)|(receivables?|payables?|outstanding) (report|pdf)/.test(userQueryLower) ||
+      /reconcil|\bbrs\b|bank reco|bank statement|uncleared cheque|cheques? not (presented|cleared)/.test(userQueryLower) ||
+      /\bstatement\b|khata|hisaa?b|ledger vouchers|transactions (with|of)|voucher details/.test(userQueryLower);
+    if (isFinancialStatementQuery && tallyDataSource.isConnected()) {
+      const statementResult = await processDirectTallyQuery(userQuery);
+      if (statementResult.success) {
+        return {
+          ...statementResult,
+          timestamp: new Date().toISOString()
+        };
+      }
+    }
+
     // Handle PDF generation requests
     if (userQuery.toLowerCase().includes('pdf') || userQuery.toLowerCase().includes('send me pdf') || 
         userQuery.toLowerCase().includes('generate pdf') || userQuery.toLowerCase().includes('export') || 
@@ -1465,127 +1734,6 @@ ipcMain.handle("tally-process-ai-query", async (event, userQuery: string) => {
               };
             }
           }
-        } else if (userQuery.toLowerCase().includes('balance sheet') || userQuery.toLowerCase().includes('financial position')) {
-          // Generate balance sheet report using Financial Statements path (per Tally navigation guide)
-          // First try Balance Sheet table (correct Tally path: Gateway → Display More Reports → Financial Statements → Balance Sheet)
-          let assetsResult, liabilitiesResult;
-          
-          try {
-            // BalanceSheet table doesn't exist in Tally ODBC, use LEDGER table instead
-            const balanceSheetResult = await tallyService.executeQuery(`
-              SELECT $Name as name, $ClosingBalance as amount, $Parent as group, 'ledger' as type
-              FROM LEDGER 
-              WHERE $ClosingBalance != 0
-              ORDER BY $Parent, $Name
-            `);
-            
-            if (balanceSheetResult.success && balanceSheetResult.data && balanceSheetResult.data.length > 0) {
-              console.log(` Found ${balanceSheetResult.data.length} balance sheet items from LEDGER table`);
-              
-              // Separate assets and liabilities from BalanceSheet data
-              const assets = balanceSheetResult.data.filter((item: any) => {
-                const itemType = (item.type || item.$Type || '').toLowerCase();
-                const groupName = (item.group || item.$Group || '').toLowerCase();
-                return itemType.includes('asset') || 
-                       groupName.includes('asset') ||
-                       groupName.includes('bank') ||
-                       groupName.includes('cash') ||
-                       groupName.includes('debtor') ||
-                       groupName.includes('stock') ||
-                       groupName.includes('investment');
-              });
-              
-              const liabilities = balanceSheetResult.data.filter((item: any) => {
-                const itemType = (item.type || item.$Type || '').toLowerCase();
-                const groupName = (item.group || item.$Group || '').toLowerCase();
-                return itemType.includes('liability') || 
-                       groupName.includes('liability') ||
-                       groupName.includes('loan') ||
-                       groupName.includes('credit') ||
-                       groupName.includes('payable') ||
-                       groupName.includes('capital');
-              });
-              
-              // Convert to expected format
-              assetsResult = {
-                success: true,
-                data: assets.map((item: any) => ({
-                  name: item.name || item.$Name,
-                  group: item.group || item.$Group,
-                  balance: Math.abs(parseFloat(item.amount || item.$Amount || 0))
-                }))
-              };
-              
-              liabilitiesResult = {
-                success: true,
-                data: liabilities.map((item: any) => ({
-                  name: item.name || item.$Name,
-                  group: item.group || item.$Group,
-                  balance: Math.abs(parseFloat(item.amount || item.$Amount || 0))
-                }))
-              };
-            } else {
-              throw new Error('LEDGER table not available');
-            }
-          } catch (balanceSheetError) {
-            console.log(' BalanceSheet table not available, using ledger data...');
-            
-            // Fallback: Use ledger data to create balance sheet
-            assetsResult = await tallyService.executeQuery(`
-              SELECT $Name as name, $Parent as group, $ClosingBalance as balance
-              FROM Ledger 
-              WHERE $ClosingBalance > 0 
-              AND ($Parent LIKE '%Assets%' OR $Parent LIKE '%Bank%' OR $Parent LIKE '%Cash%' OR $Parent LIKE '%Fixed%' OR $Parent LIKE '%Investment%')
-              ORDER BY $ClosingBalance DESC
-            `);
-            
-            liabilitiesResult = await tallyService.executeQuery(`
-              SELECT $Name as name, $Parent as group, $ClosingBalance as balance
-              FROM Ledger 
-              WHERE $ClosingBalance < 0 
-              AND ($Parent LIKE '%Liabilities%' OR $Parent LIKE '%Loan%' OR $Parent LIKE '%Credit%' OR $Parent LIKE '%Payable%')
-              ORDER BY ABS($ClosingBalance) DESC
-            `);
-          }
-          
-          if (assetsResult.success && liabilitiesResult.success) {
-            const totalAssets = assetsResult.data ? 
-              assetsResult.data.reduce((sum: number, asset: any) => sum + parseFloat(asset.balance || asset.$ClosingBalance || 0), 0) : 0;
-            const totalLiabilities = liabilitiesResult.data ? 
-              liabilitiesResult.data.reduce((sum: number, liability: any) => sum + Math.abs(parseFloat(liability.balance || liability.$ClosingBalance || 0)), 0) : 0;
-            const netWorth = totalAssets - totalLiabilities;
-            
-            // Combine assets and liabilities with type indicators
-            const combinedData = [
-              ...(assetsResult.data || []).map((item: any) => ({ ...item, type: 'asset' })),
-              ...(liabilitiesResult.data || []).map((item: any) => ({ ...item, type: 'liability' }))
-            ];
-            
-            reportData = combinedData;
-            reportType = 'balance-sheet';
-            reportTitle = 'Balance Sheet Report';
-            
-            // Generate PDF using the existing PDFService
-            const pdfResult = await pdfService.generateTallyFormatPDF({
-              title: reportTitle,
-              companyName: companyName,
-              reportDate: new Date().toLocaleDateString('en-IN'),
-              data: reportData,
-              type: reportType,
-              totals: { netWorth }
-            });
-            
-            if (pdfResult.success) {
-              return {
-                success: true,
-                type: 'pdf',
-                response: ` **${reportTitle} Generated Successfully!**\n\n✅ **Report saved to:** ${pdfResult.filePath}\n\n **Report includes:**\n• Assets breakdown\n• Liabilities summary\n• Net worth calculation\n• Financial position overview\n\n **To view:** Open the HTML file in your browser and print to PDF`,
-                data: { pdfPath: pdfResult.filePath, reportType: 'balance-sheet' },
-                executionTime: Date.now() - startTime,
-                timestamp: new Date().toISOString()
-              };
-            }
-          }
         } else {
           // General ledger report
           const ledgerResult = await tallyService.executeQuery(`
@@ -1659,7 +1807,7 @@ ipcMain.handle("tally-process-ai-query", async (event, userQuery: string) => {
       // which will query from sales_vouchers/purchase_vouchers tables
     } else {
       // ALWAYS try direct Tally ODBC first for ALL other queries (except bills)
-      if (tallyService.isConnected()) {
+      if (tallyDataSource.isConnected()) {
         console.log(" Trying direct Tally ODBC query first...");
 
         try {
@@ -1894,6 +2042,7 @@ ipcMain.handle("tally-process-ai-query", async (event, userQuery: string) => {
       executionTime: supabaseResult.executionTime,
       cacheHit: supabaseResult.cacheHit,
       suggestions: supabaseResult.suggestions,
+      computation: supabaseResult.computation,
       sessionId: conversationContext.getContext(whatsappNumber, clientId).sessionId,
       timestamp: new Date().toISOString()
     };
@@ -2789,6 +2938,510 @@ ipcMain.handle("sync-all-transactions", async (event, { clientId, fromDate, toDa
   }
 });
 
+// ==================== PAYMENT REMINDER HANDLERS ====================
+
+/**
+ * Link WhatsApp (if needed) and start the reminder scheduler
+ */
+ipcMain.handle("reminders-start", async () => {
+  console.log("\n=== IPC: START PAYMENT REMINDERS ===");
+
+  try {
+    const reminders = getPaymentReminderService();
+    if (!whatsappBot!.getConnectionStatus()) {
+      await whatsappBot!.start();
+    }
+    reminders.start();
+
+    return {
+      success: true,
+      status: reminders.getStatus(),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Payment reminder start error:", error);
+    return {
+      success: false,
+      error: `Failed to start payment reminders: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Stop the reminder scheduler (the WhatsApp session stays linked)
+ */
+ipcMain.handle("reminders-stop", async () => {
+  console.log("\n=== IPC: STOP PAYMENT REMINDERS ===");
+
+  try {
+    const reminders = getPaymentReminderService();
+    reminders.stop();
+
+    return {
+      success: true,
+      status: reminders.getStatus(),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Payment reminder stop error:", error);
+    return {
+      success: false,
+      error: `Failed to stop payment reminders: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Send (or preview with dryRun) the reminders that are due now
+ */
+ipcMain.handle("reminders-run", async (event, options?: { dryRun?: boolean }) => {
+  console.log("\n=== IPC: RUN PAYMENT REMINDERS ===");
+
+  try {
+    if (!tallyDataSource.isConnected()) {
+      return {
+        success: false,
+        error: "Tally not connected. Please connect to Tally first.",
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const result = await getPaymentReminderService().runReminders({ dryRun: options?.dryRun });
+
+    return {
+      success: true,
+      result,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Payment reminder run error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Scheduler status and the latest reminder records
+ */
+ipcMain.handle("reminders-status", async () => {
+  try {
+    const reminders = getPaymentReminderService();
+    return {
+      success: true,
+      status: reminders.getStatus(),
+      config: reminders.getConfig(),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Payment reminder status error:", error);
+    return {
+      success: false,
+      error: `Failed to get reminder status: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Update reminder policies, templates and party contacts
+ */
+ipcMain.handle("reminders-update-config", async (event, newConfig: any) => {
+  console.log("\n=== IPC: UPDATE PAYMENT REMINDER CONFIG ===");
+
+  try {
+    getPaymentReminderService().updateConfig(newConfig);
+    return {
+      success: true,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Update reminder config error:", error);
+    return {
+      success: false,
+      error: `Failed to update reminder config: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+console.log("Payment reminder handlers registered");
+
+// ==================== BANK RECONCILIATION HANDLERS ====================
+
+/**
+ * Bank ledgers that can be reconciled, with whether a statement is already imported
+ */
+ipcMain.handle("bank-ledgers", async () => {
+  try {
+    if (!tallyDataSource.isConnected()) {
+      return {
+        success: false,
+        error: "Tally not connected. Please connect to Tally first.",
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const imported = bankReconciliationService.getImportedLedgers();
+    const ledgers = await bankReconciliationService.getBankLedgers();
+
+    return {
+      success: true,
+      ledgers: ledgers.map(ledger => ({ ...ledger, hasStatement: imported.includes(ledger.name.toLowerCase()) })),
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Bank ledgers error:", error);
+    return {
+      success: false,
+      error: `Failed to load bank ledgers: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Import a CSV/OFX statement for a bank ledger (asks for the file when no path is given)
+ */
+ipcMain.handle("bank-import-statement", async (event, bankLedger: string, filePath?: string) => {
+  console.log("\n=== IPC: IMPORT BANK STATEMENT ===");
+
+  try {
+    if (!filePath) {
+      const selection = await dialog.showOpenDialog({
+        title: `Import bank statement for ${bankLedger}`,
+        properties: ['openFile'],
+        filters: [
+          { name: 'Bank Statements', extensions: ['csv', 'txt', 'tsv', 'ofx', 'qfx'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      });
+      if (selection.canceled || selection.filePaths.length === 0) {
+        return {
+          success: false,
+          error: "No statement selected",
+          timestamp: new Date().toISOString()
+        };
+      }
+      filePath = selection.filePaths[0];
+    }
+
+    const statement = bankReconciliationService.importStatement(filePath, bankLedger);
+
+    return {
+      success: statement.lines.length > 0,
+      format: statement.format,
+      bankName: statement.bankName,
+      lineCount: statement.lines.length,
+      fromDate: statement.fromDate?.toISOString(),
+      toDate: statement.toDate?.toISOString(),
+      closingBalance: statement.closingBalance,
+      warnings: statement.warnings,
+      error: statement.lines.length === 0 ? statement.warnings.join('; ') : undefined,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Bank statement import error:", error);
+    return {
+      success: false,
+      error: `Failed to import bank statement: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Reconcile a bank ledger against its imported statement and save the BRS PDF
+ */
+ipcMain.handle("bank-reconcile", async (event, bankLedger: string, options?: { dateToleranceDays?: number }) => {
+  console.log("\n=== IPC: BANK RECONCILIATION ===");
+
+  try {
+    if (!tallyDataSource.isConnected()) {
+      return {
+        success: false,
+        error: "Tally not connected. Please connect to Tally first.",
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const statement = bankReconciliationService.getImportedStatement(bankLedger);
+    if (!statement) {
+      return {
+        success: false,
+        error: `Import a bank statement for ${bankLedger} first`,
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const reconciliation = await bankReconciliationService.reconcile(bankLedger, statement, options);
+    const pdfResult = await bankReconciliationService.generateStatementPDF(reconciliation);
+
+    return {
+      success: true,
+      reconciliation,
+      filePath: pdfResult.filePath,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Bank reconciliation error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+console.log("Bank reconciliation handlers registered");
+
+// ==================== EXPORT HANDLERS ====================
+
+/**
+ * Save a chat result table as Excel (.xlsx), CSV or JSON in the reports folder
+ */
+ipcMain.handle("export-table", async (event, request: TableExportRequest) => {
+  console.log(`\n=== IPC: EXPORT TABLE (${request?.format}) ===`);
+
+  try {
+    if (!request || !['excel', 'csv', 'json'].includes(request.format)) {
+      return {
+        success: false,
+        error: "Export format must be excel, csv or json",
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    let companyName = request.companyName;
+    if (!companyName && tallyDataSource.isConnected()) {
+      const company = await tallyDataSource.getCompany().catch(() => null);
+      companyName = company?.name || undefined;
+    }
+
+    const result = await exportService.exportTable({ ...request, companyName });
+
+    return {
+      ...result,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Table export error:", error);
+    return {
+      success: false,
+      error: `Failed to export table: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Show an exported file in Explorer/Finder
+ */
+ipcMain.handle("show-file-in-folder", async (event, filePath: string) => {
+  try {
+    shell.showItemInFolder(filePath);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
+console.log("Export handlers registered");
+
+// ==================== DATA SOURCE HANDLERS ====================
+
+/**
+ * Which data source reports and chat are reading from
+ */
+ipcMain.handle("data-source-get", async () => {
+  console.log("\n=== IPC: DATA SOURCE GET ===");
+
+  if (liveDataSource instanceof XmlDataSource) {
+    await liveDataSource.checkConnection();
+  }
+
+  return {
+    success: true,
+    active: tallyDataSource.kind,
+    configured: resolveDataSourceKind(settingsService.getDataSourceKind()),
+    available: DATA_SOURCE_KINDS,
+    connected: liveDataSource.isConnected(),
+    timestamp: new Date().toISOString()
+  };
+});
+
+/**
+ * Save the data source choice; services are built once, so it applies after a restart
+ */
+ipcMain.handle("data-source-set", async (event, kind: DataSourceKind) => {
+  console.log(`\n=== IPC: DATA SOURCE SET (${kind}) ===`);
+
+  if (!DATA_SOURCE_KINDS.includes(kind)) {
+    return {
+      success: false,
+      error: `Data source must be one of: ${DATA_SOURCE_KINDS.join(', ')}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  settingsService.setDataSourceKind(kind);
+  return {
+    success: true,
+    active: tallyDataSource.kind,
+    configured: resolveDataSourceKind(kind),
+    restartRequired: resolveDataSourceKind(kind) !== tallyDataSource.kind,
+    timestamp: new Date().toISOString()
+  };
+});
+
+/**
+ * Local mirror state: schema version, last sync and row counts per collection
+ */
+ipcMain.handle("mirror-status", async () => {
+  console.log("\n=== IPC: MIRROR STATUS ===");
+
+  return {
+    success: true,
+    enabled: mirrorConfig.enabled,
+    offline: tallyDataSource instanceof MirrorDataSource && tallyDataSource.isOffline(),
+    ...localMirrorService.getStatus(),
+    timestamp: new Date().toISOString()
+  };
+});
+
+/**
+ * Refresh the local mirror from Tally now
+ */
+ipcMain.handle("mirror-sync-now", async () => {
+  console.log("\n=== IPC: MIRROR SYNC NOW ===");
+
+  try {
+    if (!liveDataSource.isConnected()) {
+      return {
+        success: false,
+        error: "Tally not connected. Please connect to Tally first.",
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const result = await localMirrorService.syncFrom(liveDataSource);
+    return {
+      ...result,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Mirror sync error:", error);
+    return {
+      success: false,
+      error: `Failed to sync local mirror: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+console.log("Data source handlers registered");
+
+// ==================== COMPANY HANDLERS ====================
+
+/**
+ * Active company, pinned companies and the companies open in Tally
+ */
+ipcMain.handle("company-list", async () => {
+  console.log("\n=== IPC: COMPANY LIST ===");
+
+  try {
+    const available = tallyService.isConnected() ? await tallyService.getAvailableCompanies() : { success: false, companies: [] as string[] };
+    return {
+      success: true,
+      active: companyContextService.getActive(),
+      clientId: clientContext.hasClientId() ? clientContext.getClientId() : undefined,
+      pinned: companyContextService.getPinned(),
+      available: available.companies || [],
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Company list error:", error);
+    return {
+      success: false,
+      error: `Failed to list companies: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+/**
+ * Pin a company (optionally with the name used for it in chat)
+ */
+ipcMain.handle("company-pin", async (event, companyName: string, alias?: string) => {
+  console.log("\n=== IPC: COMPANY PIN ===", companyName);
+
+  if (!companyName || !companyName.trim()) {
+    return { success: false, error: "Company name is required", timestamp: new Date().toISOString() };
+  }
+  return {
+    success: true,
+    pinned: companyContextService.pin(companyName.trim(), alias?.trim() || undefined),
+    timestamp: new Date().toISOString()
+  };
+});
+
+ipcMain.handle("company-unpin", async (event, companyName: string) => {
+  console.log("\n=== IPC: COMPANY UNPIN ===", companyName);
+
+  return {
+    success: true,
+    pinned: companyContextService.unpin(companyName),
+    timestamp: new Date().toISOString()
+  };
+});
+
+/**
+ * Reconnect Tally to another company; accepts partial names and financial years ("Sharma FY24")
+ */
+ipcMain.handle("company-switch", async (event, companyName: string) => {
+  console.log("\n=== IPC: COMPANY SWITCH ===", companyName);
+
+  try {
+    const result = await companyContextService.switchTo(companyName);
+    return {
+      ...result,
+      timestamp: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("Company switch error:", error);
+    return {
+      success: false,
+      error: `Failed to switch company: ${error}`,
+      timestamp: new Date().toISOString()
+    };
+  }
+});
+
+console.log("Company handlers registered");
+
+// ==================== INTENT ROUTER HANDLERS ====================
+
+/**
+ * Routing accuracy over the labelled corpus, or over queries passed in
+ */
+ipcMain.handle("intent-router-evaluate", async (event, corpus?: LabelledQuery[]) => {
+  console.log("\n=== IPC: INTENT ROUTER EVALUATE ===");
+
+  const result = intentRouter.evaluate(corpus && corpus.length > 0 ? corpus : INTENT_CORPUS);
+  console.log(`🧭 Routing accuracy: ${result.correct}/${result.total} (${(result.accuracy * 100).toFixed(1)}%)`);
+  return {
+    success: true,
+    ...result,
+    timestamp: new Date().toISOString()
+  };
+});
+
+console.log("Intent router handlers registered");
+
 // ==================== APPLICATION LIFECYCLE ====================
 
 /**
@@ -2797,6 +3450,7 @@ ipcMain.handle("sync-all-transactions", async (event, { clientId, fromDate, toDa
 app.on('before-quit', async () => {
   console.log('Application terminating, cleaning up connections...');
   try {
+    localMirrorService.close();
     await tallyService.disconnect();
     console.log('Cleanup completed successfully');
   } catch (error) {
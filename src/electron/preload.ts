@@ -36,9 +36,24 @@ export interface TallyQueryResult {
   rowCount?: number;
   executionTime?: number;
   query?: string;
+  truncated?: boolean; // Rows cut to the collection's limit
   timestamp?: string;
 }
 
+export interface QueryAuditEntry {
+  timestamp: string;
+  user: string;
+  company?: string;
+  sql: string;
+  collections: string[];
+  allowed: boolean;
+  success: boolean;
+  durationMs: number;
+  rowCount: number;
+  truncated?: boolean;
+  error?: string;
+}
+
 export interface SmartQueryResult {
   success: boolean;
   type: 'exact_match' | 'multiple_matches' | 'no_match' | 'suggestions';
@@ -80,6 +95,21 @@ const electronAPI = {
   // --- Query Execution ---
   tallyExecuteQuery: (sql: string): Promise<TallyQueryResult> => 
     ipcRenderer.invoke('tally-execute-query', sql),
+
+  odbcSchedulerMetrics: (): Promise<any> =>
+    ipcRenderer.invoke('odbc-scheduler-metrics'),
+
+  tallyGetQueryAudit: (limit?: number): Promise<{ success: boolean; entries?: QueryAuditEntry[]; logPath?: string; error?: string }> =>
+    ipcRenderer.invoke('tally-query-audit', limit),
+
+  queryCacheStats: (): Promise<any> =>
+    ipcRenderer.invoke('query-cache-stats'),
+
+  queryCacheClear: (clientId?: string): Promise<{ success: boolean; dropped?: number; error?: string }> =>
+    ipcRenderer.invoke('query-cache-clear', clientId),
+
+  llmUsage: (): Promise<any> =>
+    ipcRenderer.invoke('llm-usage'),
   
   tallyQueryLedgerSmart: (userInput: string): Promise<SmartQueryResult> => 
     ipcRenderer.invoke('tally-query-ledger-smart', userInput),
@@ -117,6 +147,69 @@ const electronAPI = {
   syncUpdateConfig: (config: any): Promise<any> => 
     ipcRenderer.invoke('sync-update-config', config),
 
+  // --- Payment Reminders ---
+  remindersStart: (): Promise<any> =>
+    ipcRenderer.invoke('reminders-start'),
+
+  remindersStop: (): Promise<any> =>
+    ipcRenderer.invoke('reminders-stop'),
+
+  remindersRun: (options?: { dryRun?: boolean }): Promise<any> =>
+    ipcRenderer.invoke('reminders-run', options),
+
+  remindersStatus: (): Promise<any> =>
+    ipcRenderer.invoke('reminders-status'),
+
+  remindersUpdateConfig: (config: any): Promise<any> =>
+    ipcRenderer.invoke('reminders-update-config', config),
+
+  // --- Bank Reconciliation ---
+  bankLedgers: (): Promise<any> =>
+    ipcRenderer.invoke('bank-ledgers'),
+
+  bankImportStatement: (bankLedger: string, filePath?: string): Promise<any> =>
+    ipcRenderer.invoke('bank-import-statement', bankLedger, filePath),
+
+  bankReconcile: (bankLedger: string, options?: { dateToleranceDays?: number }): Promise<any> =>
+    ipcRenderer.invoke('bank-reconcile', bankLedger, options),
+
+  // --- Export ---
+  exportTable: (request: { format: 'excel' | 'csv' | 'json'; title: string; rows: any[]; companyName?: string }): Promise<any> =>
+    ipcRenderer.invoke('export-table', request),
+
+  showFileInFolder: (filePath: string): Promise<any> =>
+    ipcRenderer.invoke('show-file-in-folder', filePath),
+
+  // --- Data Source ---
+  dataSourceGet: (): Promise<any> =>
+    ipcRenderer.invoke('data-source-get'),
+
+  dataSourceSet: (kind: 'odbc' | 'xml' | 'bridge' | 'demo'): Promise<any> =>
+    ipcRenderer.invoke('data-source-set', kind),
+
+  mirrorStatus: (): Promise<any> =>
+    ipcRenderer.invoke('mirror-status'),
+
+  mirrorSyncNow: (): Promise<any> =>
+    ipcRenderer.invoke('mirror-sync-now'),
+
+  // --- Companies ---
+  companyList: (): Promise<any> =>
+    ipcRenderer.invoke('company-list'),
+
+  companyPin: (companyName: string, alias?: string): Promise<any> =>
+    ipcRenderer.invoke('company-pin', companyName, alias),
+
+  companyUnpin: (companyName: string): Promise<any> =>
+    ipcRenderer.invoke('company-unpin', companyName),
+
+  companySwitch: (companyName: string): Promise<any> =>
+    ipcRenderer.invoke('company-switch', companyName),
+
+  // --- Intent Router ---
+  intentRouterEvaluate: (corpus?: { query: string; intent: string; language: 'en' | 'hi' | 'hinglish' }[]): Promise<any> =>
+    ipcRenderer.invoke('intent-router-evaluate', corpus),
+
   // --- Utilities ---
   getSystemInfo: (): Promise<any> => 
     ipcRenderer.invoke('get-system-info'),
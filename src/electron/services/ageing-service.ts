@@ -0,0 +1,140 @@
+/**
+ * Ageing Service
+ * Bill-wise receivables/payables ageing in 0-30, 31-60, 61-90 and 90+ day buckets
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { OutstandingService, OutstandingSnapshot, OutstandingType } from './outstanding-service';
+
+export type AgeingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export const AGEING_BUCKETS: AgeingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+export interface AgedBill {
+  partyName: string;
+  billReference: string;
+  billDate?: Date;
+  dueDate?: Date;
+  amount: number; // Positive for the report's side; advances and on-account amounts are negative
+  overdueDays: number;
+  bucket: AgeingBucket;
+}
+
+export interface PartyAgeing {
+  partyName: string;
+  total: number;
+  buckets: Record<AgeingBucket, number>;
+  maxOverdueDays: number;
+  bills: AgedBill[];
+}
+
+export interface AgeingReport {
+  asAt: Date;
+  type: OutstandingType;
+  parties: PartyAgeing[];
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+  billWise: boolean;
+  source: 'xml' | 'odbc';
+  warnings: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class AgeingService {
+  private outstandingService: OutstandingService;
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.outstandingService = new OutstandingService(dataSource, xmlApiService);
+  }
+
+  /**
+   * Age open bills by days past their due date (the bill date when no credit period is set).
+   * Bills not yet due fall in the 0-30 bucket with zero overdue days.
+   */
+  async generateAgeing(type: OutstandingType, asAt: Date = new Date()): Promise<AgeingReport> {
+    const snapshot = await this.outstandingService.getOutstandingBills(asAt);
+    return this.buildReport(type, snapshot, asAt);
+  }
+
+  /**
+   * Receivables and payables ageing from a single load of the open bills
+   */
+  async generateAgeingReports(asAt: Date = new Date()): Promise<Record<OutstandingType, AgeingReport>> {
+    const snapshot = await this.outstandingService.getOutstandingBills(asAt);
+    return {
+      receivable: this.buildReport('receivable', snapshot, asAt),
+      payable: this.buildReport('payable', snapshot, asAt)
+    };
+  }
+
+  private buildReport(type: OutstandingType, snapshot: OutstandingSnapshot, asAt: Date): AgeingReport {
+    const warnings: string[] = [];
+    const { bills, billWise, source } = snapshot;
+
+    if (!billWise) {
+      warnings.push('Bill-wise details are not enabled in Tally - party balances are shown without ageing');
+    }
+
+    const partyMap = new Map<string, PartyAgeing>();
+    const totals = emptyBuckets();
+
+    bills
+      .filter(bill => bill.type === type)
+      .forEach(bill => {
+        const overdueDays = bill.dueDate ? Math.max(0, Math.floor((asAt.getTime() - bill.dueDate.getTime()) / DAY_MS)) : 0;
+        const aged: AgedBill = {
+          partyName: bill.partyName,
+          billReference: bill.billReference,
+          billDate: bill.billDate,
+          dueDate: bill.dueDate,
+          amount: type === 'receivable' ? bill.amount : -bill.amount,
+          overdueDays,
+          bucket: getAgeingBucket(overdueDays)
+        };
+
+        if (!partyMap.has(aged.partyName)) {
+          partyMap.set(aged.partyName, { partyName: aged.partyName, total: 0, buckets: emptyBuckets(), maxOverdueDays: 0, bills: [] });
+        }
+        const party = partyMap.get(aged.partyName)!;
+        party.bills.push(aged);
+        party.total += aged.amount;
+        party.buckets[aged.bucket] += aged.amount;
+        if (aged.amount > 0) {
+          party.maxOverdueDays = Math.max(party.maxOverdueDays, overdueDays);
+        }
+        totals[aged.bucket] += aged.amount;
+      });
+
+    const parties = Array.from(partyMap.values())
+      .filter(party => Math.abs(party.total) >= 0.01)
+      .sort((a, b) => b.total - a.total);
+    parties.forEach(party => party.bills.sort((a, b) => b.overdueDays - a.overdueDays));
+
+    const total = AGEING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0);
+    console.log(`⏳ ${type} ageing (${source}): ${parties.length} parties, ₹${total.toFixed(2)}, 90+ ₹${totals['90+'].toFixed(2)}`);
+
+    return {
+      asAt,
+      type,
+      parties,
+      buckets: totals,
+      total,
+      billWise,
+      source,
+      warnings
+    };
+  }
+}
+
+export function getAgeingBucket(overdueDays: number): AgeingBucket {
+  if (overdueDays <= 30) return '0-30';
+  if (overdueDays <= 60) return '31-60';
+  if (overdueDays <= 90) return '61-90';
+  return '90+';
+}
+
+function emptyBuckets(): Record<AgeingBucket, number> {
+  return { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
@@ -8,6 +8,8 @@ import makeWASocket, {
 import { Boom } from '@hapi/boom';
 import { S3Service, ClientMapping } from './s3-service';
 import { TallyService } from './tally-services';
+import { TallyDataSource } from './tally-data-source';
+import { odbcScheduler } from '../utils/odbc-scheduler';
 import jsPDF from 'jspdf';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -18,13 +20,29 @@ export interface WhatsAppBotConfig {
   markMessagesRead?: boolean;
 }
 
+export type OutboundMessageStatus = 'delivered' | 'read';
+
+export interface OutboundAttachment {
+  buffer: Buffer;
+  fileName: string;
+  mimetype: string;
+}
+
+// Returns true when the message was a reply the listener expected (e.g. to a payment reminder).
+// Such messages from unregistered numbers get no answer; registered clients still get their commands.
+export type InboundMessageListener = (phoneNumber: string, text: string) => boolean | Promise<boolean>;
+export type MessageStatusListener = (messageId: string, status: OutboundMessageStatus) => void;
+
 export class BaileysWhatsAppService {
   private socket: any;
   private s3Service: S3Service;
   private tallyService: TallyService;
+  private dataSource: TallyDataSource | null = null;
   private config: WhatsAppBotConfig;
   private isConnected: boolean = false;
   private authDir: string;
+  private inboundListeners: InboundMessageListener[] = [];
+  private statusListeners: MessageStatusListener[] = [];
 
   constructor(config: WhatsAppBotConfig = {}) {
     this.config = {
@@ -44,6 +62,13 @@ export class BaileysWhatsAppService {
     }
   }
 
+  /**
+   * Answer balance and report requests from the app's data source (and its offline mirror)
+   */
+  setDataSource(dataSource: TallyDataSource): void {
+    this.dataSource = dataSource;
+  }
+
   async start(): Promise<void> {
     try {
       console.log('Starting WhatsApp Bot...');
@@ -70,6 +95,11 @@ export class BaileysWhatsAppService {
         await this.handleIncomingMessages(m);
       });
 
+      // Track delivery/read receipts for messages we sent
+      this.socket.ev.on('messages.update', (updates: any[]) => {
+        this.handleMessageUpdates(updates);
+      });
+
       console.log('WhatsApp Bot initialized. Waiting for QR code...');
       
     } catch (error) {
@@ -113,7 +143,30 @@ export class BaileysWhatsAppService {
       // Skip status updates
       if (message.key.remoteJid === 'status@broadcast') continue;
 
-      await this.processMessage(message);
+      // Tally lookups for WhatsApp wait behind the desktop chat, ahead of background sync
+      await odbcScheduler.withPriority('whatsapp', () => this.processMessage(message));
+    }
+  }
+
+  private handleMessageUpdates(updates: any[]) {
+    for (const { key, update } of updates || []) {
+      if (!key?.fromMe || !key.id || update?.status === undefined) continue;
+
+      let status: OutboundMessageStatus | null = null;
+      if (update.status >= proto.WebMessageInfo.Status.READ) {
+        status = 'read';
+      } else if (update.status >= proto.WebMessageInfo.Status.DELIVERY_ACK) {
+        status = 'delivered';
+      }
+      if (!status) continue;
+
+      this.statusListeners.forEach(listener => {
+        try {
+          listener(key.id, status!);
+        } catch (error) {
+          console.error('Message status listener failed:', error);
+        }
+      });
     }
   }
 
@@ -129,11 +182,19 @@ export class BaileysWhatsAppService {
 
       // Extract phone number (remove @s.whatsapp.net)
       const phoneNumber = from.replace('@s.whatsapp.net', '');
-      
+
       // Get client mapping
       const clientMapping = await this.s3Service.getClientByWhatsApp(`+${phoneNumber}`);
-      
+
+      // Every listener sees the message (a client can also be a reminded debtor)
+      let expectedReply = false;
+      for (const listener of this.inboundListeners) {
+        if (await listener(phoneNumber, messageText)) expectedReply = true;
+      }
+
       if (!clientMapping) {
+        // Parties replying to our reminders aren't clients, so don't tell them to register
+        if (expectedReply) return;
         await this.sendTextMessage(from, 
           "❌ Your WhatsApp number is not registered with TallyKaro.\n\n" +
           "Please contact your accountant to register your number."
@@ -185,7 +246,7 @@ export class BaileysWhatsAppService {
     await this.sendTextMessage(from, "📊 Fetching your account balance...");
     
     try {
-      const ledgers = await this.tallyService.getAllLedgers();
+      const ledgers = await this.loadLedgers();
       const summary = this.formatBalanceSummary(ledgers, client.clientName);
       
       await this.sendTextMessage(from, summary);
@@ -297,6 +358,48 @@ What would you like to do?
     }
   }
 
+  /**
+   * Send a text (optionally with a document) to a phone number and return the message id.
+   * Unlike the reply helpers above, this throws so callers can record failed sends.
+   */
+  async sendMessageToNumber(phoneNumber: string, text: string, attachment?: OutboundAttachment): Promise<string | null> {
+    if (!this.isConnected) {
+      throw new Error('WhatsApp is not connected');
+    }
+
+    const jid = `${phoneNumber.replace(/\D/g, '')}@s.whatsapp.net`;
+    const sent = attachment
+      ? await this.socket.sendMessage(jid, {
+          document: attachment.buffer,
+          fileName: attachment.fileName,
+          mimetype: attachment.mimetype,
+          caption: text
+        })
+      : await this.socket.sendMessage(jid, { text });
+
+    return sent?.key?.id || null;
+  }
+
+  onInboundMessage(listener: InboundMessageListener): void {
+    this.inboundListeners.push(listener);
+  }
+
+  onMessageStatus(listener: MessageStatusListener): void {
+    this.statusListeners.push(listener);
+  }
+
+  /**
+   * Ledgers as { name, parent, balance }, the shape TallyService.getAllLedgers returns
+   */
+  private async loadLedgers(): Promise<any[]> {
+    if (!this.dataSource) {
+      return this.tallyService.getAllLedgers();
+    }
+
+    const ledgers = await this.dataSource.getLedgers();
+    return ledgers.map(ledger => ({ name: ledger.name, parent: ledger.parent, balance: ledger.closingBalance }));
+  }
+
   private formatBalanceSummary(ledgers: any[], clientName: string): string {
     if (!ledgers || ledgers.length === 0) {
       return `📊 *Balance Summary - ${clientName}*\n\nNo ledger data available.`;
@@ -332,7 +435,7 @@ What would you like to do?
     
     // Ledger data
     try {
-      const ledgers = await this.tallyService.getAllLedgers();
+      const ledgers = await this.loadLedgers();
       let yPos = 65;
       
       pdf.setFontSize(14);
@@ -370,7 +473,7 @@ What would you like to do?
     
     // Comprehensive ledger data
     try {
-      const ledgers = await this.tallyService.getAllLedgers();
+      const ledgers = await this.loadLedgers();
       let yPos = 65;
       
       pdf.setFontSize(14);
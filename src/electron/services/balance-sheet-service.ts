@@ -0,0 +1,146 @@
+/**
+ * Balance Sheet Service
+ * Rolls ledger closing balances up Tally's GROUP tree into primary groups
+ * and checks that both sides of the balance sheet agree
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { GroupHierarchyService, GroupedLedger, TallyGroupNode } from './group-hierarchy-service';
+import { ProfitLossService, getFinancialYearStart } from './profit-loss-service';
+
+export type BalanceSheetSide = 'asset' | 'liability';
+
+export interface BalanceSheetGroup {
+  name: string;
+  side: BalanceSheetSide;
+  total: number;
+  ledgers: { name: string; parent: string; balance: number }[];
+}
+
+export interface BalanceSheet {
+  asAt: Date;
+  groups: BalanceSheetGroup[];
+  closingStock: number;
+  currentPeriodProfit: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  difference: number;
+  isBalanced: boolean;
+  source: 'xml' | 'odbc';
+  warnings: string[];
+}
+
+// Primary groups in Tally's balance sheet order
+const LIABILITY_GROUPS = ['Capital Account', 'Loans (Liability)', 'Current Liabilities', 'Suspense A/c', 'Branch / Divisions'];
+const ASSET_GROUPS = ['Fixed Assets', 'Investments', 'Current Assets', 'Misc. Expenses (ASSET)'];
+const PROFIT_LOSS_LEDGER = 'Profit & Loss A/c';
+
+// Rounding tolerance when checking that assets equal liabilities
+const BALANCE_TOLERANCE = 1;
+
+export class BalanceSheetService {
+  private xmlApiService: TallyXMLAPIService;
+  private groupHierarchy: GroupHierarchyService;
+  private profitLossService: ProfitLossService;
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.xmlApiService = xmlApiService;
+    this.groupHierarchy = new GroupHierarchyService(dataSource);
+    this.profitLossService = new ProfitLossService(dataSource, xmlApiService);
+  }
+
+  /**
+   * Generate the balance sheet as at a date
+   */
+  async generateBalanceSheet(asAt: Date): Promise<BalanceSheet> {
+    const fyStart = getFinancialYearStart(asAt);
+    const warnings: string[] = [];
+
+    let ledgers: GroupedLedger[];
+    let groups: Map<string, TallyGroupNode>;
+    let source: 'xml' | 'odbc' = 'xml';
+    try {
+      groups = await this.groupHierarchy.loadGroups();
+      const xmlLedgers = await this.xmlApiService.getLedgerBalances(fyStart, asAt);
+      if (xmlLedgers.length === 0) {
+        throw new Error('No ledger balances returned by Tally XML API');
+      }
+      ledgers = xmlLedgers.map(ledger => ({
+        name: ledger.name,
+        parent: ledger.parent,
+        primaryGroup: this.groupHierarchy.resolvePrimaryGroup(ledger.parent, groups),
+        openingBalance: ledger.openingBalance,
+        closingBalance: ledger.closingBalance
+      }));
+    } catch (error) {
+      console.log('⚠️ XML balances unavailable, using ODBC closing balances:', error);
+      const snapshot = await this.groupHierarchy.loadSnapshot();
+      ledgers = snapshot.ledgers;
+      groups = snapshot.groups;
+      source = 'odbc';
+      warnings.push('Tally XML API not reachable - balances are as per the current period loaded in Tally');
+    }
+
+    // Current-year profit and closing stock come from the P&L, as in Tally
+    const profitLoss = await this.profitLossService.generateStatement(fyStart, asAt);
+    warnings.push(...profitLoss.warnings.filter(warning => !warnings.includes(warning)));
+
+    const groupMap = new Map<string, BalanceSheetGroup>();
+    LIABILITY_GROUPS.forEach(name => groupMap.set(name, { name, side: 'liability', total: 0, ledgers: [] }));
+    groupMap.set(PROFIT_LOSS_LEDGER, { name: PROFIT_LOSS_LEDGER, side: 'liability', total: 0, ledgers: [] });
+    ASSET_GROUPS.forEach(name => groupMap.set(name, { name, side: 'asset', total: 0, ledgers: [] }));
+
+    ledgers.forEach(ledger => {
+      const group = groupMap.get(ledger.primaryGroup)
+        || (ledger.name === PROFIT_LOSS_LEDGER ? groupMap.get(PROFIT_LOSS_LEDGER) : undefined);
+      if (!group || ledger.closingBalance === 0) return;
+
+      // Liabilities carry credit balances, so flip them to show as positive amounts
+      const balance = group.side === 'liability' ? -ledger.closingBalance : ledger.closingBalance;
+      group.ledgers.push({ name: ledger.name, parent: ledger.parent, balance });
+      group.total += balance;
+    });
+
+    const profitLossGroup = groupMap.get(PROFIT_LOSS_LEDGER)!;
+    profitLossGroup.ledgers.push({ name: 'Current Period', parent: PROFIT_LOSS_LEDGER, balance: profitLoss.netProfit });
+    profitLossGroup.total += profitLoss.netProfit;
+
+    // Without integrated inventory the Stock-in-Hand ledgers already carry the closing stock
+    const stockLedgersCarryBalance = ledgers.some(ledger =>
+      ledger.closingBalance !== 0 && this.groupHierarchy.isUnderGroup(ledger.parent, 'Stock-in-Hand', groups)
+    );
+    if (profitLoss.closingStock !== 0 && !stockLedgersCarryBalance) {
+      const currentAssets = groupMap.get('Current Assets')!;
+      currentAssets.ledgers.push({ name: 'Closing Stock', parent: 'Stock-in-Hand', balance: profitLoss.closingStock });
+      currentAssets.total += profitLoss.closingStock;
+    }
+
+    groupMap.forEach(group => group.ledgers.sort((a, b) => Math.abs(b.balance) - Math.abs(a.balance)));
+
+    const groupsList = Array.from(groupMap.values()).filter(group => group.ledgers.length > 0);
+    const totalAssets = groupsList.filter(g => g.side === 'asset').reduce((sum, g) => sum + g.total, 0);
+    const totalLiabilities = groupsList.filter(g => g.side === 'liability').reduce((sum, g) => sum + g.total, 0);
+    const difference = totalAssets - totalLiabilities;
+    const isBalanced = Math.abs(difference) <= BALANCE_TOLERANCE;
+
+    if (!isBalanced) {
+      warnings.push(`Assets and liabilities differ by ₹${Math.abs(difference).toLocaleString('en-IN', { maximumFractionDigits: 2 })} (usually a difference in opening balances)`);
+    }
+
+    console.log(`⚖️ Balance Sheet (${source}): assets ₹${totalAssets.toFixed(2)}, liabilities ₹${totalLiabilities.toFixed(2)}`);
+
+    return {
+      asAt,
+      groups: groupsList,
+      closingStock: profitLoss.closingStock,
+      currentPeriodProfit: profitLoss.netProfit,
+      totalAssets,
+      totalLiabilities,
+      difference,
+      isBalanced,
+      source,
+      warnings
+    };
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Bank Reconciliation Service
+ * Matches imported bank statement lines against a Tally bank ledger and builds
+ * the Bank Reconciliation Statement
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { PDFService } from './pdf-service';
+import { GroupHierarchyService, parseTallyAmount } from './group-hierarchy-service';
+import { getFinancialYearStart } from './profit-loss-service';
+import { BankStatementLine, ParsedBankStatement, parseBankStatement } from './bank-statement-parser';
+
+export interface BookBankEntry {
+  date: Date;
+  voucherNumber: string;
+  voucherType: string;
+  particulars: string;
+  narration: string;
+  instrumentNumber: string;
+  amount: number; // Dr-positive: receipts into the bank > 0, payments < 0
+}
+
+export interface BankMatch {
+  bankLine: BankStatementLine;
+  bookEntry: BookBankEntry;
+  matchType: 'reference' | 'amount-date';
+  dateDifference: number; // Days between the book date and the bank date
+}
+
+export interface BankReconciliation {
+  bankLedger: string;
+  fromDate: Date;
+  toDate: Date;
+  matched: BankMatch[];
+  unmatchedInBank: BankStatementLine[]; // On the statement, not in Tally
+  unmatchedInBooks: BookBankEntry[]; // In Tally, not (yet) on the statement
+  balanceAsPerBooks: number;
+  chequesIssuedNotPresented: number;
+  chequesDepositedNotCleared: number;
+  bankCreditsNotInBooks: number;
+  bankDebitsNotInBooks: number;
+  balanceAsPerBank: number;
+  statementClosingBalance?: number;
+  difference?: number;
+  warnings: string[];
+}
+
+export interface ReconciliationOptions {
+  dateToleranceDays?: number;
+  amountTolerance?: number;
+}
+
+// Groups whose ledgers can be reconciled against a bank statement
+const BANK_GROUPS = ['Bank Accounts', 'Bank OD A/c', 'Bank OCC A/c'];
+const DEFAULT_DATE_TOLERANCE_DAYS = 7;
+const DEFAULT_AMOUNT_TOLERANCE = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BankReconciliationService {
+  private dataSource: TallyDataSource;
+  private pdfService: PDFService;
+  private xmlApiService: TallyXMLAPIService;
+  private groupHierarchy: GroupHierarchyService;
+  // Last statement imported per bank ledger, so chat can reconcile without re-importing
+  private importedStatements = new Map<string, ParsedBankStatement>();
+
+  constructor(dataSource: TallyDataSource, pdfService: PDFService, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.pdfService = pdfService;
+    this.xmlApiService = xmlApiService;
+    this.groupHierarchy = new GroupHierarchyService(dataSource);
+  }
+
+  /**
+   * Read a statement file and remember it against the bank ledger
+   */
+  importStatement(filePath: string, bankLedger: string): ParsedBankStatement {
+    const content = fs.readFileSync(filePath, 'utf8');
+    const statement = parseBankStatement(content, path.basename(filePath));
+    if (statement.lines.length > 0) {
+      this.importedStatements.set(bankLedger.toLowerCase(), statement);
+    }
+    console.log(`🏦 Imported ${statement.lines.length} ${statement.format.toUpperCase()} statement lines for ${bankLedger}`);
+    return statement;
+  }
+
+  getImportedStatement(bankLedger: string): ParsedBankStatement | undefined {
+    return this.importedStatements.get(bankLedger.toLowerCase());
+  }
+
+  /**
+   * Bank ledgers (lowercased) that have a statement imported this session
+   */
+  getImportedLedgers(): string[] {
+    return Array.from(this.importedStatements.keys());
+  }
+
+  /**
+   * Ledgers under Bank Accounts / Bank OD / Bank OCC
+   */
+  async getBankLedgers(): Promise<{ name: string; closingBalance: number }[]> {
+    const snapshot = await this.groupHierarchy.loadSnapshot();
+    return snapshot.ledgers
+      .filter(ledger => BANK_GROUPS.some(group => this.groupHierarchy.isUnderGroup(ledger.parent, group, snapshot.groups)))
+      .map(ledger => ({ name: ledger.name, closingBalance: ledger.closingBalance }));
+  }
+
+  /**
+   * Match statement lines to book entries and build the BRS as at the statement end date
+   */
+  async reconcile(
+    bankLedger: string,
+    statement: ParsedBankStatement,
+    options: ReconciliationOptions = {}
+  ): Promise<BankReconciliation> {
+    if (!statement.fromDate || !statement.toDate || statement.lines.length === 0) {
+      throw new Error('The bank statement has no transactions to reconcile');
+    }
+
+    const dateTolerance = options.dateToleranceDays ?? DEFAULT_DATE_TOLERANCE_DAYS;
+    const amountTolerance = options.amountTolerance ?? DEFAULT_AMOUNT_TOLERANCE;
+    const warnings = [...statement.warnings];
+
+    // Book entries from a little before the statement so cheques that cleared late still match
+    const bookFrom = new Date(statement.fromDate.getTime() - dateTolerance * DAY_MS);
+    const bookEntries = await this.loadBookEntries(bankLedger, bookFrom, statement.toDate);
+
+    const matched: BankMatch[] = [];
+    const unmatchedBooks = new Set(bookEntries);
+    const unmatchedInBank: BankStatementLine[] = [];
+
+    // Pass 1: cheque/UTR reference with the same amount; pass 2: same amount within the date window
+    const pending = [...statement.lines];
+    const passes: BankMatch['matchType'][] = ['reference', 'amount-date'];
+    passes.forEach(matchType => {
+      for (let i = pending.length - 1; i >= 0; i--) {
+        const line = pending[i];
+        const match = this.findBookMatch(line, unmatchedBooks, matchType, dateTolerance, amountTolerance);
+        if (!match) continue;
+
+        unmatchedBooks.delete(match);
+        pending.splice(i, 1);
+        matched.push({
+          bankLine: line,
+          bookEntry: match,
+          matchType,
+          dateDifference: Math.round((line.date.getTime() - match.date.getTime()) / DAY_MS)
+        });
+      }
+    });
+    unmatchedInBank.push(...pending);
+
+    // Book entries dated before the statement that didn't match were cleared in an earlier statement
+    const unmatchedInBooks = Array.from(unmatchedBooks).filter(entry => entry.date >= statement.fromDate!);
+
+    const balanceAsPerBooks = await this.getBookBalance(bankLedger, statement.toDate);
+    const chequesIssuedNotPresented = unmatchedInBooks.filter(e => e.amount < 0).reduce((sum, e) => sum - e.amount, 0);
+    const chequesDepositedNotCleared = unmatchedInBooks.filter(e => e.amount > 0).reduce((sum, e) => sum + e.amount, 0);
+    const bankCreditsNotInBooks = unmatchedInBank.filter(l => l.amount > 0).reduce((sum, l) => sum + l.amount, 0);
+    const bankDebitsNotInBooks = unmatchedInBank.filter(l => l.amount < 0).reduce((sum, l) => sum - l.amount, 0);
+
+    // Books are Dr-positive and a bank statement shows our deposit as a credit balance,
+    // so both are positive when money is in the account
+    const balanceAsPerBank = balanceAsPerBooks
+      + chequesIssuedNotPresented
+      - chequesDepositedNotCleared
+      + bankCreditsNotInBooks
+      - bankDebitsNotInBooks;
+
+    let difference: number | undefined;
+    if (statement.closingBalance !== undefined) {
+      difference = statement.closingBalance - balanceAsPerBank;
+      if (Math.abs(difference) > amountTolerance) {
+        warnings.push(`Reconciled balance differs from the statement closing balance by ₹${Math.abs(difference).toLocaleString('en-IN', { maximumFractionDigits: 2 })} - check the opening balance or entries before ${statement.fromDate.toLocaleDateString('en-IN')}`);
+      }
+    }
+
+    console.log(`🏦 BRS ${bankLedger}: ${matched.length} matched, ${unmatchedInBank.length} only in bank, ${unmatchedInBooks.length} only in books`);
+
+    return {
+      bankLedger,
+      fromDate: statement.fromDate,
+      toDate: statement.toDate,
+      matched: matched.sort((a, b) => a.bankLine.date.getTime() - b.bankLine.date.getTime()),
+      unmatchedInBank,
+      unmatchedInBooks: unmatchedInBooks.sort((a, b) => a.date.getTime() - b.date.getTime()),
+      balanceAsPerBooks,
+      chequesIssuedNotPresented,
+      chequesDepositedNotCleared,
+      bankCreditsNotInBooks,
+      bankDebitsNotInBooks,
+      balanceAsPerBank,
+      statementClosingBalance: statement.closingBalance,
+      difference,
+      warnings
+    };
+  }
+
+  /**
+   * Bank Reconciliation Statement PDF: book balance adjusted item by item to the bank balance
+   */
+  async generateStatementPDF(reconciliation: BankReconciliation): Promise<{ success: boolean; filePath?: string; error?: string }> {
+    const formatDate = (date: Date) => date.toLocaleDateString('en-IN');
+    const rows: any[] = [{ particulars: 'Balance as per Books', amount: reconciliation.balanceAsPerBooks, isTotal: true }];
+
+    const addSection = (section: string, items: { particulars: string; amount: number }[], total: number) => {
+      if (items.length === 0) return;
+      items.forEach(item => rows.push({ section, ...item }));
+      rows.push({ particulars: `Total (${section})`, amount: total, isTotal: true });
+    };
+
+    const bookItem = (entry: BookBankEntry) => ({
+      particulars: `${formatDate(entry.date)} ${entry.voucherType} ${entry.voucherNumber} - ${entry.particulars}${entry.instrumentNumber ? ` (Chq ${entry.instrumentNumber})` : ''}`,
+      amount: Math.abs(entry.amount)
+    });
+    const bankItem = (line: BankStatementLine) => ({
+      particulars: `${formatDate(line.date)} ${line.description}${line.reference ? ` (${line.reference})` : ''}`,
+      amount: Math.abs(line.amount)
+    });
+
+    addSection('Add: Cheques issued but not presented', reconciliation.unmatchedInBooks.filter(e => e.amount < 0).map(bookItem), reconciliation.chequesIssuedNotPresented);
+    addSection('Less: Cheques deposited but not cleared', reconciliation.unmatchedInBooks.filter(e => e.amount > 0).map(bookItem), reconciliation.chequesDepositedNotCleared);
+    addSection('Add: Credits in bank not recorded in books', reconciliation.unmatchedInBank.filter(l => l.amount > 0).map(bankItem), reconciliation.bankCreditsNotInBooks);
+    addSection('Less: Debits in bank not recorded in books', reconciliation.unmatchedInBank.filter(l => l.amount < 0).map(bankItem), reconciliation.bankDebitsNotInBooks);
+
+    rows.push({ particulars: 'Balance as per Bank', amount: reconciliation.balanceAsPerBank, isTotal: true });
+    if (reconciliation.statementClosingBalance !== undefined) {
+      rows.push({ particulars: 'Balance as per Bank Statement', amount: reconciliation.statementClosingBalance, isTotal: true });
+    }
+
+    return this.pdfService.generateTallyFormatPDF({
+      title: `BRS ${reconciliation.bankLedger}`,
+      companyName: await this.getCompanyName(),
+      reportDate: new Date().toLocaleDateString('en-IN'),
+      data: rows,
+      type: 'bank-reconciliation',
+      period: {
+        from: formatDate(reconciliation.fromDate),
+        to: formatDate(reconciliation.toDate)
+      }
+    });
+  }
+
+  private findBookMatch(
+    line: BankStatementLine,
+    candidates: Set<BookBankEntry>,
+    matchType: BankMatch['matchType'],
+    dateTolerance: number,
+    amountTolerance: number
+  ): BookBankEntry | null {
+    let best: BookBankEntry | null = null;
+    let bestScore = Infinity;
+    const lineText = `${line.reference} ${line.description}`.toLowerCase();
+
+    candidates.forEach(entry => {
+      if (Math.abs(entry.amount - line.amount) > amountTolerance) return;
+      const daysApart = Math.abs(line.date.getTime() - entry.date.getTime()) / DAY_MS;
+
+      if (matchType === 'reference') {
+        const reference = normaliseReference(entry.instrumentNumber);
+        if (!reference || !(normaliseReference(line.reference) === reference || lineText.includes(reference))) return;
+        // Cheques can take a while to clear, so references get a wider window
+        if (daysApart > dateTolerance * 4) return;
+      } else if (daysApart > dateTolerance) {
+        return;
+      }
+
+      // Prefer the closest date, then a party name that appears in the bank narration
+      const nameHint = entry.particulars && lineText.includes(entry.particulars.toLowerCase().split(' ')[0]) ? -0.5 : 0;
+      const score = daysApart + nameHint;
+      if (score < bestScore) {
+        bestScore = score;
+        best = entry;
+      }
+    });
+
+    return best;
+  }
+
+  private async loadBookEntries(bankLedger: string, fromDate: Date, toDate: Date): Promise<BookBankEntry[]> {
+    const vouchers = await this.xmlApiService.getLedgerVouchers(bankLedger, fromDate, toDate);
+    return vouchers
+      .filter(voucher => voucher.amount !== 0)
+      .map(voucher => ({
+        date: parseCompactDate(voucher.voucherDate) || fromDate,
+        voucherNumber: voucher.voucherNumber,
+        voucherType: voucher.voucherType,
+        particulars: voucher.partyName,
+        narration: voucher.narration,
+        instrumentNumber: voucher.bankAllocations.map(allocation => allocation.instrumentNumber).find(Boolean) || '',
+        amount: voucher.amount
+      }));
+  }
+
+  /**
+   * Book balance of the bank ledger at the statement date, falling back to the current closing balance
+   */
+  private async getBookBalance(bankLedger: string, asAt: Date): Promise<number> {
+    try {
+      const balances = await this.xmlApiService.getLedgerBalances(getFinancialYearStart(asAt), asAt);
+      const ledger = balances.find(balance => balance.name.toLowerCase() === bankLedger.toLowerCase());
+      if (ledger) return ledger.closingBalance;
+    } catch (error) {
+      console.log('⚠️ XML ledger balance unavailable, using ODBC closing balance:', error);
+    }
+
+    const result = await this.dataSource.executeQuery(
+      `SELECT $Name, $ClosingBalance FROM Ledger WHERE $Name = '${bankLedger.replace(/'/g, "''")}'`
+    );
+    const row = result.success && result.data && result.data[0];
+    return row ? parseTallyAmount(row.$ClosingBalance) : 0;
+  }
+
+  private async getCompanyName(): Promise<string> {
+    const result = await this.dataSource.executeQuery('SELECT $Name FROM Company');
+    const company = result.success && result.data && result.data[0];
+    return (company && (company.$Name || company.Name)) || 'Your Company';
+  }
+}
+
+function normaliseReference(reference: string): string {
+  return (reference || '').toLowerCase().replace(/[^a-z0-9]/g, '').replace(/^0+(?=\d)/, '');
+}
+
+function parseCompactDate(value: string): Date | undefined {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : undefined;
+}
@@ -0,0 +1,283 @@
+/**
+ * Bank Statement Parser
+ * Reads downloaded bank statements (CSV/TSV exports from Indian banks, and OFX)
+ * into a common list of dated lines
+ */
+
+export type BankStatementFormat = 'csv' | 'ofx';
+
+export interface BankStatementLine {
+  date: Date;
+  description: string;
+  reference: string;
+  amount: number; // Deposits (credits in the bank's books) > 0, withdrawals < 0
+  balance?: number;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  bankName?: string;
+  lines: BankStatementLine[];
+  fromDate?: Date;
+  toDate?: Date;
+  closingBalance?: number;
+  warnings: string[];
+}
+
+// Header spellings used by common Indian bank exports (HDFC, ICICI, SBI, Axis, Kotak, Yes, PNB, BoB)
+const COLUMN_ALIASES = {
+  date: ['date', 'txn date', 'transaction date', 'tran date', 'value date', 'value dt', 'posting date', 'trans date'],
+  description: ['narration', 'description', 'particulars', 'transaction remarks', 'remarks', 'details', 'transaction details'],
+  reference: ['chq./ref.no.', 'chq/ref no', 'chq./ref no.', 'ref no./cheque no.', 'cheque number', 'cheque no', 'cheque no.', 'chqno', 'chq no', 'reference', 'ref no', 'utr', 'instrument id'],
+  debit: ['withdrawal amt.', 'withdrawal amount', 'withdrawal amount (inr )', 'withdrawal', 'withdrawals', 'debit', 'debit amount', 'dr', 'dr amount'],
+  credit: ['deposit amt.', 'deposit amount', 'deposit amount (inr )', 'deposit', 'deposits', 'credit', 'credit amount', 'cr', 'cr amount'],
+  amount: ['amount', 'transaction amount', 'amount (inr)', 'txn amount'],
+  drCr: ['dr/cr', 'cr/dr', 'dr / cr', 'type', 'debit/credit'],
+  balance: ['closing balance', 'balance', 'balance (inr )', 'balance (inr)', 'bal', 'running balance', 'available balance']
+};
+
+type ColumnKey = keyof typeof COLUMN_ALIASES;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Parse a statement file's text; OFX is detected from its content, everything else is read as delimited text
+ */
+export function parseBankStatement(content: string, fileName: string = ''): ParsedBankStatement {
+  const isOFX = /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(content);
+  const statement = isOFX ? parseOFX(content) : parseDelimited(content);
+
+  statement.lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (statement.lines.length > 0) {
+    statement.fromDate = statement.fromDate || statement.lines[0].date;
+    statement.toDate = statement.toDate || statement.lines[statement.lines.length - 1].date;
+    if (statement.closingBalance === undefined) {
+      statement.closingBalance = statement.lines[statement.lines.length - 1].balance;
+    }
+  } else {
+    statement.warnings.push('No transactions could be read from the statement');
+  }
+
+  return statement;
+}
+
+/**
+ * OFX/QFX (SGML or XML flavour): one STMTTRN block per transaction
+ */
+function parseOFX(content: string): ParsedBankStatement {
+  const warnings: string[] = [];
+  const lines: BankStatementLine[] = [];
+
+  // SGML OFX leaves leaf tags unclosed, so read each tag's value up to the next tag
+  const tagValue = (block: string, tag: string): string => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match ? match[1].trim() : '';
+  };
+
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  blocks.forEach(block => {
+    const date = parseOFXDate(tagValue(block, 'DTPOSTED'));
+    const amount = parseFloat(tagValue(block, 'TRNAMT').replace(/,/g, ''));
+    if (!date || isNaN(amount)) {
+      warnings.push(`Skipped an OFX transaction without a date or amount (${tagValue(block, 'FITID') || 'no id'})`);
+      return;
+    }
+
+    lines.push({
+      date,
+      description: [tagValue(block, 'NAME'), tagValue(block, 'MEMO')].filter(Boolean).join(' - '),
+      reference: tagValue(block, 'CHECKNUM') || tagValue(block, 'REFNUM') || tagValue(block, 'FITID'),
+      amount
+    });
+  });
+
+  const ledgerBalance = content.match(/<LEDGERBAL>[\s\S]*?<BALAMT>([^<\r\n]*)/i);
+  const closingBalance = ledgerBalance ? parseFloat(ledgerBalance[1].replace(/,/g, '')) : undefined;
+
+  return {
+    format: 'ofx',
+    bankName: tagValue(content, 'ORG') || undefined,
+    lines,
+    fromDate: parseOFXDate(tagValue(content, 'DTSTART')),
+    toDate: parseOFXDate(tagValue(content, 'DTEND')),
+    closingBalance: closingBalance !== undefined && !isNaN(closingBalance) ? closingBalance : undefined,
+    warnings
+  };
+}
+
+/**
+ * CSV/TSV exports: find the header row (banks put account details above it), map its
+ * columns, and read rows until the footer
+ */
+function parseDelimited(content: string): ParsedBankStatement {
+  const warnings: string[] = [];
+  const rawLines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const delimiter = detectDelimiter(rawLines);
+  const rows = rawLines.map(line => splitDelimitedLine(line, delimiter));
+
+  let headerIndex = -1;
+  let columns: Partial<Record<ColumnKey, number>> = {};
+  for (let i = 0; i < Math.min(rows.length, 60); i++) {
+    const mapped = mapColumns(rows[i]);
+    const hasAmounts = mapped.amount !== undefined || mapped.debit !== undefined || mapped.credit !== undefined;
+    if (mapped.date !== undefined && hasAmounts) {
+      headerIndex = i;
+      columns = mapped;
+      break;
+    }
+  }
+
+  if (headerIndex < 0) {
+    return {
+      format: 'csv',
+      lines: [],
+      warnings: ['Could not find a header row with date and amount columns - export the statement as CSV with column headings']
+    };
+  }
+
+  const bankName = detectBankName(rawLines.slice(0, headerIndex + 1).join(' '));
+  const lines: BankStatementLine[] = [];
+  let skipped = 0;
+
+  rows.slice(headerIndex + 1).forEach(row => {
+    if (row.every(cell => !cell.trim())) return;
+
+    const date = parseStatementDate(cellAt(row, columns.date));
+    if (!date) {
+      // Separator rows, page footers and totals have no date
+      if (row.some(cell => /\d/.test(cell))) skipped++;
+      return;
+    }
+
+    let amount = 0;
+    if (columns.debit !== undefined || columns.credit !== undefined) {
+      amount = parseStatementAmount(cellAt(row, columns.credit)) - parseStatementAmount(cellAt(row, columns.debit));
+    } else {
+      const rawAmount = cellAt(row, columns.amount);
+      amount = parseStatementAmount(rawAmount);
+      const drCr = `${cellAt(row, columns.drCr)} ${rawAmount}`.toLowerCase();
+      if (/\b(dr|debit|d)\b/.test(drCr) && amount > 0) amount = -amount;
+    }
+    if (amount === 0) return;
+
+    const balanceText = cellAt(row, columns.balance);
+    lines.push({
+      date,
+      description: cellAt(row, columns.description).trim(),
+      reference: cellAt(row, columns.reference).trim().replace(/^0+(?=\d)/, ''),
+      amount,
+      balance: balanceText ? parseStatementAmount(balanceText, true) : undefined
+    });
+  });
+
+  if (skipped > 0) {
+    warnings.push(`${skipped} row(s) without a readable date were skipped`);
+  }
+
+  return { format: 'csv', bankName, lines, warnings };
+}
+
+function detectDelimiter(lines: string[]): string {
+  const sample = lines.slice(0, 40).join('\n');
+  const counts = [',', '\t', ';', '|'].map(delimiter => ({ delimiter, count: sample.split(delimiter).length }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function mapColumns(row: string[]): Partial<Record<ColumnKey, number>> {
+  const columns: Partial<Record<ColumnKey, number>> = {};
+  row.forEach((cell, index) => {
+    const header = cell.toLowerCase().replace(/\s+/g, ' ').trim();
+    if (!header) return;
+
+    (Object.keys(COLUMN_ALIASES) as ColumnKey[]).forEach(key => {
+      // Keep the first match, e.g. "Txn Date" wins over a later "Value Date"
+      if (columns[key] === undefined && COLUMN_ALIASES[key].includes(header)) {
+        columns[key] = index;
+      }
+    });
+  });
+  return columns;
+}
+
+function cellAt(row: string[], index?: number): string {
+  return index !== undefined && index < row.length ? row[index] : '';
+}
+
+function detectBankName(text: string): string | undefined {
+  const banks = ['HDFC', 'ICICI', 'State Bank of India', 'SBI', 'Axis', 'Kotak', 'Yes Bank', 'Punjab National', 'Bank of Baroda', 'IDFC', 'IndusInd', 'Canara', 'Union Bank'];
+  return banks.find(bank => text.toLowerCase().includes(bank.toLowerCase()));
+}
+
+/**
+ * Amounts like "1,23,456.78", "(500.00)", "500.00 Dr" or "₹ 1,000 CR"
+ */
+export function parseStatementAmount(value: string, signed: boolean = false): number {
+  if (!value) return 0;
+  const text = value.trim();
+  const numeric = parseFloat(text.replace(/[₹,\s]|INR|Rs\.?/gi, '').replace(/[()]/g, '').replace(/(dr|cr)$/i, ''));
+  if (isNaN(numeric)) return 0;
+
+  const isNegative = /^\(.*\)$/.test(text) || (signed && /dr$/i.test(text));
+  return isNegative ? -Math.abs(numeric) : Math.abs(numeric);
+}
+
+/**
+ * Dates in the layouts Indian banks use: 05/04/2025, 05-04-25, 05-Apr-2025, 05 Apr 2025, 2025-04-05
+ */
+export function parseStatementDate(value: string): Date | undefined {
+  const text = (value || '').trim();
+  if (!text) return undefined;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return buildDate(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+
+  match = text.match(/^(\d{1,2})[\/\-. ](\d{1,2})[\/\-. ](\d{2,4})/);
+  if (match) return buildDate(expandYear(match[3]), parseInt(match[2]) - 1, parseInt(match[1]));
+
+  match = text.match(/^(\d{1,2})[\/\-. ]([A-Za-z]{3})[A-Za-z]*[\/\-. ,]+(\d{2,4})/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    if (month >= 0) return buildDate(expandYear(match[3]), month, parseInt(match[1]));
+  }
+
+  return undefined;
+}
+
+function parseOFXDate(value: string): Date | undefined {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? buildDate(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : undefined;
+}
+
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + parseInt(year) : parseInt(year);
+}
+
+function buildDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(year, month, day);
+  return date.getMonth() === month && date.getDate() === day ? date : undefined;
+}
@@ -5,7 +5,7 @@
  * Replaces OpenAI and Google Gemini services
  */
 
-import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { llmGateway } from '../utils/ai/llm-gateway';
 
 export interface BedrockResponse {
   response: string;
@@ -16,36 +16,16 @@ export interface BedrockResponse {
 }
 
 export class BedrockService {
-  private client: BedrockRuntimeClient;
-  private modelId: string;
   private isConfigured: boolean = false;
 
   constructor() {
-    const bearerToken = process.env.AWS_BEARER_TOKEN_BEDROCK;
-    const region = process.env.AWS_REGION || 'us-east-1';
-    this.modelId = process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-5-sonnet-20241022-v2:0';
-
-    if (!bearerToken || bearerToken.includes('PLACEHOLDER')) {
+    // The gateway's Bedrock adapter owns the client (AWS_BEARER_TOKEN_BEDROCK, AWS_REGION, BEDROCK_MODEL_ID)
+    this.isConfigured = llmGateway.getAvailableProviders().includes('bedrock');
+    if (!this.isConfigured) {
       console.log('🔄 Bedrock not configured - using fallback query processing');
-      this.isConfigured = false;
       return;
     }
-
-    try {
-      this.client = new BedrockRuntimeClient({
-        region,
-        credentials: {
-          accessKeyId: 'unused', // Bearer token doesn't use access keys
-          secretAccessKey: 'unused',
-          sessionToken: bearerToken
-        }
-      });
-      this.isConfigured = true;
-      console.log('✅ AWS Bedrock initialized with Claude 3.5 Sonnet');
-    } catch (error) {
-      console.error('❌ Failed to initialize Bedrock:', error);
-      this.isConfigured = false;
-    }
+    console.log('✅ AWS Bedrock initialized with Claude 3.5 Sonnet');
   }
 
   async processQuery(userQuery: string): Promise<BedrockResponse> {
@@ -56,26 +36,13 @@ export class BedrockService {
     try {
       const prompt = this.buildPrompt(userQuery);
 
-      const command = new InvokeModelCommand({
-        modelId: this.modelId,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          anthropic_version: 'bedrock-2023-05-31',
-          max_tokens: 1024,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
-      });
-
-      const response = await this.client.send(command);
-      const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-
-      return this.parseBedrockResponse(responseBody.content[0].text, userQuery);
+      const completion = await llmGateway.complete({
+        prompt,
+        maxTokens: 1024,
+        label: 'query-classification'
+      }, { providers: ['bedrock'] });
+
+      return this.parseBedrockResponse(completion.text, userQuery);
     } catch (error) {
       console.error('Bedrock query error:', error);
       return this.fallbackProcessing(userQuery);
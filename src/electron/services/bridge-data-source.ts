@@ -0,0 +1,51 @@
+/**
+ * Bridge Data Source
+ * Reads the books through the Python bridge server, which holds the ODBC connection
+ */
+
+import { TallyBridgeClient, BridgeConnectionConfig, BridgeConnectionStatus } from './tally-bridge-client';
+import { TallyQueryResult } from './tally-services';
+import { SqlDataSource, DataSourceKind } from './tally-data-source';
+
+export class BridgeDataSource extends SqlDataSource {
+  readonly kind: DataSourceKind = 'bridge';
+  private bridgeClient: TallyBridgeClient;
+  private connected: boolean = false;
+
+  constructor(bridgeClient: TallyBridgeClient) {
+    super();
+    this.bridgeClient = bridgeClient;
+  }
+
+  async connect(config: BridgeConnectionConfig): Promise<BridgeConnectionStatus> {
+    const status = await this.bridgeClient.connect(config);
+    this.connected = status.is_connected;
+    return status;
+  }
+
+  /**
+   * Re-read the bridge's connection state (the bridge may have lost Tally since connect)
+   */
+  async refreshStatus(): Promise<boolean> {
+    const status = await this.bridgeClient.getStatus();
+    this.connected = status.is_connected;
+    return this.connected;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async executeQuery(sql: string): Promise<TallyQueryResult> {
+    const response = await this.bridgeClient.executeQuery(sql);
+    return {
+      success: response.success,
+      data: response.data,
+      error: response.error,
+      rowCount: response.row_count,
+      executionTime: response.execution_time_ms,
+      query: sql,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Cash Flow Service
+ * Indirect-method cash flow statement and a forward cash projection
+ * built from outstanding bills and their due dates
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { GroupHierarchyService, TallyGroupNode } from './group-hierarchy-service';
+import { ProfitLossService, getFinancialYearStart } from './profit-loss-service';
+import { OutstandingService } from './outstanding-service';
+
+export type CashFlowActivity = 'operating' | 'investing' | 'financing';
+
+export interface CashFlowLine {
+  activity: CashFlowActivity;
+  particulars: string;
+  amount: number;
+}
+
+export interface CashFlowStatement {
+  fromDate: Date;
+  toDate: Date;
+  netProfit: number;
+  lines: CashFlowLine[];
+  operatingTotal: number;
+  investingTotal: number;
+  financingTotal: number;
+  netChange: number;
+  openingCash: number;
+  closingCash: number;
+  difference: number;
+  source: 'xml' | 'odbc';
+  warnings: string[];
+}
+
+export interface CashProjectionHorizon {
+  days: number;
+  receipts: number;
+  payments: number;
+  projectedCash: number;
+}
+
+export interface CashProjection {
+  asOf: Date;
+  currentCash: number;
+  horizons: CashProjectionHorizon[];
+  overdueReceivables: number;
+  overduePayables: number;
+  billWise: boolean;
+  warnings: string[];
+}
+
+interface PeriodLedger {
+  name: string;
+  parent: string;
+  primaryGroup: string;
+  opening: number;
+  closing: number;
+}
+
+// Groups whose ledgers are cash or cash equivalents
+const CASH_GROUPS = ['Cash-in-Hand', 'Bank Accounts', 'Bank OD A/c', 'Bank OCC A/c'];
+const PROFIT_LOSS_GROUPS = ['Sales Accounts', 'Purchase Accounts', 'Direct Incomes', 'Direct Expenses', 'Indirect Incomes', 'Indirect Expenses'];
+const INVESTING_GROUPS = ['Fixed Assets', 'Investments'];
+const FINANCING_GROUPS = ['Capital Account', 'Loans (Liability)'];
+
+const DEFAULT_HORIZONS = [30, 60, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class CashFlowService {
+  private xmlApiService: TallyXMLAPIService;
+  private groupHierarchy: GroupHierarchyService;
+  private profitLossService: ProfitLossService;
+  private outstandingService: OutstandingService;
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.xmlApiService = xmlApiService;
+    this.groupHierarchy = new GroupHierarchyService(dataSource);
+    this.profitLossService = new ProfitLossService(dataSource, xmlApiService);
+    this.outstandingService = new OutstandingService(dataSource, xmlApiService);
+  }
+
+  /**
+   * Indirect-method cash flow: net profit adjusted for stock and balance sheet movements
+   */
+  async generateStatement(fromDate: Date, toDate: Date): Promise<CashFlowStatement> {
+    const profitLoss = await this.profitLossService.generateStatement(fromDate, toDate);
+    // The P&L may have clamped the period to the financial year
+    fromDate = profitLoss.fromDate;
+
+    const groups = await this.groupHierarchy.loadGroups();
+    const { ledgers, source, warnings } = await this.loadPeriodBalances(fromDate, toDate, groups);
+    warnings.push(...profitLoss.warnings.filter(warning => !warnings.includes(warning)));
+
+    const isCash = (ledger: PeriodLedger) => CASH_GROUPS.some(group => this.groupHierarchy.isUnderGroup(ledger.parent, group, groups));
+    const isStock = (ledger: PeriodLedger) => this.groupHierarchy.isUnderGroup(ledger.parent, 'Stock-in-Hand', groups);
+
+    const lines: CashFlowLine[] = [
+      { activity: 'operating', particulars: 'Net Profit', amount: profitLoss.netProfit },
+      { activity: 'operating', particulars: 'Decrease/(Increase) in Stock', amount: profitLoss.openingStock - profitLoss.closingStock }
+    ];
+
+    // Movement of every non-cash balance sheet ledger, rolled up by its immediate group
+    const movements = new Map<string, CashFlowLine>();
+    let openingCash = 0;
+    let closingCash = 0;
+
+    ledgers.forEach(ledger => {
+      if (isCash(ledger)) {
+        openingCash += ledger.opening;
+        closingCash += ledger.closing;
+        return;
+      }
+      if (PROFIT_LOSS_GROUPS.includes(ledger.primaryGroup) || isStock(ledger)) return;
+
+      // Dr-positive balances: a rise in an asset (or fall in a liability) uses cash
+      const cashEffect = -(ledger.closing - ledger.opening);
+      if (Math.abs(cashEffect) < 0.01) return;
+
+      const activity: CashFlowActivity = INVESTING_GROUPS.includes(ledger.primaryGroup)
+        ? 'investing'
+        : FINANCING_GROUPS.includes(ledger.primaryGroup) ? 'financing' : 'operating';
+      const key = `${activity}|${ledger.parent}`;
+      if (!movements.has(key)) {
+        movements.set(key, { activity, particulars: `Change in ${ledger.parent}`, amount: 0 });
+      }
+      movements.get(key)!.amount += cashEffect;
+    });
+
+    const sortedMovements = Array.from(movements.values())
+      .filter(line => Math.abs(line.amount) >= 0.01)
+      .sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+    lines.push(...sortedMovements);
+
+    const total = (activity: CashFlowActivity) => lines
+      .filter(line => line.activity === activity)
+      .reduce((sum, line) => sum + line.amount, 0);
+
+    const operatingTotal = total('operating');
+    const investingTotal = total('investing');
+    const financingTotal = total('financing');
+    const netChange = operatingTotal + investingTotal + financingTotal;
+    const difference = (closingCash - openingCash) - netChange;
+
+    if (Math.abs(difference) > 1) {
+      warnings.push(`Computed cash movement differs from actual cash/bank movement by ₹${Math.abs(difference).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`);
+    }
+
+    console.log(`💧 Cash flow (${source}): operating ₹${operatingTotal.toFixed(2)}, net ₹${netChange.toFixed(2)}`);
+
+    return {
+      fromDate,
+      toDate,
+      netProfit: profitLoss.netProfit,
+      lines,
+      operatingTotal,
+      investingTotal,
+      financingTotal,
+      netChange,
+      openingCash,
+      closingCash,
+      difference,
+      source,
+      warnings
+    };
+  }
+
+  /**
+   * Project cash and bank balance forward using receivable/payable due dates.
+   * Overdue bills are assumed to settle inside the first horizon.
+   */
+  async projectCashPosition(asOf: Date = new Date(), horizons: number[] = DEFAULT_HORIZONS): Promise<CashProjection> {
+    const warnings: string[] = [];
+    const snapshot = await this.groupHierarchy.loadSnapshot();
+
+    const currentCash = snapshot.ledgers
+      .filter(ledger => CASH_GROUPS.some(group => this.groupHierarchy.isUnderGroup(ledger.parent, group, snapshot.groups)))
+      .reduce((sum, ledger) => sum + ledger.closingBalance, 0);
+
+    const { bills, billWise } = await this.outstandingService.getOutstandingBills(asOf);
+    if (!billWise) {
+      warnings.push('Bill-wise details are not enabled in Tally - all outstanding balances are assumed to fall due within 30 days');
+    }
+
+    const daysUntilDue = (dueDate?: Date) => dueDate ? Math.ceil((dueDate.getTime() - asOf.getTime()) / DAY_MS) : 0;
+
+    let overdueReceivables = 0;
+    let overduePayables = 0;
+    bills.forEach(bill => {
+      if (daysUntilDue(bill.dueDate) >= 0) return;
+      if (bill.type === 'receivable') overdueReceivables += bill.amount;
+      else overduePayables += Math.abs(bill.amount);
+    });
+
+    if (overdueReceivables > 0) {
+      warnings.push(`₹${overdueReceivables.toLocaleString('en-IN', { maximumFractionDigits: 0 })} of receivables are already overdue and are assumed to be collected within ${horizons[0]} days`);
+    }
+
+    const projections = horizons.map(days => {
+      const dueWithin = bills.filter(bill => daysUntilDue(bill.dueDate) <= days);
+      const receipts = dueWithin.filter(bill => bill.type === 'receivable').reduce((sum, bill) => sum + bill.amount, 0);
+      const payments = dueWithin.filter(bill => bill.type === 'payable').reduce((sum, bill) => sum + Math.abs(bill.amount), 0);
+      return { days, receipts, payments, projectedCash: currentCash + receipts - payments };
+    });
+
+    return {
+      asOf,
+      currentCash,
+      horizons: projections,
+      overdueReceivables,
+      overduePayables,
+      billWise,
+      warnings
+    };
+  }
+
+  /**
+   * Ledger balances at the start and end of the period
+   */
+  private async loadPeriodBalances(
+    fromDate: Date,
+    toDate: Date,
+    groups: Map<string, TallyGroupNode>
+  ): Promise<{ ledgers: PeriodLedger[]; source: 'xml' | 'odbc'; warnings: string[] }> {
+    const fyStart = getFinancialYearStart(toDate);
+
+    try {
+      const closingLedgers = await this.xmlApiService.getLedgerBalances(fyStart, toDate);
+      if (closingLedgers.length === 0) {
+        throw new Error('No ledger balances returned by Tally XML API');
+      }
+
+      const openingBalances = new Map<string, number>();
+      if (fromDate.getTime() !== fyStart.getTime()) {
+        const dayBeforeFrom = new Date(fromDate);
+        dayBeforeFrom.setDate(dayBeforeFrom.getDate() - 1);
+        const priorLedgers = await this.xmlApiService.getLedgerBalances(fyStart, dayBeforeFrom);
+        priorLedgers.forEach(ledger => openingBalances.set(ledger.name, ledger.closingBalance));
+      } else {
+        closingLedgers.forEach(ledger => openingBalances.set(ledger.name, ledger.openingBalance));
+      }
+
+      return {
+        ledgers: closingLedgers.map(ledger => ({
+          name: ledger.name,
+          parent: ledger.parent,
+          primaryGroup: this.groupHierarchy.resolvePrimaryGroup(ledger.parent, groups),
+          opening: openingBalances.get(ledger.name) || 0,
+          closing: ledger.closingBalance
+        })),
+        source: 'xml',
+        warnings: []
+      };
+    } catch (error) {
+      console.log('⚠️ XML period balances unavailable, using ODBC opening/closing balances:', error);
+    }
+
+    const snapshot = await this.groupHierarchy.loadSnapshot();
+    return {
+      ledgers: snapshot.ledgers.map(ledger => ({
+        name: ledger.name,
+        parent: ledger.parent,
+        primaryGroup: ledger.primaryGroup,
+        opening: ledger.openingBalance,
+        closing: ledger.closingBalance
+      })),
+      source: 'odbc',
+      warnings: ['Tally XML API not reachable - movements are from the start of the loaded period to date']
+    };
+  }
+}
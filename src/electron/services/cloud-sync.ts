@@ -1,5 +1,6 @@
 import { TallyService } from './tally-services';
 import { S3Service } from './s3-service';
+import { odbcScheduler } from '../utils/odbc-scheduler';
 
 export interface SyncConfig {
   intervalMinutes: number;
@@ -69,6 +70,10 @@ export class CloudSyncService {
    * Perform complete data sync
    */
   async performSync(): Promise<SyncStatus> {
+    return odbcScheduler.withPriority('background', () => this.runSync());
+  }
+
+  private async runSync(): Promise<SyncStatus> {
     console.log('Starting Tally data sync...');
     
     const startTime = Date.now();
@@ -0,0 +1,264 @@
+/**
+ * Company Context Service
+ * Pinned Tally companies, the active company (which scopes sync, cache and preferences
+ * through its client ID) and switching the live connection between companies
+ */
+
+import { TallyService, TallyConfig } from './tally-services';
+import { settingsService, PinnedCompany } from './settings-service';
+import { clientContext, toClientId } from '../utils/client-context';
+import { parseFinancialYear } from '../utils/date-expression';
+
+export interface CompanySwitchResult {
+  success: boolean;
+  company?: string;
+  clientId?: string;
+  candidates?: string[]; // Set when the name was ambiguous or unknown
+  error?: string;
+}
+
+export interface CompanyRunResult<T> {
+  company: string;
+  result?: T;
+  error?: string;
+}
+
+export type CompanyChangeListener = (companyName: string, clientId: string) => void;
+
+// Words that say nothing about which company is meant
+const FILLER_WORDS = new Set(['company', 'the', 'books', 'to', 'of', 'for', 'ki', 'ka', 'wali', 'wala', 'fy', 'year']);
+
+export class CompanyContextService {
+  private tallyService: TallyService;
+  private listeners: CompanyChangeListener[] = [];
+  private isSwitching = false;
+  private baseConfig: TallyConfig | null = null;
+
+  constructor(tallyService: TallyService) {
+    this.tallyService = tallyService;
+  }
+
+  getPinned(): PinnedCompany[] {
+    return settingsService.getCompanySettings().pinned;
+  }
+
+  getActive(): string | undefined {
+    return clientContext.getActiveCompany() || settingsService.getCompanySettings().active;
+  }
+
+  pin(companyName: string, alias?: string): PinnedCompany[] {
+    const settings = settingsService.getCompanySettings();
+    const existing = settings.pinned.find(company => company.name.toLowerCase() === companyName.toLowerCase());
+    if (existing) {
+      if (alias) existing.alias = alias;
+    } else {
+      settings.pinned.push({ name: companyName, alias, pinnedAt: new Date().toISOString() });
+      console.log(`📌 Pinned company "${companyName}"`);
+    }
+    settingsService.setCompanySettings(settings);
+    return settings.pinned;
+  }
+
+  unpin(companyName: string): PinnedCompany[] {
+    const settings = settingsService.getCompanySettings();
+    settings.pinned = settings.pinned.filter(company => company.name.toLowerCase() !== companyName.toLowerCase());
+    settingsService.setCompanySettings(settings);
+    return settings.pinned;
+  }
+
+  onCompanyChanged(listener: CompanyChangeListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Record the company the live connection is on (after tally-connect or a switch) and
+   * let sync and the mirror follow it. The first company connected to is pinned.
+   */
+  setActive(companyName: string): void {
+    clientContext.setActiveCompany(companyName);
+    const settings = settingsService.getCompanySettings();
+    settingsService.setCompanySettings({ ...settings, active: companyName });
+    if (settings.pinned.length === 0) {
+      this.pin(companyName);
+    }
+
+    const clientId = toClientId(companyName);
+    this.listeners.forEach(listener => {
+      try {
+        listener(companyName, clientId);
+      } catch (error) {
+        console.error('Company change listener failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Reconnect Tally to another company, e.g. "Sharma Traders FY24"
+   */
+  async switchTo(requested: string): Promise<CompanySwitchResult> {
+    if (this.isSwitching) {
+      return { success: false, error: 'A company switch is already in progress' };
+    }
+
+    const { match, candidates } = await this.resolveCompany(requested);
+    if (!match) {
+      return {
+        success: false,
+        candidates,
+        error: candidates.length > 0
+          ? `More than one company matches "${requested}"`
+          : `No company matching "${requested}" is open in Tally`
+      };
+    }
+
+    const previous = this.getActive();
+    if (match === previous && this.tallyService.isConnected()) {
+      return { success: true, company: match, clientId: toClientId(match) };
+    }
+
+    this.isSwitching = true;
+    try {
+      console.log(`🔀 Switching company: ${previous || '(none)'} -> ${match}`);
+      const status = await this.connectTo(match);
+      if (!status.isConnected) {
+        // Leave the user on the company they had rather than disconnected
+        if (previous) await this.connectTo(previous);
+        return { success: false, company: match, error: status.error || `Could not open ${match} in Tally` };
+      }
+
+      this.setActive(match);
+      return { success: true, company: match, clientId: toClientId(match) };
+    } finally {
+      this.isSwitching = false;
+    }
+  }
+
+  /**
+   * Run a task against each pinned company in turn (ODBC serves one company per
+   * connection), then reconnect to the active company
+   */
+  async runAcrossCompanies<T>(task: (companyName: string) => Promise<T>, companies?: string[]): Promise<CompanyRunResult<T>[]> {
+    const active = this.getActive();
+    const targets = companies || this.getPinned().map(company => company.name);
+    if (targets.length === 0 && active) targets.push(active);
+
+    if (this.isSwitching) {
+      throw new Error('A company switch is already in progress');
+    }
+
+    this.isSwitching = true;
+    const results: CompanyRunResult<T>[] = [];
+    try {
+      for (const company of targets) {
+        const onCompany = this.tallyService.isConnected() && this.tallyService.getConfig()?.companyName === company;
+        if (!onCompany) {
+          const status = await this.connectTo(company);
+          if (!status.isConnected) {
+            results.push({ company, error: status.error || 'Could not open company in Tally' });
+            continue;
+          }
+        }
+
+        try {
+          results.push({ company, result: await task(company) });
+        } catch (error) {
+          results.push({ company, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } finally {
+      if (active && this.tallyService.getConfig()?.companyName !== active) {
+        await this.connectTo(active);
+      }
+      this.isSwitching = false;
+    }
+
+    return results;
+  }
+
+  /**
+   * Match what the user typed against pinned aliases and names, then companies open in Tally.
+   * A financial year ("FY24", "2023-24") picks between books of the same business.
+   */
+  async resolveCompany(requested: string): Promise<{ match?: string; candidates: string[] }> {
+    const pinned = this.getPinned();
+    const alias = pinned.find(company => company.alias && company.alias.toLowerCase() === requested.trim().toLowerCase());
+    if (alias) return { match: alias.name, candidates: [alias.name] };
+
+    const names = pinned.map(company => company.name);
+    let result = pickCompany(requested, names);
+    if (result.match) return result;
+
+    const available = await this.tallyService.getAvailableCompanies();
+    if (available.success && available.companies) {
+      const unpinned = available.companies.filter(name => !names.includes(name));
+      const fromTally = pickCompany(requested, unpinned);
+      if (fromTally.match || fromTally.candidates.length > 0) result = fromTally;
+    }
+    return result;
+  }
+
+  private connectTo(companyName: string) {
+    // connect() drops the old config first, so a failed switch still knows the server and port
+    this.baseConfig = this.tallyService.getConfig() || this.baseConfig;
+    return this.tallyService.connect({ ...this.baseConfig, companyName, exactCompany: true });
+  }
+}
+
+/**
+ * "switch to sharma traders fy24", "change company to X", "X pe switch karo" -> the company part
+ */
+export function parseCompanySwitch(query: string): string | null {
+  const text = query.trim().replace(/[.?!]+$/, '');
+  const patterns = [
+    /^(?:please\s+)?(?:switch|change|move)\s+(?:the\s+)?(?:company\s+)?(?:to|over to)\s+(.+)$/i,
+    /^(?:please\s+)?(?:switch|change)\s+company\s+(.+)$/i,
+    /^(.+?)\s+(?:pe|par|mein|me)\s+switch\s+kar(?:o|ein|en|do)?$/i,
+    /^(?:use|open|select)\s+company\s+(.+)$/i
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match && match[1].trim()) {
+      return match[1].replace(/\s+company$/i, '').trim();
+    }
+  }
+  return null;
+}
+
+function pickCompany(requested: string, names: string[]): { match?: string; candidates: string[] } {
+  const exact = names.find(name => name.toLowerCase() === requested.trim().toLowerCase());
+  if (exact) return { match: exact, candidates: [exact] };
+
+  const requestedYear = parseFinancialYear(requested);
+  const words = normalise(stripFinancialYear(requested)).split(' ').filter(word => word && !FILLER_WORDS.has(word));
+  if (words.length === 0 && requestedYear === undefined) return { candidates: [] };
+
+  const scored = names.map(name => {
+    const nameWords = normalise(name).split(' ');
+    const matched = words.filter(word => nameWords.some(nameWord => nameWord.startsWith(word))).length;
+    let score = words.length > 0 ? matched / words.length : 1;
+    if (words.length > 0 && matched === 0) score = 0;
+
+    const companyYear = parseFinancialYear(name);
+    if (score > 0 && requestedYear !== undefined && companyYear !== undefined) {
+      score += companyYear === requestedYear ? 1 : -1;
+    }
+    return { name, score };
+  }).filter(candidate => candidate.score > 0.5);
+
+  if (scored.length === 0) return { candidates: [] };
+  const best = Math.max(...scored.map(candidate => candidate.score));
+  const top = scored.filter(candidate => candidate.score === best).map(candidate => candidate.name);
+  return top.length === 1 ? { match: top[0], candidates: top } : { candidates: top };
+}
+
+function stripFinancialYear(text: string): string {
+  return text
+    .replace(/\bfy\s*'?\d{2,4}(\s*[-/]\s*\d{2,4})?\b/gi, ' ')
+    .replace(/\b(20\d{2})\s*[-/]\s*(\d{2}|20\d{2})\b/g, ' ')
+    .replace(/\(?from\s+\d{1,2}[-\s]?[a-z]{3}[a-z]*[-\s]?\d{2,4}\)?/gi, ' ');
+}
+
+function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
@@ -3,13 +3,29 @@
  * Handles all query categories shown in the user requirements image
  */
 
-import { TallyService } from './tally-services';
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
 import { PDFService } from './pdf-service';
+import { ProfitLossService, getFinancialYearStart } from './profit-loss-service';
+import { BalanceSheetService } from './balance-sheet-service';
+import { GSTService } from './gst-service';
+import { ProfitMarginService, MarginDimension, MarginRow } from './profit-margin-service';
+import { CashFlowService } from './cash-flow-service';
+import { AgeingService, AgeingReport, AgedBill, AGEING_BUCKETS } from './ageing-service';
+import { OutstandingType } from './outstanding-service';
+import { PaymentReminderService, ReminderRecord } from './payment-reminder-service';
+import { BankReconciliationService, BankReconciliation } from './bank-reconciliation-service';
+import { LedgerStatementService } from './ledger-statement-service';
+import { ExcelService } from './excel-service';
+import { CompanyContextService, parseCompanySwitch } from './company-context-service';
+import { ConsolidatedQueryService } from './consolidated-query-service';
+import { clientContext } from '../utils/client-context';
+import { intentRouter, IntentMatch, Clarification } from './intent-router';
+import { parseDateExpression, defaultReportPeriod, toISODateString } from '../utils/date-expression';
 
 export interface QueryCategory {
   id: string;
   name: string;
-  keywords: string[];
   handlers: string[];
 }
 
@@ -20,98 +36,193 @@ export interface QueryResult {
   data?: any;
   responseType: 'text' | 'document' | 'list';
   executionTime: number;
+  needsClarification?: boolean; // A question back to the user; callers must not cache it
 }
 
 export class ComprehensiveQueryHandler {
-  private tallyService: TallyService;
+  private dataSource: TallyDataSource;
   private pdfService: PDFService;
-
-  // Query categories based on the image requirements
+  private profitLossService: ProfitLossService;
+  private balanceSheetService: BalanceSheetService;
+  private gstService: GSTService;
+  private profitMarginService: ProfitMarginService;
+  private cashFlowService: CashFlowService;
+  private ageingService: AgeingService;
+  private ledgerStatementService: LedgerStatementService;
+  private excelService: ExcelService;
+  private paymentReminderService: PaymentReminderService | null = null;
+  private bankReconciliationService: BankReconciliationService | null = null;
+  private companyContext: CompanyContextService | null = null;
+  private consolidatedQueryService: ConsolidatedQueryService | null = null;
+  private booksFrom: { company: string; date?: Date } | null = null;
+  // Questions awaiting a reply, per conversation (a WhatsApp sender, a client or the desktop chat)
+  private pendingClarifications = new Map<string, IntentMatch>();
+
+  // Handlers per category; intents are mapped to categories in INTENT_REGISTRY
   private readonly queryCategories: QueryCategory[] = [
     {
       id: 'company',
       name: 'Company Information',
-      keywords: ['company address', 'my address', 'company details', 'company info', 'my company', 'address', 'company'],
       handlers: ['handleCompanyInfo', 'handleCompanyAddress']
     },
+    {
+      id: 'company_switch',
+      name: 'Company Switch',
+      handlers: ['handleCompanySwitch']
+    },
+    {
+      id: 'consolidated',
+      name: 'Consolidated',
+      handlers: ['handleConsolidatedQueries']
+    },
     {
       id: 'sales',
       name: 'Sales',
-      keywords: ['sales', 'revenue', 'income', 'show me', 'what are', 'send me', 'how much', 'show sale', 'sales by', 'give me', 'what is', 'sales trend', 'sales invoice', 'share sale'],
       handlers: ['handleSalesQueries', 'handleSalesTrends', 'handleSalesInvoices']
     },
     {
       id: 'purchase',
       name: 'Purchase',
-      keywords: ['purchase', 'purchases', 'total purch', 'share purch', 'what\'s th'],
       handlers: ['handlePurchaseQueries', 'handlePurchaseReports']
     },
     {
       id: 'ledger',
       name: 'Ledger',
-      keywords: ['ledger', 'trial balance', 'profit & loss', 'balance sheet', 'show led', 'what is th', 'give me a', 'how much'],
-      handlers: ['handleLedgerQueries', 'handleTrialBalance', 'handlePandL', 'handleBalanceSheet']
+      handlers: ['handleLedgerStatement', 'handleLedgerQueries', 'handleTrialBalance']
+    },
+    {
+      id: 'profit_loss',
+      name: 'Profit & Loss',
+      handlers: ['handlePandL']
+    },
+    {
+      id: 'balance_sheet',
+      name: 'Balance Sheet',
+      handlers: ['handleBalanceSheet']
+    },
+    {
+      id: 'gst',
+      name: 'GST',
+      handlers: ['handleGSTQueries']
+    },
+    {
+      id: 'profit_margin',
+      name: 'Profit Margin',
+      handlers: ['handleProfitMargin']
     },
     {
       id: 'outstanding',
       name: 'Outstanding',
-      keywords: ['outstanding', 'receivables', 'payables', 'who has r', 'total outs', 'list all ove', 'show out'],
       handlers: ['handleOutstandingQueries', 'handleReceivables', 'handlePayables']
     },
     {
       id: 'cash_bank',
       name: 'Cash & Bank',
-      keywords: ['cash', 'bank', 'cash in ha', 'show my', 'total cash', 'show ban', 'give me c', 'send me i'],
-      handlers: ['handleCashQueries', 'handleBankQueries', 'handleCashFlow']
+      handlers: ['handleCashQueries', 'handleBankQueries']
+    },
+    {
+      id: 'bank_reconciliation',
+      name: 'Bank Reconciliation',
+      handlers: ['handleBankQueries']
+    },
+    {
+      id: 'cash_flow',
+      name: 'Cash Flow',
+      handlers: ['handleCashFlow', 'handleCashFlowReport']
     },
     {
       id: 'inventory',
       name: 'Inventory',
-      keywords: ['inventory', 'stock', 'stock sum', 'show inve', 'send me s', 'what is m'],
       handlers: ['handleInventoryQueries', 'handleStockSummary', 'handleStockReports']
     },
     {
       id: 'invoices',
       name: 'Invoices',
-      keywords: ['invoice', 'invoices', 'bill', 'share tod', 'show all p', 'invoice re', 'bill summ'],
       handlers: ['handleInvoiceQueries', 'handleTodayInvoices', 'handlePendingInvoices']
     },
     {
       id: 'reminder',
       name: 'Reminder',
-      keywords: ['remind', 'reminder', 'set remin', 'show me', 'what task', 'pending'],
       handlers: ['handleReminderQueries', 'handleTaskManagement']
     },
     {
       id: 'analytical',
       name: 'Analytical',
-      keywords: ['highest', 'maximum', 'top', 'most', 'largest', 'analytical'],
       handlers: ['handleAnalyticalQueries', 'handleHighestBalance']
     },
     {
       id: 'miscellaneous',
       name: 'Miscellaneous',
-      keywords: ['vat return', 'profit mar', 'day book', 'cash flow', 'show me'],
-      handlers: ['handleVATQueries', 'handleProfitMargin', 'handleDayBook', 'handleCashFlowReport', 'handleWorkOrders']
+      handlers: ['handleDayBook', 'handleWorkOrders']
     }
   ];
 
-  constructor(tallyService: TallyService, pdfService: PDFService) {
-    this.tallyService = tallyService;
+  constructor(dataSource: TallyDataSource, pdfService: PDFService, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
     this.pdfService = pdfService;
+    this.profitLossService = new ProfitLossService(dataSource, xmlApiService);
+    this.balanceSheetService = new BalanceSheetService(dataSource, xmlApiService);
+    this.gstService = new GSTService(dataSource, xmlApiService);
+    this.profitMarginService = new ProfitMarginService(dataSource, xmlApiService);
+    this.cashFlowService = new CashFlowService(dataSource, xmlApiService);
+    this.ageingService = new AgeingService(dataSource, xmlApiService);
+    this.ledgerStatementService = new LedgerStatementService(dataSource, xmlApiService);
+    this.excelService = new ExcelService();
+  }
+
+  /**
+   * The reminder scheduler owns the WhatsApp session, so it's created in main and handed in
+   */
+  setPaymentReminderService(service: PaymentReminderService): void {
+    this.paymentReminderService = service;
+  }
+
+  /**
+   * Imported bank statements live on the service main uses for file imports
+   */
+  setBankReconciliationService(service: BankReconciliationService): void {
+    this.bankReconciliationService = service;
+  }
+
+  /**
+   * Switching reconnects the shared TallyService, so main owns the company context
+   */
+  setCompanyContext(companyContext: CompanyContextService, consolidatedQueryService: ConsolidatedQueryService): void {
+    this.companyContext = companyContext;
+    this.consolidatedQueryService = consolidatedQueryService;
   }
 
   /**
-   * Main query processing function
+   * Main query processing function. conversationKey keeps one sender's reply to a
+   * clarifying question from being read as the answer to another's.
    */
-  async processQuery(userQuery: string): Promise<QueryResult> {
+  async processQuery(userQuery: string, conversationKey: string = 'desktop'): Promise<QueryResult> {
     const startTime = Date.now();
-    const query = userQuery.toLowerCase().trim();
 
     try {
-      // Determine query category
-      const category = this.determineQueryCategory(query);
-      
+      // A reply to the question asked last time routes the original query
+      const pending = this.pendingClarifications.get(conversationKey);
+      let match = pending ? intentRouter.resolveClarification(userQuery, pending) : null;
+      this.pendingClarifications.delete(conversationKey);
+      if (!match) {
+        match = intentRouter.classify(userQuery);
+      }
+
+      if (match.clarification) {
+        this.pendingClarifications.set(conversationKey, match);
+        return {
+          success: true,
+          category: 'Clarification',
+          response: this.formatClarification(match.clarification),
+          responseType: 'text',
+          executionTime: Date.now() - startTime,
+          needsClarification: true
+        };
+      }
+
+      const query = match.query.toLowerCase().trim();
+      const category = this.determineQueryCategory(match);
+
       if (!category) {
         return {
           success: false,
@@ -141,180 +252,24 @@ export class ComprehensiveQueryHandler {
   }
 
   /**
-   * Determine query category based on intent analysis
+   * The category whose handlers answer the routed intent
    */
-  private determineQueryCategory(query: string): QueryCategory | null {
-    const queryLower = query.toLowerCase().trim();
-    
-    // Exact pattern matching with high specificity
-    const exactPatterns = [
-      // Company Information - highest priority for address queries
-      {
-        patterns: [
-          'company address', 'my address', 'company details', 'company info', 
-          'my company', 'what is my address', 'company ka address', 'address kya hai'
-        ],
-        category: 'company'
-      },
-      // Cash & Bank queries - specific patterns
-      {
-        patterns: [
-          'bank balance', 'cash balance', 'mere paas kitna cash', 'bank balance kitna',
-          'cash in hand', 'show bank', 'total cash', 'what is bank balance',
-          'cash kitna hai', 'bank account balance'
-        ],
-        category: 'cash_bank'
-      },
-      // Sales queries - specific patterns only
-      {
-        patterns: [
-          'sales this month', 'my sales', 'sales for', 'total sales', 
-          'sales summary', 'sales report', 'what are my sales', 'sales august',
-          'sales april', 'sales july', 'sales june', 'sales may', 'sales march',
-          'sales february', 'sales january', 'sales september', 'sales october',
-          'sales november', 'sales december', 'monthly sales', 'revenue this month', 
-          'sales for august month', 'sales for april month', 'sales for july month',
-          'sales for june month', 'sales for may month', 'sales for march month',
-          'sales for february month', 'sales for january month', 'sales for september month',
-          'sales for october month', 'sales for november month', 'sales for december month',
-          'sales for june 2023', 'sales for july 2023', 'sales for august 2023',
-          'sales for april 2023', 'sales for may 2023', 'sales for march 2023',
-          'sales for february 2023', 'sales for january 2023', 'sales for september 2023',
-          'sales for october 2023', 'sales for november 2023', 'sales for december 2023',
-          'sales for june 2024', 'sales for july 2024', 'sales for august 2024',
-          'sales for april 2024', 'sales for may 2024', 'sales for march 2024',
-          'what is my sales for', 'show me my sales', 'what are my sales for'
-        ],
-        category: 'sales'
-      },
-      // Outstanding queries
-      {
-        patterns: [
-          'outstanding', 'receivables', 'payables', 'who has r', 'total outs', 
-          'list all ove', 'show out', 'what are my outstanding', 'pending payments'
-        ],
-        category: 'outstanding'
-      },
-      // Inventory queries
-      {
-        patterns: [
-          'stock status', 'inventory', 'stock sum', 'my stock', 'what is my stock',
-          'stock items', 'inventory status', 'stock kitna hai'
-        ],
-        category: 'inventory'
-      },
-      // Ledger queries
-      {
-        patterns: [
-          'ledger', 'trial balance', 'profit & loss', 'balance sheet', 
-          'how many ledgers', 'ledger list', 'all accounts', 'account list'
-        ],
-        category: 'ledger'
-      },
-      // Analytical queries - highest balance, maximum balance, etc.
-      {
-        patterns: [
-          'highest balance', 'maximum balance', 'top balance', 'highest closing balance',
-          'which company has highest', 'who has maximum balance', 'sabse zyada balance',
-          'most balance', 'largest balance', 'who has the highest closing balance',
-          'which company has highest closing balance', 'highest closing', 'maximum closing',
-          'sabse zyada balance kiska hai', 'sabse zyada', 'maximum kiska', 'highest kiska',
-          'top customer', 'largest debtor', 'biggest balance', 'maximum amount'
-        ],
-        category: 'analytical'
-      },
-      // Purchase queries
-      {
-        patterns: [
-          'purchase', 'purchases', 'total purch', 'share purch', 'purchase report',
-          'what are my purchases', 'purchase summary'
-        ],
-        category: 'purchase'
-      },
-      // Invoice queries
-      {
-        patterns: [
-          'invoice', 'invoices', 'bill', 'share tod', 'show all p', 
-          'invoice re', 'bill summ', 'today invoices', 'pending invoices'
-        ],
-        category: 'invoices'
-      },
-      // Reminder queries
-      {
-        patterns: [
-          'remind', 'reminder', 'set remin', 'what task', 'pending',
-          'set reminder', 'task reminder'
-        ],
-        category: 'reminder'
-      }
-    ];
-
-    // Check exact patterns first (most specific)
-    for (const pattern of exactPatterns) {
-      for (const patternText of pattern.patterns) {
-        if (queryLower.includes(patternText)) {
-          const category = this.queryCategories.find(c => c.id === pattern.category);
-          if (category) {
-            return category;
-          }
-        }
-      }
-    }
-
-    // Check for year patterns in sales queries
-    if (queryLower.includes('sales') && /\b(20\d{2})\b/.test(query)) {
-      const salesCategory = this.queryCategories.find(c => c.id === 'sales');
-      if (salesCategory) {
-        return salesCategory;
-      }
-    }
-
-    // Secondary keyword matching for broader queries
-    const keywordMappings = [
-      { keywords: ['address'], category: 'company' },
-      { keywords: ['cash', 'bank'], category: 'cash_bank' },
-      { keywords: ['sales', 'revenue'], category: 'sales' },
-      { keywords: ['outstanding', 'receivable'], category: 'outstanding' },
-      { keywords: ['stock', 'inventory'], category: 'inventory' },
-      { keywords: ['ledger', 'account'], category: 'ledger' },
-      { keywords: ['purchase'], category: 'purchase' },
-      { keywords: ['invoice', 'bill'], category: 'invoices' },
-      { keywords: ['remind'], category: 'reminder' },
-      { keywords: ['highest', 'maximum', 'top'], category: 'analytical' },
-      { keywords: ['day book', 'daybook', 'work order', 'job order', 'production'], category: 'miscellaneous' }
-    ];
-
-    for (const mapping of keywordMappings) {
-      for (const keyword of mapping.keywords) {
-        if (queryLower.includes(keyword) && !this.isGenericWord(keyword)) {
-          const category = this.queryCategories.find(c => c.id === mapping.category);
-          if (category) {
-            return category;
-          }
-        }
-      }
-    }
-    
-    return null;
+  private determineQueryCategory(match: IntentMatch): QueryCategory | null {
+    const categoryId = match.intent?.handlers.comprehensive;
+    return categoryId ? this.queryCategories.find(c => c.id === categoryId) || null : null;
   }
 
-  /**
-   * Check if a keyword is too generic and might cause false positives
-   */
-  private isGenericWord(keyword: string): boolean {
-    const genericWords = ['show me', 'what are', 'send me', 'give me', 'what is', 'show', 'what', 'how', 'give', 'send'];
-    return genericWords.includes(keyword);
-  }
+  private formatClarification(clarification: Clarification): string {
+    if (clarification.missingSlot) {
+      return `🤔 ${clarification.question}\n\n💡 Example: "${clarification.options[0].example}"`;
+    }
 
-  /**
-   * Get current month name
-   */
-  private getCurrentMonth(): string {
-    const months = [
-      'January', 'February', 'March', 'April', 'May', 'June',
-      'July', 'August', 'September', 'October', 'November', 'December'
-    ];
-    return months[new Date().getMonth()];
+    let response = `🤔 ${clarification.question}\n\n`;
+    clarification.options.forEach((option, index) => {
+      response += `${index + 1}. **${option.label}** - e.g. "${option.example}"\n`;
+    });
+    response += '\n💡 Reply with the number or rephrase your question';
+    return response;
   }
 
   /**
@@ -326,89 +281,70 @@ export class ComprehensiveQueryHandler {
     month?: string;
     year?: string;
     description: string;
+    fromDate?: Date;
+    toDate?: Date;
     isToday?: boolean;
     isThisMonth?: boolean;
   } {
-    const queryLower = query.toLowerCase();
-
-    // Check for "today" or "today's"
-    if (queryLower.includes('today') || queryLower.includes("today's")) {
-      return {
-        hasDateFilter: true,
-        isToday: true,
-        description: 'Today',
-        period: 'daily'
-      };
-    }
-
-    // Check for "this month" or "current month"
-    if (queryLower.includes('this month') || queryLower.includes('current month')) {
+    const expression = parseDateExpression(query);
+    if (!expression) {
       return {
-        hasDateFilter: true,
-        isThisMonth: true,
-        description: 'This Month',
-        period: 'monthly',
-        month: this.getCurrentMonth()
+        hasDateFilter: false,
+        description: 'All Time'
       };
     }
 
-    // Check for specific months
-    const monthMap: { [key: string]: string } = {
-      'january': 'January', 'jan': 'January',
-      'february': 'February', 'feb': 'February',
-      'march': 'March', 'mar': 'March',
-      'april': 'April', 'apr': 'April',
-      'may': 'May',
-      'june': 'June', 'jun': 'June',
-      'july': 'July', 'jul': 'July',
-      'august': 'August', 'aug': 'August',
-      'september': 'September', 'sep': 'September', 'sept': 'September',
-      'october': 'October', 'oct': 'October',
-      'november': 'November', 'nov': 'November',
-      'december': 'December', 'dec': 'December'
+    const today = new Date();
+    const { fromDate, toDate, granularity } = expression;
+    const periodNames = { day: 'daily', week: 'weekly', month: 'monthly', quarter: 'quarterly', year: 'yearly', range: 'custom' };
+    return {
+      hasDateFilter: true,
+      period: periodNames[granularity],
+      month: granularity === 'month' ? this.getMonthName(fromDate.getMonth()) : undefined,
+      year: String(fromDate.getFullYear()),
+      description: expression.description,
+      fromDate,
+      toDate,
+      isToday: granularity === 'day' && toISODateString(fromDate) === toISODateString(today),
+      isThisMonth: granularity === 'month' && fromDate.getMonth() === today.getMonth() && fromDate.getFullYear() === today.getFullYear()
     };
+  }
 
-    // Find month in query
-    let foundMonth = '';
-    for (const [monthKey, monthName] of Object.entries(monthMap)) {
-      if (queryLower.includes(monthKey)) {
-        foundMonth = monthName;
-        break;
-      }
-    }
-
-    // Extract year from query (4-digit years like 2023, 2024, etc.)
-    const yearMatch = query.match(/\b(20\d{2})\b/);
-    const foundYear = yearMatch ? yearMatch[1] : '';
+  /**
+   * Resolve a reporting period (from/to dates) for statement-style reports.
+   * Defaults to the current financial year to date, and never starts before the books do.
+   */
+  private async resolveReportPeriod(query: string): Promise<{ fromDate: Date; toDate: Date; description: string }> {
+    const options = { booksFrom: await this.getBooksFrom() };
+    return parseDateExpression(query, options) || defaultReportPeriod(options);
+  }
 
-    if (foundMonth || foundYear) {
-      const description = foundYear ? `${foundMonth || 'Unknown Month'} ${foundYear}` : foundMonth;
-      return {
-        hasDateFilter: true,
-        month: foundMonth,
-        year: foundYear,
-        description: description,
-        period: 'monthly'
-      };
+  /**
+   * Books beginning date of the company being queried, looked up once per company
+   */
+  private async getBooksFrom(): Promise<Date | undefined> {
+    const company = clientContext.getActiveCompany() || '';
+    if (!this.booksFrom || this.booksFrom.company !== company) {
+      try {
+        const info = await this.dataSource.getCompany();
+        this.booksFrom = { company, date: info?.booksFrom };
+      } catch (error) {
+        console.log('Books beginning date not available:', error instanceof Error ? error.message : String(error));
+        return undefined;
+      }
     }
+    return this.booksFrom.date;
+  }
 
-    // Check for "last month"
-    if (queryLower.includes('last month') || queryLower.includes('previous month')) {
-      const lastMonth = new Date();
-      lastMonth.setMonth(lastMonth.getMonth() - 1);
-      const lastMonthName = this.getMonthName(lastMonth.getMonth());
-      return {
-        hasDateFilter: true,
-        description: `Last Month (${lastMonthName})`,
-        period: 'monthly',
-        month: lastMonthName
-      };
+  /**
+   * Get company name for report headers
+   */
+  private async getCompanyName(): Promise<string> {
+    const result = await this.dataSource.executeQuery('SELECT $Name FROM Company');
+    if (result.success && result.data && result.data.length > 0) {
+      return result.data[0].$Name || result.data[0].Name || 'Your Company';
     }
-
-    return {
-      hasDateFilter: false,
-      description: 'All Time'
-    };
+    return 'Your Company';
   }
 
   /**
@@ -474,7 +410,7 @@ export class ComprehensiveQueryHandler {
 
       for (const sqlQuery of transactionQueries) {
         try {
-          const result = await this.tallyService.executeQuery(sqlQuery);
+          const result = await this.dataSource.executeQuery(sqlQuery);
           if (result.success && result.data && result.data.length > 0) {
             return this.formatTransactionData(result.data, query, dateInfo);
           }
@@ -605,7 +541,7 @@ export class ComprehensiveQueryHandler {
       FROM Company
     `;
 
-    const result = await this.tallyService.executeQuery(companyQuery);
+    const result = await this.dataSource.executeQuery(companyQuery);
     if (result.success && result.data && result.data.length > 0) {
       const company = result.data[0];
       let response = '🏢 **Company Information:**\n\n';
@@ -650,7 +586,7 @@ export class ComprehensiveQueryHandler {
       FROM Company
     `;
 
-    const result = await this.tallyService.executeQuery(addressQuery);
+    const result = await this.dataSource.executeQuery(addressQuery);
     if (result.success && result.data && result.data.length > 0) {
       const company = result.data[0];
       let response = '📍 **Company Address:**\n\n';
@@ -681,6 +617,145 @@ export class ComprehensiveQueryHandler {
     };
   }
 
+  // ==================== COMPANY CONTEXT HANDLERS ====================
+
+  private async handleCompanySwitch(query: string): Promise<QueryResult> {
+    if (!this.companyContext) {
+      return { success: false, category: 'Company Switch', response: this.addTimestampToResponse('Switching companies is not available'), responseType: 'text', executionTime: 0 };
+    }
+
+    const pinMatch = query.trim().match(/^(un)?pin\s+(?:company\s+)?(.+)$/);
+    if (pinMatch) {
+      const { match, candidates } = await this.companyContext.resolveCompany(pinMatch[2]);
+      if (!match) {
+        return { success: true, category: 'Company Switch', response: this.addTimestampToResponse(this.formatCompanyChoices(pinMatch[2], candidates)), responseType: 'text', executionTime: 0 };
+      }
+      const pinned = pinMatch[1] ? this.companyContext.unpin(match) : this.companyContext.pin(match);
+      const response = `📌 ${pinMatch[1] ? 'Unpinned' : 'Pinned'} **${match}**
+
+` + this.formatPinnedCompanies(pinned.map(company => company.name));
+      return { success: true, category: 'Company Switch', response: this.addTimestampToResponse(response), data: pinned, responseType: 'list', executionTime: 0 };
+    }
+
+    const requested = parseCompanySwitch(query);
+    if (requested) {
+      const result = await this.companyContext.switchTo(requested);
+      if (!result.success) {
+        const response = result.candidates
+          ? this.formatCompanyChoices(requested, result.candidates)
+          : `❌ Could not switch to ${requested}: ${result.error}`;
+        return { success: true, category: 'Company Switch', response: this.addTimestampToResponse(response), responseType: 'text', executionTime: 0 };
+      }
+
+      return {
+        success: true,
+        category: 'Company Switch',
+        response: this.addTimestampToResponse(`🔀 Switched to **${result.company}**
+
+Questions, sync and reminders now use this company.`),
+        data: [{ company: result.company, clientId: result.clientId }],
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
+
+    const active = this.companyContext.getActive();
+    const pinned = this.companyContext.getPinned().map(company => company.name);
+    let response = `🏢 **Active company:** ${active || 'Not set'}\n\n`;
+    response += this.formatPinnedCompanies(pinned);
+    response += '\n💡 Say "switch to <company> FY24" to change company, or "combined outstanding" for all pinned companies.';
+    return {
+      success: true,
+      category: 'Company Switch',
+      response: this.addTimestampToResponse(response),
+      data: pinned.map(name => ({ company: name, active: name === active })),
+      responseType: 'list',
+      executionTime: 0
+    };
+  }
+
+  private async handleConsolidatedQueries(query: string): Promise<QueryResult> {
+    if (!this.consolidatedQueryService || !this.companyContext) {
+      return { success: false, category: 'Consolidated', response: this.addTimestampToResponse('Consolidated reports are not available'), responseType: 'text', executionTime: 0 };
+    }
+
+    const formatAmount = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+    const failed = (error?: string) => error ? ` ⚠️ ${error}` : '';
+
+    try {
+      if (/sale|revenue|turnover|bikri/.test(query)) {
+        const today = new Date();
+        const thisMonth = /this month|is mahine|current month/.test(query);
+        const fromDate = thisMonth ? new Date(today.getFullYear(), today.getMonth(), 1) : getFinancialYearStart(today);
+        const sales = await this.consolidatedQueryService.getCombinedSales(fromDate, today);
+
+        let response = `📈 **Combined Sales - ${sales.companies.length} companies**\n`;
+        response += `${fromDate.toLocaleDateString('en-IN')} to ${today.toLocaleDateString('en-IN')}\n\n`;
+        sales.companies.forEach(company => {
+          response += `• **${company.company}:** ${formatAmount(company.amount)} (${company.vouchers} invoices)${failed(company.error)}\n`;
+        });
+        response += `\n💰 **Total:** ${formatAmount(sales.totalAmount)} from ${sales.totalVouchers} invoices`;
+
+        return {
+          success: true,
+          category: 'Consolidated',
+          response: this.addTimestampToResponse(response),
+          data: sales.companies.map(company => ({ company: company.company, sales: company.amount, invoices: company.vouchers })),
+          responseType: 'list',
+          executionTime: 0
+        };
+      }
+
+      const outstanding = await this.consolidatedQueryService.getCombinedOutstanding();
+      let response = `📋 **Combined Outstanding - ${outstanding.companies.length} companies**\n`;
+      response += `As at ${outstanding.asAt.toLocaleDateString('en-IN')}\n\n`;
+      outstanding.companies.forEach(company => {
+        response += `• **${company.company}:** receivable ${formatAmount(company.receivable)}, payable ${formatAmount(company.payable)}${failed(company.error)}\n`;
+      });
+      response += `\n💰 **Total receivable:** ${formatAmount(outstanding.totalReceivable)}\n`;
+      response += `💸 **Total payable:** ${formatAmount(outstanding.totalPayable)}\n`;
+      response += `📊 **Net:** ${formatAmount(outstanding.totalReceivable - outstanding.totalPayable)}`;
+
+      return {
+        success: true,
+        category: 'Consolidated',
+        response: this.addTimestampToResponse(response),
+        data: outstanding.companies.map(company => ({ company: company.company, receivable: company.receivable, payable: company.payable, parties: company.parties })),
+        responseType: 'list',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Consolidated query failed:', error);
+      return {
+        success: false,
+        category: 'Consolidated',
+        response: this.addTimestampToResponse(`Could not combine companies: ${error instanceof Error ? error.message : String(error)}`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
+  }
+
+  private formatPinnedCompanies(names: string[]): string {
+    if (names.length === 0) return '📌 No pinned companies yet. Say "pin company <name>" to add one.\n';
+    let response = '📌 **Pinned companies:**\n';
+    names.forEach((name, index) => {
+      response += `${index + 1}. ${name}\n`;
+    });
+    return response;
+  }
+
+  private formatCompanyChoices(requested: string, candidates: string[]): string {
+    if (candidates.length === 0) {
+      return `❓ No company matching "${requested}" is open in Tally.\n\n` + this.formatPinnedCompanies(this.companyContext?.getPinned().map(company => company.name) || []);
+    }
+    let response = `❓ More than one company matches "${requested}":\n`;
+    candidates.forEach((name, index) => {
+      response += `${index + 1}. ${name}\n`;
+    });
+    return response + '\nAdd the financial year, e.g. "switch to ' + requested + ' FY24".';
+  }
+
   // ==================== SALES QUERY HANDLERS ====================
 
   private async handleSalesQueries(query: string): Promise<QueryResult> {
@@ -718,7 +793,7 @@ export class ComprehensiveQueryHandler {
 
     for (const sqlQuery of salesQueries) {
       try {
-        const result = await this.tallyService.executeQuery(sqlQuery);
+        const result = await this.dataSource.executeQuery(sqlQuery);
         if (result.success && result.data && result.data.length > 0) {
           let response = '📊 **Sales & Revenue Summary:**\n\n';
           let totalSales = 0;
@@ -797,7 +872,7 @@ export class ComprehensiveQueryHandler {
     // If all queries fail, try a diagnostic query to understand the data structure
     try {
       const diagnosticQuery = 'SELECT DISTINCT $Parent FROM Ledger WHERE $Parent LIKE \'%Sales%\' OR $Parent LIKE \'%Income%\' OR $Parent LIKE \'%Revenue%\' ORDER BY $Parent';
-      const diagnosticResult = await this.tallyService.executeQuery(diagnosticQuery);
+      const diagnosticResult = await this.dataSource.executeQuery(diagnosticQuery);
       
       if (diagnosticResult.success && diagnosticResult.data && diagnosticResult.data.length > 0) {
         let diagnosticResponse = `📊 **Sales Query Result:**\n\n❌ **No sales data found with current queries**\n\n🔍 **Available Sales-related Groups:**\n`;
@@ -924,7 +999,7 @@ export class ComprehensiveQueryHandler {
     ];
 
     for (const sqlQuery of purchaseQueries) {
-      const result = await this.tallyService.executeQuery(sqlQuery);
+      const result = await this.dataSource.executeQuery(sqlQuery);
       if (result.success && result.data && result.data.length > 0) {
         let response = '🛒 **Purchase Account Summary:**\n\n';
         let totalPurchases = 0;
@@ -988,7 +1063,7 @@ export class ComprehensiveQueryHandler {
     ];
 
     for (const sqlQuery of ledgerQueries) {
-      const result = await this.tallyService.executeQuery(sqlQuery);
+      const result = await this.dataSource.executeQuery(sqlQuery);
       if (result.success && result.data && result.data.length > 0) {
         let response = '📋 **Ledger Accounts:**\n\n';
         
@@ -1067,6 +1142,126 @@ export class ComprehensiveQueryHandler {
     return { success: false, category: 'Ledger', response: this.addTimestampToResponse('No ledger data found'), responseType: 'text', executionTime: 0 };
   }
 
+  /**
+   * Voucher-wise account statement with running balance, e.g. "Ramesh & Co ka statement April se"
+   */
+  private async handleLedgerStatement(query: string): Promise<QueryResult> {
+    const notStatement = { success: false, category: 'Ledger', response: '', responseType: 'text' as const, executionTime: 0 };
+    if (!/statement|khata|hisaa?b|ledger vouchers|transactions (with|of)|voucher details|entries (of|for|with)/.test(query)) {
+      return notStatement;
+    }
+
+    const ledger = await this.ledgerStatementService.findLedger(query);
+    if (!ledger) {
+      return notStatement;
+    }
+
+    try {
+      const period = await this.resolveReportPeriod(query);
+      const statement = await this.ledgerStatementService.generateStatement(ledger.name, period.fromDate, period.toDate, ledger.parent);
+      const formatAmount = (amount: number) => `₹${Math.abs(amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      const formatBalance = (amount: number) => `${formatAmount(amount)} ${amount >= 0 ? 'Dr' : 'Cr'}`;
+      const formatDate = (date: Date) => date.toLocaleDateString('en-IN');
+      const limit = 25;
+
+      let response = `📒 **${statement.ledgerName}${statement.parent ? ` (${statement.parent})` : ''}**\n`;
+      response += `Statement ${formatDate(statement.fromDate)} to ${formatDate(statement.toDate)}\n\n`;
+      response += `Opening Balance: ${formatBalance(statement.openingBalance)}\n\n`;
+
+      if (statement.entries.length === 0) {
+        response += 'No vouchers in this period.\n';
+      }
+      statement.entries.slice(0, limit).forEach(entry => {
+        const amount = entry.debit > 0 ? `Dr ${formatAmount(entry.debit)}` : `Cr ${formatAmount(entry.credit)}`;
+        response += `${formatDate(entry.date)} | ${entry.voucherType} ${entry.voucherNumber} | ${entry.particulars} | ${amount} | Bal ${formatBalance(entry.balance)}\n`;
+        if (entry.narration) response += `   _${entry.narration}_\n`;
+      });
+      if (statement.entries.length > limit) {
+        response += `... and ${statement.entries.length - limit} more vouchers (see PDF/Excel)\n`;
+      }
+
+      response += `\nTotal Debit: ${formatAmount(statement.totalDebit)} | Total Credit: ${formatAmount(statement.totalCredit)}\n`;
+      response += `**Closing Balance: ${formatBalance(statement.closingBalance)}**`;
+
+      if (statement.warnings.length > 0) {
+        response += `\n\n⚠️ ${statement.warnings.join('\n⚠️ ')}`;
+      }
+
+      const rows = statement.entries.map(entry => ({
+        date: entry.date,
+        voucherType: entry.voucherType,
+        voucherNumber: entry.voucherNumber,
+        particulars: entry.particulars,
+        narration: entry.narration,
+        debit: entry.debit || undefined,
+        credit: entry.credit || undefined,
+        balance: entry.balance
+      }));
+
+      const pdfResult = await this.pdfService.generateTallyFormatPDF({
+        title: `Ledger ${statement.ledgerName}`,
+        companyName: await this.getCompanyName(),
+        reportDate: new Date().toLocaleDateString('en-IN'),
+        data: rows.map(row => ({ ...row, date: row.date.toISOString(), amount: (row.debit || 0) - (row.credit || 0) })),
+        type: 'ledger',
+        period: {
+          from: formatDate(statement.fromDate),
+          to: formatDate(statement.toDate)
+        },
+        ledgerInfo: {
+          name: statement.ledgerName,
+          parent: statement.parent,
+          closingBalance: statement.closingBalance,
+          openingBalance: statement.openingBalance
+        }
+      });
+
+      const excelResult = await this.excelService.generateWorkbook({
+        title: `Ledger ${statement.ledgerName}`,
+        companyName: await this.getCompanyName(),
+        subtitle: `${formatDate(statement.fromDate)} to ${formatDate(statement.toDate)} | Opening ${formatBalance(statement.openingBalance)}`,
+        sheetName: statement.ledgerName,
+        columns: [
+          { key: 'date', header: 'Date', type: 'date' },
+          { key: 'voucherType', header: 'Vch Type' },
+          { key: 'voucherNumber', header: 'Vch No.' },
+          { key: 'particulars', header: 'Particulars' },
+          { key: 'narration', header: 'Narration' },
+          { key: 'debit', header: 'Debit', type: 'amount' },
+          { key: 'credit', header: 'Credit', type: 'amount' },
+          { key: 'balance', header: 'Balance (Dr +)', type: 'amount' }
+        ],
+        rows,
+        totals: { particulars: 'Total', debit: statement.totalDebit, credit: statement.totalCredit, balance: statement.closingBalance }
+      });
+
+      if (pdfResult.success && pdfResult.filePath) {
+        response += `\n\n📄 **Statement saved:** ${pdfResult.filePath}`;
+      }
+      if (excelResult.success && excelResult.filePath) {
+        response += `\n📊 **Excel:** ${excelResult.filePath}`;
+      }
+
+      return {
+        success: true,
+        category: 'Ledger',
+        response: this.addTimestampToResponse(response),
+        data: rows.map(row => ({ ...row, date: formatDate(row.date) })),
+        responseType: pdfResult.success ? 'document' : 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Ledger statement failed:', error);
+      return {
+        success: false,
+        category: 'Ledger',
+        response: this.addTimestampToResponse(`Unable to build the statement for ${ledger.name}: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
+  }
+
   private async handleTrialBalance(query: string): Promise<QueryResult> {
     const trialBalanceQuery = `
       SELECT 
@@ -1079,7 +1274,7 @@ export class ComprehensiveQueryHandler {
       ORDER BY $Name
     `;
 
-    const result = await this.tallyService.executeQuery(trialBalanceQuery);
+    const result = await this.dataSource.executeQuery(trialBalanceQuery);
     if (result.success && result.data && result.data.length > 0) {
       let response = '⚖️ **Trial Balance:**\n\n';
       let totalDebits = 0;
@@ -1114,188 +1309,231 @@ export class ComprehensiveQueryHandler {
   }
 
   private async handlePandL(query: string): Promise<QueryResult> {
-    return {
-      success: true,
-      category: 'Ledger',
-      response: '📊 Profit & Loss statement requires advanced reporting features. Please use Tally ERP for detailed P&L reports.',
-      responseType: 'text',
-      executionTime: 0
-    };
-  }
+    const period = await this.resolveReportPeriod(query);
 
-  private async handleBalanceSheet(query: string): Promise<QueryResult> {
-    return {
-      success: true,
-      category: 'Ledger',
-      response: '📊 Balance Sheet requires advanced reporting features. Please use Tally ERP for detailed Balance Sheet reports.',
-      responseType: 'text',
-      executionTime: 0
-    };
-  }
+    try {
+      const statement = await this.profitLossService.generateStatement(period.fromDate, period.toDate);
+      const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+      // Flat rows: one per ledger plus subtotal lines, shared by chat table and PDF
+      const rows: { section: string; particulars: string; amount: number; isTotal?: boolean }[] = [];
+      const sectionTotal = (name: string) => statement.sections.find(s => s.section === name)?.total || 0;
+      const pushSection = (name: string) => {
+        const section = statement.sections.find(s => s.section === name);
+        section?.ledgers.forEach(ledger => rows.push({ section: name, particulars: ledger.name, amount: ledger.amount }));
+      };
 
-  // ==================== OUTSTANDING QUERY HANDLERS ====================
+      rows.push({ section: 'Trading Account', particulars: 'Opening Stock', amount: statement.openingStock });
+      pushSection('Sales Accounts');
+      pushSection('Direct Incomes');
+      pushSection('Purchase Accounts');
+      pushSection('Direct Expenses');
+      rows.push({ section: 'Trading Account', particulars: 'Closing Stock', amount: statement.closingStock });
+      rows.push({ section: '', particulars: 'Gross Profit', amount: statement.grossProfit, isTotal: true });
+      pushSection('Indirect Incomes');
+      pushSection('Indirect Expenses');
+      rows.push({ section: '', particulars: 'Net Profit', amount: statement.netProfit, isTotal: true });
+
+      let response = `📊 **Profit & Loss - ${period.description}:**\n`;
+      response += `📅 ${statement.fromDate.toLocaleDateString('en-IN')} to ${statement.toDate.toLocaleDateString('en-IN')}\n\n`;
+      response += `**Sales:** ${formatAmount(sectionTotal('Sales Accounts'))}\n`;
+      if (sectionTotal('Direct Incomes') !== 0) response += `**Direct Incomes:** ${formatAmount(sectionTotal('Direct Incomes'))}\n`;
+      response += `**Purchases:** ${formatAmount(sectionTotal('Purchase Accounts'))}\n`;
+      response += `**Direct Expenses:** ${formatAmount(sectionTotal('Direct Expenses'))}\n`;
+      response += `**Opening Stock:** ${formatAmount(statement.openingStock)}\n`;
+      response += `**Closing Stock:** ${formatAmount(statement.closingStock)}\n\n`;
+      response += `${statement.grossProfit >= 0 ? '📈' : '📉'} **Gross ${statement.grossProfit >= 0 ? 'Profit' : 'Loss'}: ${formatAmount(Math.abs(statement.grossProfit))}**\n\n`;
+      response += `**Indirect Incomes:** ${formatAmount(sectionTotal('Indirect Incomes'))}\n`;
+      response += `**Indirect Expenses:** ${formatAmount(sectionTotal('Indirect Expenses'))}\n\n`;
+      response += `💰 **Net ${statement.netProfit >= 0 ? 'Profit' : 'Loss'}: ${formatAmount(Math.abs(statement.netProfit))}**`;
+
+      if (statement.warnings.length > 0) {
+        response += `\n\n⚠️ ${statement.warnings.join('\n⚠️ ')}`;
+      }
 
-  private async handleOutstandingQueries(query: string): Promise<QueryResult> {
-    // Check if user is asking for specific company outstanding
-    const companyMatch = query.match(/(?:outstanding|balance|due)\s+(?:of|for)\s+([a-zA-Z\s]+)/i);
-    if (companyMatch) {
-      const companyName = companyMatch[1].trim();
-      return await this.handleSpecificCompanyOutstanding(companyName);
-    }
+      const pdfResult = await this.pdfService.generateTallyFormatPDF({
+        title: `Profit and Loss ${period.description}`,
+        companyName: await this.getCompanyName(),
+        reportDate: new Date().toLocaleDateString('en-IN'),
+        data: rows,
+        type: 'profit-loss',
+        period: {
+          from: statement.fromDate.toLocaleDateString('en-IN'),
+          to: statement.toDate.toLocaleDateString('en-IN')
+        },
+        totals: { grossProfit: statement.grossProfit, netProfit: statement.netProfit }
+      });
 
-    // Check for patterns like "aditya outstanding" or "outstanding aditya"
-    const directMatch = query.match(/(?:outstanding|balance|due)\s+([a-zA-Z\s]+)|([a-zA-Z\s]+)\s+(?:outstanding|balance|due)/i);
-    if (directMatch) {
-      const companyName = (directMatch[1] || directMatch[2]).trim();
-      return await this.handleSpecificCompanyOutstanding(companyName);
+      if (pdfResult.success && pdfResult.filePath) {
+        response += `\n\n📄 **Report saved:** ${pdfResult.filePath}`;
+      }
+
+      return {
+        success: true,
+        category: 'Profit & Loss',
+        response: this.addTimestampToResponse(response),
+        data: rows,
+        responseType: pdfResult.success ? 'document' : 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Profit & Loss generation failed:', error);
+      return {
+        success: false,
+        category: 'Profit & Loss',
+        response: this.addTimestampToResponse(`Unable to build Profit & Loss statement: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
     }
+  }
 
-    // Try to get bill-wise outstandings with due dates from LedgerOutstandings table
-    const outstandingWithDatesQuery = `
-      SELECT
-        $LedgerName as party_name,
-        $BillName as bill_reference,
-        $BillDate as bill_date,
-        $DueDate as due_date,
-        $ClosingBalance as amount
-      FROM LedgerOutstandings
-      WHERE $ClosingBalance <> 0
-      ORDER BY ABS($ClosingBalance) DESC
-    `;
+  private async handleBalanceSheet(query: string): Promise<QueryResult> {
+    const period = await this.resolveReportPeriod(query);
 
-    // Fallback to simple Ledger query if LedgerOutstandings doesn't work
-    const simpleLedgerQuery = `
-      SELECT
-        CASE WHEN $Parent = 'Sundry Debtors' THEN 'Receivable' ELSE 'Payable' END as type,
-        $Name as party_name,
-        $ClosingBalance as amount
-      FROM Ledger
-      WHERE ($Parent = 'Sundry Debtors' OR $Parent = 'Sundry Creditors')
-        AND $ClosingBalance <> 0
-      ORDER BY ABS($ClosingBalance) DESC
-    `;
+    try {
+      const balanceSheet = await this.balanceSheetService.generateBalanceSheet(period.toDate);
+      const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      const asAt = balanceSheet.asAt.toLocaleDateString('en-IN');
+
+      let response = `⚖️ **Balance Sheet as at ${asAt}:**\n\n`;
+      response += '**LIABILITIES**\n';
+      balanceSheet.groups.filter(group => group.side === 'liability').forEach(group => {
+        response += `• ${group.name}: ${formatAmount(group.total)}\n`;
+      });
+      response += `**Total: ${formatAmount(balanceSheet.totalLiabilities)}**\n\n`;
 
-    // Try detailed query first
-    let result = await this.tallyService.executeQuery(outstandingWithDatesQuery);
-    let hasDueDates = false;
+      response += '**ASSETS**\n';
+      balanceSheet.groups.filter(group => group.side === 'asset').forEach(group => {
+        response += `• ${group.name}: ${formatAmount(group.total)}\n`;
+      });
+      response += `**Total: ${formatAmount(balanceSheet.totalAssets)}**\n\n`;
 
-    // If detailed query fails, use simple query
-    if (!result.success || !result.data || result.data.length === 0) {
-      console.log('📋 LedgerOutstandings not available, using simple Ledger query');
-      result = await this.tallyService.executeQuery(simpleLedgerQuery);
-    } else {
-      hasDueDates = true;
-      console.log('📋 Using LedgerOutstandings with due dates');
-    }
+      response += balanceSheet.isBalanced
+        ? '✅ Assets and liabilities tally'
+        : `❌ Difference of ${formatAmount(Math.abs(balanceSheet.difference))} between assets and liabilities`;
 
-    if (result.success && result.data && result.data.length > 0) {
-      // Group by party if we have bill-wise data
-      const partyMap = new Map<string, {
-        bills: any[];
-        totalAmount: number;
-        type: string;
-        earliestDueDate?: Date;
-      }>();
-
-      result.data.forEach((item: any) => {
-        const partyName = item.party_name || item.$LedgerName || item.$Name || 'Unknown Party';
-        const amount = this.parseAmount(item.amount || item.$ClosingBalance);
+      const otherWarnings = balanceSheet.warnings.filter(warning => !warning.startsWith('Assets and liabilities differ'));
+      if (otherWarnings.length > 0) {
+        response += `\n\n⚠️ ${otherWarnings.join('\n⚠️ ')}`;
+      }
 
-        if (amount === 0) return;
+      // Same shape PDFService.generateBalanceSheetContent expects
+      const rows = balanceSheet.groups.flatMap(group => group.ledgers.map(ledger => ({
+        name: ledger.name,
+        group: group.name,
+        balance: ledger.balance,
+        type: group.side
+      })));
 
-        // Determine type based on amount sign or parent
-        const type = amount > 0 ? 'Receivable' : 'Payable';
+      const netWorth = balanceSheet.groups
+        .filter(group => group.name === 'Capital Account' || group.name === 'Profit & Loss A/c')
+        .reduce((sum, group) => sum + group.total, 0);
 
-        if (!partyMap.has(partyName)) {
-          partyMap.set(partyName, {
-            bills: [],
-            totalAmount: 0,
-            type,
-            earliestDueDate: undefined
-          });
+      const pdfResult = await this.pdfService.generateTallyFormatPDF({
+        title: `Balance Sheet ${asAt}`,
+        companyName: await this.getCompanyName(),
+        reportDate: asAt,
+        data: rows,
+        type: 'balance-sheet',
+        totals: {
+          netWorth,
+          totalAssets: balanceSheet.totalAssets,
+          totalLiabilities: balanceSheet.totalLiabilities,
+          difference: balanceSheet.isBalanced ? 0 : balanceSheet.difference
         }
+      });
 
-        const party = partyMap.get(partyName)!;
-        party.totalAmount += Math.abs(amount);
+      if (pdfResult.success && pdfResult.filePath) {
+        response += `\n\n📄 **Report saved:** ${pdfResult.filePath}`;
+      }
 
-        // Add bill details if available
-        if (hasDueDates) {
-          const dueDate = item.due_date || item.$DueDate;
-          const billDate = item.bill_date || item.$BillDate;
-          const billRef = item.bill_reference || item.$BillName;
+      return {
+        success: true,
+        category: 'Balance Sheet',
+        response: this.addTimestampToResponse(response),
+        data: rows,
+        responseType: pdfResult.success ? 'document' : 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Balance Sheet generation failed:', error);
+      return {
+        success: false,
+        category: 'Balance Sheet',
+        response: this.addTimestampToResponse(`Unable to build Balance Sheet: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
+  }
 
-          party.bills.push({
-            reference: billRef,
-            billDate,
-            dueDate,
-            amount: Math.abs(amount)
-          });
+  // ==================== OUTSTANDING QUERY HANDLERS ====================
 
-          // Track earliest due date
-          if (dueDate) {
-            const dueDateObj = new Date(dueDate);
-            if (!party.earliestDueDate || dueDateObj < party.earliestDueDate) {
-              party.earliestDueDate = dueDateObj;
-            }
-          }
-        }
-      });
+  private async handleOutstandingQueries(query: string): Promise<QueryResult> {
+    const queryLower = query.toLowerCase();
 
-      // Sort parties by total amount (highest to lowest)
-      const sortedParties = Array.from(partyMap.entries())
-        .sort((a, b) => b[1].totalAmount - a[1].totalAmount);
+    // One-sided and ageing requests get the bill-wise ageing report
+    if (/payable|creditor|supplier|we owe|i owe/.test(queryLower)) {
+      return await this.handlePayables(query);
+    }
+    if (/ageing|aging|overdue|receivable|debtor|bill.?wise/.test(queryLower)) {
+      return await this.handleReceivables(query);
+    }
 
-      let response = '💼 **Outstanding Summary (Sorted by Amount):**\n\n';
-      let totalReceivables = 0;
-      let totalPayables = 0;
+    // Check if user is asking for specific company outstanding
+    const companyMatch = query.match(/(?:outstanding|balance|due)\s+(?:of|for)\s+([a-zA-Z\s]+)/i);
+    if (companyMatch && !this.isGenericOutstandingPhrase(companyMatch[1])) {
+      const companyName = companyMatch[1].trim();
+      return await this.handleSpecificCompanyOutstanding(companyName);
+    }
 
-      sortedParties.forEach(([partyName, party]) => {
-        const amountStr = `₹${party.totalAmount.toLocaleString('en-IN')}`;
+    // Check for patterns like "aditya outstanding" or "outstanding aditya"
+    const directMatch = query.match(/(?:outstanding|balance|due)\s+([a-zA-Z\s]+)|([a-zA-Z\s]+)\s+(?:outstanding|balance|due)/i);
+    if (directMatch && !this.isGenericOutstandingPhrase(directMatch[1] || directMatch[2])) {
+      const companyName = (directMatch[1] || directMatch[2]).trim();
+      return await this.handleSpecificCompanyOutstanding(companyName);
+    }
 
-        if (party.type === 'Receivable') {
-          totalReceivables += party.totalAmount;
-          response += `💰 **${partyName}** owes you: ${amountStr}`;
-        } else {
-          totalPayables += party.totalAmount;
-          response += `💸 You owe **${partyName}**: ${amountStr}`;
-        }
+    try {
+      const reports = await this.ageingService.generateAgeingReports();
+      const receivables = reports.receivable;
+      const payables = reports.payable;
 
-        // Add due date if available
-        if (party.earliestDueDate) {
-          const dueDateStr = party.earliestDueDate.toLocaleDateString('en-IN', {
-            day: '2-digit',
-            month: 'short',
-            year: 'numeric'
-          });
-          const today = new Date();
-          const daysOverdue = Math.floor((today.getTime() - party.earliestDueDate.getTime()) / (1000 * 60 * 60 * 24));
+      if (receivables.parties.length === 0 && payables.parties.length === 0) {
+        return { success: false, category: 'Outstanding', response: this.addTimestampToResponse('No outstanding amounts found'), responseType: 'text', executionTime: 0 };
+      }
 
-          if (daysOverdue > 0) {
-            response += ` | 🔴 **Due:** ${dueDateStr} (${daysOverdue} days overdue)`;
-          } else if (daysOverdue > -7) {
-            response += ` | 🟡 **Due:** ${dueDateStr} (due soon)`;
-          } else {
-            response += ` | 🟢 **Due:** ${dueDateStr}`;
-          }
-        }
+      let response = '💼 **Outstanding Summary (Sorted by Amount):**\n\n';
+      const parties = [...receivables.parties, ...payables.parties].sort((a, b) => b.total - a.total);
+
+      parties.forEach(party => {
+        const amountStr = this.formatAgeingAmount(party.total);
+        response += receivables.parties.includes(party)
+          ? `💰 **${party.partyName}** owes you: ${amountStr}`
+          : `💸 You owe **${party.partyName}**: ${amountStr}`;
 
+        if (party.maxOverdueDays > 0) {
+          response += ` | ${party.maxOverdueDays > 90 ? '🔴' : party.maxOverdueDays > 30 ? '🟠' : '🟡'} oldest bill ${party.maxOverdueDays} days overdue`;
+        }
         response += '\n';
       });
 
       response += `\n📊 **Summary:**\n`;
-      response += `💰 Total Receivables: ₹${totalReceivables.toLocaleString('en-IN')}\n`;
-      response += `💸 Total Payables: ₹${totalPayables.toLocaleString('en-IN')}\n`;
-      response += `📈 Net Position: ₹${(totalReceivables - totalPayables).toLocaleString('en-IN')}`;
-
-      // Prepare data for table display
-      const tableData = sortedParties.map(([partyName, party]) => ({
-        party_name: partyName,
-        type: party.type,
-        amount: party.totalAmount,
-        due_date: party.earliestDueDate?.toISOString().split('T')[0] || 'N/A',
-        days_overdue: party.earliestDueDate
-          ? Math.floor((new Date().getTime() - party.earliestDueDate.getTime()) / (1000 * 60 * 60 * 24))
-          : 0
+      response += `💰 Total Receivables: ${this.formatAgeingAmount(receivables.total)} (90+ days: ${this.formatAgeingAmount(receivables.buckets['90+'])})\n`;
+      response += `💸 Total Payables: ${this.formatAgeingAmount(payables.total)} (90+ days: ${this.formatAgeingAmount(payables.buckets['90+'])})\n`;
+      response += `📈 Net Position: ${this.formatAgeingAmount(receivables.total - payables.total)}`;
+
+      if (receivables.warnings.length > 0) {
+        response += `\n\n⚠️ ${receivables.warnings.join('\n⚠️ ')}`;
+      }
+
+      const tableData = parties.map(party => ({
+        party_name: party.partyName,
+        type: receivables.parties.includes(party) ? 'Receivable' : 'Payable',
+        amount: party.total,
+        days_overdue: party.maxOverdueDays,
+        ...party.buckets
       }));
 
       return {
@@ -1306,12 +1544,50 @@ export class ComprehensiveQueryHandler {
         responseType: 'text',
         executionTime: 0
       };
+    } catch (error) {
+      console.error('Outstanding summary failed:', error);
+      return {
+        success: false,
+        category: 'Outstanding',
+        response: this.addTimestampToResponse(`Unable to read outstanding bills: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
     }
-
-    return { success: false, category: 'Outstanding', response: this.addTimestampToResponse('No outstanding amounts found'), responseType: 'text', executionTime: 0 };
   }
 
   private async handleSpecificCompanyOutstanding(companyName: string): Promise<QueryResult> {
+    // Prefer pending bills with overdue days for the matching parties
+    try {
+      const reports = await this.ageingService.generateAgeingReports();
+      const nameLower = companyName.toLowerCase();
+      const matches = [...reports.receivable.parties, ...reports.payable.parties]
+        .filter(party => party.partyName.toLowerCase().includes(nameLower));
+
+      if (reports.receivable.billWise && matches.length > 0) {
+        let response = `🔍 **Outstanding bills for parties matching "${companyName}":**\n\n`;
+        matches.forEach(party => {
+          const isReceivable = reports.receivable.parties.includes(party);
+          response += isReceivable
+            ? `💰 **${party.partyName}** owes you: ${this.formatAgeingAmount(party.total)}\n`
+            : `💸 You owe **${party.partyName}**: ${this.formatAgeingAmount(party.total)}\n`;
+          response += this.formatAgedBills(party.bills, 10);
+          response += '\n';
+        });
+
+        return {
+          success: true,
+          category: 'Outstanding',
+          response: this.addTimestampToResponse(response.trimEnd()),
+          data: matches,
+          responseType: 'text',
+          executionTime: 0
+        };
+      }
+    } catch (error) {
+      console.log('⚠️ Bill-wise outstanding unavailable, using party balances:', error);
+    }
+
     // Search for companies matching the given name (partial match)
     const specificOutstandingQuery = `
       SELECT 
@@ -1326,7 +1602,7 @@ export class ComprehensiveQueryHandler {
       ORDER BY ABS($ClosingBalance) DESC
     `;
 
-    const result = await this.tallyService.executeQuery(specificOutstandingQuery);
+    const result = await this.dataSource.executeQuery(specificOutstandingQuery);
     if (result.success && result.data && result.data.length > 0) {
       let response = `🔍 **Outstanding for companies matching "${companyName}":**\n\n`;
       let totalReceivables = 0;
@@ -1403,135 +1679,127 @@ export class ComprehensiveQueryHandler {
   }
 
   private async handleReceivables(query: string): Promise<QueryResult> {
-    const receivablesQuery = `
-      SELECT $Name, $ClosingBalance
-      FROM Ledger 
-      WHERE $Parent = 'Sundry Debtors' AND $ClosingBalance != 0
-      ORDER BY ABS($ClosingBalance) DESC
-    `;
-
-    const result = await this.tallyService.executeQuery(receivablesQuery);
-    if (result.success && result.data && result.data.length > 0) {
-      let response = '💰 **Accounts Receivable:**\n\n';
-      let totalReceivables = 0;
+    return await this.handleAgeingReport('receivable');
+  }
 
-      result.data.forEach((item: any, index: number) => {
-        // Use actual field names from Tally ODBC
-        const customerName = item.$Name || item.Name || item.customer_name || 'Unknown Customer';
-        
-        // Parse amount - handle string and numeric values
-        let amount = 0;
-        if (item.$ClosingBalance !== undefined && item.$ClosingBalance !== null) {
-          if (typeof item.$ClosingBalance === 'number') {
-            amount = item.$ClosingBalance;
-          } else if (typeof item.$ClosingBalance === 'string') {
-            if (item.$ClosingBalance === '—' || item.$ClosingBalance === '-') {
-              amount = 0;
-            } else {
-              // Handle currency strings like "₹12,63,844.06 Dr"
-              const cleanStr = item.$ClosingBalance.replace(/[₹,\s]/g, '');
-              const numericMatch = cleanStr.match(/[\d.-]+/);
-              if (numericMatch) {
-                amount = parseFloat(numericMatch[0]);
-                if (cleanStr.includes('Dr')) {
-                  amount = Math.abs(amount); // Debit is positive
-                } else if (cleanStr.includes('Cr')) {
-                  amount = -Math.abs(amount); // Credit is negative
-                }
-              }
-            }
-          }
-        }
-        
-        // Skip zero amounts
-        if (amount === 0) return;
-        
-        totalReceivables += Math.abs(amount);
-        const amountStr = `₹${Math.abs(amount).toLocaleString('en-IN')}`;
-        
-        // Add color coding: Green for receivables (money coming to you)
-        response += `${index + 1}. **${customerName}** - ${amountStr}\n`;
-      });
+  private async handlePayables(query: string): Promise<QueryResult> {
+    return await this.handleAgeingReport('payable');
+  }
 
-      response += `\n💰 **Total Receivables: ₹${totalReceivables.toLocaleString('en-IN')}**`;
+  /**
+   * Bill-wise ageing in chat plus an ageing PDF
+   */
+  private async handleAgeingReport(type: OutstandingType): Promise<QueryResult> {
+    const isReceivable = type === 'receivable';
+    const label = isReceivable ? 'Receivables' : 'Payables';
 
-      return {
-        success: true,
-        category: 'Outstanding',
-        response: this.addTimestampToResponse(response),
-        data: result.data,
-        responseType: 'text',
-        executionTime: 0
-      };
-    }
+    try {
+      const report = await this.ageingService.generateAgeing(type);
+      if (report.parties.length === 0) {
+        return { success: false, category: 'Outstanding', response: this.addTimestampToResponse(`No ${label.toLowerCase()} found`), responseType: 'text', executionTime: 0 };
+      }
 
-    return { success: false, category: 'Outstanding', response: this.addTimestampToResponse('No receivables found'), responseType: 'text', executionTime: 0 };
-  }
+      let response = `${isReceivable ? '💰' : '💸'} **${label} Ageing as at ${report.asAt.toLocaleDateString('en-IN')}:**\n\n`;
+      AGEING_BUCKETS.forEach(bucket => {
+        response += `   ${bucket} days: ${this.formatAgeingAmount(report.buckets[bucket])}\n`;
+      });
+      response += `   **Total: ${this.formatAgeingAmount(report.total)}**\n\n`;
 
-  private async handlePayables(query: string): Promise<QueryResult> {
-    const payablesQuery = `
-      SELECT $Name, $ClosingBalance
-      FROM Ledger 
-      WHERE $Parent = 'Sundry Creditors' AND $ClosingBalance != 0
-      ORDER BY ABS($ClosingBalance) DESC
-    `;
+      response += `**By ${isReceivable ? 'Customer' : 'Supplier'}:**\n`;
+      report.parties.slice(0, 10).forEach((party, index) => {
+        response += `${index + 1}. **${party.partyName}** - ${this.formatAgeingAmount(party.total)}`;
+        if (party.buckets['90+'] > 0) response += ` (90+: ${this.formatAgeingAmount(party.buckets['90+'])})`;
+        response += '\n';
+        if (report.billWise) response += this.formatAgedBills(party.bills, 3);
+      });
+      if (report.parties.length > 10) {
+        response += `... and ${report.parties.length - 10} more parties\n`;
+      }
 
-    const result = await this.tallyService.executeQuery(payablesQuery);
-    if (result.success && result.data && result.data.length > 0) {
-      let response = '💸 **Accounts Payable:**\n\n';
-      let totalPayables = 0;
+      if (report.warnings.length > 0) {
+        response += `\n⚠️ ${report.warnings.join('\n⚠️ ')}\n`;
+      }
 
-      result.data.forEach((item: any, index: number) => {
-        // Use actual field names from Tally ODBC
-        const supplierName = item.$Name || item.Name || item.supplier_name || 'Unknown Supplier';
-        
-        // Parse amount - handle string and numeric values
-        let amount = 0;
-        if (item.$ClosingBalance !== undefined && item.$ClosingBalance !== null) {
-          if (typeof item.$ClosingBalance === 'number') {
-            amount = item.$ClosingBalance;
-          } else if (typeof item.$ClosingBalance === 'string') {
-            if (item.$ClosingBalance === '—' || item.$ClosingBalance === '-') {
-              amount = 0;
-            } else {
-              // Handle currency strings like "₹12,63,844.06 Dr"
-              const cleanStr = item.$ClosingBalance.replace(/[₹,\s]/g, '');
-              const numericMatch = cleanStr.match(/[\d.-]+/);
-              if (numericMatch) {
-                amount = parseFloat(numericMatch[0]);
-                if (cleanStr.includes('Dr')) {
-                  amount = Math.abs(amount); // Debit is positive
-                } else if (cleanStr.includes('Cr')) {
-                  amount = -Math.abs(amount); // Credit is negative
-                }
-              }
-            }
-          }
+      const pdfResult = await this.pdfService.generateTallyFormatPDF({
+        title: `${label} Ageing`,
+        companyName: await this.getCompanyName(),
+        reportDate: new Date().toLocaleDateString('en-IN'),
+        data: this.buildAgeingRows(report),
+        type: 'ageing',
+        period: {
+          from: '',
+          to: report.asAt.toLocaleDateString('en-IN')
         }
-        
-        // Skip zero amounts
-        if (amount === 0) return;
-        
-        totalPayables += Math.abs(amount);
-        const amountStr = `₹${Math.abs(amount).toLocaleString('en-IN')}`;
-        
-        // Add color coding: Red for payables (money you owe)
-        response += `${index + 1}. **${supplierName}** - ${amountStr}\n`;
       });
-
-      response += `\n💸 **Total Payables: ₹${totalPayables.toLocaleString('en-IN')}**`;
+      if (pdfResult.success && pdfResult.filePath) {
+        response += `\n📄 **Report saved:** ${pdfResult.filePath}`;
+      }
 
       return {
         success: true,
         category: 'Outstanding',
-        response: this.addTimestampToResponse(response),
-        data: result.data,
+        response: this.addTimestampToResponse(response.trimEnd()),
+        data: report.parties,
+        responseType: pdfResult.success ? 'document' : 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error(`${label} ageing failed:`, error);
+      return {
+        success: false,
+        category: 'Outstanding',
+        response: this.addTimestampToResponse(`Unable to build ${label.toLowerCase()} ageing: ${error instanceof Error ? error.message : error}`),
         responseType: 'text',
         executionTime: 0
       };
     }
+  }
 
-    return { success: false, category: 'Outstanding', response: this.addTimestampToResponse('No payables found'), responseType: 'text', executionTime: 0 };
+  /**
+   * Party and bill rows for the ageing PDF
+   */
+  private buildAgeingRows(report: AgeingReport): any[] {
+    const formatDate = (date?: Date) => date ? date.toLocaleDateString('en-IN') : '';
+    const rows: any[] = [];
+
+    report.parties.forEach(party => {
+      rows.push({ particulars: party.partyName, buckets: party.buckets, isParty: true });
+      if (!report.billWise) return;
+      party.bills.forEach(bill => rows.push({
+        particulars: bill.billReference,
+        billDate: formatDate(bill.billDate),
+        dueDate: formatDate(bill.dueDate),
+        overdueDays: bill.overdueDays,
+        buckets: { [bill.bucket]: bill.amount }
+      }));
+    });
+    rows.push({ particulars: 'Grand Total', buckets: report.buckets, isTotal: true });
+
+    return rows;
+  }
+
+  private formatAgedBills(bills: AgedBill[], limit: number): string {
+    let text = '';
+    bills.slice(0, limit).forEach(bill => {
+      const overdue = bill.overdueDays > 0 ? `${bill.overdueDays} days overdue` : 'not yet due';
+      text += `   • ${bill.billReference}${bill.billDate ? ` (${bill.billDate.toLocaleDateString('en-IN')})` : ''}: ${this.formatAgeingAmount(bill.amount)} - ${overdue}\n`;
+    });
+    if (bills.length > limit) {
+      text += `   • ... and ${bills.length - limit} more bills\n`;
+    }
+    return text;
+  }
+
+  /**
+   * True when the words around "outstanding" are filler rather than a party name
+   */
+  private isGenericOutstandingPhrase(phrase: string): boolean {
+    const fillerWords = ['show', 'me', 'my', 'what', 'are', 'is', 'the', 'total', 'all', 'list', 'summary', 'amount', 'amounts', 'kitna', 'hai', 'give', 'get', 'current'];
+    return phrase.toLowerCase().split(/\s+/).filter(Boolean).every(word => fillerWords.includes(word));
+  }
+
+  private formatAgeingAmount(amount: number): string {
+    return `${amount < 0 ? '-' : ''}₹${Math.abs(amount).toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
   }
 
   // ==================== CASH & BANK QUERY HANDLERS ====================
@@ -1544,7 +1812,7 @@ export class ComprehensiveQueryHandler {
       ORDER BY $ClosingBalance DESC
     `;
 
-    const result = await this.tallyService.executeQuery(cashQuery);
+    const result = await this.dataSource.executeQuery(cashQuery);
     if (result.success && result.data && result.data.length > 0) {
       let response = '💵 **Cash & Bank Summary:**\n\n';
       let totalCash = 0;
@@ -1613,17 +1881,197 @@ export class ComprehensiveQueryHandler {
   }
 
   private async handleBankQueries(query: string): Promise<QueryResult> {
-    return this.handleCashQueries(query); // Same handler for bank queries
+    if (!/reconcil|brs|bank reco|bank statement|unmatched|uncleared|not presented|not cleared|bank se match|bank milan/.test(query)) {
+      return this.handleCashQueries(query); // Plain balance questions
+    }
+
+    if (!this.bankReconciliationService) {
+      return { success: false, category: 'Bank Reconciliation', response: this.addTimestampToResponse('Bank reconciliation is not available'), responseType: 'text', executionTime: 0 };
+    }
+
+    try {
+      const bankLedgers = await this.bankReconciliationService.getBankLedgers();
+      const imported = this.bankReconciliationService.getImportedLedgers();
+
+      // The ledger named in the query, else the only ledger with an imported statement
+      const namedLedger = bankLedgers.find(ledger => query.includes(ledger.name.toLowerCase()))
+        || bankLedgers.find(ledger => ledger.name.toLowerCase().split(/\s+/).some(word => word.length > 3 && !['bank', 'account'].includes(word) && query.includes(word)));
+      const bankLedger = namedLedger
+        ? namedLedger.name
+        : imported.length === 1 ? bankLedgers.find(ledger => ledger.name.toLowerCase() === imported[0])?.name || imported[0] : '';
+
+      if (!bankLedger) {
+        let response = '🏦 **Which bank account should I reconcile?**\n\n';
+        bankLedgers.forEach((ledger, index) => {
+          const hasStatement = imported.includes(ledger.name.toLowerCase()) ? ' - statement imported' : '';
+          response += `${index + 1}. ${ledger.name}${hasStatement}\n`;
+        });
+        response += '\nImport the bank statement (CSV or OFX) for the account, then ask e.g. "reconcile HDFC Bank".';
+        return { success: true, category: 'Bank Reconciliation', response: this.addTimestampToResponse(response), responseType: 'text', executionTime: 0 };
+      }
+
+      const statement = this.bankReconciliationService.getImportedStatement(bankLedger);
+      if (!statement) {
+        return {
+          success: true,
+          category: 'Bank Reconciliation',
+          response: this.addTimestampToResponse(`📥 No bank statement imported for **${bankLedger}** yet. Import the CSV or OFX statement downloaded from net banking, then ask again.`),
+          responseType: 'text',
+          executionTime: 0
+        };
+      }
+
+      const reconciliation = await this.bankReconciliationService.reconcile(bankLedger, statement);
+      let response = this.formatBankReconciliation(reconciliation);
+
+      const pdfResult = await this.bankReconciliationService.generateStatementPDF(reconciliation);
+      if (pdfResult.success && pdfResult.filePath) {
+        response += `\n\n📄 **BRS saved:** ${pdfResult.filePath}`;
+      }
+
+      return {
+        success: true,
+        category: 'Bank Reconciliation',
+        response: this.addTimestampToResponse(response),
+        data: [
+          ...reconciliation.unmatchedInBooks.map(entry => ({
+            status: 'In books only',
+            date: entry.date.toLocaleDateString('en-IN'),
+            particulars: entry.particulars,
+            reference: entry.instrumentNumber || entry.voucherNumber,
+            amount: entry.amount
+          })),
+          ...reconciliation.unmatchedInBank.map(line => ({
+            status: 'In bank only',
+            date: line.date.toLocaleDateString('en-IN'),
+            particulars: line.description,
+            reference: line.reference,
+            amount: line.amount
+          }))
+        ],
+        responseType: pdfResult.success ? 'document' : 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Bank reconciliation failed:', error);
+      return {
+        success: false,
+        category: 'Bank Reconciliation',
+        response: this.addTimestampToResponse(`Unable to reconcile bank account: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
+  }
+
+  private formatBankReconciliation(reconciliation: BankReconciliation): string {
+    const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}₹${Math.abs(amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    const formatDate = (date: Date) => date.toLocaleDateString('en-IN');
+    const limit = 10;
+
+    let response = `🏦 **Bank Reconciliation - ${reconciliation.bankLedger}**\n`;
+    response += `Statement period: ${formatDate(reconciliation.fromDate)} to ${formatDate(reconciliation.toDate)}\n\n`;
+    response += `✅ Matched: ${reconciliation.matched.length} entries`;
+    const dateMatches = reconciliation.matched.filter(match => match.matchType === 'amount-date').length;
+    if (dateMatches > 0) response += ` (${dateMatches} by amount and date only)`;
+    response += '\n\n';
+
+    if (reconciliation.unmatchedInBooks.length > 0) {
+      response += `📒 **In Tally, not in bank (${reconciliation.unmatchedInBooks.length}):**\n`;
+      reconciliation.unmatchedInBooks.slice(0, limit).forEach(entry => {
+        const reference = entry.instrumentNumber ? ` Chq ${entry.instrumentNumber}` : '';
+        response += `   • ${formatDate(entry.date)} ${entry.particulars}${reference}: ${formatAmount(entry.amount)}\n`;
+      });
+      if (reconciliation.unmatchedInBooks.length > limit) {
+        response += `   • ... and ${reconciliation.unmatchedInBooks.length - limit} more\n`;
+      }
+      response += '\n';
+    }
+
+    if (reconciliation.unmatchedInBank.length > 0) {
+      response += `🏛️ **In bank, not in Tally (${reconciliation.unmatchedInBank.length}):**\n`;
+      reconciliation.unmatchedInBank.slice(0, limit).forEach(line => {
+        response += `   • ${formatDate(line.date)} ${line.description}${line.reference ? ` (${line.reference})` : ''}: ${formatAmount(line.amount)}\n`;
+      });
+      if (reconciliation.unmatchedInBank.length > limit) {
+        response += `   • ... and ${reconciliation.unmatchedInBank.length - limit} more\n`;
+      }
+      response += '\n';
+    }
+
+    response += '**Reconciliation Statement:**\n';
+    response += `   Balance as per books: ${formatAmount(reconciliation.balanceAsPerBooks)}\n`;
+    response += `   Add: Cheques issued not presented: ${formatAmount(reconciliation.chequesIssuedNotPresented)}\n`;
+    response += `   Less: Deposits not cleared: ${formatAmount(reconciliation.chequesDepositedNotCleared)}\n`;
+    response += `   Add: Bank credits not in books: ${formatAmount(reconciliation.bankCreditsNotInBooks)}\n`;
+    response += `   Less: Bank debits not in books: ${formatAmount(reconciliation.bankDebitsNotInBooks)}\n`;
+    response += `   **Balance as per bank: ${formatAmount(reconciliation.balanceAsPerBank)}**`;
+
+    if (reconciliation.statementClosingBalance !== undefined) {
+      const reconciled = Math.abs(reconciliation.difference || 0) <= 1;
+      response += `\n   Statement closing balance: ${formatAmount(reconciliation.statementClosingBalance)} ${reconciled ? '✅' : '❌'}`;
+    }
+
+    if (reconciliation.warnings.length > 0) {
+      response += `\n\n⚠️ ${reconciliation.warnings.join('\n⚠️ ')}`;
+    }
+
+    return response;
   }
 
   private async handleCashFlow(query: string): Promise<QueryResult> {
-    return {
-      success: true,
-      category: 'Cash & Bank',
-      response: '📊 Cash flow analysis requires advanced reporting features. Please use Tally ERP for detailed cash flow reports.',
-      responseType: 'text',
-      executionTime: 0
-    };
+    // Forward-looking questions get the projection, everything else the statement
+    const isProjection = /next|will i|projection|projected|forecast|enough|agle|kaafi|upcoming|30 days|60 days|90 days/.test(query);
+    if (!isProjection) {
+      return this.handleCashFlowReport(query);
+    }
+
+    try {
+      const projection = await this.cashFlowService.projectCashPosition();
+      const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+      let response = '🔮 **Projected Cash Position:**\n\n';
+      response += `💵 Cash & Bank today: ${formatAmount(projection.currentCash)}\n\n`;
+      projection.horizons.forEach(horizon => {
+        response += `**Next ${horizon.days} days:**\n`;
+        response += `   📥 Receipts due: ${formatAmount(horizon.receipts)}\n`;
+        response += `   📤 Payments due: ${formatAmount(horizon.payments)}\n`;
+        response += `   ${horizon.projectedCash >= 0 ? '🟢' : '🔴'} Projected balance: ${formatAmount(horizon.projectedCash)}\n\n`;
+      });
+
+      const shortfall = projection.horizons.find(horizon => horizon.projectedCash < 0);
+      response += shortfall
+        ? `⚠️ **Cash shortfall expected within ${shortfall.days} days** - follow up on receivables or reschedule payments`
+        : '✅ **Cash looks sufficient for the next 90 days**';
+
+      if (projection.warnings.length > 0) {
+        response += `\n\n⚠️ ${projection.warnings.join('\n⚠️ ')}`;
+      }
+
+      return {
+        success: true,
+        category: 'Cash Flow',
+        response: this.addTimestampToResponse(response),
+        data: projection.horizons.map(horizon => ({
+          horizon: `${horizon.days} days`,
+          opening_cash: Math.round(projection.currentCash * 100) / 100,
+          receipts: Math.round(horizon.receipts * 100) / 100,
+          payments: Math.round(horizon.payments * 100) / 100,
+          projected_cash: Math.round(horizon.projectedCash * 100) / 100
+        })),
+        responseType: 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Cash projection failed:', error);
+      return {
+        success: false,
+        category: 'Cash Flow',
+        response: this.addTimestampToResponse(`Unable to project cash position: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
   }
 
   // ==================== INVENTORY QUERY HANDLERS ====================
@@ -1636,7 +2084,7 @@ export class ComprehensiveQueryHandler {
     ];
 
     for (const sqlQuery of inventoryQueries) {
-      const result = await this.tallyService.executeQuery(sqlQuery);
+      const result = await this.dataSource.executeQuery(sqlQuery);
       if (result.success && result.data && result.data.length > 0) {
         // Sort by quantity (highest to lowest) and take top 10
         const sortedData = result.data
@@ -1745,13 +2193,126 @@ export class ComprehensiveQueryHandler {
   // ==================== REMINDER QUERY HANDLERS ====================
 
   private async handleReminderQueries(query: string): Promise<QueryResult> {
-    return {
-      success: true,
-      category: 'Reminder',
-      response: '⏰ Reminder system is under development. This feature will allow you to set reminders for payments, follow-ups, and tasks.',
-      responseType: 'text',
-      executionTime: 0
-    };
+    const queryLower = query.toLowerCase();
+    const isPaymentReminder = /payment|overdue|whatsapp|customer|party|send reminder|reminders? (sent|status)|preview|who will/.test(queryLower);
+
+    if (!isPaymentReminder) {
+      return {
+        success: true,
+        category: 'Reminder',
+        response: '⏰ Personal reminders are under development. Payment reminders to customers are available - try "preview payment reminders" or "payment reminder status".',
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
+
+    if (!this.paymentReminderService) {
+      return {
+        success: true,
+        category: 'Reminder',
+        response: this.addTimestampToResponse('📵 WhatsApp payment reminders are not set up yet. Link WhatsApp from the app to start sending reminders.'),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
+
+    try {
+      // Sending
+      if (/send|bhej/.test(queryLower) && !/sent|status/.test(queryLower)) {
+        const result = await this.paymentReminderService.runReminders();
+        let response = `📨 **Payment Reminders Sent:** ${result.sent.length}\n\n`;
+        result.sent.forEach(record => {
+          response += `✅ **${record.partyName}** - ${record.stage} reminder for ₹${record.amount.toLocaleString('en-IN')}\n`;
+        });
+        result.failed.forEach(record => {
+          response += `❌ **${record.partyName}** - ${record.error}\n`;
+        });
+        const skipped = result.candidates.filter(candidate => candidate.skipReason);
+        if (skipped.length > 0) {
+          response += `\n⏭️ **Skipped:**\n`;
+          skipped.forEach(candidate => response += `• ${candidate.partyName} - ${candidate.skipReason}\n`);
+        }
+        if (result.candidates.length === 0) {
+          response += 'No customers are due a reminder right now.\n';
+        }
+        if (result.warnings.length > 0) {
+          response += `\n⚠️ ${result.warnings.join('\n⚠️ ')}`;
+        }
+
+        return {
+          success: true,
+          category: 'Reminder',
+          response: this.addTimestampToResponse(response.trimEnd()),
+          data: result,
+          responseType: 'text',
+          executionTime: 0
+        };
+      }
+
+      // Preview
+      if (/preview|who will|due|pending|kis ko|kisko/.test(queryLower)) {
+        const result = await this.paymentReminderService.runReminders({ dryRun: true });
+        let response = '👀 **Payment Reminders Due:**\n\n';
+        if (result.candidates.length === 0) {
+          response += 'No customers are due a reminder right now.\n';
+        }
+        result.candidates.forEach(candidate => {
+          response += `${candidate.skipReason ? '⏭️' : '📨'} **${candidate.partyName}** - ${candidate.stage} reminder, ₹${candidate.amount.toLocaleString('en-IN')} (${candidate.overdueDays} days overdue)`;
+          response += candidate.skipReason ? ` - skipped: ${candidate.skipReason}\n` : '\n';
+        });
+        response += '\n💡 Say "send payment reminders" to send them now.';
+        if (result.warnings.length > 0) {
+          response += `\n\n⚠️ ${result.warnings.join('\n⚠️ ')}`;
+        }
+
+        return {
+          success: true,
+          category: 'Reminder',
+          response: this.addTimestampToResponse(response),
+          data: result.candidates,
+          responseType: 'text',
+          executionTime: 0
+        };
+      }
+
+      // Status of what has been sent
+      const status = this.paymentReminderService.getStatus();
+      const statusIcons: Record<ReminderRecord['status'], string> = {
+        sent: '✔️', delivered: '✔️✔️', read: '👁️', replied: '💬', failed: '❌'
+      };
+
+      let response = '📋 **Payment Reminder Status:**\n\n';
+      response += `⏱️ Scheduler: ${status.isRunning ? 'running' : 'stopped'} | WhatsApp: ${status.whatsappConnected ? 'connected' : 'not connected'}\n`;
+      if (status.lastRun) {
+        response += `🕐 Last run: ${status.lastRun.toLocaleString('en-IN')}\n`;
+      }
+      response += '\n';
+
+      if (status.recentRecords.length === 0) {
+        response += 'No reminders have been sent yet.';
+      }
+      status.recentRecords.slice(0, 15).forEach(record => {
+        response += `${statusIcons[record.status]} **${record.partyName}** - ${record.stage} reminder on ${new Date(record.sentAt).toLocaleDateString('en-IN')} (${record.status})\n`;
+      });
+
+      return {
+        success: true,
+        category: 'Reminder',
+        response: this.addTimestampToResponse(response.trimEnd()),
+        data: status.recentRecords,
+        responseType: 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Payment reminder query failed:', error);
+      return {
+        success: false,
+        category: 'Reminder',
+        response: this.addTimestampToResponse(`Unable to process payment reminders: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
   }
 
   private async handleTaskManagement(query: string): Promise<QueryResult> {
@@ -1773,7 +2334,7 @@ export class ComprehensiveQueryHandler {
       FROM Ledger
     `;
 
-    const result = await this.tallyService.executeQuery(analyticalQuery);
+    const result = await this.dataSource.executeQuery(analyticalQuery);
     console.log('📊 Analytical query result:', {
       success: result.success,
       hasData: !!result.data,
@@ -1847,7 +2408,7 @@ export class ComprehensiveQueryHandler {
       FROM Ledger
     `;
 
-    const result = await this.tallyService.executeQuery(highestBalanceQuery);
+    const result = await this.dataSource.executeQuery(highestBalanceQuery);
     console.log('🏆 Highest balance query result:', {
       success: result.success,
       hasData: !!result.data,
@@ -1909,24 +2470,166 @@ export class ComprehensiveQueryHandler {
 
   // ==================== MISCELLANEOUS QUERY HANDLERS ====================
 
-  private async handleVATQueries(query: string): Promise<QueryResult> {
-    return {
-      success: true,
-      category: 'Miscellaneous',
-      response: '📋 VAT return queries require tax-specific reporting. Please use Tally ERP for VAT returns and tax reports.',
-      responseType: 'text',
-      executionTime: 0
-    };
+  private async handleGSTQueries(query: string): Promise<QueryResult> {
+    // Returns are filed monthly, so default to the previous month rather than the FY
+    const dateInfo = this.extractDateFromQuery(query);
+    let period: { fromDate: Date; toDate: Date; description: string };
+    if (dateInfo.hasDateFilter || /quarter|year|\bfy\b/.test(query)) {
+      period = await this.resolveReportPeriod(query);
+    } else {
+      const today = new Date();
+      const fromDate = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+      const toDate = new Date(today.getFullYear(), today.getMonth(), 0);
+      period = { fromDate, toDate, description: `${this.getMonthName(fromDate.getMonth())} ${fromDate.getFullYear()}` };
+    }
+
+    try {
+      const report = await this.gstService.generateReport(period.fromDate, period.toDate);
+      const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      const gstr3b = report.gstr3b;
+      const countSection = (section: string) =>
+        report.invoices.filter(invoice => invoice.kind === 'sales' && invoice.section === section).length;
+
+      let response = `🧾 **GST Summary - ${period.description}:**\n`;
+      if (report.companyGSTIN) response += `GSTIN: ${report.companyGSTIN}\n`;
+      response += '\n**GSTR-1:**\n';
+      response += `• B2B invoices: ${countSection('b2b')}\n`;
+      response += `• B2C Large: ${countSection('b2cl')}\n`;
+      response += `• B2C Small: ${countSection('b2cs')}\n`;
+      response += `• Exports: ${countSection('export')}\n`;
+      response += `• Nil rated/exempt: ${countSection('nil')}\n`;
+      response += `• Credit notes: ${report.invoices.filter(invoice => invoice.kind === 'credit-note').length}\n`;
+      response += `• HSN lines: ${report.hsnSummary.length}\n\n`;
+
+      response += '**GSTR-3B:**\n';
+      response += `• Taxable outward supplies: ${formatAmount(gstr3b.outwardTaxable.taxableValue)}\n`;
+      response += `• Output tax: IGST ${formatAmount(gstr3b.outputTax.igst)}, CGST ${formatAmount(gstr3b.outputTax.cgst)}, SGST ${formatAmount(gstr3b.outputTax.sgst)}\n`;
+      response += `• Input tax credit: IGST ${formatAmount(gstr3b.inputTaxCredit.igst)}, CGST ${formatAmount(gstr3b.inputTaxCredit.cgst)}, SGST ${formatAmount(gstr3b.inputTaxCredit.sgst)}\n\n`;
+
+      const cashPayable = gstr3b.payableInCash.igst + gstr3b.payableInCash.cgst + gstr3b.payableInCash.sgst + gstr3b.payableInCash.cess;
+      response += `💰 **Payable in cash: ${formatAmount(cashPayable)}**\n`;
+      const carryForward = gstr3b.creditCarriedForward.igst + gstr3b.creditCarriedForward.cgst + gstr3b.creditCarriedForward.sgst;
+      if (carryForward > 0) response += `📥 ITC carried forward: ${formatAmount(carryForward)}\n`;
+
+      if (report.warnings.length > 0) {
+        response += `\n⚠️ ${report.warnings.join('\n⚠️ ')}\n`;
+      }
+
+      const jsonPath = this.gstService.exportGSTR1(report, this.pdfService.getOutputDirectory());
+      response += `\n📄 **GSTR-1 JSON saved:** ${jsonPath}`;
+
+      // GSTR-3B table for the chat UI
+      const taxRow = (particulars: string, amounts: { taxableValue?: number; igst: number; cgst: number; sgst: number; cess: number }) => ({
+        particulars,
+        taxable_value: amounts.taxableValue !== undefined ? Math.round(amounts.taxableValue * 100) / 100 : '',
+        igst: Math.round(amounts.igst * 100) / 100,
+        cgst: Math.round(amounts.cgst * 100) / 100,
+        sgst: Math.round(amounts.sgst * 100) / 100,
+        cess: Math.round(amounts.cess * 100) / 100
+      });
+      const rows = [
+        taxRow('3.1(a) Outward taxable supplies', gstr3b.outwardTaxable),
+        taxRow('3.1(b) Zero rated (exports)', gstr3b.zeroRated),
+        taxRow('3.1(c) Nil rated / exempted', gstr3b.nilExempt),
+        taxRow('4(A) ITC available', gstr3b.inputTaxCredit),
+        taxRow('Tax payable in cash', gstr3b.payableInCash),
+        taxRow('ITC carried forward', gstr3b.creditCarriedForward)
+      ];
+
+      return {
+        success: true,
+        category: 'GST',
+        response: this.addTimestampToResponse(response),
+        data: rows,
+        responseType: 'document',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('GST report generation failed:', error);
+      return {
+        success: false,
+        category: 'GST',
+        response: this.addTimestampToResponse(`Unable to prepare GST returns: ${error instanceof Error ? error.message : error}\n\nGST returns need the Tally XML API (port 9000) to read voucher-level tax details.`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
   }
 
   private async handleProfitMargin(query: string): Promise<QueryResult> {
-    return {
-      success: true,
-      category: 'Miscellaneous',
-      response: '📊 Profit margin analysis requires advanced financial calculations. Please use Tally ERP for detailed profit margin reports.',
-      responseType: 'text',
-      executionTime: 0
-    };
+    const period = await this.resolveReportPeriod(query);
+
+    let dimension: MarginDimension = 'item';
+    if (/customer|party|client|grahak|buyer/.test(query)) dimension = 'customer';
+    else if (/group|category/.test(query)) dimension = 'group';
+
+    // "which items lose money" lists only negative margins, worst first
+    const lossOnly = /lose money|losing money|loss making|nuksan|nuksaan|negative margin/.test(query);
+    const lowestFirst = lossOnly || /lowest|least|worst|sabse kam/.test(query);
+
+    try {
+      const analysis = await this.profitMarginService.analyse(period.fromDate, period.toDate);
+      const formatAmount = (amount: number) => `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      const dimensionLabel = { item: 'Item', group: 'Stock Group', customer: 'Customer' }[dimension];
+
+      let rows: MarginRow[] = { item: analysis.byItem, group: analysis.byGroup, customer: analysis.byCustomer }[dimension];
+      if (lossOnly) rows = rows.filter(row => row.margin < 0);
+      if (lowestFirst) rows = [...rows].reverse();
+
+      let response = `📈 **${dimensionLabel}-wise Margin - ${period.description}:**\n\n`;
+      if (rows.length === 0) {
+        response += lossOnly ? `✅ No ${dimensionLabel.toLowerCase()} sold below cost in this period\n` : '❌ No item-wise sales found for this period\n';
+      }
+      rows.slice(0, 10).forEach((row, index) => {
+        response += `${index + 1}. **${row.name}**\n`;
+        response += `   Sales: ${formatAmount(row.revenue)} | Cost: ${formatAmount(row.cost)}\n`;
+        response += `   ${row.margin >= 0 ? '📈' : '📉'} Margin: ${formatAmount(row.margin)} (${row.marginPercent.toFixed(1)}%)\n\n`;
+      });
+      if (rows.length > 10) response += `... and ${rows.length - 10} more\n\n`;
+
+      response += `💰 **Overall: Sales ${formatAmount(analysis.totals.revenue)}, Margin ${formatAmount(analysis.totals.margin)} (${analysis.totals.marginPercent.toFixed(1)}%)**`;
+      if (analysis.warnings.length > 0) {
+        response += `\n\n⚠️ ${analysis.warnings.join('\n⚠️ ')}`;
+      }
+
+      const tableRows = rows.map(row => ({
+        [dimensionLabel]: row.name,
+        'Qty': Math.round(row.quantity * 100) / 100,
+        'Sales (₹)': Math.round(row.revenue * 100) / 100,
+        'Cost (₹)': Math.round(row.cost * 100) / 100,
+        'Margin (₹)': Math.round(row.margin * 100) / 100,
+        'Margin %': Math.round(row.marginPercent * 10) / 10
+      }));
+
+      const pdfResult = await this.pdfService.generateTallyFormatPDF({
+        title: `${dimensionLabel} Margin ${period.description}`,
+        companyName: await this.getCompanyName(),
+        reportDate: new Date().toLocaleDateString('en-IN'),
+        data: tableRows,
+        type: 'custom'
+      });
+      if (pdfResult.success && pdfResult.filePath) {
+        response += `\n\n📄 **Report saved:** ${pdfResult.filePath}`;
+      }
+
+      return {
+        success: true,
+        category: 'Profit Margin',
+        response: this.addTimestampToResponse(response),
+        data: tableRows,
+        responseType: pdfResult.success ? 'document' : 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Margin analysis failed:', error);
+      return {
+        success: false,
+        category: 'Profit Margin',
+        response: this.addTimestampToResponse(`Unable to analyse margins: ${error instanceof Error ? error.message : error}\n\nItem-wise margins need the Tally XML API (port 9000) to read invoice lines.`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
   }
 
   private async handleDayBook(query: string): Promise<QueryResult> {
@@ -1950,7 +2653,7 @@ export class ComprehensiveQueryHandler {
 
       for (const sqlQuery of dayBookQueries) {
         try {
-          const result = await this.tallyService.executeQuery(sqlQuery);
+          const result = await this.dataSource.executeQuery(sqlQuery);
           if (result.success && result.data && result.data.length > 0) {
             return this.formatDayBookData(result.data, dateInfo);
           }
@@ -2059,18 +2762,83 @@ export class ComprehensiveQueryHandler {
   }
 
   private async handleCashFlowReport(query: string): Promise<QueryResult> {
-    return {
-      success: true,
-      category: 'Miscellaneous',
-      response: '📊 Cash flow reports require advanced financial analysis. Please use Tally ERP for detailed cash flow statements.',
-      responseType: 'text',
-      executionTime: 0
-    };
+    const period = await this.resolveReportPeriod(query);
+
+    try {
+      const statement = await this.cashFlowService.generateStatement(period.fromDate, period.toDate);
+      const formatAmount = (amount: number) => `${amount < 0 ? '-' : ''}₹${Math.abs(amount).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      const activityLabels = {
+        operating: 'Operating Activities',
+        investing: 'Investing Activities',
+        financing: 'Financing Activities'
+      };
+
+      const rows: { section: string; particulars: string; amount: number; isTotal?: boolean }[] = [];
+      let response = `💧 **Cash Flow Statement - ${period.description}:**\n`;
+      response += `📅 ${statement.fromDate.toLocaleDateString('en-IN')} to ${statement.toDate.toLocaleDateString('en-IN')}\n\n`;
+
+      (['operating', 'investing', 'financing'] as const).forEach(activity => {
+        const activityLines = statement.lines.filter(line => line.activity === activity);
+        const activityTotal = activityLines.reduce((sum, line) => sum + line.amount, 0);
+
+        response += `**${activityLabels[activity]}:**\n`;
+        activityLines.slice(0, 8).forEach(line => {
+          response += `   ${line.particulars}: ${formatAmount(line.amount)}\n`;
+          rows.push({ section: activityLabels[activity], particulars: line.particulars, amount: line.amount });
+        });
+        activityLines.slice(8).forEach(line => {
+          rows.push({ section: activityLabels[activity], particulars: line.particulars, amount: line.amount });
+        });
+        if (activityLines.length > 8) response += `   ... and ${activityLines.length - 8} more\n`;
+        response += `   **Net cash from ${activity}: ${formatAmount(activityTotal)}**\n\n`;
+        rows.push({ section: '', particulars: `Net Cash from ${activityLabels[activity]}`, amount: activityTotal, isTotal: true });
+      });
+
+      response += `💵 Opening Cash & Bank: ${formatAmount(statement.openingCash)}\n`;
+      response += `${statement.netChange >= 0 ? '📈' : '📉'} Net change: ${formatAmount(statement.netChange)}\n`;
+      response += `💰 **Closing Cash & Bank: ${formatAmount(statement.closingCash)}**`;
+      rows.push({ section: '', particulars: 'Net Increase/(Decrease) in Cash', amount: statement.netChange, isTotal: true });
+      rows.push({ section: '', particulars: 'Closing Cash & Bank', amount: statement.closingCash, isTotal: true });
+
+      if (statement.warnings.length > 0) {
+        response += `\n\n⚠️ ${statement.warnings.join('\n⚠️ ')}`;
+      }
+
+      const pdfResult = await this.pdfService.generateTallyFormatPDF({
+        title: `Cash Flow ${period.description}`,
+        companyName: await this.getCompanyName(),
+        reportDate: new Date().toLocaleDateString('en-IN'),
+        data: rows,
+        type: 'cash-flow',
+        period: {
+          from: statement.fromDate.toLocaleDateString('en-IN'),
+          to: statement.toDate.toLocaleDateString('en-IN')
+        }
+      });
+      if (pdfResult.success && pdfResult.filePath) {
+        response += `\n\n📄 **Report saved:** ${pdfResult.filePath}`;
+      }
+
+      return {
+        success: true,
+        category: 'Cash Flow',
+        response: this.addTimestampToResponse(response),
+        data: rows,
+        responseType: pdfResult.success ? 'document' : 'text',
+        executionTime: 0
+      };
+    } catch (error) {
+      console.error('Cash flow statement failed:', error);
+      return {
+        success: false,
+        category: 'Cash Flow',
+        response: this.addTimestampToResponse(`Unable to build cash flow statement: ${error instanceof Error ? error.message : error}`),
+        responseType: 'text',
+        executionTime: 0
+      };
+    }
   }
 
-  /**
-   * Handle work order queries
-   */
   private async handleWorkOrders(query: string): Promise<QueryResult> {
     console.log(`🔧 Processing work order query: "${query}"`);
 
@@ -2092,7 +2860,7 @@ export class ComprehensiveQueryHandler {
 
       for (const sqlQuery of workOrderQueries) {
         try {
-          const result = await this.tallyService.executeQuery(sqlQuery);
+          const result = await this.dataSource.executeQuery(sqlQuery);
           if (result.success && result.data && result.data.length > 0) {
             return this.formatWorkOrderData(result.data, query);
           }
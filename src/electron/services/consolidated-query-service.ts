@@ -0,0 +1,111 @@
+/**
+ * Consolidated Query Service
+ * Combined outstanding and sales across the pinned Tally companies, with a per-company breakdown
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { CompanyContextService } from './company-context-service';
+
+export interface CompanyOutstanding {
+  company: string;
+  receivable: number;
+  payable: number; // Positive amount owed to suppliers
+  parties: number;
+  error?: string;
+}
+
+export interface CompanySales {
+  company: string;
+  amount: number;
+  vouchers: number;
+  error?: string;
+}
+
+export interface ConsolidatedOutstanding {
+  asAt: Date;
+  companies: CompanyOutstanding[];
+  totalReceivable: number;
+  totalPayable: number;
+}
+
+export interface ConsolidatedSales {
+  fromDate: Date;
+  toDate: Date;
+  companies: CompanySales[];
+  totalAmount: number;
+  totalVouchers: number;
+}
+
+export class ConsolidatedQueryService {
+  private companyContext: CompanyContextService;
+  private dataSource: TallyDataSource;
+
+  /**
+   * @param dataSource - The live source: it follows the connection from company to company,
+   * which the single-company local mirror does not
+   */
+  constructor(companyContext: CompanyContextService, dataSource: TallyDataSource) {
+    this.companyContext = companyContext;
+    this.dataSource = dataSource;
+  }
+
+  async getCombinedOutstanding(asAt: Date = new Date()): Promise<ConsolidatedOutstanding> {
+    const results = await this.companyContext.runAcrossCompanies(async () => {
+      let balances = (await this.dataSource.getOutstandingBills(asAt)).map(bill => ({ party: bill.partyName, amount: bill.amount }));
+
+      // Companies without bill-wise details still have party closing balances
+      if (balances.length === 0) {
+        balances = (await this.dataSource.getLedgers())
+          .filter(ledger => /^sundry (debtors|creditors)$/i.test(ledger.parent) && ledger.closingBalance !== 0)
+          .map(ledger => ({ party: ledger.name, amount: ledger.closingBalance }));
+      }
+
+      return {
+        receivable: balances.filter(balance => balance.amount > 0).reduce((sum, balance) => sum + balance.amount, 0),
+        payable: balances.filter(balance => balance.amount < 0).reduce((sum, balance) => sum - balance.amount, 0),
+        parties: new Set(balances.map(balance => balance.party.toLowerCase())).size
+      };
+    });
+
+    const companies: CompanyOutstanding[] = results.map(({ company, result, error }) => ({
+      company,
+      receivable: result?.receivable || 0,
+      payable: result?.payable || 0,
+      parties: result?.parties || 0,
+      error
+    }));
+
+    return {
+      asAt,
+      companies,
+      totalReceivable: companies.reduce((sum, company) => sum + company.receivable, 0),
+      totalPayable: companies.reduce((sum, company) => sum + company.payable, 0)
+    };
+  }
+
+  async getCombinedSales(fromDate: Date, toDate: Date): Promise<ConsolidatedSales> {
+    const results = await this.companyContext.runAcrossCompanies(async () => {
+      const vouchers = (await this.dataSource.getVouchers(fromDate, toDate))
+        .filter(voucher => /sales|invoice/i.test(voucher.voucherType) && !/order|return|credit note/i.test(voucher.voucherType));
+      return {
+        amount: vouchers.reduce((sum, voucher) => sum + Math.abs(voucher.amount), 0),
+        vouchers: vouchers.length
+      };
+    });
+
+    const companies: CompanySales[] = results.map(({ company, result, error }) => ({
+      company,
+      amount: result?.amount || 0,
+      vouchers: result?.vouchers || 0,
+      error
+    }));
+
+    return {
+      fromDate,
+      toDate,
+      companies,
+      totalAmount: companies.reduce((sum, company) => sum + company.amount, 0),
+      totalVouchers: companies.reduce((sum, company) => sum + company.vouchers, 0)
+    };
+  }
+}
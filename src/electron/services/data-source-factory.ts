@@ -0,0 +1,43 @@
+/**
+ * Data Source Factory
+ * Picks the TallyDataSource adapter from settings (tally.dataSource) or TALLY_DATA_SOURCE
+ */
+
+import { TallyService } from './tally-services';
+import { TallyBridgeClient, tallyBridge } from './tally-bridge-client';
+import { TallyXMLConfig } from './tally-xml-api';
+import { TallyDataSource, DataSourceKind, DATA_SOURCE_KINDS } from './tally-data-source';
+import { OdbcDataSource } from './odbc-data-source';
+import { XmlDataSource } from './xml-data-source';
+import { BridgeDataSource } from './bridge-data-source';
+import { DemoDataSource } from './demo-data-source';
+
+export interface DataSourceDependencies {
+  tallyService: TallyService;
+  bridgeClient?: TallyBridgeClient;
+  xmlConfig?: TallyXMLConfig;
+}
+
+/**
+ * The environment variable wins over the saved setting; anything unrecognised means ODBC
+ */
+export function resolveDataSourceKind(configured?: string): DataSourceKind {
+  const requested = (process.env.TALLY_DATA_SOURCE || configured || '').trim().toLowerCase();
+  return DATA_SOURCE_KINDS.includes(requested as DataSourceKind) ? requested as DataSourceKind : 'odbc';
+}
+
+export function createTallyDataSource(kind: DataSourceKind, dependencies: DataSourceDependencies): TallyDataSource {
+  console.log(`📚 Tally data source: ${kind}`);
+
+  switch (kind) {
+    case 'xml':
+      return new XmlDataSource(dependencies.xmlConfig);
+    case 'bridge':
+      return new BridgeDataSource(dependencies.bridgeClient || tallyBridge);
+    case 'demo':
+      return new DemoDataSource();
+    case 'odbc':
+    default:
+      return new OdbcDataSource(dependencies.tallyService);
+  }
+}
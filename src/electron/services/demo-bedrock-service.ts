@@ -5,6 +5,8 @@
  * Uses pattern matching and rule-based logic to mimic AI behavior
  */
 
+import { llmGateway } from '../utils/ai/llm-gateway';
+
 export interface BedrockResponse {
   response: string;
   requiresExecution: boolean;
@@ -216,24 +218,9 @@ export class DemoBedrockService {
   }
 
   /**
-   * Production method - calls real AWS Bedrock
-   * This is what would be used with actual credentials
+   * Production method - calls real AWS Bedrock through the LLM gateway
    */
   private async callRealBedrock(userQuery: string, context?: any): Promise<BedrockResponse> {
-    // This would contain the actual AWS Bedrock SDK calls
-    // For hackathon, keep this commented out or implement if you have AWS credits
-
-    /*
-    const { BedrockRuntimeClient, InvokeModelCommand } = require('@aws-sdk/client-bedrock-runtime');
-
-    const client = new BedrockRuntimeClient({
-      region: process.env.AWS_REGION || 'us-east-1',
-      credentials: {
-        accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!
-      }
-    });
-
     const prompt = `You are an AI assistant for querying ERP/accounting data.
 
 User Query: ${userQuery}
@@ -253,24 +240,12 @@ Respond in JSON format:
   "data": "query_type"
 }`;
 
-    const command = new InvokeModelCommand({
-      modelId: 'anthropic.claude-3-5-sonnet-20241022-v2:0',
-      contentType: 'application/json',
-      accept: 'application/json',
-      body: JSON.stringify({
-        anthropic_version: 'bedrock-2023-05-31',
-        max_tokens: 1024,
-        messages: [{ role: 'user', content: prompt }]
-      })
-    });
-
-    const response = await client.send(command);
-    const result = JSON.parse(new TextDecoder().decode(response.body));
-
-    return JSON.parse(result.content[0].text);
-    */
-
-    throw new Error('Real Bedrock not configured. Set DEMO_MODE=false and provide AWS credentials.');
+    const completion = await llmGateway.complete({ prompt, maxTokens: 1024, json: true, label: 'bedrock-agent' }, { providers: ['bedrock'] });
+    const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('Bedrock reply was not JSON');
+    }
+    return JSON.parse(jsonMatch[0]);
   }
 
   /**
@@ -0,0 +1,126 @@
+/**
+ * Demo Data Source
+ * Serves the bundled demo company so every report and chat query works without Tally
+ */
+
+import { DemoDataService, getDemoDataService } from './demo-data-service';
+import {
+  TableDataSource,
+  DataSourceKind,
+  DataSourceCompany,
+  DataSourceLedger,
+  DataSourceGroup,
+  DataSourceStockItem,
+  DataSourceVoucher,
+  DataSourceBill,
+  parseSourceDate,
+  isWithinPeriod
+} from './tally-data-source';
+import { PRIMARY_GROUP_ALIASES } from './group-hierarchy-service';
+
+// Tally's default sub-groups used by the demo ledgers
+const DEMO_SUB_GROUPS: DataSourceGroup[] = [
+  { name: 'Cash-in-Hand', parent: 'Current Assets' },
+  { name: 'Bank Accounts', parent: 'Current Assets' },
+  { name: 'Sundry Debtors', parent: 'Current Assets' },
+  { name: 'Stock-in-Hand', parent: 'Current Assets' },
+  { name: 'Sundry Creditors', parent: 'Current Liabilities' },
+  { name: 'Duties & Taxes', parent: 'Current Liabilities' },
+  { name: 'Bank OCC A/c', parent: 'Loans (Liability)' },
+  { name: 'Bank OD A/c', parent: 'Loans (Liability)' }
+];
+
+export class DemoDataSource extends TableDataSource {
+  readonly kind: DataSourceKind = 'demo';
+  private demoDataService: DemoDataService;
+
+  constructor(demoDataService: DemoDataService = getDemoDataService()) {
+    super();
+    this.demoDataService = demoDataService;
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async getCompany(): Promise<DataSourceCompany | null> {
+    const company = await this.demoDataService.getCompanyInfo();
+    return {
+      name: company.name,
+      address: [company.address, company.city, company.pincode].filter(Boolean).join(', '),
+      stateName: company.state,
+      booksFrom: parseSourceDate(company.financialYearFrom)
+    };
+  }
+
+  async getLedgers(): Promise<DataSourceLedger[]> {
+    const ledgers = await this.demoDataService.getAllLedgers();
+    return ledgers.map(ledger => ({
+      name: ledger.name,
+      parent: ledger.parent,
+      openingBalance: 0,
+      closingBalance: ledger.closingBalance
+    }));
+  }
+
+  async getGroups(): Promise<DataSourceGroup[]> {
+    const primaryGroups = Array.from(new Set(Object.values(PRIMARY_GROUP_ALIASES)))
+      .map(name => ({ name, parent: 'Primary' }));
+    return [...primaryGroups, ...DEMO_SUB_GROUPS];
+  }
+
+  async getStockItems(): Promise<DataSourceStockItem[]> {
+    const stocks = await this.demoDataService.getAllStocks();
+    return stocks.map(stock => ({
+      name: stock.name,
+      parent: stock.group,
+      unit: stock.unit,
+      openingValue: 0,
+      closingQuantity: stock.quantity,
+      closingRate: stock.rate,
+      closingValue: stock.value
+    }));
+  }
+
+  async getVouchers(fromDate: Date, toDate: Date, voucherType?: string): Promise<DataSourceVoucher[]> {
+    const [sales, purchases] = await Promise.all([
+      this.demoDataService.getSalesVouchers(),
+      this.demoDataService.getPurchaseVouchers()
+    ]);
+
+    const vouchers: DataSourceVoucher[] = [];
+    [...sales, ...purchases].forEach(voucher => {
+      const date = parseSourceDate(voucher.voucherDate);
+      if (!date || !isWithinPeriod(date, fromDate, toDate)) return;
+      if (voucherType && !voucher.voucherType.toLowerCase().includes(voucherType.toLowerCase())) return;
+
+      vouchers.push({
+        date,
+        voucherNumber: voucher.voucherNumber,
+        voucherType: voucher.voucherType,
+        partyName: voucher.partyName,
+        amount: Math.abs(voucher.netAmount),
+        reference: voucher.referenceNumber
+      });
+    });
+    return vouchers.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  /**
+   * The demo books are not bill-wise, so each party balance is one on-account bill
+   */
+  async getOutstandingBills(): Promise<DataSourceBill[]> {
+    const ledgers = await this.demoDataService.getAllLedgers();
+    return ledgers
+      .filter(ledger => (ledger.parent === 'Sundry Debtors' || ledger.parent === 'Sundry Creditors') && ledger.closingBalance !== 0)
+      .map(ledger => ({ partyName: ledger.name, billReference: 'On Account', amount: ledger.closingBalance }));
+  }
+
+  protected async getDefaultPeriod(): Promise<{ from: Date; to: Date }> {
+    const company = await this.demoDataService.getCompanyInfo();
+    return {
+      from: parseSourceDate(company.financialYearFrom) || new Date(),
+      to: parseSourceDate(company.financialYearTo) || new Date()
+    };
+  }
+}
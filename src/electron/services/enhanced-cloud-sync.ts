@@ -1,6 +1,10 @@
 import { TallyService } from './tally-services';
 import { S3Service } from './s3-service';
 import { SupabaseService } from './supabase-service';
+import { tallyChangeTracker, TrackedCollection, ChangeSet } from './tally-change-tracker';
+import { odbcScheduler } from '../utils/odbc-scheduler';
+
+const VOUCHER_FIELDS = ['$Date', '$VoucherNumber', '$Reference', '$VouchertypeName', '$PartyLedgerName', '$$CollectionField:$Amount:1:LedgerEntries'];
 
 export interface SyncConfig {
   intervalMinutes: number;
@@ -81,6 +85,10 @@ export class EnhancedCloudSyncService {
    * Perform complete data sync with enhanced error handling and progress tracking
    */
   async performSync(): Promise<SyncStatus> {
+    return odbcScheduler.withPriority('background', () => this.runSync());
+  }
+
+  private async runSync(): Promise<SyncStatus> {
     // Check if sync is already running
     if (this.isSyncing) {
       console.log('⚠️ Sync already in progress, skipping this request');
@@ -143,12 +151,21 @@ export class EnhancedCloudSyncService {
           console.log(`[${i + 1}/${this.config.syncTables.length}] 📊 Syncing ${tableName} table...`);
           
           // Add timeout protection for large datasets
-          const data = await Promise.race([
+          const changes = await Promise.race([
             this.extractTableData(tableName),
-            this.createTimeoutPromise<any[]>(120000, `${tableName} extraction timeout`) // 2 minutes timeout
+            this.createTimeoutPromise<ChangeSet>(120000, `${tableName} extraction timeout`) // 2 minutes timeout
           ]);
-          
-          if (data && Array.isArray(data) && data.length > 0) {
+          const data = changes.rows;
+
+          if (changes.mode === 'unchanged') {
+            tallyChangeTracker.commit(changes);
+            console.log(`📋 ${tableName}: Nothing altered in Tally since the last sync, skipping`);
+          } else if (this.isVoucherTable(tableName)) {
+            uploadedFiles.push(await this.uploadVouchersToSupabase(tableName, data, changes.deletedKeys));
+            tallyChangeTracker.commit(changes);
+            totalRecords += data.length;
+            console.log(`✅ ${tableName}: ${data.length} changed and ${changes.deletedKeys.length} deleted records synced`);
+          } else if (data && Array.isArray(data) && data.length > 0) {
             // Process large datasets in chunks to prevent memory issues
             if (data.length > 2000) {
               console.log(`⚠️ Large dataset detected (${data.length} records), using chunked processing...`);
@@ -158,6 +175,7 @@ export class EnhancedCloudSyncService {
               const uploadKey = await this.uploadTableToS3(tableName, data);
               uploadedFiles.push(uploadKey);
             }
+            tallyChangeTracker.commit(changes);
             
             totalRecords += data.length;
             console.log(`✅ ${tableName}: ${data.length} records synced successfully`);
@@ -219,21 +237,23 @@ export class EnhancedCloudSyncService {
   }
 
   /**
-   * Extract data from specific Tally table with enhanced error handling
+   * Extract what changed in a Tally table since the last sync. Vouchers come back as
+   * row-level deltas; masters carry closing balances that move without an AlterID
+   * change, so they are re-read in full, but only when the company counters moved.
    */
-  private async extractTableData(tableName: string): Promise<any[]> {
-    const queries: { [key: string]: string } = {
-      'COMPANY': 'SELECT * FROM COMPANY',
-      'LEDGER': 'SELECT $Name, $Parent, $ClosingBalance, $Address, $Phone FROM LEDGER',
-      'GROUP': 'SELECT $Name, $Parent, $ClosingBalance FROM GROUP',
-      'STOCKITEM': 'SELECT $Name, $Parent, $ClosingBalance, $ClosingRate FROM STOCKITEM',
-      'COSTCENTRE': 'SELECT $Name, $Parent FROM COSTCENTRE',
-      'SALESVOUCHERS': 'SELECT $Date, $VoucherNumber, $Reference, $VouchertypeName, $PartyLedgerName, $$CollectionField:$Amount:1:LedgerEntries FROM RTSAllVouchers WHERE $$IsSales:$VoucherTypeName',
-      'PURCHASEVOUCHERS': 'SELECT $Date, $VoucherNumber, $Reference, $VouchertypeName, $PartyLedgerName, $$CollectionField:$Amount:1:LedgerEntries FROM RTSAllVouchers WHERE $$IsPurchase:$VoucherTypeName'
+  private async extractTableData(tableName: string): Promise<ChangeSet> {
+    const collections: { [key: string]: Omit<TrackedCollection, 'name'> } = {
+      'COMPANY': { table: 'COMPANY', fields: ['*'], tracks: 'masters', incremental: false },
+      'LEDGER': { table: 'LEDGER', fields: ['$Name', '$Parent', '$ClosingBalance', '$Address', '$Phone'], tracks: 'both', incremental: false },
+      'GROUP': { table: 'GROUP', fields: ['$Name', '$Parent', '$ClosingBalance'], tracks: 'both', incremental: false },
+      'STOCKITEM': { table: 'STOCKITEM', fields: ['$Name', '$Parent', '$ClosingBalance', '$ClosingRate'], tracks: 'both', incremental: false },
+      'COSTCENTRE': { table: 'COSTCENTRE', fields: ['$Name', '$Parent'], tracks: 'masters', incremental: false },
+      'SALESVOUCHERS': { table: 'RTSAllVouchers', fields: VOUCHER_FIELDS, where: '$$IsSales:$VoucherTypeName', tracks: 'vouchers', incremental: true },
+      'PURCHASEVOUCHERS': { table: 'RTSAllVouchers', fields: VOUCHER_FIELDS, where: '$$IsPurchase:$VoucherTypeName', tracks: 'vouchers', incremental: true }
     };
 
-    const query = queries[tableName.toUpperCase()];
-    if (!query) {
+    const collection = collections[tableName.toUpperCase()];
+    if (!collection) {
       throw new Error(`No query defined for table: ${tableName}`);
     }
 
@@ -241,17 +261,16 @@ export class EnhancedCloudSyncService {
     const startTime = Date.now();
     
     try {
-      const result = await this.tallyService.executeQuery(query);
+      const changes = await tallyChangeTracker.detectChanges(this.tallyService, {
+        ...collection,
+        name: tableName.toUpperCase(),
+        keyOf: collection.incremental ? row => this.voucherKey(this.toVoucherRecord(tableName, row, 0)) : undefined
+      }, this.config.clientId);
       const executionTime = Date.now() - startTime;
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Query failed');
-      }
 
-      const data = result.data || [];
-      console.log(`⏱️ ${tableName} query completed in ${executionTime}ms, ${data.length} records`);
+      console.log(`⏱️ ${tableName} query completed in ${executionTime}ms, ${changes.rows.length} records (${changes.mode})`);
       
-      return data;
+      return changes;
     } catch (error) {
       console.error(`❌ Query failed for ${tableName}:`, error);
       throw new Error(`Failed to extract ${tableName}: ${this.extractErrorMessage(error)}`);
@@ -291,11 +310,6 @@ export class EnhancedCloudSyncService {
    * Upload table data to S3 or Supabase depending on table type
    */
   private async uploadTableToS3(tableName: string, data: any[]): Promise<string> {
-    // Handle sales/purchase vouchers separately - upload to Supabase instead of S3
-    if (tableName.toUpperCase() === 'SALESVOUCHERS' || tableName.toUpperCase() === 'PURCHASEVOUCHERS') {
-      return await this.uploadVouchersToSupabase(tableName, data);
-    }
-
     // Create data hash for deduplication
     const dataHash = this.generateDataHash(data);
 
@@ -337,49 +351,34 @@ export class EnhancedCloudSyncService {
   }
 
   /**
-   * Upload vouchers to Supabase database tables
+   * Upload changed vouchers to Supabase database tables and drop the deleted ones
    */
-  private async uploadVouchersToSupabase(tableName: string, data: any[]): Promise<string> {
+  private async uploadVouchersToSupabase(tableName: string, data: any[], deletedKeys: string[] = []): Promise<string> {
     if (!this.supabaseService) {
       console.log(`⚠️ ${tableName}: Supabase not configured, skipping database upload`);
       return `${tableName}-skipped`;
     }
 
     // Transform data to match Supabase schema
-    const transformedData = data.map((row: any, index: number) => {
-      const amount = parseFloat(row['$$CollectionField:$Amount:1:LedgerEntries'] || row.amount || '0');
-      const voucherNumber = row.$VoucherNumber || row.voucher_number || `AUTO-${Date.now()}-${index}`;
-      const rawDate = row.$Date || row.voucher_date;
-
-      // Convert Tally date format (YYYYMMDD) to SQL date format (YYYY-MM-DD)
-      let voucherDate = rawDate;
-      if (rawDate && /^\d{8}$/.test(String(rawDate))) {
-        const dateStr = String(rawDate);
-        voucherDate = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
-      }
-
-      return {
-        client_id: this.config.clientId,
-        voucher_number: voucherNumber,
-        voucher_date: voucherDate,
-        voucher_type: row.$VouchertypeName || row.voucher_type || (tableName === 'SALESVOUCHERS' ? 'Sales' : 'Purchase'),
-        party_name: row.$PartyLedgerName || row.party_name || 'Unknown',
-        party_ledger_name: row.$PartyLedgerName || row.party_name || null,
-        total_amount: Math.abs(amount),
-        tax_amount: 0,
-        discount_amount: 0,
-        net_amount: Math.abs(amount),
-        reference_number: row.$Reference || row.reference_number || null,
-        narration: null,
-        synced_at: new Date().toISOString()
-      };
-    });
+    const transformedData = data.map((row: any, index: number) => this.toVoucherRecord(tableName, row, index));
 
     // Determine Supabase table name
     const supabaseTableName = tableName.toUpperCase() === 'SALESVOUCHERS' ? 'sales_vouchers' : 'purchase_vouchers';
 
     try {
-      await this.supabaseService.upsertRecords(supabaseTableName, transformedData);
+      const upsert = await this.supabaseService.upsertRecords(supabaseTableName, transformedData);
+      if (!upsert.success) {
+        throw new Error(upsert.error || 'Upsert failed');
+      }
+
+      const removed = await this.supabaseService.deleteVoucherRecords(supabaseTableName, this.config.clientId, deletedKeys.map(key => {
+        const separator = key.lastIndexOf('|');
+        return { voucher_number: key.slice(0, separator), voucher_date: key.slice(separator + 1) };
+      }));
+      if (!removed.success) {
+        throw new Error(removed.error || 'Delete failed');
+      }
+
       console.log(`✅ ${tableName}: Synced ${transformedData.length} records to Supabase ${supabaseTableName} table`);
       return `supabase:${supabaseTableName}`;
     } catch (error) {
@@ -388,6 +387,44 @@ export class EnhancedCloudSyncService {
     }
   }
 
+  private isVoucherTable(tableName: string): boolean {
+    return tableName.toUpperCase() === 'SALESVOUCHERS' || tableName.toUpperCase() === 'PURCHASEVOUCHERS';
+  }
+
+  private toVoucherRecord(tableName: string, row: any, index: number) {
+    const amount = parseFloat(row['$$CollectionField:$Amount:1:LedgerEntries'] || row.amount || '0');
+    const voucherNumber = row.$VoucherNumber || row.voucher_number || `AUTO-${Date.now()}-${index}`;
+    const rawDate = row.$Date || row.voucher_date;
+
+    // Convert Tally date format (YYYYMMDD) to SQL date format (YYYY-MM-DD)
+    let voucherDate = rawDate;
+    if (rawDate && /^\d{8}$/.test(String(rawDate))) {
+      const dateStr = String(rawDate);
+      voucherDate = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
+    }
+
+    return {
+      client_id: this.config.clientId,
+      voucher_number: voucherNumber,
+      voucher_date: voucherDate,
+      voucher_type: row.$VouchertypeName || row.voucher_type || (tableName.toUpperCase() === 'SALESVOUCHERS' ? 'Sales' : 'Purchase'),
+      party_name: row.$PartyLedgerName || row.party_name || 'Unknown',
+      party_ledger_name: row.$PartyLedgerName || row.party_name || null,
+      total_amount: Math.abs(amount),
+      tax_amount: 0,
+      discount_amount: 0,
+      net_amount: Math.abs(amount),
+      reference_number: row.$Reference || row.reference_number || null,
+      narration: null,
+      synced_at: new Date().toISOString()
+    };
+  }
+
+  // Matches the deleteVoucherRecords split on the last '|'
+  private voucherKey(record: { voucher_number: string; voucher_date: string }): string {
+    return `${record.voucher_number}|${record.voucher_date}`;
+  }
+
   /**
    * Create a timeout promise
    */
@@ -0,0 +1,326 @@
+/**
+ * Excel Service
+ * Writes report tables as formatted .xlsx workbooks (Indian number format,
+ * frozen header row, totals row) without any spreadsheet dependency
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { app } from 'electron';
+
+export type ExcelColumnType = 'text' | 'number' | 'amount' | 'date';
+
+export interface ExcelColumn {
+  key: string;
+  header: string;
+  type?: ExcelColumnType;
+  width?: number;
+}
+
+export interface ExcelReportData {
+  title: string;
+  companyName: string;
+  subtitle?: string; // e.g. the period line under the title
+  sheetName?: string;
+  columns: ExcelColumn[];
+  rows: Record<string, any>[];
+  totals?: Record<string, any>; // Rendered in bold under the data
+}
+
+// Style indexes into the cellXfs list written by buildStyles()
+const STYLE = {
+  text: 0,
+  header: 1,
+  amount: 2,
+  date: 3,
+  totalText: 4,
+  totalAmount: 5,
+  title: 6,
+  number: 7
+};
+
+// 1,23,45,678.00 grouping: crores and lakhs are separated by conditional sections
+const INDIAN_NUMBER_FORMAT = '[&gt;=10000000]##\\,##\\,##\\,##0.00;[&gt;=100000]##\\,##\\,##0.00;##,##0.00';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+export class ExcelService {
+  private _outputDir: string | null = null;
+
+  private get outputDir(): string {
+    if (!this._outputDir) {
+      // Same folder as the PDF reports
+      this._outputDir = path.join(app.getPath('documents'), 'TallyKaro Reports');
+      if (!fs.existsSync(this._outputDir)) {
+        fs.mkdirSync(this._outputDir, { recursive: true });
+      }
+    }
+    return this._outputDir;
+  }
+
+  /**
+   * Write the report as <title>_<date>.xlsx in the reports folder
+   */
+  async generateWorkbook(report: ExcelReportData): Promise<{ success: boolean; filePath?: string; error?: string }> {
+    try {
+      const fileName = `${report.title.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.xlsx`;
+      const filePath = path.join(this.outputDir, fileName);
+      fs.writeFileSync(filePath, this.buildWorkbook(report));
+
+      console.log(`📊 Excel report saved: ${filePath}`);
+      return { success: true, filePath };
+    } catch (error) {
+      console.error('Excel generation failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * The .xlsx file contents (a zip of SpreadsheetML parts)
+   */
+  buildWorkbook(report: ExcelReportData): Buffer {
+    const sheetName = escapeXML((report.sheetName || report.title).replace(/[\\\/?*\[\]:]/g, ' ').slice(0, 31));
+
+    return buildZip([
+      {
+        name: '[Content_Types].xml',
+        content: xmlDocument(`<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`)
+      },
+      {
+        name: '_rels/.rels',
+        content: xmlDocument(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`)
+      },
+      {
+        name: 'xl/workbook.xml',
+        content: xmlDocument(`<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`)
+      },
+      {
+        name: 'xl/_rels/workbook.xml.rels',
+        content: xmlDocument(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`)
+      },
+      { name: 'xl/styles.xml', content: this.buildStyles() },
+      { name: 'xl/worksheets/sheet1.xml', content: this.buildSheet(report) }
+    ]);
+  }
+
+  private buildSheet(report: ExcelReportData): string {
+    const rows: string[] = [];
+    let rowNumber = 0;
+
+    const addRow = (cells: string[]) => {
+      rowNumber++;
+      rows.push(`<row r="${rowNumber}">${cells.join('')}</row>`);
+    };
+
+    addRow([textCell(cellRef(0, 1), report.companyName, STYLE.title)]);
+    addRow([textCell(cellRef(0, 2), report.title, STYLE.totalText)]);
+    if (report.subtitle) {
+      addRow([textCell(cellRef(0, 3), report.subtitle, STYLE.text)]);
+    }
+    addRow([]);
+
+    addRow(report.columns.map((column, index) => textCell(cellRef(index, rowNumber + 1), column.header, STYLE.header)));
+    const headerRow = rowNumber;
+
+    report.rows.forEach(row => {
+      const cells = report.columns.map((column, index) => this.buildCell(cellRef(index, rowNumber + 1), row[column.key], column.type, false));
+      addRow(cells);
+    });
+
+    if (report.totals) {
+      const totals = report.totals;
+      addRow(report.columns.map((column, index) => this.buildCell(cellRef(index, rowNumber + 1), totals[column.key], column.type, true)));
+    }
+
+    const widths = report.columns.map((column, index) => {
+      const width = column.width || Math.min(60, Math.max(
+        column.header.length + 2,
+        ...report.rows.slice(0, 200).map(row => formatForWidth(row[column.key], column.type))
+      ));
+      return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+    });
+
+    const lastColumn = columnName(Math.max(report.columns.length - 1, 0));
+    const autoFilter = report.rows.length > 0
+      ? `<autoFilter ref="A${headerRow}:${lastColumn}${headerRow + report.rows.length}"/>`
+      : '';
+
+    return xmlDocument(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="${headerRow}" topLeftCell="A${headerRow + 1}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${widths.join('')}</cols>
+<sheetData>${rows.join('')}</sheetData>
+${autoFilter}
+</worksheet>`);
+  }
+
+  private buildCell(ref: string, value: any, type: ExcelColumnType = 'text', isTotal: boolean): string {
+    if (value === undefined || value === null || value === '') return '';
+
+    if (type === 'amount' || type === 'number') {
+      const numeric = typeof value === 'number' ? value : parseFloat(String(value).replace(/[₹,\s]/g, ''));
+      if (!isNaN(numeric)) {
+        const style = type === 'amount' ? (isTotal ? STYLE.totalAmount : STYLE.amount) : STYLE.number;
+        return `<c r="${ref}" s="${style}"><v>${Math.round(numeric * 100) / 100}</v></c>`;
+      }
+    }
+
+    if (type === 'date') {
+      const date = value instanceof Date ? value : new Date(value);
+      if (!isNaN(date.getTime())) {
+        const serial = (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - EXCEL_EPOCH) / DAY_MS;
+        return `<c r="${ref}" s="${STYLE.date}"><v>${serial}</v></c>`;
+      }
+    }
+
+    return textCell(ref, String(value), isTotal ? STYLE.totalText : STYLE.text);
+  }
+
+  private buildStyles(): string {
+    return xmlDocument(`<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="${INDIAN_NUMBER_FORMAT}"/><numFmt numFmtId="165" formatCode="dd-mmm-yyyy"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="14"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFDDEBF7"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="3"><border><left/><right/><top/><bottom/><diagonal/></border><border><left/><right/><top/><bottom style="thin"/><diagonal/></border><border><left/><right/><top style="thin"/><bottom style="double"/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="8">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="2" xfId="0" applyFont="1" applyBorder="1"/>
+<xf numFmtId="164" fontId="1" fillId="0" borderId="2" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`);
+  }
+}
+
+function textCell(ref: string, value: string, style: number): string {
+  return `<c r="${ref}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`;
+}
+
+function cellRef(columnIndex: number, rowNumber: number): string {
+  return `${columnName(columnIndex)}${rowNumber}`;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function formatForWidth(value: any, type: ExcelColumnType = 'text'): number {
+  if (value === undefined || value === null) return 0;
+  if (type === 'date') return 12;
+  if (type === 'amount') return 16;
+  return String(value).length + 2;
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function xmlDocument(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+}
+
+// ==================== ZIP CONTAINER ====================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Minimal deflate zip writer - enough for the handful of parts in an .xlsx
+ */
+function buildZip(files: { name: string; content: string }[]): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.content, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034B50, 0);
+    local.writeUInt16LE(20, 4); // Version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt32LE(0, 10); // DOS time/date
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014B50, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054B50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
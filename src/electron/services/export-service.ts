@@ -0,0 +1,227 @@
+/**
+ * Export Service
+ * Saves any tabular chat result as a formatted Excel workbook, CSV or JSON file
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { ExcelService, ExcelColumn, ExcelColumnType } from './excel-service';
+import { parseTallyAmount } from './group-hierarchy-service';
+
+// Mirrors DataExport['format'] in shared/types/tally.ts (PDFs go through PDFService)
+export type TableExportFormat = 'excel' | 'csv' | 'json';
+
+export interface TableExportRequest {
+  format: TableExportFormat;
+  title: string;
+  rows: Record<string, any>[];
+  companyName?: string;
+}
+
+export interface TableExportResult {
+  success: boolean;
+  format: TableExportFormat;
+  filePath?: string;
+  rowCount: number;
+  error?: string;
+}
+
+const AMOUNT_KEYS = /balance|amount|value|total|debit|credit|sales|purchase|profit|loss|receipts?|payments?|cash|tax|gst|igst|cgst|sgst|cess|price|rate|outstanding|due|revenue|cost|[0-9]+-[0-9]+|90\+/i;
+// Amount columns where a column total means nothing (running balances, unit prices, percentages)
+const NON_SUMMABLE_KEYS = /^balance$|running|rate|price|percent|margin|%/i;
+const DATE_KEYS = /date|^dt$|period_start|period_end/i;
+const CURRENCY_TEXT = /^-?\s*₹?\s*-?[\d,]+(\.\d+)?\s*(dr|cr)?$/i;
+
+export class ExportService {
+  private excelService: ExcelService;
+  private _outputDir: string | null = null;
+
+  constructor() {
+    this.excelService = new ExcelService();
+  }
+
+  private get outputDir(): string {
+    if (!this._outputDir) {
+      this._outputDir = path.join(app.getPath('documents'), 'TallyKaro Reports');
+      if (!fs.existsSync(this._outputDir)) {
+        fs.mkdirSync(this._outputDir, { recursive: true });
+      }
+    }
+    return this._outputDir;
+  }
+
+  async exportTable(request: TableExportRequest): Promise<TableExportResult> {
+    const rows = (request.rows || []).filter(row => row && typeof row === 'object').map(flattenRow);
+    if (rows.length === 0) {
+      return { success: false, format: request.format, rowCount: 0, error: 'Nothing to export' };
+    }
+
+    try {
+      const columns = inferColumns(rows);
+      const title = request.title || 'TallyKaro Export';
+
+      if (request.format === 'excel') {
+        const result = await this.excelService.generateWorkbook({
+          title,
+          companyName: request.companyName || 'TallyKaro',
+          subtitle: `Exported ${new Date().toLocaleString('en-IN')}`,
+          columns,
+          rows: rows.map(row => normaliseRow(row, columns)),
+          totals: buildTotals(rows, columns)
+        });
+        return { success: result.success, format: 'excel', filePath: result.filePath, rowCount: rows.length, error: result.error };
+      }
+
+      const baseName = `${title.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}`;
+      const filePath = path.join(this.outputDir, `${baseName}.${request.format}`);
+
+      if (request.format === 'csv') {
+        // BOM so Excel opens the file as UTF-8 (₹ and Hindi names)
+        fs.writeFileSync(filePath, '\uFEFF' + buildCSV(rows, columns), 'utf8');
+      } else {
+        fs.writeFileSync(filePath, JSON.stringify({
+          title,
+          companyName: request.companyName,
+          exportedAt: new Date().toISOString(),
+          columns: columns.map(column => ({ key: column.key, header: column.header, type: column.type })),
+          rows: rows.map(row => normaliseRow(row, columns))
+        }, null, 2), 'utf8');
+      }
+
+      console.log(`📤 Exported ${rows.length} rows to ${filePath}`);
+      return { success: true, format: request.format, filePath, rowCount: rows.length };
+    } catch (error) {
+      console.error('Table export failed:', error);
+      return { success: false, format: request.format, rowCount: rows.length, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
+
+/**
+ * One level of nesting is spread into columns (e.g. ageing buckets); nested lists are dropped
+ */
+function flattenRow(row: Record<string, any>): Record<string, any> {
+  const flat: Record<string, any> = {};
+  Object.keys(row).forEach(key => {
+    const value = row[key];
+    if (Array.isArray(value)) {
+      if (value.every(item => typeof item !== 'object' || item === null)) flat[key] = value.join(', ');
+    } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+      Object.keys(value).forEach(subKey => {
+        if (typeof value[subKey] !== 'object') flat[`${key} ${subKey}`] = value[subKey];
+      });
+    } else {
+      flat[key] = value;
+    }
+  });
+  return flat;
+}
+
+function inferColumns(rows: Record<string, any>[]): ExcelColumn[] {
+  const keys: string[] = [];
+  rows.forEach(row => Object.keys(row).forEach(key => {
+    if (!keys.includes(key)) keys.push(key);
+  }));
+
+  return keys.map(key => {
+    const values = rows.map(row => row[key]).filter(value => value !== undefined && value !== null && value !== '' && value !== '—');
+    let type: ExcelColumnType = 'text';
+
+    if (values.length > 0 && DATE_KEYS.test(key) && values.every(value => value instanceof Date || !isNaN(parseExportDate(value)?.getTime() ?? NaN))) {
+      type = 'date';
+    } else if (values.length > 0 && values.every(value => typeof value === 'number' || CURRENCY_TEXT.test(String(value).trim()))) {
+      type = AMOUNT_KEYS.test(key) || values.some(value => typeof value === 'string' && /₹|dr|cr/i.test(value)) ? 'amount' : 'number';
+    }
+
+    return { key, header: toHeader(key), type };
+  });
+}
+
+/**
+ * Amounts become numbers (Dr-positive) and dates become Date objects
+ */
+function normaliseRow(row: Record<string, any>, columns: ExcelColumn[]): Record<string, any> {
+  const normalised: Record<string, any> = {};
+  columns.forEach(column => {
+    const value = row[column.key];
+    if (value === undefined || value === null || value === '—') {
+      normalised[column.key] = undefined;
+    } else if (column.type === 'amount' || column.type === 'number') {
+      normalised[column.key] = parseTallyAmount(value);
+    } else if (column.type === 'date') {
+      normalised[column.key] = value instanceof Date ? value : parseExportDate(value);
+    } else {
+      normalised[column.key] = value;
+    }
+  });
+  return normalised;
+}
+
+function buildTotals(rows: Record<string, any>[], columns: ExcelColumn[]): Record<string, any> | undefined {
+  const summable = columns.filter(column => column.type === 'amount' && !NON_SUMMABLE_KEYS.test(column.key));
+  if (summable.length === 0 || rows.length < 2) return undefined;
+
+  const totals: Record<string, any> = {};
+  const labelColumn = columns.find(column => column.type === 'text');
+  if (labelColumn) totals[labelColumn.key] = 'Total';
+  summable.forEach(column => {
+    totals[column.key] = rows.reduce((sum, row) => sum + parseTallyAmount(row[column.key]), 0);
+  });
+  return totals;
+}
+
+function buildCSV(rows: Record<string, any>[], columns: ExcelColumn[]): string {
+  const escapeCell = (value: any): string => {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const lines = [columns.map(column => escapeCell(column.header)).join(',')];
+  rows.map(row => normaliseRow(row, columns)).forEach(row => {
+    lines.push(columns.map(column => {
+      const value = row[column.key];
+      if (value instanceof Date) return value.toLocaleDateString('en-IN');
+      if (typeof value === 'number') return (Math.round(value * 100) / 100).toString();
+      return escapeCell(value);
+    }).join(','));
+  });
+
+  const totals = buildTotals(rows, columns);
+  if (totals) {
+    lines.push(columns.map(column => {
+      const value = totals[column.key];
+      return typeof value === 'number' ? (Math.round(value * 100) / 100).toString() : escapeCell(value);
+    }).join(','));
+  }
+
+  return lines.join('\r\n');
+}
+
+/**
+ * "$ClosingBalance" -> "Closing Balance", "opening_cash" -> "Opening Cash"
+ */
+function toHeader(key: string): string {
+  return key
+    .replace(/^\$/, '')
+    .replace(/_/g, ' ')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/\b[a-z]/g, letter => letter.toUpperCase())
+    .trim();
+}
+
+function parseExportDate(value: any): Date | undefined {
+  if (value instanceof Date) return value;
+  const text = String(value).trim();
+
+  // dd/mm/yyyy and dd-mm-yyyy (en-IN display) before Date.parse, which would read them as mm/dd
+  const indian = text.match(/^(\d{1,2})[\/\-](\d{1,2})[\/\-](\d{4})$/);
+  if (indian) return new Date(parseInt(indian[3]), parseInt(indian[2]) - 1, parseInt(indian[1]));
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) return new Date(parseInt(compact[1]), parseInt(compact[2]) - 1, parseInt(compact[3]));
+
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
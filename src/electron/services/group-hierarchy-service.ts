@@ -0,0 +1,185 @@
+/**
+ * Group Hierarchy Service
+ * Loads Tally's GROUP tree and resolves every ledger to its primary group
+ */
+
+import { TallyDataSource } from './tally-data-source';
+
+export interface TallyGroupNode {
+  name: string;
+  parent: string;
+  primaryGroup: string;
+}
+
+export interface GroupedLedger {
+  name: string;
+  parent: string;
+  primaryGroup: string;
+  openingBalance: number;
+  closingBalance: number;
+}
+
+export interface GroupHierarchySnapshot {
+  groups: Map<string, TallyGroupNode>;
+  ledgers: GroupedLedger[];
+}
+
+// Tally's reserved primary groups, with the alternate spellings seen across Tally versions
+export const PRIMARY_GROUP_ALIASES: { [alias: string]: string } = {
+  'capital account': 'Capital Account',
+  'loans (liability)': 'Loans (Liability)',
+  'current liabilities': 'Current Liabilities',
+  'suspense a/c': 'Suspense A/c',
+  'branch / divisions': 'Branch / Divisions',
+  'fixed assets': 'Fixed Assets',
+  'investments': 'Investments',
+  'current assets': 'Current Assets',
+  'misc. expenses (asset)': 'Misc. Expenses (ASSET)',
+  'sales accounts': 'Sales Accounts',
+  'purchase accounts': 'Purchase Accounts',
+  'direct incomes': 'Direct Incomes',
+  'direct income': 'Direct Incomes',
+  'income (direct)': 'Direct Incomes',
+  'direct expenses': 'Direct Expenses',
+  'expenses (direct)': 'Direct Expenses',
+  'indirect incomes': 'Indirect Incomes',
+  'indirect income': 'Indirect Incomes',
+  'income (indirect)': 'Indirect Incomes',
+  'indirect expenses': 'Indirect Expenses',
+  'expenses (indirect)': 'Indirect Expenses'
+};
+
+export class GroupHierarchyService {
+  private dataSource: TallyDataSource;
+
+  constructor(dataSource: TallyDataSource) {
+    this.dataSource = dataSource;
+  }
+
+  /**
+   * Load groups and ledgers from Tally and attach the primary group to each ledger
+   */
+  async loadSnapshot(): Promise<GroupHierarchySnapshot> {
+    const groups = await this.loadGroups();
+
+    const ledgerQuery = 'SELECT $Name, $Parent, $OpeningBalance, $ClosingBalance FROM Ledger';
+    const ledgerResult = await this.dataSource.executeQuery(ledgerQuery);
+    if (!ledgerResult.success || !ledgerResult.data) {
+      throw new Error(ledgerResult.error || 'Unable to read ledgers from Tally');
+    }
+
+    const ledgers: GroupedLedger[] = ledgerResult.data.map((row: any) => {
+      const parent = row.$Parent || row.Parent || '';
+      return {
+        name: row.$Name || row.Name || 'Unknown',
+        parent,
+        primaryGroup: this.resolvePrimaryGroup(parent, groups),
+        openingBalance: parseTallyAmount(row.$OpeningBalance),
+        closingBalance: parseTallyAmount(row.$ClosingBalance)
+      };
+    });
+
+    console.log(`🌳 Group hierarchy loaded: ${groups.size} groups, ${ledgers.length} ledgers`);
+    return { groups, ledgers };
+  }
+
+  /**
+   * Load the GROUP collection keyed by group name
+   */
+  async loadGroups(): Promise<Map<string, TallyGroupNode>> {
+    const groupQueries = [
+      'SELECT $Name, $Parent FROM Group',
+      'SELECT $Name, $Parent FROM Groups'
+    ];
+
+    let rows: any[] = [];
+    for (const sqlQuery of groupQueries) {
+      const result = await this.dataSource.executeQuery(sqlQuery);
+      if (result.success && result.data && result.data.length > 0) {
+        rows = result.data;
+        break;
+      }
+    }
+
+    const groups = new Map<string, TallyGroupNode>();
+    rows.forEach((row: any) => {
+      const name = row.$Name || row.Name;
+      if (!name) return;
+      groups.set(name, { name, parent: row.$Parent || row.Parent || '', primaryGroup: '' });
+    });
+
+    groups.forEach(group => {
+      group.primaryGroup = this.resolvePrimaryGroup(group.name, groups);
+    });
+
+    return groups;
+  }
+
+  /**
+   * Walk $Parent links up to the top-level (primary) group
+   */
+  resolvePrimaryGroup(groupName: string, groups: Map<string, TallyGroupNode>): string {
+    let current = groupName;
+    const visited = new Set<string>();
+
+    while (current && !visited.has(current)) {
+      visited.add(current);
+
+      const node = groups.get(current);
+      const parent = node?.parent || '';
+      if (!node || !parent || parent.toLowerCase() === 'primary') {
+        return normalizePrimaryGroup(current);
+      }
+      current = parent;
+    }
+
+    return normalizePrimaryGroup(current || groupName);
+  }
+
+  /**
+   * Check whether a group is the given group or sits anywhere beneath it
+   */
+  isUnderGroup(groupName: string, ancestor: string, groups: Map<string, TallyGroupNode>): boolean {
+    const target = ancestor.toLowerCase();
+    let current = groupName;
+    const visited = new Set<string>();
+
+    while (current && !visited.has(current)) {
+      if (current.toLowerCase() === target) return true;
+      visited.add(current);
+      current = groups.get(current)?.parent || '';
+    }
+    return false;
+  }
+}
+
+/**
+ * Map a group name onto the canonical reserved primary group name, if it is one
+ */
+export function normalizePrimaryGroup(groupName: string): string {
+  return PRIMARY_GROUP_ALIASES[groupName.trim().toLowerCase()] || groupName.trim();
+}
+
+/**
+ * Parse Tally ODBC amounts ("₹12,63,844.06 Dr", "—", numbers) using the Dr-positive convention
+ */
+export function parseTallyAmount(value: any): number {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === 'number') return value;
+
+  const str = String(value);
+  if (str === '—' || str === '-' || str.trim() === '') return 0;
+
+  const cleanStr = str.replace(/[₹,\s]/g, '');
+  const numericMatch = cleanStr.match(/[\d.-]+/);
+  if (!numericMatch) return 0;
+
+  let amount = parseFloat(numericMatch[0]);
+  if (isNaN(amount)) return 0;
+  if (cleanStr.includes('Dr')) {
+    amount = Math.abs(amount);
+  } else if (cleanStr.includes('Cr')) {
+    amount = -Math.abs(amount);
+  }
+  return amount;
+}
@@ -0,0 +1,601 @@
+/**
+ * GST Service
+ * Prepares GSTR-1 and GSTR-3B summaries from Tally sales/purchase vouchers
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService, GSTVoucherData, StockItemGSTData } from './tally-xml-api';
+
+export interface GSTTaxAmounts {
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  cess: number;
+}
+
+// 'debit-note' is a purchase return; 'sales-debit-note' raises the value of a sale to a customer
+export type GSTDocumentKind = 'sales' | 'purchase' | 'credit-note' | 'debit-note' | 'sales-debit-note';
+export type GSTR1Section = 'b2b' | 'b2cl' | 'b2cs' | 'export' | 'nil';
+
+export interface GSTInvoice {
+  voucherNumber: string;
+  date: Date;
+  voucherType: string;
+  partyName: string;
+  partyGSTIN: string;
+  placeOfSupply: string;
+  isInterState: boolean;
+  kind: GSTDocumentKind;
+  section: GSTR1Section;
+  invoiceValue: number;
+  rate: number;
+  amounts: GSTTaxAmounts;
+  inventoryEntries: GSTVoucherData['inventoryEntries'];
+}
+
+export interface HSNSummaryRow {
+  hsnCode: string;
+  description: string;
+  uqc: string;
+  quantity: number;
+  rate: number;
+  amounts: GSTTaxAmounts;
+}
+
+export interface GSTR3BSummary {
+  outwardTaxable: GSTTaxAmounts;
+  zeroRated: GSTTaxAmounts;
+  nilExempt: GSTTaxAmounts;
+  inputTaxCredit: GSTTaxAmounts;
+  outputTax: { igst: number; cgst: number; sgst: number; cess: number };
+  payableInCash: { igst: number; cgst: number; sgst: number; cess: number };
+  creditCarriedForward: { igst: number; cgst: number; sgst: number; cess: number };
+}
+
+export interface GSTReport {
+  fromDate: Date;
+  toDate: Date;
+  companyGSTIN: string;
+  companyStateCode: string;
+  returnPeriod: string;
+  invoices: GSTInvoice[];
+  hsnSummary: HSNSummaryRow[];
+  gstr1: any;
+  gstr3b: GSTR3BSummary;
+  warnings: string[];
+}
+
+// GST state codes used for place of supply
+export const GST_STATE_CODES: { [state: string]: string } = {
+  'jammu and kashmir': '01', 'jammu & kashmir': '01', 'himachal pradesh': '02', 'punjab': '03',
+  'chandigarh': '04', 'uttarakhand': '05', 'haryana': '06', 'delhi': '07', 'rajasthan': '08',
+  'uttar pradesh': '09', 'bihar': '10', 'sikkim': '11', 'arunachal pradesh': '12', 'nagaland': '13',
+  'manipur': '14', 'mizoram': '15', 'tripura': '16', 'meghalaya': '17', 'assam': '18',
+  'west bengal': '19', 'jharkhand': '20', 'odisha': '21', 'orissa': '21', 'chhattisgarh': '22',
+  'madhya pradesh': '23', 'gujarat': '24', 'dadra and nagar haveli and daman and diu': '26',
+  'daman and diu': '26', 'dadra and nagar haveli': '26', 'maharashtra': '27', 'karnataka': '29',
+  'goa': '30', 'lakshadweep': '31', 'kerala': '32', 'tamil nadu': '33', 'puducherry': '34',
+  'pondicherry': '34', 'andaman and nicobar islands': '35', 'telangana': '36', 'andhra pradesh': '37',
+  'ladakh': '38', 'other territory': '97'
+};
+
+// Unit names commonly used in Tally mapped to GSTN unit quantity codes
+const UQC_MAP: { [unit: string]: string } = {
+  'nos': 'NOS', 'no': 'NOS', 'no.': 'NOS', 'pcs': 'PCS', 'pc': 'PCS', 'piece': 'PCS', 'kg': 'KGS', 'kgs': 'KGS',
+  'gm': 'GMS', 'gms': 'GMS', 'g': 'GMS', 'mt': 'MTS', 'mts': 'MTS', 'tonne': 'TON', 'ton': 'TON', 'ltr': 'LTR',
+  'l': 'LTR', 'ml': 'MLT', 'mtr': 'MTR', 'm': 'MTR', 'box': 'BOX', 'bag': 'BAG', 'bags': 'BAG', 'set': 'SET',
+  'sets': 'SET', 'pair': 'PRS', 'prs': 'PRS', 'dozen': 'DOZ', 'doz': 'DOZ', 'sqft': 'SQF', 'sqm': 'SQM', 'roll': 'ROL'
+};
+
+const STANDARD_RATES = [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28];
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z0-9]{10}[0-9A-Z]{3}$/;
+
+export class GSTService {
+  private dataSource: TallyDataSource;
+  private xmlApiService: TallyXMLAPIService;
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.xmlApiService = xmlApiService;
+  }
+
+  /**
+   * Build GSTR-1 and GSTR-3B data for a return period
+   */
+  async generateReport(fromDate: Date, toDate: Date): Promise<GSTReport> {
+    const warnings: string[] = [];
+    const company = await this.loadCompanyGSTDetails();
+    if (!company.gstin) {
+      warnings.push('Company GSTIN not found in Tally - set it under F11 > GST details before filing');
+    }
+
+    const vouchers = await this.xmlApiService.getGSTVouchers(fromDate, toDate);
+
+    let stockItems: StockItemGSTData[] = [];
+    try {
+      stockItems = await this.xmlApiService.getStockItemGSTDetails();
+    } catch (error) {
+      console.warn('⚠️ Stock item HSN codes unavailable:', error instanceof Error ? error.message : error);
+      warnings.push('Stock item HSN codes unavailable - HSN summary will show NA');
+    }
+    const hsnByItem = new Map(stockItems.map(item => [item.name, item]));
+
+    const invoices = vouchers
+      .map(voucher => this.classifyVoucher(voucher, company.stateCode))
+      .filter((invoice): invoice is GSTInvoice => invoice !== null);
+
+    const mixedRate = invoices.filter(invoice => !STANDARD_RATES.includes(invoice.rate));
+    if (mixedRate.length > 0) {
+      warnings.push(`${mixedRate.length} voucher(s) have a non-standard effective rate (mixed-rate invoices) - verify them in Tally`);
+    }
+
+    const withoutItems = invoices.filter(invoice => isOutward(invoice) && invoice.inventoryEntries.length === 0);
+    if (withoutItems.length > 0) {
+      warnings.push(`${withoutItems.length} outward voucher(s) have no stock items and are missing from the HSN summary`);
+    }
+
+    const returnPeriod = `${String(toDate.getMonth() + 1).padStart(2, '0')}${toDate.getFullYear()}`;
+    const hsnSummary = this.buildHSNSummary(invoices, hsnByItem);
+
+    console.log(`🧾 GST report: ${invoices.length} vouchers classified for ${returnPeriod}`);
+
+    return {
+      fromDate,
+      toDate,
+      companyGSTIN: company.gstin,
+      companyStateCode: company.stateCode,
+      returnPeriod,
+      invoices,
+      hsnSummary,
+      gstr1: this.buildGSTR1Json(company.gstin, returnPeriod, invoices, hsnSummary),
+      gstr3b: this.buildGSTR3B(invoices),
+      warnings
+    };
+  }
+
+  /**
+   * Write GSTR-1 JSON in the GST offline tool format
+   */
+  exportGSTR1(report: GSTReport, outputDir: string): string {
+    const fileName = `GSTR1_${report.companyGSTIN || 'NOGSTIN'}_${report.returnPeriod}.json`;
+    const filePath = path.join(outputDir, fileName);
+    fs.writeFileSync(filePath, JSON.stringify(report.gstr1, null, 2), 'utf8');
+    console.log(`💾 GSTR-1 JSON saved: ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * Company GSTIN and state code, tolerating Tally builds without the GSTIN field
+   */
+  private async loadCompanyGSTDetails(): Promise<{ gstin: string; stateCode: string }> {
+    const companyQueries = [
+      'SELECT $Name, $StateName, $GSTRegistrationNumber FROM Company',
+      'SELECT $Name, $StateName FROM Company'
+    ];
+
+    for (const sqlQuery of companyQueries) {
+      const result = await this.dataSource.executeQuery(sqlQuery);
+      if (result.success && result.data && result.data.length > 0) {
+        const company = result.data[0];
+        const gstin = String(company.$GSTRegistrationNumber || '').trim().toUpperCase();
+        const stateCode = GSTIN_PATTERN.test(gstin)
+          ? gstin.substring(0, 2)
+          : getStateCode(company.$StateName || '');
+        return { gstin: GSTIN_PATTERN.test(gstin) ? gstin : '', stateCode };
+      }
+    }
+
+    return { gstin: '', stateCode: '' };
+  }
+
+  /**
+   * Split a voucher into taxable value and tax heads and place it in a GSTR-1 section
+   */
+  private classifyVoucher(voucher: GSTVoucherData, companyStateCode: string): GSTInvoice | null {
+    const amounts: GSTTaxAmounts = { taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 };
+    let partyAmount = 0;
+    let otherLedgersTotal = 0;
+    let postsToSales = false;
+
+    voucher.ledgerEntries.forEach(entry => {
+      const name = entry.ledgerName.toLowerCase();
+      if (entry.ledgerName === voucher.partyName) {
+        partyAmount += entry.amount;
+      } else if (/cess/.test(name)) {
+        amounts.cess += Math.abs(entry.amount);
+      } else if (/\bigst\b|integrated tax/.test(name)) {
+        amounts.igst += Math.abs(entry.amount);
+      } else if (/\bcgst\b|central tax/.test(name)) {
+        amounts.cgst += Math.abs(entry.amount);
+      } else if (/\b(sgst|utgst)\b|state tax|ut tax/.test(name)) {
+        amounts.sgst += Math.abs(entry.amount);
+      } else if (!/round/.test(name)) {
+        otherLedgersTotal += entry.amount;
+        if (/\bsales?\b/.test(name)) postsToSales = true;
+      }
+    });
+
+    // In invoice mode the sales/purchase ledger sits inside the inventory allocations
+    const inventoryTotal = voucher.inventoryEntries.reduce((sum, entry) => sum + entry.amount, 0);
+    amounts.taxableValue = inventoryTotal > 0 ? inventoryTotal : Math.abs(otherLedgersTotal);
+    if (amounts.taxableValue === 0 && partyAmount === 0) return null;
+
+    const totalTax = amounts.igst + amounts.cgst + amounts.sgst;
+    const invoiceValue = Math.abs(partyAmount) || amounts.taxableValue + totalTax + amounts.cess;
+
+    const typeName = voucher.voucherType.toLowerCase();
+    let kind: GSTDocumentKind;
+    if (typeName.includes('credit note')) kind = 'credit-note';
+    else if (typeName.includes('debit note')) kind = postsToSales ? 'sales-debit-note' : 'debit-note';
+    else if (typeName.includes('purchase')) kind = 'purchase';
+    else if (typeName.includes('sales')) kind = 'sales';
+    else kind = partyAmount >= 0 ? 'sales' : 'purchase';
+
+    const gstin = GSTIN_PATTERN.test(voucher.partyGSTIN) ? voucher.partyGSTIN : '';
+    const placeOfSupply = getStateCode(voucher.placeOfSupply) || (gstin ? gstin.substring(0, 2) : companyStateCode);
+    const isInterState = amounts.igst > 0 || (!!placeOfSupply && !!companyStateCode && placeOfSupply !== companyStateCode);
+    const isExport = placeOfSupply === '97' ||
+      (!!voucher.countryOfResidence && voucher.countryOfResidence.toLowerCase() !== 'india');
+
+    const date = parseTallyDate(voucher.voucherDate);
+    let section: GSTR1Section;
+    if (isExport) section = 'export';
+    else if (totalTax === 0) section = 'nil';
+    else if (gstin) section = 'b2b';
+    else if (isInterState && invoiceValue > getB2CLThreshold(date)) section = 'b2cl';
+    else section = 'b2cs';
+
+    return {
+      voucherNumber: voucher.voucherNumber,
+      date,
+      voucherType: voucher.voucherType,
+      partyName: voucher.partyName,
+      partyGSTIN: gstin,
+      placeOfSupply,
+      isInterState,
+      kind,
+      section,
+      invoiceValue,
+      rate: amounts.taxableValue > 0 ? nearestRate((totalTax / amounts.taxableValue) * 100) : 0,
+      amounts,
+      inventoryEntries: voucher.inventoryEntries
+    };
+  }
+
+  /**
+   * HSN-wise summary of outward supplies (credit notes reduce the totals)
+   */
+  private buildHSNSummary(invoices: GSTInvoice[], hsnByItem: Map<string, StockItemGSTData>): HSNSummaryRow[] {
+    const rows = new Map<string, HSNSummaryRow>();
+
+    invoices
+      .filter(isOutward)
+      .forEach(invoice => {
+        const sign = invoice.kind === 'credit-note' ? -1 : 1;
+        const inventoryTotal = invoice.inventoryEntries.reduce((sum, entry) => sum + entry.amount, 0);
+        if (inventoryTotal === 0) return;
+
+        invoice.inventoryEntries.forEach(entry => {
+          const item = hsnByItem.get(entry.stockItemName);
+          const hsnCode = item?.hsnCode || 'NA';
+          const uqc = UQC_MAP[(entry.unit || item?.unit || '').toLowerCase()] || 'OTH';
+          const key = `${hsnCode}|${uqc}|${invoice.rate}`;
+          const share = entry.amount / inventoryTotal;
+
+          if (!rows.has(key)) {
+            rows.set(key, {
+              hsnCode,
+              description: item?.description || entry.stockItemName,
+              uqc,
+              quantity: 0,
+              rate: invoice.rate,
+              amounts: { taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 }
+            });
+          }
+
+          const row = rows.get(key)!;
+          row.quantity += sign * entry.quantity;
+          row.amounts.taxableValue += sign * entry.amount;
+          row.amounts.igst += sign * invoice.amounts.igst * share;
+          row.amounts.cgst += sign * invoice.amounts.cgst * share;
+          row.amounts.sgst += sign * invoice.amounts.sgst * share;
+          row.amounts.cess += sign * invoice.amounts.cess * share;
+        });
+      });
+
+    return Array.from(rows.values()).sort((a, b) => b.amounts.taxableValue - a.amounts.taxableValue);
+  }
+
+  /**
+   * GSTR-1 JSON as accepted by the GST offline utility
+   */
+  private buildGSTR1Json(gstin: string, returnPeriod: string, invoices: GSTInvoice[], hsnSummary: HSNSummaryRow[]): any {
+    const itemDetails = (invoice: GSTInvoice, intraState: boolean) => ({
+      txval: round2(invoice.amounts.taxableValue),
+      rt: invoice.rate,
+      iamt: round2(invoice.amounts.igst),
+      ...(intraState ? { camt: round2(invoice.amounts.cgst), samt: round2(invoice.amounts.sgst) } : {}),
+      csamt: round2(invoice.amounts.cess)
+    });
+
+    const sales = invoices.filter(invoice => invoice.kind === 'sales');
+    const notes = invoices.filter(invoice => invoice.kind === 'credit-note' || invoice.kind === 'sales-debit-note');
+    const noteType = (invoice: GSTInvoice) => invoice.kind === 'credit-note' ? 'C' : 'D';
+
+    // B2B grouped by customer GSTIN
+    const b2bMap = new Map<string, any[]>();
+    sales.filter(invoice => invoice.section === 'b2b').forEach(invoice => {
+      if (!b2bMap.has(invoice.partyGSTIN)) b2bMap.set(invoice.partyGSTIN, []);
+      b2bMap.get(invoice.partyGSTIN)!.push({
+        inum: invoice.voucherNumber,
+        idt: formatGSTDate(invoice.date),
+        val: round2(invoice.invoiceValue),
+        pos: invoice.placeOfSupply,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: [{ num: 1, itm_det: itemDetails(invoice, !invoice.isInterState) }]
+      });
+    });
+
+    // B2CL grouped by place of supply
+    const b2clMap = new Map<string, any[]>();
+    sales.filter(invoice => invoice.section === 'b2cl').forEach(invoice => {
+      if (!b2clMap.has(invoice.placeOfSupply)) b2clMap.set(invoice.placeOfSupply, []);
+      b2clMap.get(invoice.placeOfSupply)!.push({
+        inum: invoice.voucherNumber,
+        idt: formatGSTDate(invoice.date),
+        val: round2(invoice.invoiceValue),
+        itms: [{ num: 1, itm_det: itemDetails(invoice, false) }]
+      });
+    });
+
+    // B2CS is reported net of unregistered credit and debit notes, per place of supply and rate
+    const b2csMap = new Map<string, any>();
+    [...sales, ...notes]
+      .filter(invoice => invoice.section === 'b2cs')
+      .forEach(invoice => {
+        const sign = invoice.kind === 'credit-note' ? -1 : 1;
+        const supplyType = invoice.isInterState ? 'INTER' : 'INTRA';
+        const key = `${supplyType}|${invoice.placeOfSupply}|${invoice.rate}`;
+        if (!b2csMap.has(key)) {
+          b2csMap.set(key, { sply_ty: supplyType, pos: invoice.placeOfSupply, typ: 'OE', txval: 0, rt: invoice.rate, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+        }
+        const row = b2csMap.get(key);
+        row.txval += sign * invoice.amounts.taxableValue;
+        row.iamt += sign * invoice.amounts.igst;
+        row.camt += sign * invoice.amounts.cgst;
+        row.samt += sign * invoice.amounts.sgst;
+        row.csamt += sign * invoice.amounts.cess;
+      });
+
+    const exports = sales.filter(invoice => invoice.section === 'export');
+    const exportGroups = ['WPAY', 'WOPAY']
+      .map(exportType => ({
+        exp_typ: exportType,
+        inv: exports
+          .filter(invoice => (invoice.amounts.igst > 0) === (exportType === 'WPAY'))
+          .map(invoice => ({
+            inum: invoice.voucherNumber,
+            idt: formatGSTDate(invoice.date),
+            val: round2(invoice.invoiceValue),
+            itms: [{ txval: round2(invoice.amounts.taxableValue), rt: invoice.rate, iamt: round2(invoice.amounts.igst), csamt: round2(invoice.amounts.cess) }]
+          }))
+      }))
+      .filter(group => group.inv.length > 0);
+
+    // Nil-rated supplies split by registration and inter/intra-state
+    const nilMap = new Map<string, number>();
+    [...sales, ...notes].filter(invoice => invoice.section === 'nil').forEach(invoice => {
+      const supplyType = `${invoice.isInterState ? 'INTR' : 'INTRA'}${invoice.partyGSTIN ? 'B2B' : 'B2C'}`;
+      const sign = invoice.kind === 'credit-note' ? -1 : 1;
+      nilMap.set(supplyType, (nilMap.get(supplyType) || 0) + sign * invoice.amounts.taxableValue);
+    });
+
+    // Credit and debit notes to registered customers
+    const cdnrMap = new Map<string, any[]>();
+    notes.filter(invoice => invoice.partyGSTIN && invoice.section !== 'export').forEach(invoice => {
+      if (!cdnrMap.has(invoice.partyGSTIN)) cdnrMap.set(invoice.partyGSTIN, []);
+      cdnrMap.get(invoice.partyGSTIN)!.push({
+        ntty: noteType(invoice),
+        nt_num: invoice.voucherNumber,
+        nt_dt: formatGSTDate(invoice.date),
+        val: round2(invoice.invoiceValue),
+        pos: invoice.placeOfSupply,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: [{ num: 1, itm_det: itemDetails(invoice, !invoice.isInterState) }]
+      });
+    });
+
+    // Notes to unregistered customers on large inter-state sales and exports; the rest are netted into B2CS
+    const cdnur = notes
+      .filter(invoice => !invoice.partyGSTIN && (invoice.section === 'b2cl' || invoice.section === 'export'))
+      .map(invoice => ({
+        ntty: noteType(invoice),
+        nt_num: invoice.voucherNumber,
+        nt_dt: formatGSTDate(invoice.date),
+        val: round2(invoice.invoiceValue),
+        typ: invoice.section === 'b2cl' ? 'B2CL' : invoice.amounts.igst > 0 ? 'EXPWP' : 'EXPWOP',
+        ...(invoice.section === 'b2cl' ? { pos: invoice.placeOfSupply } : {}),
+        itms: [{ num: 1, itm_det: itemDetails(invoice, false) }]
+      }));
+
+    const gstr1: any = {
+      gstin,
+      fp: returnPeriod,
+      version: 'GST3.0.4',
+      hash: 'hash'
+    };
+
+    if (b2bMap.size > 0) gstr1.b2b = Array.from(b2bMap.entries()).map(([ctin, inv]) => ({ ctin, inv }));
+    if (b2clMap.size > 0) gstr1.b2cl = Array.from(b2clMap.entries()).map(([pos, inv]) => ({ pos, inv }));
+    if (b2csMap.size > 0) {
+      gstr1.b2cs = Array.from(b2csMap.values()).map(row => ({
+        ...row,
+        txval: round2(row.txval),
+        iamt: round2(row.iamt),
+        camt: round2(row.camt),
+        samt: round2(row.samt),
+        csamt: round2(row.csamt)
+      }));
+    }
+    if (exportGroups.length > 0) gstr1.exp = exportGroups;
+    if (nilMap.size > 0) {
+      gstr1.nil = {
+        inv: Array.from(nilMap.entries()).map(([sply_ty, amount]) => ({ sply_ty, expt_amt: 0, nil_amt: round2(amount), ngsup_amt: 0 }))
+      };
+    }
+    if (cdnrMap.size > 0) gstr1.cdnr = Array.from(cdnrMap.entries()).map(([ctin, nt]) => ({ ctin, nt }));
+    if (cdnur.length > 0) gstr1.cdnur = cdnur;
+    if (hsnSummary.length > 0) {
+      gstr1.hsn = {
+        data: hsnSummary.map((row, index) => ({
+          num: index + 1,
+          hsn_sc: row.hsnCode,
+          desc: row.description.substring(0, 30),
+          uqc: row.uqc,
+          qty: round2(row.quantity),
+          rt: row.rate,
+          txval: round2(row.amounts.taxableValue),
+          iamt: round2(row.amounts.igst),
+          camt: round2(row.amounts.cgst),
+          samt: round2(row.amounts.sgst),
+          csamt: round2(row.amounts.cess)
+        }))
+      };
+    }
+
+    return gstr1;
+  }
+
+  /**
+   * GSTR-3B tables 3.1 and 4, with ITC set off in the order required by section 49
+   */
+  private buildGSTR3B(invoices: GSTInvoice[]): GSTR3BSummary {
+    const empty = (): GSTTaxAmounts => ({ taxableValue: 0, igst: 0, cgst: 0, sgst: 0, cess: 0 });
+    const add = (target: GSTTaxAmounts, amounts: GSTTaxAmounts, sign: number) => {
+      target.taxableValue += sign * amounts.taxableValue;
+      target.igst += sign * amounts.igst;
+      target.cgst += sign * amounts.cgst;
+      target.sgst += sign * amounts.sgst;
+      target.cess += sign * amounts.cess;
+    };
+
+    const outwardTaxable = empty();
+    const zeroRated = empty();
+    const nilExempt = empty();
+    const inputTaxCredit = empty();
+
+    invoices.forEach(invoice => {
+      if (invoice.kind === 'purchase' || invoice.kind === 'debit-note') {
+        // Debit notes are purchase returns, which reverse credit already taken
+        add(inputTaxCredit, invoice.amounts, invoice.kind === 'debit-note' ? -1 : 1);
+        return;
+      }
+
+      const sign = invoice.kind === 'credit-note' ? -1 : 1;
+      if (invoice.section === 'export') add(zeroRated, invoice.amounts, sign);
+      else if (invoice.section === 'nil') add(nilExempt, invoice.amounts, sign);
+      else add(outwardTaxable, invoice.amounts, sign);
+    });
+
+    const outputTax = {
+      igst: outwardTaxable.igst + zeroRated.igst,
+      cgst: outwardTaxable.cgst,
+      sgst: outwardTaxable.sgst,
+      cess: outwardTaxable.cess + zeroRated.cess
+    };
+
+    const liability = { ...outputTax };
+    const credit = {
+      igst: Math.max(0, inputTaxCredit.igst),
+      cgst: Math.max(0, inputTaxCredit.cgst),
+      sgst: Math.max(0, inputTaxCredit.sgst),
+      cess: Math.max(0, inputTaxCredit.cess)
+    };
+    const setOff = (from: keyof typeof credit, to: keyof typeof liability) => {
+      const used = Math.min(credit[from], Math.max(0, liability[to]));
+      credit[from] -= used;
+      liability[to] -= used;
+    };
+
+    // IGST credit goes first against IGST, then CGST and SGST; CGST and SGST never cross
+    setOff('igst', 'igst');
+    setOff('igst', 'cgst');
+    setOff('igst', 'sgst');
+    setOff('cgst', 'cgst');
+    setOff('cgst', 'igst');
+    setOff('sgst', 'sgst');
+    setOff('sgst', 'igst');
+    setOff('cess', 'cess');
+
+    return {
+      outwardTaxable,
+      zeroRated,
+      nilExempt,
+      inputTaxCredit,
+      outputTax,
+      payableInCash: {
+        igst: round2(Math.max(0, liability.igst)),
+        cgst: round2(Math.max(0, liability.cgst)),
+        sgst: round2(Math.max(0, liability.sgst)),
+        cess: round2(Math.max(0, liability.cess))
+      },
+      creditCarriedForward: {
+        igst: round2(credit.igst),
+        cgst: round2(credit.cgst),
+        sgst: round2(credit.sgst),
+        cess: round2(credit.cess)
+      }
+    };
+  }
+}
+
+/**
+ * Resolve a state name (or "27-Maharashtra" style value) to its GST state code
+ */
+export function getStateCode(state: string): string {
+  const value = (state || '').trim().toLowerCase();
+  if (!value) return '';
+  const codeMatch = value.match(/^(\d{2})\b/);
+  if (codeMatch) return codeMatch[1];
+  return GST_STATE_CODES[value] || '';
+}
+
+// Supplies that go into GSTR-1: sales and the notes that adjust them
+function isOutward(invoice: GSTInvoice): boolean {
+  return invoice.kind === 'sales' || invoice.kind === 'credit-note' || invoice.kind === 'sales-debit-note';
+}
+
+/**
+ * B2C (Large) threshold: ₹2.5 lakh, reduced to ₹1 lakh from 1 Aug 2024
+ */
+function getB2CLThreshold(invoiceDate: Date): number {
+  return invoiceDate >= new Date(2024, 7, 1) ? 100000 : 250000;
+}
+
+function nearestRate(effectiveRate: number): number {
+  const nearest = STANDARD_RATES.reduce((best, rate) =>
+    Math.abs(rate - effectiveRate) < Math.abs(best - effectiveRate) ? rate : best
+  );
+  // Leave mixed-rate invoices at their effective rate so they can be flagged
+  return Math.abs(nearest - effectiveRate) <= 0.5 ? nearest : round2(effectiveRate);
+}
+
+function parseTallyDate(value: string): Date {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? new Date() : parsed;
+}
+
+function formatGSTDate(date: Date): string {
+  return `${String(date.getDate()).padStart(2, '0')}-${String(date.getMonth() + 1).padStart(2, '0')}-${date.getFullYear()}`;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -10,6 +10,8 @@
 
 import { getDemoDataService, DemoDataService } from './demo-data-service';
 import { getDemoBedrockService, DemoBedrockService } from './demo-bedrock-service';
+import { parseSourceDate } from './tally-data-source';
+import { parseDateExpression, toISODateString } from '../utils/date-expression';
 
 export interface QueryResult {
   success: boolean;
@@ -139,34 +141,23 @@ export class HackathonQueryHandler {
   }
 
   /**
-   * Parse date range from query (simplified version)
+   * Parse date range from query. The demo books cover a single financial year,
+   * so "July" or "this month" resolve within it.
    */
-  private parseDateRange(query: string): { startDate?: string; endDate?: string } {
-    const queryLower = query.toLowerCase();
-
-    // July 2024
-    if (queryLower.includes('july') || queryLower.includes('जुलाई')) {
-      return { startDate: '2024-07-01', endDate: '2024-07-31' };
-    }
-
-    // August 2024
-    if (queryLower.includes('august') || queryLower.includes('अगस्त')) {
-      return { startDate: '2024-08-01', endDate: '2024-08-31' };
-    }
-
-    // This month (assuming current month for demo)
-    if (queryLower.includes('this month') || queryLower.includes('is mahine')) {
-      const now = new Date();
-      const year = now.getFullYear();
-      const month = now.getMonth() + 1;
-      const lastDay = new Date(year, month, 0).getDate();
-      return {
-        startDate: `${year}-${String(month).padStart(2, '0')}-01`,
-        endDate: `${year}-${String(month).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`
-      };
-    }
+  private async parseDateRange(query: string): Promise<{ startDate?: string; endDate?: string }> {
+    const company = await this.demoData.getCompanyInfo();
+    const booksTo = parseSourceDate(company.financialYearTo);
+    const now = new Date();
+    const expression = parseDateExpression(query, {
+      today: booksTo && booksTo < now ? booksTo : now,
+      booksFrom: parseSourceDate(company.financialYearFrom)
+    });
+    if (!expression) return {};
 
-    return {};
+    return {
+      startDate: toISODateString(expression.fromDate),
+      endDate: toISODateString(expression.toDate)
+    };
   }
 
   // Handler methods for different query types
@@ -183,7 +174,7 @@ export class HackathonQueryHandler {
   }
 
   private async handleSalesQuery(filter: 'all' | 'positive' | 'negative', query: string) {
-    const { startDate, endDate } = this.parseDateRange(query);
+    const { startDate, endDate } = await this.parseDateRange(query);
     const vouchers = await this.demoData.getSalesByFilter(filter, startDate, endDate);
     const summary = this.demoData.getSalesSummary(vouchers);
 
@@ -208,7 +199,7 @@ export class HackathonQueryHandler {
   }
 
   private async handleHighestSale(query: string) {
-    const { startDate, endDate } = this.parseDateRange(query);
+    const { startDate, endDate } = await this.parseDateRange(query);
     const highestSale = await this.demoData.getHighestSale(startDate, endDate);
 
     if (!highestSale) {
@@ -230,7 +221,7 @@ export class HackathonQueryHandler {
   }
 
   private async handleLowestSale(query: string) {
-    const { startDate, endDate } = this.parseDateRange(query);
+    const { startDate, endDate } = await this.parseDateRange(query);
     const lowestSale = await this.demoData.getLowestSale(startDate, endDate);
 
     if (!lowestSale) {
@@ -252,7 +243,7 @@ export class HackathonQueryHandler {
   }
 
   private async handlePurchaseQuery(filter: 'all' | 'positive' | 'negative', query: string) {
-    const { startDate, endDate } = this.parseDateRange(query);
+    const { startDate, endDate } = await this.parseDateRange(query);
     const vouchers = await this.demoData.getPurchasesByFilter(filter, startDate, endDate);
     const summary = this.demoData.getPurchaseSummary(vouchers);
 
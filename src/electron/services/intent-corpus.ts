@@ -0,0 +1,135 @@
+/**
+ * Intent Corpus
+ * Labelled English, Hindi and Hinglish queries for measuring the intent router's
+ * routing accuracy (intent-router-evaluate, intent-router.test.ts). Add real queries that were
+ * misrouted here; the held-out set in the test measures wording the router was not tuned on.
+ */
+
+import { LabelledQuery } from './intent-router';
+
+export const INTENT_CORPUS: LabelledQuery[] = [
+  // Company switching and consolidation
+  { query: 'switch to Sharma Traders FY24', intent: 'company_switch', language: 'en' },
+  { query: 'which company am I on', intent: 'company_switch', language: 'en' },
+  { query: 'list companies', intent: 'company_switch', language: 'en' },
+  { query: 'sharma traders pe switch karo', intent: 'company_switch', language: 'hinglish' },
+  { query: 'combined outstanding of all companies', intent: 'consolidated', language: 'en' },
+  { query: 'dono company ki total sales', intent: 'consolidated', language: 'hinglish' },
+  { query: 'total sales of both companies', intent: 'consolidated', language: 'en' },
+
+  // Company details
+  { query: 'company details', intent: 'company_info', language: 'en' },
+  { query: 'what is my address', intent: 'company_info', language: 'en' },
+  { query: 'company ka address kya hai', intent: 'company_info', language: 'hinglish' },
+  { query: 'कंपनी का पता बताओ', intent: 'company_info', language: 'hi' },
+
+  // Sales
+  { query: 'what are my sales this month', intent: 'sales', language: 'en' },
+  { query: 'total sales for July 2024', intent: 'sales', language: 'en' },
+  { query: 'sales in Q2 FY24', intent: 'sales', language: 'en' },
+  { query: 'show revenue for last quarter', intent: 'sales', language: 'en' },
+  { query: 'aaj ki sales kitni hai', intent: 'sales', language: 'hinglish' },
+  { query: 'pichle mahine ki bikri', intent: 'sales', language: 'hinglish' },
+  { query: 'is mahine kitna becha', intent: 'sales', language: 'hinglish' },
+  { query: 'सितंबर की बिक्री कितनी हुई', intent: 'sales', language: 'hi' },
+  { query: 'आज की बिक्री', intent: 'sales', language: 'hi' },
+  { query: 'slaes for august', intent: 'sales', language: 'en' },
+
+  // Purchases
+  { query: 'purchase summary for last month', intent: 'purchase', language: 'en' },
+  { query: 'what are my purchases this year', intent: 'purchase', language: 'en' },
+  { query: 'how much did we buy last month', intent: 'purchase', language: 'en' },
+  { query: 'pichle hafte kitni kharidari hui', intent: 'purchase', language: 'hinglish' },
+  { query: 'is mahine ka purchase', intent: 'purchase', language: 'hinglish' },
+  { query: 'इस महीने की खरीद', intent: 'purchase', language: 'hi' },
+
+  // Profit & Loss, balance sheet, margins
+  { query: 'profit and loss for FY 2023-24', intent: 'profit_loss', language: 'en' },
+  { query: 'what is my net profit this year', intent: 'profit_loss', language: 'en' },
+  { query: 'is saal kitna munafa hua', intent: 'profit_loss', language: 'hinglish' },
+  { query: 'पिछले साल का मुनाफा', intent: 'profit_loss', language: 'hi' },
+  { query: 'balance sheet as on 31 march', intent: 'balance_sheet', language: 'en' },
+  { query: 'show my net worth', intent: 'balance_sheet', language: 'en' },
+  { query: 'बैलेंस शीट दिखाओ', intent: 'balance_sheet', language: 'hi' },
+  { query: 'item wise profit margin', intent: 'profit_margin', language: 'en' },
+  { query: 'which items are we losing money on', intent: 'profit_margin', language: 'en' },
+  { query: 'kis item mein nuksan ho raha hai', intent: 'profit_margin', language: 'hinglish' },
+
+  // GST
+  { query: 'GST summary for last month', intent: 'gst', language: 'en' },
+  { query: 'gstr-3b for september', intent: 'gst', language: 'en' },
+  { query: 'is mahine gst kitna bharna hai', intent: 'gst', language: 'hinglish' },
+  { query: 'जीएसटी कितना देना है', intent: 'gst', language: 'hi' },
+
+  // Cash, bank, cash flow, reconciliation
+  { query: 'what is my bank balance', intent: 'cash_bank', language: 'en' },
+  { query: 'cash in hand', intent: 'cash_bank', language: 'en' },
+  { query: 'mere paas kitna cash hai', intent: 'cash_bank', language: 'hinglish' },
+  { query: 'bank mein kitna paisa hai', intent: 'cash_bank', language: 'hinglish' },
+  { query: 'बैंक बैलेंस कितना है', intent: 'cash_bank', language: 'hi' },
+  { query: 'cash flow projection for next month', intent: 'cash_flow', language: 'en' },
+  { query: 'do we have enough cash for salaries', intent: 'cash_flow', language: 'en' },
+  { query: 'agle mahine paisa kaafi hoga kya', intent: 'cash_flow', language: 'hinglish' },
+  { query: 'bank reconciliation for HDFC', intent: 'bank_reconciliation', language: 'en' },
+  { query: 'show uncleared cheques', intent: 'bank_reconciliation', language: 'en' },
+  { query: 'bank statement se match karo', intent: 'bank_reconciliation', language: 'hinglish' },
+
+  // Outstanding
+  { query: 'who has not paid me', intent: 'outstanding', language: 'en' },
+  { query: 'show overdue receivables above 90 days', intent: 'outstanding', language: 'en' },
+  { query: 'total payables', intent: 'outstanding', language: 'en' },
+  { query: 'kitna paisa lena hai', intent: 'outstanding', language: 'hinglish' },
+  { query: 'Sharma Traders ka baaki kitna hai', intent: 'outstanding', language: 'hinglish' },
+  { query: 'किसका कितना बकाया है', intent: 'outstanding', language: 'hi' },
+  { query: 'udhaar kiska sabse zyada hai', intent: 'outstanding', language: 'hinglish' },
+  { query: 'how much do customers owe me', intent: 'outstanding', language: 'en' },
+  { query: 'how much do I owe my suppliers', intent: 'outstanding', language: 'en' },
+  { query: 'which parties have dues older than 60 days', intent: 'outstanding', language: 'en' },
+  { query: 'money to be collected from debtors', intent: 'outstanding', language: 'en' },
+  { query: 'kis kis se paisa aana hai', intent: 'outstanding', language: 'hinglish' },
+
+  // Reminders
+  { query: 'send payment reminders to overdue customers', intent: 'payment_reminder', language: 'en' },
+  { query: 'who will be reminded today', intent: 'payment_reminder', language: 'en' },
+  { query: 'sabko tagada bhejo', intent: 'payment_reminder', language: 'hinglish' },
+  { query: 'remind me to call the CA tomorrow', intent: 'reminder', language: 'en' },
+  { query: 'show my pending tasks', intent: 'reminder', language: 'en' },
+  { query: 'kal bank jaana yaad dilana', intent: 'reminder', language: 'hinglish' },
+
+  // Stock
+  { query: 'stock summary', intent: 'inventory', language: 'en' },
+  { query: 'which items are out of stock', intent: 'inventory', language: 'en' },
+  { query: 'closing stock value', intent: 'inventory', language: 'en' },
+  { query: 'cement ka stock kitna hai', intent: 'inventory', language: 'hinglish' },
+  { query: 'godown mein kitna maal hai', intent: 'inventory', language: 'hinglish' },
+  { query: 'स्टॉक कितना बचा है', intent: 'inventory', language: 'hi' },
+
+  // Ledgers
+  { query: 'list all accounts', intent: 'ledger_list', language: 'en' },
+  { query: 'how many ledgers do I have', intent: 'ledger_list', language: 'en' },
+  { query: 'sabhi accounts dikhao', intent: 'ledger_list', language: 'hinglish' },
+  { query: 'list customers', intent: 'customer_list', language: 'en' },
+  { query: 'show all sundry debtors', intent: 'ledger_list', language: 'en' },
+  { query: 'statement of Sharma Traders for last quarter', intent: 'ledger_statement', language: 'en' },
+  { query: 'trial balance', intent: 'ledger_statement', language: 'en' },
+  { query: 'Gupta ji ka khata dikhao', intent: 'ledger_statement', language: 'hinglish' },
+  { query: 'रमेश का हिसाब', intent: 'ledger_statement', language: 'hi' },
+  { query: 'what is the balance of Reliance Industries', intent: 'ledger_balance', language: 'en' },
+  { query: 'HDFC loan closing balance', intent: 'ledger_balance', language: 'en' },
+  { query: 'Sharma Traders ka balance kitna hai', intent: 'ledger_balance', language: 'hinglish' },
+  { query: 'Mehta Steel balance', intent: 'ledger_balance', language: 'en' },
+
+  // Highest / lowest
+  { query: 'who has the highest closing balance', intent: 'analytical', language: 'en' },
+  { query: 'top customer by balance', intent: 'analytical', language: 'en' },
+  { query: 'sabse zyada balance kiska hai', intent: 'analytical', language: 'hinglish' },
+
+  // Invoices, day book, help
+  { query: 'generate invoice for Sharma Traders', intent: 'invoices', language: 'en' },
+  { query: 'pending invoices', intent: 'invoices', language: 'en' },
+  { query: 'Gupta ji ka bill bhejo', intent: 'invoices', language: 'hinglish' },
+  { query: 'day book for yesterday', intent: 'day_book', language: 'en' },
+  { query: 'aaj ki entries dikhao', intent: 'day_book', language: 'hinglish' },
+  { query: 'help', intent: 'help', language: 'en' },
+  { query: 'what can you do', intent: 'help', language: 'en' }
+];
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { intentRouter, LabelledQuery } from './intent-router';
+import { INTENT_CORPUS } from './intent-corpus';
+
+// Phrasings the registry was never tuned on. When a change fixes one of these, move it to
+// INTENT_CORPUS and add a fresh query here, so this set keeps measuring unseen wording.
+const HELD_OUT: LabelledQuery[] = [
+  { query: 'Sharma Traders ko kitna dena hai', intent: 'outstanding', language: 'hinglish' },
+  { query: 'what is still unpaid by Patel Hardware', intent: 'outstanding', language: 'en' },
+  { query: 'creditors ko kitna payment karna hai', intent: 'outstanding', language: 'hinglish' },
+  { query: 'how did sales do in august', intent: 'sales', language: 'en' },
+  { query: 'turnover for FY 2023-24', intent: 'sales', language: 'en' },
+  { query: 'kal kitna maal becha', intent: 'sales', language: 'hinglish' },
+  { query: 'sales figure for last week', intent: 'sales', language: 'en' },
+  { query: 'इस साल की बिक्री कितनी है', intent: 'sales', language: 'hi' },
+  { query: 'vendor bills this quarter', intent: 'purchase', language: 'en' },
+  { query: 'pichle mahine kitna kharida', intent: 'purchase', language: 'hinglish' },
+  { query: 'purchases from Tata Steel this year', intent: 'purchase', language: 'en' },
+  { query: 'are we making a profit this year', intent: 'profit_loss', language: 'en' },
+  { query: 'total expenses last quarter', intent: 'profit_loss', language: 'en' },
+  { query: 'is saal nuksaan hua kya', intent: 'profit_loss', language: 'hinglish' },
+  { query: 'net profit for the last quarter', intent: 'profit_loss', language: 'en' },
+  { query: 'what are my total assets and liabilities', intent: 'balance_sheet', language: 'en' },
+  { query: 'which customers give me the best margin', intent: 'profit_margin', language: 'en' },
+  { query: 'how much GST do I have to pay this month', intent: 'gst', language: 'en' },
+  { query: 'input tax credit available', intent: 'gst', language: 'en' },
+  { query: 'show GSTR-1 for August', intent: 'gst', language: 'en' },
+  { query: 'how much money is in HDFC bank', intent: 'cash_bank', language: 'en' },
+  { query: 'galle mein kitna cash hai', intent: 'cash_bank', language: 'hinglish' },
+  { query: 'cash position in all bank accounts', intent: 'cash_bank', language: 'en' },
+  { query: 'will I run short of cash next month', intent: 'cash_flow', language: 'en' },
+  { query: 'cheques issued but not cleared', intent: 'bank_reconciliation', language: 'en' },
+  { query: 'how many units of cement are left', intent: 'inventory', language: 'en' },
+  { query: 'which products are running low', intent: 'inventory', language: 'en' },
+  { query: 'kaunsa maal khatam hone wala hai', intent: 'inventory', language: 'hinglish' },
+  { query: 'stock value of TMT bars', intent: 'inventory', language: 'en' },
+  { query: 'show me every ledger', intent: 'ledger_list', language: 'en' },
+  { query: 'who are my suppliers', intent: 'customer_list', language: 'en' },
+  { query: 'all transactions with Mehta Steel in July', intent: 'ledger_statement', language: 'en' },
+  { query: 'Gupta ji ka pura hisaab bhejo', intent: 'ledger_statement', language: 'hinglish' },
+  { query: 'ledger statement of ICICI bank for june', intent: 'ledger_statement', language: 'en' },
+  { query: 'balance of Axis Bank OD account', intent: 'ledger_balance', language: 'en' },
+  { query: 'which customer has the lowest balance', intent: 'analytical', language: 'en' },
+  { query: 'sabse bada debtor kaun hai', intent: 'analytical', language: 'hinglish' },
+  { query: 'who is my biggest customer by balance', intent: 'analytical', language: 'en' },
+  { query: 'remind Sharma Traders about their payment', intent: 'payment_reminder', language: 'en' },
+  { query: 'remind me to file GST on 20th', intent: 'reminder', language: 'en' },
+  { query: 'set a reminder to pay rent on 5th', intent: 'reminder', language: 'en' },
+  { query: 'make an invoice for Patel Hardware', intent: 'invoices', language: 'en' },
+  { query: 'vouchers entered today', intent: 'day_book', language: 'en' },
+  { query: 'move to Gupta Enterprises company', intent: 'company_switch', language: 'en' },
+  { query: 'what is our GSTIN and address', intent: 'company_info', language: 'en' }
+];
+
+function describeFailures(failures: { query: string; expected: string; actual: string | null }[]): string {
+  return failures.map(failure => `${failure.query}: expected ${failure.expected}, got ${failure.actual}`).join('\n');
+}
+
+describe('intent routing', () => {
+  it('routes every query in the labelled corpus', () => {
+    const result = intentRouter.evaluate(INTENT_CORPUS);
+    expect(result.failures, describeFailures(result.failures)).toEqual([]);
+  });
+
+  it('routes at least 80% of held-out queries', () => {
+    const result = intentRouter.evaluate(HELD_OUT);
+    expect(result.accuracy, describeFailures(result.failures)).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('reads money owed as outstanding, not a list of customers', () => {
+    expect(intentRouter.classify('how much do customers owe me').intent?.id).toBe('outstanding');
+    expect(intentRouter.classify('list customers').intent?.id).toBe('customer_list');
+  });
+});
+
+describe('clarification', () => {
+  it('asks for the party a balance needs and joins the reply to the question', () => {
+    const asked = intentRouter.classify('closing balance');
+    expect(asked.clarification?.missingSlot).toBe('party');
+
+    const answered = intentRouter.resolveClarification('Sharma Traders', asked);
+    expect(answered?.intent?.id).toBe('ledger_balance');
+    expect(answered?.query).toBe('closing balance Sharma Traders');
+  });
+
+  it('treats a new question as a new query rather than an answer', () => {
+    const asked = intentRouter.classify('closing balance');
+    expect(intentRouter.resolveClarification('profit and loss for FY 2023-24', asked)).toBeNull();
+  });
+});
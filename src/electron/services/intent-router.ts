@@ -0,0 +1,700 @@
+/**
+ * Intent Router
+ * One intent classifier for every query path (comprehensive handler, legacy Supabase
+ * routing, knowledge base, WhatsApp). Intents are declared once in INTENT_REGISTRY with
+ * the phrases that identify them, the slots they take and the handler each consumer uses.
+ */
+
+import { parseDateExpression, DateExpression } from '../utils/date-expression';
+
+export type SlotName = 'party' | 'item' | 'date' | 'amount';
+
+// Query types of the legacy Supabase routing in OptimizedQueryService
+export type LegacyQueryType = 'company' | 'analytical' | 'ledger' | 'inventory' | 'reminders' | 'general';
+
+// Query types of the WhatsApp fast path in OptimizedWhatsAppService
+export type WhatsAppQueryType = 'ledger_balance' | 'ledger_list' | 'customer_list' | 'bank_accounts' | 'help' | 'general';
+
+export interface IntentDefinition {
+  id: string;
+  label: string;
+  example: string; // Offered when asking the user to pick between intents
+  // Specific wording: any one of these settles the intent
+  phrases: string[];
+  // Broad words: each one that appears counts towards the intent
+  keywords: string[];
+  slots: SlotName[];
+  // A slot the intent cannot be answered without; the router asks for it
+  requires?: SlotName;
+  // Which Tally counter makes a cached answer stale; intents without one (actions, several
+  // companies, uploaded statements) are never cached
+  invalidatedBy?: 'vouchers' | 'masters' | 'both';
+  handlers: {
+    comprehensive?: string; // ComprehensiveQueryHandler category id
+    legacy: LegacyQueryType;
+    whatsapp: WhatsAppQueryType;
+  };
+}
+
+export interface IntentSlots {
+  party?: string;
+  item?: string;
+  date?: DateExpression;
+  amount?: number;
+}
+
+export interface IntentCandidate {
+  intent: IntentDefinition;
+  confidence: number;
+  matched: string[];
+}
+
+export interface Clarification {
+  question: string;
+  options: IntentDefinition[];
+  missingSlot?: SlotName;
+}
+
+export interface IntentMatch {
+  query: string;
+  intent: IntentDefinition | null;
+  confidence: number;
+  slots: IntentSlots;
+  alternatives: IntentCandidate[];
+  clarification?: Clarification;
+}
+
+export interface LabelledQuery {
+  query: string;
+  intent: string;
+  language: 'en' | 'hi' | 'hinglish';
+}
+
+export interface RoutingAccuracy {
+  total: number;
+  correct: number;
+  accuracy: number;
+  byLanguage: { [language: string]: { total: number; correct: number; accuracy: number } };
+  failures: { query: string; expected: string; actual: string | null; confidence: number }[];
+}
+
+/**
+ * Registry order is precedence: when phrases of two intents both match, the earlier
+ * intent wins (e.g. "gross profit" is P&L before it is sales, "bank statement" is
+ * reconciliation before it is a bank balance).
+ */
+export const INTENT_REGISTRY: IntentDefinition[] = [
+  {
+    id: 'company_switch',
+    label: 'Switch company',
+    example: 'switch to Sharma Traders FY24',
+    phrases: [
+      'switch to', 'switch company', 'change company', 'change to company', 'switch karo', 'switch kar do',
+      'which company am i', 'current company', 'active company', 'list companies', 'my companies',
+      'pinned companies', 'pin company', 'unpin company'
+    ],
+    keywords: [],
+    slots: [],
+    handlers: { comprehensive: 'company_switch', legacy: 'general', whatsapp: 'general' }
+  },
+  {
+    id: 'consolidated',
+    label: 'All companies combined',
+    example: 'combined outstanding for all companies',
+    phrases: [
+      'combined', 'consolidated', 'all companies', 'across companies', 'all my companies',
+      'every company', 'sabhi company', 'sab company', 'saari company', 'dono company', 'both companies'
+    ],
+    keywords: [],
+    slots: ['date'],
+    handlers: { comprehensive: 'consolidated', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'help',
+    label: 'Help',
+    example: 'help',
+    phrases: ['what can you do', 'how to use', 'show commands', 'kya kya puch', 'madad'],
+    keywords: ['help', 'commands'],
+    slots: [],
+    handlers: { legacy: 'general', whatsapp: 'help' }
+  },
+  {
+    id: 'company_info',
+    label: 'Company details',
+    example: 'company details',
+    phrases: [
+      'company address', 'my address', 'कंपनी का पता', 'company details', 'company info', 'company name', 'company phone',
+      'company email', 'show company', 'my company', 'what is my address', 'company ka address',
+      'address kya hai', 'mera address', 'my details', 'show details'
+    ],
+    keywords: ['address', 'details'],
+    slots: [],
+    invalidatedBy: 'masters',
+    handlers: { comprehensive: 'company', legacy: 'company', whatsapp: 'general' }
+  },
+  {
+    id: 'profit_margin',
+    label: 'Profit margins',
+    example: 'item wise profit margin',
+    phrases: [
+      'margin', 'item wise profit', 'itemwise profit', 'item-wise profit', 'customer wise profit',
+      'party wise profit', 'profit per item', 'profit per customer', 'lose money', 'losing money',
+      'loss making', 'kis item me nuksan', 'kis item mein nuksan'
+    ],
+    keywords: [],
+    slots: ['date', 'item', 'party'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'profit_margin', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'profit_loss',
+    label: 'Profit & Loss',
+    example: 'profit and loss this year',
+    phrases: [
+      'profit & loss', 'profit and loss', 'मुनाफा', 'मुनाफ़ा', 'लाभ', 'नुकसान', 'profit loss', 'p&l', 'p & l', 'pnl',
+      'net profit', 'gross profit', 'income statement', 'munafa', 'nuksan', 'nuksaan', 'laabh', 'labh'
+    ],
+    keywords: ['profit', 'loss', 'expenses', 'kharcha'],
+    slots: ['date'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'profit_loss', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'balance_sheet',
+    label: 'Balance Sheet',
+    example: 'balance sheet',
+    phrases: [
+      'balance sheet', 'balancesheet', 'बैलेंस शीट', 'financial position', 'net worth',
+      'assets and liabilities', 'assets & liabilities', 'assets aur liabilities'
+    ],
+    keywords: ['assets', 'liabilities', 'capital'],
+    slots: ['date'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'balance_sheet', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'gst',
+    label: 'GST',
+    example: 'GST summary last month',
+    phrases: [
+      'gstr', 'gst return', 'जीएसटी', 'gst liability', 'gst payable', 'gst summary', 'gst report',
+      'gst kitna', 'gst bharna', 'input tax credit', 'itc claim', 'hsn summary', 'vat return'
+    ],
+    keywords: ['gst', 'tax', 'hsn', 'itc'],
+    slots: ['date'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'gst', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'cash_flow',
+    label: 'Cash flow',
+    example: 'cash flow projection',
+    phrases: [
+      'cash flow', 'cashflow', 'fund flow', 'cash projection', 'cash forecast', 'projected cash',
+      'enough cash', 'cash next month', 'cash position next', 'paisa kaafi', 'paise kaafi', 'liquidity'
+    ],
+    keywords: [],
+    slots: ['date'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'cash_flow', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'bank_reconciliation',
+    label: 'Bank reconciliation',
+    example: 'bank reconciliation for HDFC',
+    phrases: [
+      'reconcil', 'brs', 'bank reco', 'bank statement', 'unmatched entries', 'uncleared cheque',
+      'cheques not presented', 'cheque not cleared', 'bank se match', 'bank milan'
+    ],
+    keywords: ['cheque', 'cheques'],
+    slots: ['party', 'date'],
+    handlers: { comprehensive: 'bank_reconciliation', legacy: 'analytical', whatsapp: 'bank_accounts' }
+  },
+  {
+    id: 'cash_bank',
+    label: 'Cash & bank balance',
+    example: 'bank balance',
+    phrases: [
+      'bank balance', 'cash balance', 'बैंक बैलेंस', 'नकद', 'कैश', 'mere paas kitna cash', 'bank balance kitna', 'cash in hand',
+      'show bank', 'total cash', 'what is bank balance', 'cash kitna hai', 'bank account balance',
+      'bank accounts', 'cash book', 'bank book', 'paisa kitna', 'mere paas kitna'
+    ],
+    keywords: ['cash', 'bank', 'naqad', 'nakad', 'rokad'],
+    slots: ['date'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'cash_bank', legacy: 'analytical', whatsapp: 'bank_accounts' }
+  },
+  {
+    id: 'sales',
+    label: 'Sales',
+    example: 'sales this month',
+    phrases: [
+      'my sales', 'sales for', 'बिक्री', 'सेल्स', 'total sales', 'sales summary', 'sales report', 'sales trend',
+      'monthly sales', 'revenue this month', 'show me my sales', 'sales invoice', 'sales kitni',
+      'kitni sales', 'kitni bikri', 'total bikri', 'aaj ki sales', 'is mahine ki sales', 'business kitna hua'
+    ],
+    keywords: ['sales', 'sale', 'revenue', 'turnover', 'income', 'bikri', 'becha', 'bechi', 'kamai'],
+    slots: ['date', 'party', 'item'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'sales', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'payment_reminder',
+    label: 'Payment reminders',
+    example: 'send payment reminders',
+    phrases: [
+      'payment reminder', 'send reminder', 'reminder status', 'whatsapp reminder', 'reminders sent',
+      'who will be reminded', 'preview reminder', 'remind overdue', 'remind customers', 'tagada', 'takaza'
+    ],
+    keywords: [],
+    slots: ['party'],
+    handlers: { comprehensive: 'reminder', legacy: 'reminders', whatsapp: 'general' }
+  },
+  {
+    id: 'outstanding',
+    label: 'Outstanding',
+    example: 'outstanding receivables',
+    phrases: [
+      'outstanding', 'receivables', 'payables', 'बकाया', 'उधार', 'लेना है', 'देना है', 'who has not paid', 'total outs', 'list all ove',
+      'show out', 'pending payments', 'ageing', 'aging', 'overdue', 'bills receivable', 'bills payable',
+      'kitna lena hai', 'kitna dena hai', 'paisa lena', 'paisa dena', 'baaki kitna', 'baki kitna', 'udhaar', 'udhar', 'bakaya',
+      'owe', 'owes', 'owed', 'dues', 'to be collected', 'yet to collect', 'paisa aana', 'aana hai'
+    ],
+    keywords: ['receivable', 'payable', 'due', 'baaki', 'baki', 'lena', 'dena'],
+    slots: ['party', 'date', 'amount'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'outstanding', legacy: 'analytical', whatsapp: 'customer_list' }
+  },
+  {
+    id: 'inventory',
+    label: 'Stock',
+    example: 'stock summary',
+    phrases: [
+      'stock status', 'inventory', 'स्टॉक', 'माल', 'stock sum', 'my stock', 'what is my stock', 'stock items',
+      'stock kitna hai', 'out of stock', 'stock khatam', 'lowest stock', 'highest stock', 'sabse kam stock',
+      'sabse zyada stock', 'closing stock', 'current stock', 'how much stock', 'reorder', 'minimum stock',
+      'kitna maal', 'maal kitna'
+    ],
+    keywords: ['stock', 'item', 'items', 'product', 'products', 'quantity', 'maal', 'samaan', 'saman', 'goods', 'material', 'cheez', 'godown'],
+    slots: ['item'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'inventory', legacy: 'inventory', whatsapp: 'general' }
+  },
+  {
+    id: 'ledger_list',
+    label: 'List of accounts',
+    example: 'list all accounts',
+    phrases: [
+      'list all', 'show all', 'all ledger', 'sare accounts', 'sabhi accounts', 'how many ledgers',
+      'how many accounts', 'ledger list', 'all accounts', 'account list', 'number of ledgers', 'ledger count'
+    ],
+    keywords: ['ledgers', 'accounts'],
+    slots: [],
+    invalidatedBy: 'masters',
+    handlers: { comprehensive: 'ledger', legacy: 'general', whatsapp: 'ledger_list' }
+  },
+  {
+    id: 'customer_list',
+    label: 'Customers and suppliers',
+    example: 'list customers',
+    phrases: ['list customers', 'all customers', 'customer list', 'list suppliers', 'supplier list', 'sundry debtors', 'sundry creditors'],
+    keywords: ['customers', 'debtors', 'suppliers', 'creditors', 'grahak'],
+    slots: [],
+    invalidatedBy: 'masters',
+    handlers: { comprehensive: 'outstanding', legacy: 'ledger', whatsapp: 'customer_list' }
+  },
+  {
+    id: 'ledger_statement',
+    label: 'Ledger statement',
+    example: 'statement of Sharma Traders',
+    phrases: [
+      'trial balance', 'statement', 'खाता', 'हिसाब', 'khata', 'hisaab', 'hisab', 'transactions with', 'transactions of',
+      'voucher details', 'ledger report'
+    ],
+    keywords: ['ledger', 'entries', 'vouchers'],
+    slots: ['party', 'date'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'ledger', legacy: 'ledger', whatsapp: 'ledger_balance' }
+  },
+  {
+    id: 'analytical',
+    label: 'Highest and lowest balances',
+    example: 'who has the highest balance',
+    phrases: [
+      'highest balance', 'maximum balance', 'top balance', 'highest closing balance', 'which company has highest',
+      'who has maximum balance', 'sabse zyada balance', 'most balance', 'largest balance', 'highest closing',
+      'maximum closing', 'sabse zyada', 'sabse bada', 'sabse kam', 'maximum kiska', 'highest kiska',
+      'top customer', 'largest debtor', 'biggest balance', 'maximum amount', 'total balance', 'all balance',
+      'balance dikhao'
+    ],
+    keywords: ['highest', 'lowest', 'maximum', 'minimum', 'top', 'biggest', 'smallest', 'largest'],
+    slots: ['amount'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'analytical', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'purchase',
+    label: 'Purchases',
+    example: 'purchases this month',
+    phrases: [
+      'total purch', 'share purch', 'खरीद', 'परचेज', 'purchase report', 'what are my purchases', 'purchase summary',
+      'purchase bills', 'purchase invoices', 'kitni kharidari', 'kitna kharida'
+    ],
+    keywords: ['purchase', 'purchases', 'khareed', 'kharid', 'kharidari', 'kharida', 'vendor', 'vendors', 'buy', 'bought'],
+    slots: ['date', 'party', 'item'],
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'purchase', legacy: 'analytical', whatsapp: 'general' }
+  },
+  {
+    id: 'invoices',
+    label: 'Invoices and bills',
+    example: 'generate invoice for Sharma Traders',
+    phrases: [
+      'invoice', 'share tod', 'show all p', 'invoice re', 'bill summ', 'today invoices', 'pending invoices',
+      'generate bill', 'e-invoice', 'bill pdf', 'bill bhejo', 'bill banao'
+    ],
+    keywords: ['invoices', 'bill', 'bills', 'pdf', 'generate'],
+    slots: ['party', 'date'],
+    handlers: { comprehensive: 'invoices', legacy: 'ledger', whatsapp: 'general' }
+  },
+  {
+    id: 'reminder',
+    label: 'Reminders and tasks',
+    example: 'show my reminders',
+    phrases: [
+      'remind me', 'set reminder', 'याद दिला', 'set remin', 'what task', 'task reminder', 'pending tasks', 'to-do',
+      'yaad dilana', 'yaad dila', 'reminder set kar', 'follow up', 'follow-up'
+    ],
+    keywords: ['remind', 'reminder', 'reminders', 'task', 'tasks', 'pending'],
+    slots: ['date'],
+    handlers: { comprehensive: 'reminder', legacy: 'reminders', whatsapp: 'general' }
+  },
+  {
+    id: 'day_book',
+    label: 'Day book',
+    example: 'day book for today',
+    phrases: ['day book', 'daybook', 'डे बुक', 'work order', 'job order', 'aaj ki entries', 'aaj ke vouchers'],
+    keywords: ['production'],
+    slots: ['date'],
+    invalidatedBy: 'vouchers',
+    handlers: { comprehensive: 'miscellaneous', legacy: 'general', whatsapp: 'general' }
+  },
+  {
+    // Last: "<party> balance" is only a ledger lookup once nothing more specific matched
+    id: 'ledger_balance',
+    label: 'Account balance',
+    example: 'Sharma Traders balance',
+    phrases: ['balance of', 'closing balance', 'बैलेंस', 'balance kitna', 'ka balance', 'ki balance', 'balance hai'],
+    keywords: ['balance', 'closing', 'kitna'],
+    slots: ['party', 'date'],
+    requires: 'party',
+    invalidatedBy: 'both',
+    handlers: { comprehensive: 'ledger', legacy: 'ledger', whatsapp: 'ledger_balance' }
+  }
+];
+
+// Common typos, corrected word by word before matching
+const SPELLING_CORRECTIONS: { [typo: string]: string } = {
+  slaes: 'sales', seles: 'sales', saels: 'sales',
+  balence: 'balance', ballance: 'balance', balanc: 'balance', balane: 'balance', balace: 'balance',
+  mont: 'month', monht: 'month', mounth: 'month',
+  compny: 'company', compani: 'company', comapny: 'company',
+  ledgor: 'ledger', legers: 'ledger', leder: 'ledger',
+  bnk: 'bank', banck: 'bank',
+  outstandng: 'outstanding', outstading: 'outstanding',
+  purchse: 'purchase', purchace: 'purchase',
+  invoce: 'invoice', invioce: 'invoice',
+  wat: 'what', wht: 'what', whta: 'what', teh: 'the', hte: 'the'
+};
+
+// Words that never name a party or item
+const NON_NAME_WORDS = new Set([
+  'what', 'is', 'the', 'a', 'an', 'of', 'for', 'to', 'from', 'with', 'in', 'on', 'my', 'me', 'show', 'get', 'give',
+  'send', 'find', 'tell', 'list', 'all', 'total', 'current', 'closing', 'opening', 'balance', 'statement', 'ledger',
+  'account', 'accounts', 'details', 'report', 'summary', 'please', 'kitna', 'kitni', 'kya', 'hai', 'h', 'ka', 'ki',
+  'ke', 'ko', 'se', 'tak', 'batao', 'bata', 'dikhao', 'do', 'dena', 'lena', 'mera', 'mere', 'hamara', 'abhi', 'now',
+  'khata', 'hisaab', 'hisab', 'sales', 'purchase', 'purchases', 'outstanding', 'stock', 'invoice', 'bill', 'pdf',
+  'generate', 'and', 'this', 'last', 'month', 'year', 'today', 'transactions', 'entries', 'vouchers', 'due', 'amount',
+  'customer', 'party', 'supplier', 'how', 'much', 'many', 'owe', 'owes', 'paid', 'pending', 'overdue'
+]);
+
+const CLARIFY_MARGIN = 0.05;
+const MIN_CONFIDENCE = 0.4;
+
+export class IntentRouter {
+  private registry: IntentDefinition[];
+
+  constructor(registry: IntentDefinition[] = INTENT_REGISTRY) {
+    this.registry = registry;
+  }
+
+  getIntent(id: string): IntentDefinition | undefined {
+    return this.registry.find(intent => intent.id === id);
+  }
+
+  getIntents(): IntentDefinition[] {
+    return this.registry;
+  }
+
+  /**
+   * Classify a query. When two intents score too close to call, or the winning intent
+   * needs a slot the query does not have, the match carries a clarifying question.
+   */
+  classify(query: string): IntentMatch {
+    const text = normaliseQuery(query);
+    const candidates = this.scoreIntents(text);
+    const slots = extractSlots(query, text);
+
+    if (candidates.length === 0) {
+      return { query, intent: null, confidence: 0, slots, alternatives: [] };
+    }
+
+    const [best, runnerUp] = candidates;
+    const match: IntentMatch = {
+      query,
+      intent: best.intent,
+      confidence: best.confidence,
+      slots: this.slotsFor(best.intent, slots),
+      alternatives: candidates.slice(1, 4)
+    };
+
+    const tooClose = runnerUp && best.confidence < 0.75 && best.confidence - runnerUp.confidence < CLARIFY_MARGIN;
+    if (tooClose) {
+      const options = candidates
+        .filter(candidate => best.confidence - candidate.confidence < CLARIFY_MARGIN)
+        .slice(0, 3)
+        .map(candidate => candidate.intent);
+      match.clarification = {
+        question: `Did you mean ${options.map(option => option.label.toLowerCase()).join(' or ')}?`,
+        options
+      };
+    } else if (best.intent.requires && !match.slots[best.intent.requires]) {
+      match.clarification = {
+        question: MISSING_SLOT_QUESTIONS[best.intent.requires],
+        options: [best.intent],
+        missingSlot: best.intent.requires
+      };
+    }
+
+    console.log(`🧭 Intent: ${best.intent.id} (${best.confidence.toFixed(2)})${match.clarification ? ' - needs clarification' : ''}`);
+    return match;
+  }
+
+  /**
+   * Settle a pending clarification from the user's reply: an option number, an option
+   * name, or (for a missing slot) the value itself. The result's query is what to route.
+   * Returns null when the reply is a new query.
+   */
+  resolveClarification(reply: string, pending: IntentMatch): IntentMatch | null {
+    const clarification = pending.clarification;
+    if (!clarification) return null;
+    const text = normaliseQuery(reply);
+
+    if (clarification.missingSlot) {
+      // A fresh question with its own intent is not an answer
+      const asked = this.classify(reply);
+      if (asked.intent && asked.confidence >= 0.75 && asked.intent.id !== pending.intent?.id) return null;
+
+      const value = reply.trim().replace(/[?.!]+$/, '');
+      if (!value) return null;
+      // Handlers read names from the query text, so the answer joins the original question
+      return {
+        ...pending,
+        query: `${pending.query} ${value}`,
+        slots: { ...pending.slots, [clarification.missingSlot]: value },
+        clarification: undefined
+      };
+    }
+
+    const number = parseInt(text, 10);
+    let chosen: IntentDefinition | undefined;
+    if (/^\d+$/.test(text) && number >= 1 && number <= clarification.options.length) {
+      chosen = clarification.options[number - 1];
+    } else {
+      chosen = clarification.options.find(option =>
+        text.includes(option.label.toLowerCase()) || text.includes(option.id.replace(/_/g, ' '))
+      );
+      if (!chosen) {
+        const answered = this.classify(reply).intent;
+        chosen = clarification.options.find(option => option.id === answered?.id);
+      }
+    }
+
+    if (!chosen) return null;
+    return {
+      ...pending,
+      intent: chosen,
+      confidence: 1,
+      slots: this.slotsFor(chosen, extractSlots(pending.query, normaliseQuery(pending.query))),
+      clarification: undefined
+    };
+  }
+
+  /**
+   * Routing accuracy over a labelled corpus
+   */
+  evaluate(corpus: LabelledQuery[]): RoutingAccuracy {
+    const byLanguage: RoutingAccuracy['byLanguage'] = {};
+    const failures: RoutingAccuracy['failures'] = [];
+    let correct = 0;
+
+    corpus.forEach(sample => {
+      const match = this.classify(sample.query);
+      const actual = match.intent ? match.intent.id : null;
+      const stats = byLanguage[sample.language] || (byLanguage[sample.language] = { total: 0, correct: 0, accuracy: 0 });
+      stats.total++;
+      if (actual === sample.intent) {
+        correct++;
+        stats.correct++;
+      } else {
+        failures.push({ query: sample.query, expected: sample.intent, actual, confidence: match.confidence });
+      }
+    });
+
+    Object.values(byLanguage).forEach(stats => {
+      stats.accuracy = stats.total > 0 ? stats.correct / stats.total : 0;
+    });
+
+    return {
+      total: corpus.length,
+      correct,
+      accuracy: corpus.length > 0 ? correct / corpus.length : 0,
+      byLanguage,
+      failures
+    };
+  }
+
+  /**
+   * Phrase matches outrank keyword matches, and among phrase matches the registry order
+   * decides. Keyword-only intents are ranked by how many of their words appear.
+   */
+  private scoreIntents(text: string): IntentCandidate[] {
+    const phraseHits: IntentCandidate[] = [];
+    const keywordHits: IntentCandidate[] = [];
+
+    this.registry.forEach(intent => {
+      // Phrases may be word prefixes ("reconcil", "total outs") but must start a word
+      const phrases = intent.phrases.filter(phrase => text.startsWith(phrase) || text.includes(` ${phrase}`));
+      const keywords = intent.keywords.filter(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`).test(text));
+
+      if (phrases.length > 0) {
+        // A longer phrase is more certain
+        const longest = Math.max(...phrases.map(phrase => phrase.split(' ').length));
+        const confidence = Math.min(0.99, 0.8 + 0.05 * Math.min(longest, 3) + 0.02 * keywords.length);
+        phraseHits.push({ intent, confidence, matched: [...phrases, ...keywords] });
+      } else if (keywords.length > 0) {
+        const confidence = Math.min(0.7, 0.45 + 0.1 * (keywords.length - 1));
+        keywordHits.push({ intent, confidence, matched: keywords });
+      }
+    });
+
+    // Precedence among phrase matches is the registry order (already the iteration order);
+    // the winner is as certain as the strongest phrase found
+    if (phraseHits.length > 0) {
+      phraseHits[0].confidence = Math.max(...phraseHits.map(hit => hit.confidence));
+    }
+    keywordHits.sort((a, b) => b.confidence - a.confidence);
+
+    return [...phraseHits, ...keywordHits].filter(candidate => candidate.confidence >= MIN_CONFIDENCE);
+  }
+
+  private slotsFor(intent: IntentDefinition, slots: IntentSlots): IntentSlots {
+    const wanted: IntentSlots = {};
+    intent.slots.forEach(slot => {
+      if (slots[slot] !== undefined) (wanted as any)[slot] = slots[slot];
+    });
+    return wanted;
+  }
+}
+
+const MISSING_SLOT_QUESTIONS: { [slot in SlotName]: string } = {
+  party: 'Which party or account do you mean?',
+  item: 'Which stock item do you mean?',
+  date: 'For which period?',
+  amount: 'For what amount?'
+};
+
+/**
+ * Lowercase, spelling-corrected query with punctuation (other than &, - and ') as spaces
+ */
+export function normaliseQuery(query: string): string {
+  let text = query.toLowerCase().replace(/[^\p{L}\p{M}\p{N}&\-'\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+  text = text.split(' ').map(word => SPELLING_CORRECTIONS[word] || word).join(' ');
+  return text;
+}
+
+/**
+ * Slots any intent might use; the router keeps the ones the chosen intent declares
+ */
+export function extractSlots(query: string, text: string = normaliseQuery(query)): IntentSlots {
+  const slots: IntentSlots = {};
+
+  const date = parseDateExpression(query);
+  if (date) slots.date = date;
+
+  // The raw query, since normalising turns "1.5 lakh" into "1 5 lakh"
+  const amount = parseAmount(query.toLowerCase());
+  if (amount !== undefined) slots.amount = amount;
+
+  const party = extractName(text, PARTY_PATTERNS);
+  if (party) slots.party = party;
+
+  const item = extractName(text, ITEM_PATTERNS);
+  if (item) slots.item = item;
+
+  return slots;
+}
+
+// "balance of X", "X ka balance", "statement for X", "transactions with X", "X ka khata"
+const PARTY_PATTERNS = [
+  /\b(?:balance|statement|ledger|khata|hisaab|hisab|outstanding|invoice|bill|transactions|dues?)\s+(?:of|for|with|from)\s+(.+?)(?:\s+(?:for|in|from|since|during|this|last)\b.*)?$/,
+  /^(.+?)\s+(?:ka|ki|ke)\s+(?:closing\s+)?(?:balance|khata|hisaab|hisab|statement|outstanding|bakaya|baaki|sales|bikri|ledger|bill)\b/,
+  /^(?:what is\s+|show\s+|show me\s+)?(.+?)\s+(?:closing\s+)?(?:balance|statement|ledger|outstanding)\b/,
+  /\b(?:remind|reminder to|send reminder to)\s+(.+?)$/
+];
+
+// "stock of X", "X ka stock", "X stock", "how many X"
+const ITEM_PATTERNS = [
+  /\b(?:stock|quantity|inventory)\s+(?:of|for)\s+(.+?)$/,
+  /^(.+?)\s+(?:ka|ki|ke)\s+(?:stock|quantity|maal)\b/,
+  /^(?:how many|kitne|kitna)\s+(.+?)\s+(?:in stock|are left|bache|bacha|hai|hain)\b/
+];
+
+function extractName(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const words = match[1].split(' ').filter(word => word && !NON_NAME_WORDS.has(word));
+    // A date or generic words alone are not a name
+    const name = words.join(' ').trim();
+    if (name.length >= 2 && !parseDateExpression(name) && /\p{L}/u.test(name)) {
+      return name;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * "₹25,000", "rs 1.5 lakh", "2 crore", "50k" -> rupees
+ */
+export function parseAmount(text: string): number | undefined {
+  const match = text.match(/(?:₹|\brs\.?|\binr)\s*([\d,]+(?:\.\d+)?)\s*(k|lakh|lakhs|lac|lacs|crore|crores|cr)?\b/)
+    || text.match(/\b([\d,]+(?:\.\d+)?)\s*(k|lakh|lakhs|lac|lacs|crore|crores|cr)\b/);
+  if (!match) return undefined;
+
+  const value = parseFloat(match[1].replace(/,/g, ''));
+  if (isNaN(value)) return undefined;
+
+  const unit = match[2] || '';
+  if (unit === 'k') return value * 1000;
+  if (unit.startsWith('la')) return value * 100000;
+  if (unit.startsWith('cr')) return value * 10000000;
+  return value;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export const intentRouter = new IntentRouter();
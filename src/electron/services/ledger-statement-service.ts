@@ -0,0 +1,198 @@
+/**
+ * Ledger Statement Service
+ * Voucher-by-voucher account statement for any ledger with a running balance
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { parseTallyAmount } from './group-hierarchy-service';
+import { getFinancialYearStart } from './profit-loss-service';
+import { NameIndex } from '../utils/name-matching';
+
+export interface LedgerStatementEntry {
+  date: Date;
+  voucherType: string;
+  voucherNumber: string;
+  particulars: string; // The other side of the voucher
+  narration: string;
+  debit: number;
+  credit: number;
+  balance: number; // Running balance, Dr-positive
+}
+
+export interface LedgerStatement {
+  ledgerName: string;
+  parent: string;
+  fromDate: Date;
+  toDate: Date;
+  openingBalance: number;
+  entries: LedgerStatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  warnings: string[];
+}
+
+export interface LedgerMatch {
+  name: string;
+  parent: string;
+}
+
+// Words that say nothing about which ledger is meant
+const LEDGER_STOP_WORDS = ['and', 'the', 'co', 'co.', 'ltd', 'ltd.', 'pvt', 'pvt.', 'limited', 'private', 'company', 'a/c', 'ac', 'account', 'm/s', 'ms', '&'];
+
+export class LedgerStatementService {
+  private dataSource: TallyDataSource;
+  private xmlApiService: TallyXMLAPIService;
+  private ledgerIndex = new NameIndex<LedgerMatch>();
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.xmlApiService = xmlApiService;
+  }
+
+  /**
+   * Find the ledger a free-text query refers to: a full name in the query wins,
+   * otherwise the ledger whose significant words best overlap the query, and failing
+   * that the one the name index finds (Hindi spellings, Sarma for Sharma)
+   */
+  async findLedger(query: string): Promise<LedgerMatch | null> {
+    const result = await this.dataSource.executeQuery('SELECT $Name, $Parent FROM Ledger');
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Unable to read ledgers from Tally');
+    }
+
+    const queryLower = query.toLowerCase();
+    const queryWords = new Set(queryLower.split(/[^a-z0-9&.\/]+/).filter(Boolean));
+    let best: LedgerMatch | null = null;
+    let bestScore = 0;
+    const ledgers: LedgerMatch[] = [];
+
+    result.data.forEach((row: any) => {
+      const name = String(row.$Name || row.Name || '').trim();
+      if (!name) return;
+      ledgers.push({ name, parent: String(row.$Parent || row.Parent || '') });
+      const nameLower = name.toLowerCase();
+
+      let score = 0;
+      if (queryLower.includes(nameLower)) {
+        // Prefer the longest full match ("Ramesh & Co Mumbai" over "Ramesh & Co")
+        score = 10 + nameLower.length / 100;
+      } else {
+        const words = nameLower.split(/[^a-z0-9&.\/]+/).filter(word => word.length > 1 && !LEDGER_STOP_WORDS.includes(word));
+        if (words.length === 0) return;
+        const matched = words.filter(word => queryWords.has(word)).length;
+        score = matched === 0 ? 0 : matched / words.length + matched / 100;
+      }
+
+      if (score >= 0.5 && score > bestScore) {
+        bestScore = score;
+        best = { name, parent: String(row.$Parent || row.Parent || '') };
+      }
+    });
+
+    if (best) return best;
+
+    // The query carries words besides the name ("statement of शर्मा ट्रेडर्स"), so the
+    // ledger has to be named in full rather than cover the query
+    const matches = this.ledgerIndex.update(ledgers).search(query, 10, 0)
+      .filter(match => match.nameCoverage >= 0.75)
+      .sort((a, b) => b.nameCoverage - a.nameCoverage || b.score - a.score);
+    return matches.length > 0 ? matches[0].entry : null;
+  }
+
+  /**
+   * Opening balance, every voucher in the period and the running balance after each
+   */
+  async generateStatement(ledgerName: string, fromDate: Date, toDate: Date, parent: string = ''): Promise<LedgerStatement> {
+    const warnings: string[] = [];
+    const opening = await this.getOpeningBalance(ledgerName, fromDate, toDate);
+    if (opening.warning) warnings.push(opening.warning);
+
+    const vouchers = await this.xmlApiService.getLedgerVouchers(ledgerName, fromDate, toDate);
+
+    let balance = opening.balance;
+    let totalDebit = 0;
+    let totalCredit = 0;
+
+    const entries = vouchers
+      .map(voucher => ({ voucher, date: parseVoucherDate(voucher.voucherDate) || fromDate }))
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .map(({ voucher, date }) => {
+        const debit = voucher.amount > 0 ? voucher.amount : 0;
+        const credit = voucher.amount < 0 ? -voucher.amount : 0;
+        balance += voucher.amount;
+        totalDebit += debit;
+        totalCredit += credit;
+
+        return {
+          date,
+          voucherType: voucher.voucherType,
+          voucherNumber: voucher.voucherNumber,
+          particulars: voucher.partyName,
+          narration: voucher.narration,
+          debit,
+          credit,
+          balance
+        };
+      });
+
+    console.log(`📒 Ledger statement ${ledgerName}: ${entries.length} vouchers, closing ₹${balance.toFixed(2)}`);
+
+    return {
+      ledgerName,
+      parent: parent || opening.parent,
+      fromDate,
+      toDate,
+      openingBalance: opening.balance,
+      entries,
+      totalDebit,
+      totalCredit,
+      closingBalance: balance,
+      warnings
+    };
+  }
+
+  /**
+   * Balance on the morning of fromDate: the FY opening, or the FY-to-date closing up to the day before
+   */
+  private async getOpeningBalance(
+    ledgerName: string,
+    fromDate: Date,
+    toDate: Date
+  ): Promise<{ balance: number; parent: string; warning?: string }> {
+    const fyStart = getFinancialYearStart(fromDate);
+    const isFYStart = fromDate.getTime() <= fyStart.getTime();
+    const findLedger = (ledgers: { name: string; parent: string; openingBalance: number; closingBalance: number }[]) =>
+      ledgers.find(ledger => ledger.name.toLowerCase() === ledgerName.toLowerCase());
+
+    try {
+      if (isFYStart) {
+        const ledger = findLedger(await this.xmlApiService.getLedgerBalances(fyStart, toDate));
+        if (ledger) return { balance: ledger.openingBalance, parent: ledger.parent };
+      } else {
+        const dayBeforeFrom = new Date(fromDate);
+        dayBeforeFrom.setDate(dayBeforeFrom.getDate() - 1);
+        const ledger = findLedger(await this.xmlApiService.getLedgerBalances(fyStart, dayBeforeFrom));
+        if (ledger) return { balance: ledger.closingBalance, parent: ledger.parent };
+      }
+    } catch (error) {
+      console.log('⚠️ XML opening balance unavailable, using ODBC opening balance:', error);
+    }
+
+    const result = await this.dataSource.executeQuery(
+      `SELECT $Name, $Parent, $OpeningBalance FROM Ledger WHERE $Name = '${ledgerName.replace(/'/g, "''")}'`
+    );
+    const row = result.success && result.data && result.data[0];
+    return {
+      balance: row ? parseTallyAmount(row.$OpeningBalance) : 0,
+      parent: row ? String(row.$Parent || '') : '',
+      warning: isFYStart ? undefined : 'Opening balance is the financial year opening - vouchers before the start date are not included'
+    };
+  }
+}
+
+function parseVoucherDate(value: string): Date | undefined {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : undefined;
+}
@@ -0,0 +1,564 @@
+/**
+ * Local Mirror Service
+ * Embedded SQLite copy of the Tally masters and vouchers, refreshed from the live data source,
+ * so chat, reports and WhatsApp replies keep working while Tally or the internet is down
+ */
+
+// better-sqlite3 is a native module; the app runs without the mirror if it failed to build
+let Database: any = null;
+try {
+  Database = require('better-sqlite3');
+} catch (error) {
+  console.warn('⚠️ SQLite module not available, local mirror disabled:', error instanceof Error ? error.message : String(error));
+}
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import {
+  TallyDataSource,
+  DataSourceCompany,
+  DataSourceLedger,
+  DataSourceGroup,
+  DataSourceStockItem,
+  DataSourceVoucher,
+  DataSourceBill
+} from './tally-data-source';
+import { getFinancialYearStart } from './profit-loss-service';
+import { tallyChangeTracker, companyCounter, TrackedCollection } from './tally-change-tracker';
+import { toClientId } from '../utils/client-context';
+import { odbcScheduler } from '../utils/odbc-scheduler';
+
+export type MirrorCollection = 'company' | 'ledgers' | 'groups' | 'stock_items' | 'vouchers' | 'outstanding_bills';
+
+export const MIRROR_COLLECTIONS: MirrorCollection[] = ['company', 'ledgers', 'groups', 'stock_items', 'vouchers', 'outstanding_bills'];
+
+export interface MirrorSyncResult {
+  success: boolean;
+  counts: { [collection: string]: number };
+  errors: string[];
+  durationMs: number;
+  syncedAt: Date;
+}
+
+export interface MirrorStatus {
+  available: boolean;
+  databasePath: string;
+  schemaVersion: number;
+  isSyncing: boolean;
+  autoSync: boolean;
+  lastSync?: Date;
+  nextSync?: Date;
+  counts: { [collection: string]: number };
+  errors?: string[];
+}
+
+interface MirrorMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Append-only: never edit a migration that has shipped, add a new one
+const MIRROR_MIGRATIONS: MirrorMigration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    sql: `
+      CREATE TABLE company (
+        name TEXT NOT NULL,
+        address TEXT,
+        state_name TEXT,
+        gstin TEXT,
+        books_from TEXT
+      );
+      CREATE TABLE ledgers (
+        name TEXT PRIMARY KEY COLLATE NOCASE,
+        parent TEXT NOT NULL DEFAULT '',
+        opening_balance REAL NOT NULL DEFAULT 0,
+        closing_balance REAL NOT NULL DEFAULT 0
+      );
+      CREATE INDEX idx_ledgers_parent ON ledgers(parent);
+      CREATE TABLE account_groups (
+        name TEXT PRIMARY KEY COLLATE NOCASE,
+        parent TEXT NOT NULL DEFAULT ''
+      );
+      CREATE TABLE stock_items (
+        name TEXT PRIMARY KEY COLLATE NOCASE,
+        parent TEXT NOT NULL DEFAULT '',
+        unit TEXT NOT NULL DEFAULT '',
+        opening_value REAL NOT NULL DEFAULT 0,
+        closing_quantity REAL NOT NULL DEFAULT 0,
+        closing_rate REAL NOT NULL DEFAULT 0,
+        closing_value REAL NOT NULL DEFAULT 0
+      );
+      CREATE TABLE vouchers (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        voucher_number TEXT NOT NULL DEFAULT '',
+        voucher_type TEXT NOT NULL DEFAULT '',
+        party_name TEXT NOT NULL DEFAULT '',
+        amount REAL NOT NULL DEFAULT 0,
+        reference TEXT,
+        narration TEXT
+      );
+      CREATE INDEX idx_vouchers_date ON vouchers(date);
+      CREATE INDEX idx_vouchers_party ON vouchers(party_name);
+      CREATE TABLE outstanding_bills (
+        party_name TEXT NOT NULL,
+        bill_reference TEXT NOT NULL,
+        bill_date TEXT,
+        due_date TEXT,
+        amount REAL NOT NULL DEFAULT 0
+      );
+      CREATE TABLE sync_state (
+        collection TEXT PRIMARY KEY,
+        last_synced_at TEXT NOT NULL,
+        row_count INTEGER NOT NULL DEFAULT 0,
+        period_from TEXT,
+        period_to TEXT
+      );
+    `
+  },
+  {
+    version: 2,
+    name: 'sync_change_tokens',
+    sql: `
+      ALTER TABLE sync_state ADD COLUMN change_token TEXT;
+    `
+  }
+];
+
+export class LocalMirrorService {
+  private db: any = null;
+  private dbPath: string | null;
+  private openFailed: boolean = false;
+  private syncInterval: NodeJS.Timeout | null = null;
+  private nextSync?: Date;
+  private isSyncing: boolean = false;
+  private lastErrors: string[] = [];
+  private companyName: string | null = null;
+
+  constructor(dbPath?: string) {
+    this.dbPath = dbPath || null;
+  }
+
+  private get databasePath(): string {
+    if (!this.dbPath) {
+      this.dbPath = path.join(app.getPath('userData'), 'tallykaro-mirror.db');
+    }
+    return this.dbPath;
+  }
+
+  /**
+   * Open the database on first use and bring the schema up to date
+   */
+  private getDatabase(): any {
+    if (this.db || this.openFailed) return this.db;
+    if (!Database) {
+      this.openFailed = true;
+      return null;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.databasePath), { recursive: true });
+      this.db = new Database(this.databasePath);
+      this.db.pragma('journal_mode = WAL');
+      this.runMigrations();
+      console.log(`💾 Local mirror opened at ${this.databasePath}`);
+    } catch (error) {
+      console.error('Failed to open local mirror:', error);
+      this.db = null;
+      this.openFailed = true;
+    }
+    return this.db;
+  }
+
+  private runMigrations(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const applied = new Set<number>(
+      this.db.prepare('SELECT version FROM schema_migrations').all().map((row: any) => row.version)
+    );
+
+    MIRROR_MIGRATIONS
+      .filter(migration => !applied.has(migration.version))
+      .sort((a, b) => a.version - b.version)
+      .forEach(migration => {
+        this.db.transaction(() => {
+          this.db.exec(migration.sql);
+          this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+            .run(migration.version, migration.name, new Date().toISOString());
+        })();
+        console.log(`💾 Local mirror migration ${migration.version} (${migration.name}) applied`);
+      });
+  }
+
+  /**
+   * Keep one database per Tally company, so switching companies never serves another company's books
+   */
+  useCompany(companyName: string): void {
+    const dbPath = path.join(app.getPath('userData'), `tallykaro-mirror-${toClientId(companyName)}.db`);
+    this.companyName = companyName;
+    if (this.dbPath === dbPath) return;
+
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    this.dbPath = dbPath;
+    this.openFailed = false;
+    console.log(`💾 Local mirror now follows ${companyName}`);
+  }
+
+  isAvailable(): boolean {
+    return this.getDatabase() !== null;
+  }
+
+  /**
+   * Copy every collection from the live source. Collections fail independently, so a
+   * voucher timeout still leaves fresh ledgers behind.
+   */
+  async syncFrom(source: TallyDataSource, period?: { from: Date; to: Date }): Promise<MirrorSyncResult> {
+    return odbcScheduler.withPriority('background', () => this.copyFrom(source, period));
+  }
+
+  private async copyFrom(source: TallyDataSource, period?: { from: Date; to: Date }): Promise<MirrorSyncResult> {
+    const startTime = Date.now();
+    const counts: { [collection: string]: number } = {};
+    const errors: string[] = [];
+
+    if (this.isSyncing) {
+      return { success: false, counts, errors: ['Mirror sync already in progress'], durationMs: 0, syncedAt: new Date() };
+    }
+    if (!this.isAvailable()) {
+      return { success: false, counts, errors: ['Local mirror is not available'], durationMs: 0, syncedAt: new Date() };
+    }
+    if (!source.isConnected()) {
+      return { success: false, counts, errors: [`Tally (${source.kind}) is not connected`], durationMs: 0, syncedAt: new Date() };
+    }
+
+    this.isSyncing = true;
+    const today = new Date();
+    // Two financial years, so "last year" comparisons work offline
+    const from = period?.from || getFinancialYearStart(new Date(today.getFullYear() - 1, today.getMonth(), today.getDate()));
+    const to = period?.to || today;
+
+    const steps: { collection: MirrorCollection; tracks: TrackedCollection['tracks']; load: () => Promise<number> }[] = [
+      { collection: 'company', tracks: 'masters', load: async () => this.replaceCompany(await source.getCompany()) },
+      { collection: 'ledgers', tracks: 'both', load: async () => this.replaceLedgers(await source.getLedgers()) },
+      { collection: 'groups', tracks: 'masters', load: async () => this.replaceGroups(await source.getGroups()) },
+      { collection: 'stock_items', tracks: 'both', load: async () => this.replaceStockItems(await source.getStockItems()) },
+      { collection: 'vouchers', tracks: 'vouchers', load: async () => this.replaceVouchers(await source.getVouchers(from, to)) },
+      { collection: 'outstanding_bills', tracks: 'both', load: async () => this.replaceBills(await source.getOutstandingBills(to)) }
+    ];
+
+    try {
+      console.log(`💾 Syncing local mirror from ${source.kind}...`);
+      // Collections whose company AlterID counter has not moved are left as they are
+      const marks = await tallyChangeTracker.getCompanyAlterIds(source);
+      // A consolidated report may have the connection on another company for a moment
+      if (marks && this.companyName && toClientId(marks.company) !== toClientId(this.companyName)) {
+        const message = `Tally is on ${marks.company}, the mirror holds ${this.companyName}`;
+        console.log(`💾 Skipping mirror sync: ${message}`);
+        return { success: false, counts, errors: [message], durationMs: Date.now() - startTime, syncedAt: new Date() };
+      }
+      for (const step of steps) {
+        try {
+          const changeToken = marks ? `${marks.company}|${companyCounter(step.tracks, marks)}` : null;
+          const unchangedCount = changeToken ? this.getUnchangedRowCount(step.collection, changeToken, from, to) : undefined;
+          if (unchangedCount !== undefined) {
+            counts[step.collection] = unchangedCount;
+            this.recordSync(step.collection, unchangedCount, from, to, changeToken);
+            continue;
+          }
+
+          counts[step.collection] = await step.load();
+          this.recordSync(step.collection, counts[step.collection], from, to, changeToken);
+        } catch (error) {
+          const message = `${step.collection}: ${error instanceof Error ? error.message : String(error)}`;
+          errors.push(message);
+          console.error(`❌ Mirror sync ${message}`);
+        }
+      }
+    } finally {
+      this.isSyncing = false;
+    }
+
+    this.lastErrors = errors;
+    const durationMs = Date.now() - startTime;
+    console.log(`💾 Local mirror sync finished in ${durationMs}ms: ${JSON.stringify(counts)}${errors.length ? `, ${errors.length} errors` : ''}`);
+
+    return { success: errors.length < steps.length, counts, errors, durationMs, syncedAt: new Date() };
+  }
+
+  /**
+   * Re-sync on an interval; the first run happens straight away
+   */
+  startAutoSync(source: TallyDataSource, intervalMinutes: number): void {
+    if (this.syncInterval) {
+      console.log('Local mirror auto-sync already running');
+      return;
+    }
+
+    const run = async () => {
+      this.nextSync = new Date(Date.now() + intervalMinutes * 60 * 1000);
+      if (source.isConnected()) {
+        await this.syncFrom(source);
+      }
+    };
+
+    run();
+    this.syncInterval = setInterval(run, intervalMinutes * 60 * 1000);
+    console.log(`Local mirror auto-sync every ${intervalMinutes} minutes`);
+  }
+
+  stopAutoSync(): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+      this.nextSync = undefined;
+      console.log('Local mirror auto-sync stopped');
+    }
+  }
+
+  /**
+   * When the collection (or, without one, the oldest collection) was last synced
+   */
+  getLastSync(collection?: MirrorCollection): Date | undefined {
+    const db = this.getDatabase();
+    if (!db) return undefined;
+
+    const row = collection
+      ? db.prepare('SELECT last_synced_at FROM sync_state WHERE collection = ?').get(collection)
+      : db.prepare('SELECT MIN(last_synced_at) AS last_synced_at FROM sync_state').get();
+    return row && row.last_synced_at ? new Date(row.last_synced_at) : undefined;
+  }
+
+  hasData(): boolean {
+    return this.getLastSync('ledgers') !== undefined;
+  }
+
+  getStatus(): MirrorStatus {
+    const db = this.getDatabase();
+    const counts: { [collection: string]: number } = {};
+    let schemaVersion = 0;
+
+    if (db) {
+      db.prepare('SELECT collection, row_count FROM sync_state').all()
+        .forEach((row: any) => { counts[row.collection] = row.row_count; });
+      schemaVersion = db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get()?.version || 0;
+    }
+
+    return {
+      available: db !== null,
+      databasePath: this.databasePath,
+      schemaVersion,
+      isSyncing: this.isSyncing,
+      autoSync: this.syncInterval !== null,
+      lastSync: this.getLastSync(),
+      nextSync: this.nextSync,
+      counts,
+      errors: this.lastErrors.length > 0 ? this.lastErrors : undefined
+    };
+  }
+
+  close(): void {
+    this.stopAutoSync();
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  // ==================== READS ====================
+
+  getCompany(): DataSourceCompany | null {
+    const row = this.requireDatabase().prepare('SELECT * FROM company LIMIT 1').get();
+    if (!row) return null;
+    return {
+      name: row.name,
+      address: row.address || undefined,
+      stateName: row.state_name || undefined,
+      gstin: row.gstin || undefined,
+      booksFrom: fromISODate(row.books_from)
+    };
+  }
+
+  getLedgers(): DataSourceLedger[] {
+    return this.requireDatabase().prepare('SELECT * FROM ledgers ORDER BY name').all().map((row: any) => ({
+      name: row.name,
+      parent: row.parent,
+      openingBalance: row.opening_balance,
+      closingBalance: row.closing_balance
+    }));
+  }
+
+  getGroups(): DataSourceGroup[] {
+    return this.requireDatabase().prepare('SELECT * FROM account_groups ORDER BY name').all().map((row: any) => ({
+      name: row.name,
+      parent: row.parent
+    }));
+  }
+
+  getStockItems(): DataSourceStockItem[] {
+    return this.requireDatabase().prepare('SELECT * FROM stock_items ORDER BY name').all().map((row: any) => ({
+      name: row.name,
+      parent: row.parent,
+      unit: row.unit,
+      openingValue: row.opening_value,
+      closingQuantity: row.closing_quantity,
+      closingRate: row.closing_rate,
+      closingValue: row.closing_value
+    }));
+  }
+
+  getVouchers(fromDate: Date, toDate: Date, voucherType?: string): DataSourceVoucher[] {
+    const params: any[] = [toISODate(fromDate), toISODate(toDate)];
+    let sql = 'SELECT * FROM vouchers WHERE date BETWEEN ? AND ?';
+    if (voucherType) {
+      sql += ' AND voucher_type LIKE ?';
+      params.push(`%${voucherType}%`);
+    }
+
+    return this.requireDatabase().prepare(`${sql} ORDER BY date, id`).all(...params).map((row: any) => ({
+      date: fromISODate(row.date) as Date,
+      voucherNumber: row.voucher_number,
+      voucherType: row.voucher_type,
+      partyName: row.party_name,
+      amount: row.amount,
+      reference: row.reference || undefined,
+      narration: row.narration || undefined
+    }));
+  }
+
+  getOutstandingBills(): DataSourceBill[] {
+    return this.requireDatabase().prepare('SELECT * FROM outstanding_bills').all().map((row: any) => ({
+      partyName: row.party_name,
+      billReference: row.bill_reference,
+      billDate: fromISODate(row.bill_date),
+      dueDate: fromISODate(row.due_date),
+      amount: row.amount
+    }));
+  }
+
+  private requireDatabase(): any {
+    const db = this.getDatabase();
+    if (!db) throw new Error('Local mirror is not available');
+    return db;
+  }
+
+  // ==================== WRITES ====================
+
+  private replaceCompany(company: DataSourceCompany | null): number {
+    const db = this.requireDatabase();
+    db.transaction(() => {
+      db.prepare('DELETE FROM company').run();
+      if (company) {
+        db.prepare('INSERT INTO company (name, address, state_name, gstin, books_from) VALUES (?, ?, ?, ?, ?)')
+          .run(company.name, company.address || null, company.stateName || null, company.gstin || null, toISODate(company.booksFrom));
+      }
+    })();
+    return company ? 1 : 0;
+  }
+
+  private replaceLedgers(ledgers: DataSourceLedger[]): number {
+    return this.replaceRows(
+      'ledgers',
+      'INSERT OR REPLACE INTO ledgers (name, parent, opening_balance, closing_balance) VALUES (?, ?, ?, ?)',
+      ledgers.filter(ledger => ledger.name).map(ledger => [ledger.name, ledger.parent, ledger.openingBalance, ledger.closingBalance])
+    );
+  }
+
+  private replaceGroups(groups: DataSourceGroup[]): number {
+    return this.replaceRows(
+      'account_groups',
+      'INSERT OR REPLACE INTO account_groups (name, parent) VALUES (?, ?)',
+      groups.filter(group => group.name).map(group => [group.name, group.parent])
+    );
+  }
+
+  private replaceStockItems(items: DataSourceStockItem[]): number {
+    return this.replaceRows(
+      'stock_items',
+      `INSERT OR REPLACE INTO stock_items (name, parent, unit, opening_value, closing_quantity, closing_rate, closing_value)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      items.filter(item => item.name).map(item => [
+        item.name, item.parent, item.unit, item.openingValue, item.closingQuantity, item.closingRate, item.closingValue
+      ])
+    );
+  }
+
+  private replaceVouchers(vouchers: DataSourceVoucher[]): number {
+    return this.replaceRows(
+      'vouchers',
+      `INSERT INTO vouchers (date, voucher_number, voucher_type, party_name, amount, reference, narration)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      vouchers.map(voucher => [
+        toISODate(voucher.date), voucher.voucherNumber, voucher.voucherType, voucher.partyName,
+        voucher.amount, voucher.reference || null, voucher.narration || null
+      ])
+    );
+  }
+
+  private replaceBills(bills: DataSourceBill[]): number {
+    return this.replaceRows(
+      'outstanding_bills',
+      'INSERT INTO outstanding_bills (party_name, bill_reference, bill_date, due_date, amount) VALUES (?, ?, ?, ?, ?)',
+      bills.map(bill => [bill.partyName, bill.billReference, toISODate(bill.billDate), toISODate(bill.dueDate), bill.amount])
+    );
+  }
+
+  /**
+   * Swap a table's contents in one transaction, so readers never see a half-written table
+   */
+  private replaceRows(table: string, insertSql: string, rows: any[][]): number {
+    const db = this.requireDatabase();
+    const insert = db.prepare(insertSql);
+    db.transaction(() => {
+      db.prepare(`DELETE FROM ${table}`).run();
+      rows.forEach(row => insert.run(...row));
+    })();
+    return rows.length;
+  }
+
+  private recordSync(collection: MirrorCollection, rowCount: number, from: Date, to: Date, changeToken: string | null): void {
+    this.requireDatabase().prepare(`
+      INSERT OR REPLACE INTO sync_state (collection, last_synced_at, row_count, period_from, period_to, change_token)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(collection, new Date().toISOString(), rowCount, toISODate(from), toISODate(to), changeToken);
+  }
+
+  /**
+   * Row count of a collection last synced at the same company counter and period
+   */
+  private getUnchangedRowCount(collection: MirrorCollection, changeToken: string, from: Date, to: Date): number | undefined {
+    const row = this.requireDatabase()
+      .prepare('SELECT row_count, period_from, period_to, change_token FROM sync_state WHERE collection = ?')
+      .get(collection);
+    if (!row || row.change_token !== changeToken) return undefined;
+    if (row.period_from !== toISODate(from) || row.period_to !== toISODate(to)) return undefined;
+    return row.row_count;
+  }
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD (sorts and compares correctly as text)
+ */
+function toISODate(date?: Date): string | null {
+  if (!date || isNaN(date.getTime())) return null;
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function fromISODate(value?: string | null): Date | undefined {
+  const match = (value || '').match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : undefined;
+}
@@ -0,0 +1,108 @@
+/**
+ * Mirror Data Source
+ * Serves reads from the local SQLite mirror while it is fresh (or whenever Tally is
+ * unreachable) and from the live data source otherwise
+ */
+
+import { TallyQueryResult } from './tally-services';
+import {
+  TallyDataSource,
+  TableDataSource,
+  DataSourceKind,
+  DataSourceCompany,
+  DataSourceLedger,
+  DataSourceGroup,
+  DataSourceStockItem,
+  DataSourceVoucher,
+  DataSourceBill
+} from './tally-data-source';
+import { LocalMirrorService } from './local-mirror-service';
+import { getFinancialYearStart } from './profit-loss-service';
+
+export class MirrorDataSource extends TableDataSource {
+  readonly kind: DataSourceKind;
+  private live: TallyDataSource;
+  private mirror: LocalMirrorService;
+  private maxAgeMinutes: number;
+
+  constructor(live: TallyDataSource, mirror: LocalMirrorService, maxAgeMinutes: number = 30) {
+    super();
+    this.kind = live.kind;
+    this.live = live;
+    this.mirror = mirror;
+    this.maxAgeMinutes = maxAgeMinutes;
+  }
+
+  getLiveSource(): TallyDataSource {
+    return this.live;
+  }
+
+  isConnected(): boolean {
+    return this.live.isConnected() || this.mirror.hasData();
+  }
+
+  /**
+   * True when answers come from the mirror because Tally cannot be reached
+   */
+  isOffline(): boolean {
+    return !this.live.isConnected() && this.mirror.hasData();
+  }
+
+  getLastSync(): Date | undefined {
+    return this.mirror.getLastSync();
+  }
+
+  /**
+   * Mirror-first SQL; anything the in-memory SELECT cannot answer goes to Tally when it is up
+   */
+  async executeQuery(sql: string): Promise<TallyQueryResult> {
+    if (!this.useMirror()) {
+      return this.live.executeQuery(sql);
+    }
+
+    const result = await super.executeQuery(sql);
+    if (result.success || !this.live.isConnected()) {
+      return result;
+    }
+
+    console.log(`💾 Mirror could not answer (${result.error}), querying Tally`);
+    return this.live.executeQuery(sql);
+  }
+
+  async getCompany(): Promise<DataSourceCompany | null> {
+    return this.useMirror() ? this.mirror.getCompany() : this.live.getCompany();
+  }
+
+  async getLedgers(): Promise<DataSourceLedger[]> {
+    return this.useMirror() ? this.mirror.getLedgers() : this.live.getLedgers();
+  }
+
+  async getGroups(): Promise<DataSourceGroup[]> {
+    return this.useMirror() ? this.mirror.getGroups() : this.live.getGroups();
+  }
+
+  async getStockItems(): Promise<DataSourceStockItem[]> {
+    return this.useMirror() ? this.mirror.getStockItems() : this.live.getStockItems();
+  }
+
+  async getVouchers(fromDate: Date, toDate: Date, voucherType?: string): Promise<DataSourceVoucher[]> {
+    return this.useMirror() ? this.mirror.getVouchers(fromDate, toDate, voucherType) : this.live.getVouchers(fromDate, toDate, voucherType);
+  }
+
+  async getOutstandingBills(asAt: Date): Promise<DataSourceBill[]> {
+    return this.useMirror() ? this.mirror.getOutstandingBills() : this.live.getOutstandingBills(asAt);
+  }
+
+  protected async getDefaultPeriod(): Promise<{ from: Date; to: Date }> {
+    const today = new Date();
+    return { from: getFinancialYearStart(today), to: today };
+  }
+
+  private useMirror(): boolean {
+    if (!this.mirror.isAvailable() || !this.mirror.hasData()) return false;
+    if (!this.live.isConnected()) return true;
+
+    const lastSync = this.mirror.getLastSync();
+    return !!lastSync && Date.now() - lastSync.getTime() <= this.maxAgeMinutes * 60 * 1000;
+  }
+}
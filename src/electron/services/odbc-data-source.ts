@@ -0,0 +1,25 @@
+/**
+ * ODBC Data Source
+ * Reads the books over the direct Tally ODBC connection held by TallyService
+ */
+
+import { TallyService, TallyQueryResult } from './tally-services';
+import { SqlDataSource, DataSourceKind } from './tally-data-source';
+
+export class OdbcDataSource extends SqlDataSource {
+  readonly kind: DataSourceKind = 'odbc';
+  private tallyService: TallyService;
+
+  constructor(tallyService: TallyService) {
+    super();
+    this.tallyService = tallyService;
+  }
+
+  isConnected(): boolean {
+    return this.tallyService.isConnected();
+  }
+
+  async executeQuery(sql: string): Promise<TallyQueryResult> {
+    return this.tallyService.executeQuery(sql);
+  }
+}
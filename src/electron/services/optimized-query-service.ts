@@ -2,12 +2,18 @@ import { SupabaseService, LedgerRecord, CompanyRecord } from './supabase-service
 import { S3Service } from './s3-service';
 import { clientPreferences } from './client-preferences';
 import { conversationService } from './conversation-service';
-import { OpenAIService } from '../utils/ai/openai';
-import { GeminiService } from '../utils/ai/gemini';
+import { llmGateway, LLMGateway } from '../utils/ai/llm-gateway';
 import { tallyKnowledgeBase, TallyQuery } from '../utils/ai/tally-knowledge-base';
 import { ComprehensiveQueryHandler } from './comprehensive-query-handler';
-import { PDFService } from './pdf-service';
 import { SalesPurchaseQueryService } from './sales-purchase-query-service';
+import { intentRouter, LegacyQueryType } from './intent-router';
+import { queryResultCache } from './query-result-cache';
+import { TallyDataSource } from './tally-data-source';
+import { TallyAgent, AgentResult, isMultiStepQuery } from './tally-agent';
+import { TallySqlGenerator } from './tally-sql-generator';
+import { TallyService, TallyQueryResult } from './tally-services';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { verifyAnswer, formatVerificationNote, describeAggregation, AnswerComputation, FigureCheck } from '../utils/ai/answer-verification';
 
 export interface QueryRequest {
   query: string;
@@ -24,60 +30,50 @@ export interface QueryResponse {
   executionTime: number;
   cacheHit: boolean;
   suggestions?: string[];
+  computation?: AnswerComputation; // How an AI answer was computed, with its figures checked against the data
 }
 
 export class OptimizedQueryService {
   private supabase: SupabaseService | null = null;
   private s3Service: S3Service;
-  private openaiService: OpenAIService | null = null;
-  private geminiService: GeminiService | null = null;
-  private tallyService: any; // TallyService instance
+  private llm: LLMGateway;
+  private tallyService: TallyService | undefined;
   private comprehensiveHandler: ComprehensiveQueryHandler | null = null;
   private salesPurchaseService: SalesPurchaseQueryService | null = null;
+  private agent: TallyAgent | null = null;
+  private sqlGenerator: TallySqlGenerator | null = null;
 
-  constructor(tallyService?: any) {
+  // Pass a gateway in fixture replay mode to run the AI path without network
+  constructor(tallyService?: TallyService, llm: LLMGateway = llmGateway) {
     // Don't create SupabaseService in constructor to avoid env var errors
     this.s3Service = new S3Service();
     this.tallyService = tallyService; // Store the connected instance
+    this.llm = llm;
+    if (tallyService) {
+      this.sqlGenerator = new TallySqlGenerator(tallyService, llm);
+    }
 
     // Initialize AI services
     this.initializeAIServices();
+  }
 
-    // Initialize comprehensive query handler
-    if (tallyService) {
-      try {
-        const pdfService = new PDFService();
-        this.comprehensiveHandler = new ComprehensiveQueryHandler(tallyService, pdfService);
-        console.log('✅ Comprehensive query handler initialized');
-      } catch (error) {
-        console.log('⚠️ Comprehensive query handler initialization failed:', error);
-      }
-    }
+  /**
+   * Answer from the configured data source (ODBC, XML or the local mirror): the agent reads it,
+   * and reports go through the app's comprehensive handler, so WhatsApp and cloud queries get
+   * the same company context, bank reconciliation and reminders as the desktop chat.
+   * xmlApiService is the app's client addressed to the active company.
+   */
+  setDataSource(dataSource: TallyDataSource, comprehensiveHandler: ComprehensiveQueryHandler, xmlApiService: TallyXMLAPIService): void {
+    this.agent = new TallyAgent(dataSource, this.llm, xmlApiService);
+    this.comprehensiveHandler = comprehensiveHandler;
   }
 
   private initializeAIServices() {
-    // Try OpenAI first
-    try {
-      if (process.env.OPENAI_API_KEY) {
-        this.openaiService = new OpenAIService();
-        console.log('🤖 OpenAI service enabled for query understanding');
-      }
-    } catch (error) {
-      console.log('⚠️ OpenAI service initialization failed');
-    }
-
-    // Try Gemini
-    try {
-      if (process.env.GOOGLE_AI_API_KEY) {
-        this.geminiService = new GeminiService();
-        console.log('🤖 Gemini service enabled for query understanding');
-      }
-    } catch (error) {
-      console.log('⚠️ Gemini service initialization failed');
-    }
-
-    if (!this.openaiService && !this.geminiService) {
-      console.log('💡 AI services disabled - set OPENAI_API_KEY or GOOGLE_AI_API_KEY to enable intelligent query processing');
+    const providers = this.llm.getAvailableProviders();
+    if (providers.length > 0) {
+      console.log(`🤖 AI query understanding via ${providers.join(' → ')}`);
+    } else {
+      console.log('💡 AI services disabled - set OPENAI_API_KEY, GOOGLE_AI_API_KEY, AWS_BEARER_TOKEN_BEDROCK or LOCAL_LLM_BASE_URL to enable intelligent query processing');
     }
   }
 
@@ -131,6 +127,16 @@ export class OptimizedQueryService {
         };
       }
 
+      // Comparisons need several reports; the agent chains them before the single-period sales handlers see the query
+      if (this.agent?.isAvailable() && isMultiStepQuery(processedRequest.query)) {
+        console.log('🕵️ Multi-step question, routing to the Tally agent...');
+        const agentResult = await this.processWithAI(processedRequest);
+        if (agentResult) {
+          agentResult.executionTime = Date.now() - startTime;
+          return agentResult;
+        }
+      }
+
       // Check for sales/purchase queries FIRST (before cache)
       const queryLower = processedRequest.query.toLowerCase();
 
@@ -250,15 +256,19 @@ export class OptimizedQueryService {
         }
       }
 
-      // Check cache first
-      const supabase = this.getSupabaseService();
-      const cachedResult = await supabase.getCachedQuery(processedRequest.clientId, processedRequest.query);
-      if (cachedResult) {
+      // Check cache first: served only while Tally has not changed since the answer was computed
+      const cacheLookup = await queryResultCache.lookup<{ data: any; response: string }>(
+        'chat',
+        processedRequest.clientId,
+        intentRouter.classify(processedRequest.query),
+        this.tallyService
+      );
+      if (cacheLookup.hit) {
         return {
           success: true,
           type: 'cached',
-          data: cachedResult.data,
-          response: cachedResult.response,
+          data: cacheLookup.value!.data,
+          response: cacheLookup.value!.response,
           executionTime: Date.now() - startTime,
           cacheHit: true
         };
@@ -278,7 +288,10 @@ export class OptimizedQueryService {
       if (this.comprehensiveHandler) {
         try {
           console.log('🔄 Using comprehensive query handler for enhanced processing...');
-          const comprehensiveResult = await this.comprehensiveHandler.processQuery(processedRequest.query);
+          const comprehensiveResult = await this.comprehensiveHandler.processQuery(
+            processedRequest.query,
+            processedRequest.whatsappNumber || processedRequest.clientId
+          );
 
           if (comprehensiveResult.success) {
             // Convert to our response format
@@ -291,13 +304,9 @@ export class OptimizedQueryService {
               cacheHit: false
             };
 
-            // Cache and return enhanced result
-            if (!result.cacheHit) {
-              await supabase.cacheQuery(
-                processedRequest.clientId,
-                processedRequest.query,
-                { data: result.data, response: result.response }
-              );
+            // Cache and return enhanced result (a clarifying question depends on the reply that follows)
+            if (!result.cacheHit && !comprehensiveResult.needsClarification) {
+              queryResultCache.store(cacheLookup, { data: result.data, response: result.response });
             }
 
             await this.recordQueryAnalytics(processedRequest, result, startTime);
@@ -335,11 +344,7 @@ export class OptimizedQueryService {
 
       // Cache successful results
       if (result.success && !result.cacheHit) {
-        await supabase.cacheQuery(
-          processedRequest.clientId, 
-          processedRequest.query, 
-          { data: result.data, response: result.response }
-        );
+        queryResultCache.store(cacheLookup, { data: result.data, response: result.response });
       }
 
       // Record analytics
@@ -561,7 +566,7 @@ export class OptimizedQueryService {
               type: 'analytical',
               data: salesData,
               response,
-              executionTime: odbcResult.executionTime,
+              executionTime: odbcResult.executionTime || 0,
               cacheHit: false
             };
           }
@@ -969,434 +974,11 @@ export class OptimizedQueryService {
 
 
   /**
-   * Analyze query type based on fuzzy keyword matching and intent detection
-   */
-  private analyzeQueryType(query: string): 'company' | 'analytical' | 'ledger' | 'inventory' | 'reminders' | 'general' {
-    const q = this.correctSpelling(query.toLowerCase().trim());
-    
-    console.log(`🔍 Analyzing query type for: "${query}" -> normalized: "${q}"`);
-
-    // Enhanced fuzzy matching with intent scoring
-    const intentScores = {
-      general: this.calculateGeneralScore(q),
-      inventory: this.calculateInventoryScore(q), 
-      company: this.calculateCompanyScore(q),
-      analytical: this.calculateAnalyticalScore(q),
-      ledger: this.calculateLedgerScore(q),
-      reminders: this.calculateReminderScore(q)
-    };
-
-    console.log('🎯 Intent scores:', intentScores);
-
-    // Find highest scoring intent
-    const topIntent = Object.entries(intentScores)
-      .sort(([,a], [,b]) => b - a)[0];
-
-    const [detectedType, score] = topIntent as [string, number];
-    
-    // Only use high-confidence classifications
-    if (score > 0.3) {
-      console.log(`✅ Detected as: ${detectedType} (confidence: ${score.toFixed(2)})`);
-      return detectedType as 'company' | 'analytical' | 'ledger' | 'inventory' | 'reminders' | 'general';
-    }
-
-    // Fallback to exact keyword matching for backward compatibility
-    console.log('🔄 Using fallback exact keyword matching');
-    return this.analyzeQueryTypeExact(q);
-  }
-
-  /**
-   * Calculate intent scores for fuzzy matching
-   */
-  private calculateGeneralScore(q: string): number {
-    const generalKeywords = ['list all', 'show all', 'all ledger', 'sare accounts', 'sabhi accounts', 
-                           'list', 'accounts', 'ledgers', 'quick access', 'recent', 'shortcuts'];
-    return this.calculateKeywordScore(q, generalKeywords);
-  }
-
-  private calculateInventoryScore(q: string): number {
-    // Check if it's a cash/balance query first - these should NOT be inventory
-    if (q.includes('cash') || q.includes('balance') || q.includes('bank') || 
-        (q.includes('kitna') && (q.includes('cash') || q.includes('paisa') || q.includes('balance')))) {
-      return 0; // Force zero score for cash/balance queries
-    }
-    
-    const inventoryKeywords = ['stock', 'inventory', 'item', 'items', 'pipe', 'pipes', 'product', 'products',
-                              'how many items', 'kitne items', 'quantity', 'lowest stock', 'sabse kam stock',
-                              'highest stock', 'sabse zyada stock', 'stock looking', 'stock status',
-                              'out of stock', 'stock khatam', 'reorder', 'minimum stock', 'maal', 'samaan',
-                              'saman', 'goods', 'material', 'chij', 'cheez', 'current stock', 'stock summary',
-                              'closing stock', 'inventory value', 'stock ageing', 'how much stock'];
-    return this.calculateKeywordScore(q, inventoryKeywords);
-  }
-
-  private calculateCompanyScore(q: string): number {
-    const companyKeywords = ['company details', 'company info', 'company name', 'show company', 
-                            'my company', 'company address', 'company phone', 'company email',
-                            'show details', 'company', 'my details', 'details', 'address', 'my address', 'mera address'];
-    
-    let score = this.calculateKeywordScore(q, companyKeywords);
-    
-    // Exact matches get higher scores
-    if (q === 'details' || q === 'show details' || q === 'company') score += 0.3;
-    
-    // Penalize if contains company names (likely ledger query)
-    if (this.containsCompanyName(q)) score -= 0.4;
-    
-    return Math.max(0, score);
-  }
-
-  /**
-   * Correct common spelling mistakes in queries
-   */
-  private correctSpelling(query: string): string {
-    const corrections: { [key: string]: string } = {
-      // Sales variations
-      'slaes': 'sales',
-      'sale': 'sales',
-      'seles': 'sales',
-      'saels': 'sales',
-      
-      // Balance variations
-      'balence': 'balance',
-      'ballance': 'balance',
-      'balanc': 'balance',
-      
-      // Month variations
-      'mont': 'month',
-      'monht': 'month',
-      'mounth': 'month',
-      
-      // Company variations
-      'compny': 'company',
-      'compani': 'company',
-      'comapny': 'company',
-      
-      // Ledger variations
-      'ledgor': 'ledger',
-      'legers': 'ledger',
-      'leder': 'ledger',
-      
-      // Bank variations
-      'bnk': 'bank',
-      'banck': 'bank',
-      
-      // Common typos
-      'wat': 'what',
-      'wht': 'what',
-      'whta': 'what',
-      'teh': 'the',
-      'hte': 'the'
-    };
-
-    let corrected = query;
-    
-    // Apply word-level corrections
-    for (const [typo, correction] of Object.entries(corrections)) {
-      // Replace whole words only (with word boundaries)
-      const regex = new RegExp(`\\b${typo}\\b`, 'gi');
-      corrected = corrected.replace(regex, correction);
-    }
-    
-    // Log if corrections were made
-    if (corrected !== query) {
-      console.log(`🔤 Spell correction: "${query}" → "${corrected}"`);
-    }
-    
-    return corrected;
-  }
-
-  private calculateAnalyticalScore(q: string): number {
-    const analyticalKeywords = ['highest', 'lowest', 'sabse zyada', 'sabse kam', 'maximum', 'minimum', 
-                               'top', 'which has', 'sabse bada', 'sabse chota', 'biggest', 'smallest',
-                               'which company has', 'kiska hai', 'kon sa', 'kaun sa',
-                               // Sales & Revenue terms
-                               'sales', 'revenue', 'turnover', 'income', 'profit', 'loss', 'p&l', 'pl',
-                               'today sales', 'this month sales', 'monthly sales', 'total sales', 
-                               'sales analysis', 'business performance', 'today\'s sales', 'last week\'s sales',
-                               'this quarter', 'yearly sales', 'sales trend', 'sales invoice', 'sales summary',
-                               // Purchase terms
-                               'purchase', 'purchases', 'today\'s purchases', 'monthly purchases', 'purchase summary',
-                               'purchase invoices', 'purchase bills', 'biggest purchase', 'vendor', 'supplier',
-                               // Outstanding & Receivables
-                               'outstanding', 'receivables', 'payables', 'due', 'overdue', 'pending bills',
-                               'pending invoices', 'who has not paid', 'pending', 'outstanding amount',
-                               // Cash & Bank
-                               'cash in hand', 'bank balance', 'cash balance', 'bank transactions', 'cash book',
-                               'bank book', 'total cash balance',
-                               // Reports & Statements
-                               'trial balance', 'balance sheet', 'gst report', 'vat return', 'expense summary',
-                               'profit margin', 'day book', 'cash flow', 'invoice report', 'bill summary',
-                               // Hindi/Hinglish terms
-                               'bikri', 'kamai', 'munafa', 'nuksan', 'aaj ki sales', 'is month ki sales', 
-                               'total bikri', 'khareed', 'kharidari', 'udhaar', 'bachaat', 'jama', 'naqad',
-                               // General balance queries (ALL accounts, not specific)
-                               'closing balance kitna hai', 'balane kitna hai', 'balance dikhao', 'all balance'];
-    
-    let score = this.calculateKeywordScore(q, analyticalKeywords);
-    
-    // BOOST for general balance queries that don't specify account names (with typo tolerance)
-    const isGeneralBalanceQuery = (
-      q.includes('balane kitna hai') || q.includes('balance kitna hai') ||
-      q.includes('balace kitna h') || q.includes('balance kitna h') ||
-      q.includes('closing balance') || q.includes('closing balace') ||
-      (q.includes('kitna h') && (q.includes('balance') || q.includes('balace') || q.includes('balane')))
-    ) && !this.containsCompanyName(q) && !this.containsSpecificAccount(q);
-    
-    if (isGeneralBalanceQuery) {
-      score += 0.8; // Very high boost for general balance queries
-    }
-    
-    // Boost sales-related queries
-    if (q.includes('sales') || q.includes('bikri')) score += 0.2;
-    if (q.includes('month') && (q.includes('sales') || q.includes('bikri'))) score += 0.1;
-    
-    return score;
-  }
-
-  private calculateLedgerScore(q: string): number {
-    // Ledger queries are typically specific account names or searches
-    let score = 0;
-    
-    // REDUCE score for general balance queries (should go to analytical)
-    const isGeneralBalanceQuery = (
-      q.includes('balane kitna hai') || q.includes('balance kitna hai') ||
-      q.includes('balace kitna h') || q.includes('balance kitna h') ||
-      q.includes('closing balance') || q.includes('closing balace') ||
-      (q.includes('kitna h') && (q.includes('balance') || q.includes('balace') || q.includes('balane')))
-    ) && !this.containsCompanyName(q) && !this.containsSpecificAccount(q);
-    
-    if (isGeneralBalanceQuery) {
-      score -= 0.5; // Strong negative score to prefer analytical
-    }
-    
-    // High priority for cash/balance queries (Hindi/Hinglish)
-    if ((q.includes('cash') && (q.includes('kitna') || q.includes('balance'))) ||
-        (q.includes('paisa') && q.includes('kitna')) ||
-        (q.includes('mere paas') && q.includes('kitna')) ||
-        q.includes('cash balance') || q.includes('bank balance')) {
-      score += 0.8; // Very high score for cash balance queries
-    }
-    
-    // Check if contains potential company/account names
-    if (this.containsCompanyName(q)) score += 0.3;
-    
-    // Check for ledger-specific terms
-    const ledgerKeywords = ['balance of', 'account', 'ledger', 'customer', 'supplier', 'party', 
-                           'cash hai', 'balance hai', 'kitna hai'];
-    score += this.calculateKeywordScore(q, ledgerKeywords);
-    
-    // If it's a short query with no analytical keywords, likely a ledger search
-    if (q.length > 3 && q.length < 30 && !q.includes('sales') && !q.includes('highest') && !q.includes('company')) {
-      score += 0.2;
-    }
-    
-    return score;
-  }
-
-  private calculateReminderScore(q: string): number {
-    const reminderKeywords = ['remind me', 'reminder', 'set reminder', 'reminders', 
-                             'today\'s reminders', 'pending tasks', 'to-do', 'task', 'tasks',
-                             'due bills', 'yaad dilana', 'reminder set kar', 'collect payment',
-                             'bank transfer', 'follow-up', 'follow up'];
-    return this.calculateKeywordScore(q, reminderKeywords);
-  }
-
-  /**
-   * Calculate keyword matching score with fuzzy logic
-   */
-  private calculateKeywordScore(query: string, keywords: string[]): number {
-    let totalScore = 0;
-    
-    for (const keyword of keywords) {
-      if (query.includes(keyword)) {
-        // Exact match gets full points
-        totalScore += 1.0;
-      } else {
-        // Check for partial/fuzzy matches
-        const words = keyword.split(' ');
-        let partialMatches = 0;
-        
-        for (const word of words) {
-          if (query.includes(word)) partialMatches++;
-        }
-        
-        // Partial match gets proportional points
-        if (partialMatches > 0) {
-          totalScore += (partialMatches / words.length) * 0.5;
-        }
-      }
-    }
-    
-    // Normalize score by number of keywords
-    return totalScore / keywords.length;
-  }
-
-  /**
-   * Fallback exact keyword matching (original logic)
-   */
-  private analyzeQueryTypeExact(q: string): 'company' | 'analytical' | 'ledger' | 'inventory' | 'reminders' | 'general' {
-    // General list queries (should be handled first)
-    if (q.includes('list all') || q.includes('show all') || q.includes('all ledger') || 
-        q.includes('sare accounts') || q.includes('sabhi accounts') || 
-        q === 'list' || q === 'accounts' || q === 'ledgers' ||
-        q.includes('quick access') || q.includes('recent') || q.includes('shortcuts')) {
-      return 'general';
-    }
-
-    // Inventory/Stock queries - comprehensive category for stock management
-    if (q.includes('stock') || q.includes('inventory') || q.includes('item') || q.includes('items') ||
-        q.includes('pipe') || q.includes('pipes') || q.includes('product') || q.includes('products') ||
-        q.includes('how many') || q.includes('kitne') || q.includes('kitna') || q.includes('quantity') ||
-        q.includes('lowest stock') || q.includes('sabse kam stock') ||
-        q.includes('highest stock') || q.includes('sabse zyada stock') ||
-        q.includes('stock looking') || q.includes('stock status') ||
-        q.includes('out of stock') || q.includes('stock khatam') ||
-        q.includes('reorder') || q.includes('minimum stock') ||
-        q.includes('maal') || q.includes('samaan') || q.includes('saman') ||
-        q.includes('goods') || q.includes('material') || q.includes('chij') || q.includes('cheez') ||
-        q.includes('current stock') || q.includes('stock summary') || q.includes('closing stock') ||
-        q.includes('inventory value') || q.includes('stock ageing') || q.includes('how much stock')) {
-      console.log('✅ Detected as: inventory');
-      return 'inventory';
-    }
-
-    // Reminder/To-do queries 
-    if (q.includes('remind me') || q.includes('reminder') || q.includes('set reminder') ||
-        q.includes('reminders') || q.includes('today\'s reminders') || q.includes('pending tasks') ||
-        q.includes('to-do') || q.includes('task') || q.includes('due bills') || 
-        q.includes('yaad dilana') || q.includes('reminder set kar') || 
-        q.includes('collect payment') || q.includes('bank transfer')) {
-      console.log('✅ Detected as: reminders');
-      return 'reminders';
-    }
-
-    // Company queries - EXPANDED to catch more patterns including "show company details"
-    if (q.includes('company details') || q.includes('company info') || q.includes('company name') ||
-        q.includes('show company') || q.includes('my company') || q.includes('company address') ||
-        q.includes('company phone') || q.includes('company email') ||
-        q === 'show details' || q === 'company' || q === 'my details' ||
-        q === 'details' || // Single word "details" should be company
-        q.includes('show details') || // "show details" should be company
-        (q.includes('address') && !this.containsCompanyName(q)) || 
-        q.includes('my address') || q.includes('mera address')) {
-      console.log('✅ Detected as: company');
-      return 'company';
-    }
-
-    // Sales, Financial and Analytical queries (expanded for all categories)
-    if (q.includes('highest') || q.includes('lowest') || q.includes('sabse zyada') || q.includes('sabse kam') || 
-        q.includes('maximum') || q.includes('minimum') || q.includes('top') || q.includes('which has') ||
-        q.includes('sabse bada') || q.includes('sabse chota') || q.includes('biggest') || q.includes('smallest') ||
-        q.includes('which company has') || q.includes('kiska hai') || q.includes('kon sa') || q.includes('kaun sa') ||
-        // Sales & Revenue Analysis
-        q.includes('sales') || q.includes('revenue') || q.includes('turnover') || q.includes('income') ||
-        q.includes('profit') || q.includes('loss') || q.includes('p&l') || q.includes('pl') ||
-        q.includes('today sales') || q.includes('this month sales') || q.includes('monthly sales') ||
-        q.includes('total sales') || q.includes('sales analysis') || q.includes('business performance') ||
-        q.includes('today\'s sales') || q.includes('last week\'s sales') || q.includes('this quarter') ||
-        q.includes('yearly sales') || q.includes('sales trend') || q.includes('sales invoice') ||
-        // Purchase queries
-        q.includes('purchase') || q.includes('purchases') || q.includes('today\'s purchases') ||
-        q.includes('monthly purchases') || q.includes('purchase summary') || q.includes('purchase invoices') ||
-        q.includes('purchase bills') || q.includes('biggest purchase') || q.includes('vendor') ||
-        // Outstanding & Receivables
-        q.includes('outstanding') || q.includes('receivables') || q.includes('payables') || q.includes('due') ||
-        q.includes('overdue') || q.includes('pending bills') || q.includes('pending invoices') ||
-        q.includes('who has not paid') || q.includes('outstanding amount') ||
-        // Cash & Bank
-        q.includes('cash in hand') || q.includes('bank balance') || q.includes('cash balance') ||
-        q.includes('bank transactions') || q.includes('cash book') || q.includes('bank book') ||
-        q.includes('total cash balance') ||
-        // Reports & Statements
-        q.includes('trial balance') || q.includes('balance sheet') || q.includes('gst report') ||
-        q.includes('vat return') || q.includes('expense summary') || q.includes('profit margin') ||
-        q.includes('day book') || q.includes('cash flow') || q.includes('invoice report') || q.includes('bill summary') ||
-        // Hindi/Hinglish terms
-        q.includes('bikri') || q.includes('kamai') || q.includes('munafa') || q.includes('nuksan') ||
-        q.includes('aaj ki sales') || q.includes('is month ki sales') || q.includes('total bikri') ||
-        q.includes('khareed') || q.includes('kharidari') || q.includes('udhaar') || q.includes('bachaat') ||
-        q.includes('jama') || q.includes('naqad')) {
-      console.log('✅ Detected as: analytical');
-      return 'analytical';
-    }
-
-    // PDF/Invoice generation queries
-    if (q.includes('invoice') || q.includes('pdf') || q.includes('bill') || q.includes('generate') || 
-        q.includes('statement') || q.includes('e-invoice')) {
-      console.log('✅ Detected as: ledger (PDF generation)');
-      return 'ledger'; // Will be handled in ledger processing
-    }
-
-    // Check for general balance queries (asking for ALL balances, not specific ledger)
-    const isGeneralBalanceQuery = (
-      (q.includes('balane kitna hai') || q.includes('balance kitna hai')) && 
-      !this.containsCompanyName(q) && 
-      !this.containsSpecificAccount(q)
-    ) || 
-    q.includes('total balance') || 
-    q.includes('all balance') || 
-    q.includes('sabse zyada balance') || 
-    q.includes('highest balance') || 
-    q.includes('balance dikhao');
-    
-    if (isGeneralBalanceQuery) {
-      console.log('✅ Detected as: analytical (general balance query)');
-      return 'analytical';
-    }
-
-    // Ledger queries (specific balance queries or company name queries)
-    if (q.includes('balance') || q.includes('kitna') || q.includes('closing') || this.containsCompanyName(q)) {
-      console.log('✅ Detected as: ledger');
-      return 'ledger';
-    }
-
-    console.log('✅ Detected as: general (fallback)');
-    return 'general';
-  }
-
-  /**
-   * Check if query contains a specific account name (like "HDFC bank balance")
-   */
-  private containsSpecificAccount(query: string): boolean {
-    // Common account keywords that indicate specific account queries
-    const accountKeywords = ['bank', 'hdfc', 'sbi', 'icici', 'axis', 'cash', 'petty cash',
-                            'salary', 'rent', 'electricity', 'phone', 'internet', 'fuel'];
-    return accountKeywords.some(keyword => query.toLowerCase().includes(keyword.toLowerCase()));
-  }
-
-  /**
-   * Check if query contains a potential company name (more than basic English words)
+   * Legacy route for a query, from the shared intent router
    */
-  private containsCompanyName(query: string): boolean {
-    const basicWords = ['what', 'is', 'the', 'balance', 'closing', 'kitna', 'hai', 'ka', 'send', 'me', 'show', 'get', 'find', 
-                       'sabse', 'bada', 'zyada', 'highest', 'biggest', 'company', 'has', 'which', 'kiska', 'kon', 'kaun', 
-                       'maximum', 'minimum', 'top', 'lowest', 'smallest', 'details', 'info', 'address', 'phone', 'email'];
-    const words = query.toLowerCase().split(/\s+/);
-    
-    // Don't consider analytical queries as containing company names
-    if (query.includes('sabse bada') || query.includes('highest') || query.includes('biggest') || 
-        query.includes('which company') || query.includes('kiska hai')) {
-      return false;
-    }
-    
-    // Don't consider company detail queries as containing ledger company names
-    if (query.includes('company details') || query.includes('company info') || query.includes('show company') ||
-        query.includes('my company') || query.includes('company address') || query.includes('company phone')) {
-      return false;
-    }
-    
-    // Look for words that are likely company names (not basic English/Hindi words)
-    for (const word of words) {
-      if (word.length > 2 && !basicWords.includes(word)) {
-        // If it contains letters and possibly numbers/special chars, likely a company name
-        if (/[a-zA-Z]/.test(word)) {
-          return true;
-        }
-      }
-    }
-    
-    return false;
+  private analyzeQueryType(query: string): LegacyQueryType {
+    const match = intentRouter.classify(query);
+    return match.intent ? match.intent.handlers.legacy : 'general';
   }
 
   /**
@@ -1629,6 +1211,46 @@ export class OptimizedQueryService {
     return shouldUse;
   }
 
+  /**
+   * Agent answer followed by the tool calls it cited
+   */
+  private formatAgentResponse(result: AgentResult): QueryResponse {
+    const toolResults = result.steps.filter(step => !step.error).map(step => ({ [`[${step.id}] ${step.tool}`]: step.result }));
+    const verification = verifyAnswer(result.answer, toolResults);
+    let response = verification.text;
+    if (result.citations.length > 0) {
+      response += '\n\n📎 *Sources:*\n';
+      response += result.citations.map(citation => {
+        const args = Object.entries(citation.arguments).map(([name, value]) => `${name}: ${value}`).join(', ');
+        return `[${citation.id}] ${citation.tool}${args ? ` (${args})` : ''}`;
+      }).join('\n');
+    }
+    response += formatVerificationNote(verification.checks);
+
+    return {
+      success: true,
+      type: 'analytical',
+      data: {
+        citations: result.citations,
+        steps: result.steps,
+        provider: result.provider
+      },
+      response,
+      executionTime: 0,
+      cacheHit: false,
+      computation: {
+        source: 'agent',
+        tools: result.steps.map(step => {
+          const args = Object.entries(step.arguments).map(([name, value]) => `${name}: ${value}`).join(', ');
+          return `[${step.id}] ${step.tool}${args ? ` (${args})` : ''}${step.error ? ` failed: ${step.error}` : ''}`;
+        }),
+        rowCount: result.steps.filter(step => !step.error).length,
+        aggregation: 'Totals and rankings computed by the report tools; the model only combined the cited results',
+        figures: verification.checks
+      }
+    };
+  }
+
   /**
    * Process query using AI (OpenAI, Gemini, or Knowledge Base fallback)
    */
@@ -1639,106 +1261,52 @@ export class OptimizedQueryService {
     console.log(`📞 WhatsApp: ${request.whatsappNumber || 'N/A'}`);
     
     const aiStartTime = Date.now();
-    
-    // Check available AI services
-    console.log('\n🔍 Checking available AI services:');
-    console.log(`🚀 OpenAI: ${this.openaiService ? '✅ Available' : '❌ Not configured'}`);
-    console.log(`🔶 Gemini: ${this.geminiService ? '✅ Available' : '❌ Not configured'}`);
-    console.log(`🧠 Knowledge Base: ✅ Always available`);
-    
-    // Try OpenAI first
-    if (this.openaiService) {
-      console.log('\n🚀 ATTEMPTING OPENAI PROCESSING...');
-      console.log(`🔑 API Key: ${process.env.OPENAI_API_KEY ? 'SET' : 'MISSING'}`);
-      
-      try {
-        const openaiStartTime = Date.now();
-        console.log('📤 Sending request to OpenAI...');
-        
-        const aiResponse = await this.openaiService.processTallyQuery(
-          request.query,
-          { 
-            isConnected: this.tallyService?.isConnected() || false,
-            companyName: this.tallyService?.getCompanyName?.() || 'Unknown'
-          },
-          { clientId: request.clientId }
-        );
-        
-        const openaiTime = Date.now() - openaiStartTime;
-        console.log(`📥 OpenAI Response received in ${openaiTime}ms`);
-        console.log('🎯 OpenAI Response:', {
-          type: aiResponse.type,
-          hasSQL: !!aiResponse.sql,
-          explanation: aiResponse.explanation?.substring(0, 100) + '...',
-          requiresExecution: aiResponse.requiresExecution,
-          hasBusinessInsights: !!aiResponse.businessInsights
-        });
-        
-        if (aiResponse && aiResponse.type !== 'explanation') {
-          console.log('✅ OpenAI processing successful - handling response');
-          const result = await this.handleAIResponse(aiResponse, request);
-          console.log(`🎉 AI Processing completed in ${Date.now() - aiStartTime}ms via OpenAI`);
-          return result;
-        } else {
-          console.log('⚠️ OpenAI returned explanation only - trying next service');
-        }
-      } catch (error) {
-        console.error('❌ OpenAI processing failed:', {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack?.substring(0, 200) : 'N/A'
-        });
-        console.log('🔄 Falling back to Gemini...');
+
+    // The agent calls report tools step by step and cites them; the single-SQL prompt below is the fallback
+    if (this.agent?.isAvailable()) {
+      const agentResult = await this.agent.run(request.query);
+      if (agentResult.success) {
+        console.log(`🎉 Agent answered in ${Date.now() - aiStartTime}ms via ${agentResult.provider} (${agentResult.steps.length} tool calls)`);
+        return this.formatAgentResponse(agentResult);
       }
-    } else {
-      console.log('⏭️ OpenAI not available, skipping to Gemini');
+      console.log(`⚠️ Agent could not answer (${agentResult.error}), trying a single query...`);
     }
-    
-    // Try Gemini as fallback
-    if (this.geminiService) {
-      console.log('\n🔶 ATTEMPTING GEMINI PROCESSING...');
-      console.log(`🔑 API Key: ${process.env.GOOGLE_AI_API_KEY ? 'SET' : 'MISSING'}`);
-      
+
+    // Providers in the configured order; a reply without SQL or analysis moves on to the next
+    if (this.llm.isAvailable() && this.sqlGenerator) {
+      console.log(`\n🔍 AI providers: ${this.llm.getAvailableProviders().join(' → ') || 'recorded fixtures'}`);
+
       try {
-        const geminiStartTime = Date.now();
-        console.log('📤 Sending request to Gemini...');
-        
-        const aiResponse = await this.geminiService.processTallyQuery(
-          request.query,
-          { 
-            isConnected: this.tallyService?.isConnected() || false,
-            companyName: this.tallyService?.getCompanyName?.() || 'Unknown'
-          },
-          { clientId: request.clientId }
-        );
-        
-        const geminiTime = Date.now() - geminiStartTime;
-        console.log(`📥 Gemini Response received in ${geminiTime}ms`);
-        console.log('🎯 Gemini Response:', {
+        // Schema-checked SQL, repaired with the ODBC error when Tally rejects it
+        const generation = await this.sqlGenerator.generate(request.query, {
+          isConnected: this.tallyService?.isConnected() || false,
+          companyName: this.tallyService?.getConfig()?.companyName || 'Unknown'
+        });
+
+        const aiResponse = generation.response;
+        console.log(`🎯 ${generation.provider} response:`, {
           type: aiResponse.type,
           hasSQL: !!aiResponse.sql,
           explanation: aiResponse.explanation?.substring(0, 100) + '...',
           requiresExecution: aiResponse.requiresExecution,
-          hasBusinessInsights: !!aiResponse.businessInsights,
-          searchTerm: aiResponse.searchTerm || 'N/A'
+          searchTerm: aiResponse.searchTerm || 'N/A',
+          failedAttempts: generation.attempts.length
         });
-        
-        if (aiResponse && aiResponse.type !== 'explanation') {
-          console.log('✅ Gemini processing successful - handling response');
-          const result = await this.handleAIResponse(aiResponse, request);
-          console.log(`🎉 AI Processing completed in ${Date.now() - aiStartTime}ms via Gemini`);
-          return result;
-        } else {
-          console.log('⚠️ Gemini returned explanation only - trying knowledge base');
+
+        if (aiResponse.type === 'sql' && aiResponse.sql && aiResponse.requiresExecution && !generation.result) {
+          const lastError = generation.attempts[generation.attempts.length - 1]?.error;
+          throw new Error(`SQL still failing after ${generation.attempts.length} attempt(s): ${lastError}`);
         }
+
+        const result = await this.handleAIResponse(aiResponse, request, generation.result);
+        console.log(`🎉 AI Processing completed in ${Date.now() - aiStartTime}ms via ${generation.provider}`);
+        return result;
       } catch (error) {
-        console.error('❌ Gemini processing failed:', {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack?.substring(0, 200) : 'N/A'
-        });
+        console.error('❌ AI processing failed:', error instanceof Error ? error.message : String(error));
         console.log('🔄 Falling back to Knowledge Base...');
       }
     } else {
-      console.log('⏭️ Gemini not available, skipping to Knowledge Base');
+      console.log('⏭️ No AI provider configured, skipping to Knowledge Base');
     }
     
     // Use TallyKaro Knowledge Base as final fallback
@@ -1854,7 +1422,7 @@ export class OptimizedQueryService {
   /**
    * Handle AI service responses (OpenAI/Gemini)
    */
-  private async handleAIResponse(aiResponse: any, request: QueryRequest): Promise<QueryResponse | null> {
+  private async handleAIResponse(aiResponse: any, request: QueryRequest, executed?: TallyQueryResult): Promise<QueryResponse | null> {
     // Handle different AI response types
     switch (aiResponse.type) {
       case 'smart_query':
@@ -1871,28 +1439,44 @@ export class OptimizedQueryService {
         }
         break;
         
-      case 'analysis':
+      case 'analysis': {
+        // Nothing was queried, so any figure here is the model's own
+        const explanation = verifyAnswer(aiResponse.explanation, []);
+        const insights = verifyAnswer(aiResponse.businessInsights || '', []);
+        const checks = [...explanation.checks, ...insights.checks];
         return {
           success: true,
           type: 'analytical',
           data: null,
-          response: `🤖 **AI Analysis:** ${aiResponse.explanation}\n\n${aiResponse.businessInsights || ''}`,
+          response: `🤖 **AI Analysis:** ${explanation.text}\n\n${insights.text}${formatVerificationNote(checks)}`,
           executionTime: 0,
           cacheHit: false,
-          suggestions: aiResponse.followUpQuestions || []
+          suggestions: aiResponse.followUpQuestions || [],
+          computation: {
+            source: 'sql',
+            rowCount: 0,
+            aggregation: 'No query was run; the answer is the model\'s analysis',
+            figures: checks
+          }
         };
+      }
         
       case 'sql':
         // EXECUTE THE AI-GENERATED SQL DIRECTLY IN TALLY!
         if (aiResponse.sql && aiResponse.requiresExecution) {
           console.log('🚀 Executing AI-generated SQL:', aiResponse.sql);
           try {
-            const sqlResult = await this.tallyService.executeQuery(aiResponse.sql);
+            const sqlResult = executed || await this.tallyService?.executeQuery(aiResponse.sql);
             console.log('✅ AI SQL executed successfully:', sqlResult);
             
-            if (sqlResult.success && sqlResult.data && sqlResult.data.length > 0) {
+            if (sqlResult?.success && sqlResult.data && sqlResult.data.length > 0) {
+              // The explanation and insights were written before the rows existed: check their figures
+              const explanation = verifyAnswer(aiResponse.explanation, sqlResult.data);
+              const insights = verifyAnswer(aiResponse.businessInsights || '', sqlResult.data);
+              const checks: FigureCheck[] = [...explanation.checks, ...insights.checks];
+
               // Format the results nicely
-              let formattedResponse = `🤖 **AI Query Result:** ${aiResponse.explanation}\n\n`;
+              let formattedResponse = `🤖 **AI Query Result:** ${explanation.text}\n\n`;
               
               // Show top 10 results
               const displayData = sqlResult.data.slice(0, 10);
@@ -1909,8 +1493,9 @@ export class OptimizedQueryService {
               }
               
               if (aiResponse.businessInsights) {
-                formattedResponse += `\n\n💡 **Business Insights:** ${aiResponse.businessInsights}`;
+                formattedResponse += `\n\n💡 **Business Insights:** ${insights.text}`;
               }
+              formattedResponse += formatVerificationNote(checks);
               
               return {
                 success: true,
@@ -1919,7 +1504,14 @@ export class OptimizedQueryService {
                 response: formattedResponse,
                 executionTime: sqlResult.executionTime || 0,
                 cacheHit: false,
-                suggestions: aiResponse.followUpQuestions || []
+                suggestions: aiResponse.followUpQuestions || [],
+                computation: {
+                  source: 'sql',
+                  sql: aiResponse.sql,
+                  rowCount: sqlResult.data.length,
+                  aggregation: describeAggregation(aiResponse.sql, sqlResult.data.length, displayData.length),
+                  figures: checks
+                }
               };
             } else {
               return {
@@ -2248,13 +1840,13 @@ export class OptimizedQueryService {
         success: true,
         type: 'reminders',
         data: null,
-        response: `📝 **Reminder Feature Coming Soon!**\n\n🔧 **Planned Features:**\n• Set payment collection reminders\n• Bank transfer notifications\n• Due bill alerts\n• Follow-up reminders\n\n💡 For now, you can:\n• Check outstanding receivables with "show outstanding"\n• View pending bills with "pending bills"\n• Get customer balances for follow-up`,
+        response: `📝 **Reminders**\n\n✅ **Available Now:**\n• WhatsApp payment reminders to overdue customers\n• "preview payment reminders" - see who is due a reminder\n• "send payment reminders" - send them now\n• "payment reminder status" - delivered/read/replied tracking\n\n🔜 **Coming Soon:**\n• Personal reminders and follow-ups\n• Bank transfer notifications`,
         executionTime: 0,
         cacheHit: false,
         suggestions: [
-          'Try: "show outstanding receivables"',
-          'Try: "pending bills"', 
-          'Try: "who has not paid me yet"'
+          'Try: "preview payment reminders"',
+          'Try: "payment reminder status"',
+          'Try: "show outstanding receivables"'
         ]
       };
     }
@@ -1,5 +1,8 @@
 import { Client } from 'pg';
 import { S3Service } from './s3-service';
+import { intentRouter, WhatsAppQueryType } from './intent-router';
+import { queryResultCache } from './query-result-cache';
+import { TallyQueryExecutor } from './tally-change-tracker';
 import * as crypto from 'crypto';
 
 export interface WhatsAppQueryRequest {
@@ -33,9 +36,10 @@ export interface ConversationContext {
 export class OptimizedWhatsAppService {
   private pgClient: Client;
   private s3Service: S3Service;
-  private responseCache: Map<string, any> = new Map();
+  private tallyExecutor?: TallyQueryExecutor; // Reports Tally's change counters for the result cache
   
-  constructor() {
+  constructor(tallyExecutor?: TallyQueryExecutor) {
+    this.tallyExecutor = tallyExecutor;
     this.pgClient = new Client({
       host: process.env.POSTGRES_HOST || 'localhost',
       port: parseInt(process.env.POSTGRES_PORT || '5432'),
@@ -66,7 +70,6 @@ export class OptimizedWhatsAppService {
    */
   async processQuery(request: WhatsAppQueryRequest): Promise<WhatsAppQueryResponse> {
     const startTime = Date.now();
-    let cacheHit = false;
     
     try {
       // Step 1: Get client info
@@ -75,24 +78,18 @@ export class OptimizedWhatsAppService {
         return this.createErrorResponse('User not registered. Please contact support.', startTime);
       }
 
-      // Step 2: Normalize query for caching
-      const normalizedQuery = this.normalizeQuery(request.message);
-      const queryHash = this.generateQueryHash(client.client_id, normalizedQuery);
-
-      // Step 3: Check cache first
-      const cachedResponse = await this.getCachedResponse(queryHash);
-      if (cachedResponse) {
-        cacheHit = true;
-        await this.updateCacheStats(queryHash);
-        
+      // Step 2-3: Check the result cache first (keyed by intent, dropped when Tally changes)
+      const cacheLookup = await queryResultCache.lookup<WhatsAppQueryResponse>(
+        'whatsapp',
+        client.client_id,
+        intentRouter.classify(request.message),
+        this.tallyExecutor
+      );
+      if (cacheLookup.hit) {
         return {
-          success: true,
-          response: cachedResponse.response_text,
-          responseType: cachedResponse.response_data.type || 'text',
-          contextData: cachedResponse.response_data.context,
+          ...cacheLookup.value!,
           processingTimeMs: Date.now() - startTime,
-          cacheHit: true,
-          metadata: cachedResponse.response_data.metadata
+          cacheHit: true
         };
       }
 
@@ -110,14 +107,14 @@ export class OptimizedWhatsAppService {
 
       // Step 6: Cache successful responses
       if (response.success && !response.contextData) {
-        await this.cacheResponse(queryHash, client.client_id, normalizedQuery, response);
+        queryResultCache.store(cacheLookup, response);
       }
 
       // Step 7: Update analytics
       await this.logQueryAnalytics(client, request, response, startTime);
 
       response.processingTimeMs = Date.now() - startTime;
-      response.cacheHit = cacheHit;
+      response.cacheHit = false;
       
       return response;
       
@@ -375,41 +372,6 @@ export class OptimizedWhatsAppService {
     return result.rows;
   }
 
-  /**
-   * Caching methods
-   */
-  private async getCachedResponse(queryHash: string): Promise<any> {
-    const query = `
-      SELECT response_data, response_text
-      FROM query_cache
-      WHERE query_hash = $1 AND expires_at > CURRENT_TIMESTAMP
-    `;
-    
-    const result = await this.pgClient.query(query, [queryHash]);
-    return result.rows[0] || null;
-  }
-
-  private async cacheResponse(queryHash: string, clientId: string, normalizedQuery: string, response: WhatsAppQueryResponse): Promise<void> {
-    const query = `
-      INSERT INTO query_cache (client_id, query_hash, normalized_query, query_type, response_data, response_text, expires_at)
-      VALUES ($1, $2, $3, $4, $5, $6, CURRENT_TIMESTAMP + INTERVAL '30 minutes')
-      ON CONFLICT (query_hash) DO UPDATE SET
-        hit_count = query_cache.hit_count + 1,
-        last_accessed_at = CURRENT_TIMESTAMP,
-        response_data = $5,
-        response_text = $6
-    `;
-    
-    await this.pgClient.query(query, [
-      clientId,
-      queryHash,
-      normalizedQuery,
-      'ledger_balance',
-      JSON.stringify(response),
-      response.response
-    ]);
-  }
-
   /**
    * Context management
    */
@@ -449,43 +411,13 @@ export class OptimizedWhatsAppService {
   /**
    * Utility methods
    */
-  private normalizeQuery(query: string): string {
-    return query
-      .toLowerCase()
-      .replace(/what is|show me|tell me|get|fetch/gi, '')
-      .replace(/[^a-zA-Z0-9\s\(\)]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
-  private generateQueryHash(clientId: string, normalizedQuery: string): string {
-    return crypto.createHash('md5').update(`${clientId}:${normalizedQuery}`).digest('hex');
-  }
-
   private generateSessionId(): string {
     return crypto.randomBytes(16).toString('hex');
   }
 
-  private classifyQuery(message: string): string {
-    const lower = message.toLowerCase();
-    
-    if (lower.includes('balance') || lower.includes('amount')) {
-      return 'ledger_balance';
-    }
-    if (lower.includes('list all') || lower.includes('show all')) {
-      return 'ledger_list';
-    }
-    if (lower.includes('customer') || lower.includes('debtor')) {
-      return 'customer_list';
-    }
-    if (lower.includes('bank')) {
-      return 'bank_accounts';
-    }
-    if (lower.includes('help') || lower.includes('command')) {
-      return 'help';
-    }
-    
-    return 'general';
+  private classifyQuery(message: string): WhatsAppQueryType {
+    const match = intentRouter.classify(message);
+    return match.intent ? match.intent.handlers.whatsapp : 'general';
   }
 
   private extractLedgerName(message: string): string {
@@ -577,15 +509,6 @@ export class OptimizedWhatsAppService {
     ]);
   }
 
-  private async updateCacheStats(queryHash: string): Promise<void> {
-    const query = `
-      UPDATE query_cache 
-      SET hit_count = hit_count + 1, last_accessed_at = CURRENT_TIMESTAMP
-      WHERE query_hash = $1
-    `;
-    await this.pgClient.query(query, [queryHash]);
-  }
-
   private async cleanExpiredData(): Promise<void> {
     await this.pgClient.query('SELECT clean_expired_data()');
   }
@@ -0,0 +1,142 @@
+/**
+ * Outstanding Service
+ * Bill-wise receivables and payables from Tally's Bills Receivable/Payable reports,
+ * falling back to the ODBC LedgerOutstandings collection
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { parseTallyAmount } from './group-hierarchy-service';
+
+export type OutstandingType = 'receivable' | 'payable';
+
+export interface OutstandingBill {
+  partyName: string;
+  billReference: string;
+  billDate?: Date;
+  dueDate?: Date;
+  amount: number; // Dr-positive: receivables > 0, payables < 0
+  type: OutstandingType;
+}
+
+export interface OutstandingSnapshot {
+  bills: OutstandingBill[];
+  billWise: boolean; // false when only party closing balances were available
+  source: 'xml' | 'odbc';
+}
+
+export class OutstandingService {
+  private dataSource: TallyDataSource;
+  private xmlApiService: TallyXMLAPIService;
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.xmlApiService = xmlApiService;
+  }
+
+  /**
+   * Load open bills as at a date, falling back to ODBC bill allocations and then
+   * to Sundry Debtors/Creditors closing balances
+   */
+  async getOutstandingBills(asAt: Date = new Date()): Promise<OutstandingSnapshot> {
+    try {
+      const [receivable, payable] = await Promise.all([
+        this.xmlApiService.getOutstandingBills('Bills Receivable', asAt),
+        this.xmlApiService.getOutstandingBills('Bills Payable', asAt)
+      ]);
+
+      if (receivable.length > 0 || payable.length > 0) {
+        const bills: OutstandingBill[] = [...receivable, ...payable].map(bill => ({
+          partyName: bill.partyName,
+          billReference: bill.billReference || 'On Account',
+          billDate: bill.billDate,
+          dueDate: bill.dueDate || bill.billDate,
+          amount: bill.amount,
+          type: receivable.includes(bill) ? 'receivable' : 'payable'
+        }));
+
+        console.log(`📋 Loaded ${bills.length} outstanding bills from Bills Receivable/Payable`);
+        return { bills, billWise: true, source: 'xml' };
+      }
+    } catch (error) {
+      console.log('⚠️ Bills Receivable/Payable reports unavailable, using ODBC:', error);
+    }
+
+    const billQuery = `
+      SELECT
+        $LedgerName as party_name,
+        $BillName as bill_reference,
+        $BillDate as bill_date,
+        $DueDate as due_date,
+        $ClosingBalance as amount
+      FROM LedgerOutstandings
+      WHERE $ClosingBalance <> 0
+    `;
+
+    const billResult = await this.dataSource.executeQuery(billQuery);
+    if (billResult.success && billResult.data && billResult.data.length > 0) {
+      const bills = billResult.data
+        .map((row: any) => this.toBill(
+          row.party_name || row.$LedgerName,
+          row.bill_reference || row.$BillName,
+          row.amount ?? row.$ClosingBalance,
+          row.bill_date || row.$BillDate,
+          row.due_date || row.$DueDate
+        ))
+        .filter((bill: OutstandingBill) => bill.amount !== 0);
+
+      console.log(`📋 Loaded ${bills.length} outstanding bills from LedgerOutstandings`);
+      return { bills, billWise: true, source: 'odbc' };
+    }
+
+    console.log('📋 LedgerOutstandings not available, using party closing balances');
+    const ledgerQuery = `
+      SELECT $Name, $Parent, $ClosingBalance
+      FROM Ledger
+      WHERE ($Parent = 'Sundry Debtors' OR $Parent = 'Sundry Creditors')
+        AND $ClosingBalance <> 0
+    `;
+
+    const ledgerResult = await this.dataSource.executeQuery(ledgerQuery);
+    if (!ledgerResult.success || !ledgerResult.data) {
+      throw new Error(ledgerResult.error || 'Unable to read outstanding balances from Tally');
+    }
+
+    const bills = ledgerResult.data
+      .map((row: any) => this.toBill(row.$Name || row.Name, 'On Account', row.$ClosingBalance))
+      .filter((bill: OutstandingBill) => bill.amount !== 0);
+
+    return { bills, billWise: false, source: 'odbc' };
+  }
+
+  private toBill(partyName: any, billReference: any, amount: any, billDate?: any, dueDate?: any): OutstandingBill {
+    const parsedAmount = parseTallyAmount(amount);
+    const parsedBillDate = parseODBCDate(billDate);
+    return {
+      partyName: partyName || 'Unknown Party',
+      billReference: billReference || 'On Account',
+      billDate: parsedBillDate,
+      // Bills without a credit period fall due on the bill date
+      dueDate: parseODBCDate(dueDate) || parsedBillDate,
+      amount: parsedAmount,
+      type: parsedAmount > 0 ? 'receivable' : 'payable'
+    };
+  }
+}
+
+/**
+ * ODBC dates arrive as Date objects, YYYYMMDD strings or display strings
+ */
+export function parseODBCDate(value: any): Date | undefined {
+  if (!value || value === '—') return undefined;
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+
+  const str = String(value).trim();
+  const compact = str.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) {
+    return new Date(parseInt(compact[1]), parseInt(compact[2]) - 1, parseInt(compact[3]));
+  }
+
+  const parsed = new Date(str);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
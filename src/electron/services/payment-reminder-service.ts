@@ -0,0 +1,537 @@
+/**
+ * Payment Reminder Service
+ * Sends WhatsApp payment reminders to customers with overdue bills, escalating through
+ * configurable policies and keeping a send log so no party is reminded twice for a stage
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { odbcScheduler } from '../utils/odbc-scheduler';
+import { PDFService } from './pdf-service';
+import { AgeingService, PartyAgeing } from './ageing-service';
+import { BaileysWhatsAppService } from './baileys-whatsapp';
+import { toISODateString } from '../utils/date-expression';
+
+export type ReminderStage = 'first' | 'second' | 'final';
+export type ReminderLanguage = 'en' | 'hi';
+export type ReminderStatus = 'sent' | 'delivered' | 'read' | 'replied' | 'failed';
+
+export interface ReminderPolicy {
+  stage: ReminderStage;
+  minOverdueDays: number;
+  minDaysSinceLastReminder: number; // Gap after the previous stage (or the party's reply)
+  templates: Record<ReminderLanguage, string>;
+}
+
+export interface ReminderContact {
+  phone?: string;
+  language?: ReminderLanguage;
+  optOut?: boolean;
+}
+
+export interface ReminderConfig {
+  enabled: boolean;
+  checkIntervalMinutes: number;
+  minimumAmount: number;
+  defaultLanguage: ReminderLanguage;
+  attachStatement: boolean;
+  policies: ReminderPolicy[];
+  contacts: Record<string, ReminderContact>; // Overrides keyed by Tally party name
+}
+
+export interface ReminderRecord {
+  id: string;
+  partyName: string;
+  phone: string;
+  stage: ReminderStage;
+  cycleKey: string; // Oldest overdue bill when the cycle began, and its date
+  billReferences?: string[]; // Overdue bills the reminder was about
+  amount: number;
+  overdueDays: number;
+  sentAt: string;
+  status: ReminderStatus;
+  messageId?: string;
+  deliveredAt?: string;
+  readAt?: string;
+  repliedAt?: string;
+  replyText?: string;
+  error?: string;
+}
+
+export interface ReminderCandidate {
+  partyName: string;
+  phone?: string;
+  stage: ReminderStage;
+  amount: number;
+  overdueDays: number;
+  billCount: number;
+  cycleKey: string;
+  skipReason?: string;
+}
+
+export interface ReminderRunResult {
+  runAt: Date;
+  dryRun: boolean;
+  candidates: ReminderCandidate[];
+  sent: ReminderRecord[];
+  failed: ReminderRecord[];
+  warnings: string[];
+}
+
+export interface ReminderSchedulerStatus {
+  isRunning: boolean;
+  whatsappConnected: boolean;
+  lastRun?: Date;
+  nextRun?: Date;
+  lastResult?: { sent: number; failed: number; skipped: number };
+  recentRecords: ReminderRecord[];
+}
+
+interface ReminderState {
+  config: ReminderConfig;
+  records: ReminderRecord[];
+}
+
+const STAGE_ORDER: ReminderStage[] = ['first', 'second', 'final'];
+const MAX_STORED_RECORDS = 2000;
+const REPLY_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_POLICIES: ReminderPolicy[] = [
+  {
+    stage: 'first',
+    minOverdueDays: 1,
+    minDaysSinceLastReminder: 0,
+    templates: {
+      en: 'Dear {party},\n\nThis is a gentle reminder that ₹{amount} is pending against {billCount} bill(s), the oldest being {overdueDays} days past due.\n\n{bills}\n\nPlease arrange the payment at your earliest convenience. Kindly ignore if already paid.\n\nRegards,\n{company}',
+      hi: 'प्रिय {party},\n\nआपके {billCount} बिल का ₹{amount} भुगतान बाकी है, सबसे पुराना बिल {overdueDays} दिन से बकाया है।\n\n{bills}\n\nकृपया जल्द से जल्द भुगतान करें। यदि भुगतान हो चुका है तो इस संदेश को अनदेखा करें।\n\nधन्यवाद,\n{company}'
+    }
+  },
+  {
+    stage: 'second',
+    minOverdueDays: 15,
+    minDaysSinceLastReminder: 7,
+    templates: {
+      en: 'Dear {party},\n\nOur earlier reminder is still open: ₹{amount} is outstanding and the oldest bill is now {overdueDays} days overdue.\n\n{bills}\n\nPlease clear the dues or let us know the expected payment date. The statement of pending bills is attached.\n\nRegards,\n{company}',
+      hi: 'प्रिय {party},\n\nहमारे पिछले रिमाइंडर के बाद भी ₹{amount} बकाया है, सबसे पुराना बिल अब {overdueDays} दिन से बाकी है।\n\n{bills}\n\nकृपया भुगतान करें या भुगतान की संभावित तारीख बताएं। बकाया बिलों का विवरण संलग्न है।\n\nधन्यवाद,\n{company}'
+    }
+  },
+  {
+    stage: 'final',
+    minOverdueDays: 45,
+    minDaysSinceLastReminder: 10,
+    templates: {
+      en: 'Dear {party},\n\nFINAL NOTICE: ₹{amount} remains unpaid, with the oldest bill {overdueDays} days overdue, despite our previous reminders.\n\n{bills}\n\nPlease settle the amount within 7 days to avoid any hold on further supplies.\n\nRegards,\n{company}',
+      hi: 'प्रिय {party},\n\nअंतिम सूचना: पिछले रिमाइंडर के बावजूद ₹{amount} का भुगतान नहीं हुआ है, सबसे पुराना बिल {overdueDays} दिन से बकाया है।\n\n{bills}\n\nकृपया 7 दिनों के भीतर भुगतान करें ताकि आगे की सप्लाई में कोई रुकावट न हो।\n\nधन्यवाद,\n{company}'
+    }
+  }
+];
+
+export class PaymentReminderService {
+  private dataSource: TallyDataSource;
+  private whatsappService: BaileysWhatsAppService;
+  private ageingService: AgeingService;
+  private pdfService: PDFService;
+  private statePath: string;
+  private state: ReminderState;
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private lastRun?: Date;
+  private lastResult?: { sent: number; failed: number; skipped: number };
+
+  constructor(dataSource: TallyDataSource, whatsappService: BaileysWhatsAppService, pdfService: PDFService, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.whatsappService = whatsappService;
+    this.pdfService = pdfService;
+    this.ageingService = new AgeingService(dataSource, xmlApiService);
+    this.statePath = path.join(app.getPath('userData'), 'payment-reminders.json');
+    this.state = this.loadState();
+
+    this.whatsappService.onMessageStatus((messageId, status) => this.recordMessageStatus(messageId, status));
+    this.whatsappService.onInboundMessage((phoneNumber, text) => this.recordReply(phoneNumber, text));
+  }
+
+  /**
+   * Start checking for due reminders on the configured interval
+   */
+  start(): void {
+    if (this.schedulerInterval) {
+      console.log('Payment reminder scheduler already running');
+      return;
+    }
+
+    this.updateConfig({ enabled: true });
+    console.log(`Starting payment reminders every ${this.state.config.checkIntervalMinutes} minutes`);
+
+    this.schedulerInterval = setInterval(async () => {
+      await this.runScheduled();
+    }, this.state.config.checkIntervalMinutes * 60 * 1000);
+  }
+
+  stop(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+    this.updateConfig({ enabled: false });
+    console.log('Payment reminder scheduler stopped');
+  }
+
+  /**
+   * Work out who is due a reminder and (unless dryRun) send it
+   */
+  async runReminders(options: { dryRun?: boolean; asAt?: Date } = {}): Promise<ReminderRunResult> {
+    const dryRun = options.dryRun === true;
+    const asAt = options.asAt || new Date();
+
+    if (this.isProcessing) {
+      throw new Error('A reminder run is already in progress');
+    }
+    if (!dryRun && !this.whatsappService.getConnectionStatus()) {
+      throw new Error('WhatsApp is not connected - scan the QR code to link the session first');
+    }
+
+    this.isProcessing = true;
+    try {
+      const report = await this.ageingService.generateAgeing('receivable', asAt);
+      const warnings = [...report.warnings];
+      if (!report.billWise) {
+        warnings.push('Reminders need bill-wise details in Tally to know what is overdue - no reminders were scheduled');
+        return { runAt: asAt, dryRun, candidates: [], sent: [], failed: [], warnings };
+      }
+
+      const phoneBook = await this.loadPartyPhones();
+      const companyName = await this.getCompanyName();
+      const candidates: ReminderCandidate[] = [];
+      const sent: ReminderRecord[] = [];
+      const failed: ReminderRecord[] = [];
+
+      for (const party of report.parties) {
+        const candidate = this.evaluateParty(party, phoneBook, asAt);
+        if (!candidate) continue;
+        candidates.push(candidate);
+        if (dryRun || candidate.skipReason) continue;
+
+        const record = await this.sendReminder(party, candidate, companyName, asAt);
+        (record.status === 'failed' ? failed : sent).push(record);
+      }
+
+      if (!dryRun) {
+        this.lastRun = asAt;
+        this.lastResult = {
+          sent: sent.length,
+          failed: failed.length,
+          skipped: candidates.filter(candidate => candidate.skipReason).length
+        };
+        this.saveState();
+      }
+
+      console.log(`📨 Payment reminders${dryRun ? ' (preview)' : ''}: ${candidates.length} due, ${sent.length} sent, ${failed.length} failed`);
+      return { runAt: asAt, dryRun, candidates, sent, failed, warnings };
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  getStatus(): ReminderSchedulerStatus {
+    const intervalMs = this.state.config.checkIntervalMinutes * 60 * 1000;
+    return {
+      isRunning: this.schedulerInterval !== null,
+      whatsappConnected: this.whatsappService.getConnectionStatus(),
+      lastRun: this.lastRun,
+      nextRun: this.schedulerInterval && this.lastRun ? new Date(this.lastRun.getTime() + intervalMs) : undefined,
+      lastResult: this.lastResult,
+      recentRecords: this.state.records.slice(-50).reverse()
+    };
+  }
+
+  getConfig(): ReminderConfig {
+    return { ...this.state.config };
+  }
+
+  updateConfig(updates: Partial<ReminderConfig>): void {
+    this.state.config = { ...this.state.config, ...updates };
+    this.saveState();
+  }
+
+  getRecords(partyName?: string): ReminderRecord[] {
+    const records = partyName
+      ? this.state.records.filter(record => record.partyName.toLowerCase() === partyName.toLowerCase())
+      : this.state.records;
+    return [...records].reverse();
+  }
+
+  private async runScheduled(): Promise<void> {
+    if (!this.dataSource.isConnected() || !this.whatsappService.getConnectionStatus()) {
+      console.log('⏭️ Skipping payment reminders - Tally or WhatsApp not connected');
+      return;
+    }
+
+    try {
+      await odbcScheduler.withPriority('background', () => this.runReminders());
+    } catch (error) {
+      console.error('Scheduled payment reminders failed:', error);
+    }
+  }
+
+  /**
+   * Next unsent stage in this cycle, provided the party is overdue enough for it.
+   * Stages always go in order, so a long-overdue party still gets the first nudge first.
+   */
+  private evaluateParty(party: PartyAgeing, phoneBook: Map<string, string>, asAt: Date): ReminderCandidate | null {
+    const config = this.state.config;
+    const overdueBills = party.bills.filter(bill => bill.overdueDays > 0 && bill.amount > 0);
+    if (overdueBills.length === 0) return null;
+
+    const overdueAmount = overdueBills.reduce((sum, bill) => sum + bill.amount, 0);
+    if (overdueAmount < config.minimumAmount || party.total <= 0) return null;
+
+    // A cycle runs on while any bill from its last reminder is still overdue, so paying off
+    // the oldest bill alone doesn't start the stages again; settling them all does
+    const overdueReferences = new Set(overdueBills.map(bill => bill.billReference));
+    const partyRecords = this.state.records.filter(record => record.partyName === party.partyName && record.status !== 'failed');
+    const latest = partyRecords[partyRecords.length - 1];
+    const continues = !!latest && (latest.billReferences || [latest.cycleKey]).some(reference => overdueReferences.has(reference));
+    const cycleKey = continues ? latest.cycleKey : `${overdueBills[0].billReference}@${toISODateString(asAt)}`;
+    const cycleRecords = continues ? partyRecords.filter(record => record.cycleKey === cycleKey) : [];
+    const sentStages = new Set(cycleRecords.map(record => record.stage));
+
+    const policy = [...config.policies]
+      .sort((a, b) => STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage))
+      .find(candidate => !sentStages.has(candidate.stage));
+    if (!policy || party.maxOverdueDays < policy.minOverdueDays) return null;
+
+    const candidate: ReminderCandidate = {
+      partyName: party.partyName,
+      phone: this.resolvePhone(party.partyName, phoneBook),
+      stage: policy.stage,
+      amount: overdueAmount,
+      overdueDays: party.maxOverdueDays,
+      billCount: overdueBills.length,
+      cycleKey
+    };
+
+    const lastRecord = cycleRecords[cycleRecords.length - 1];
+    if (lastRecord) {
+      const lastContact = new Date(lastRecord.repliedAt || lastRecord.sentAt);
+      const daysSince = Math.floor((asAt.getTime() - lastContact.getTime()) / DAY_MS);
+      if (daysSince < policy.minDaysSinceLastReminder) {
+        candidate.skipReason = lastRecord.repliedAt
+          ? `party replied ${daysSince} day(s) ago`
+          : `last reminder sent ${daysSince} day(s) ago`;
+      }
+    }
+    if (config.contacts[party.partyName]?.optOut) {
+      candidate.skipReason = 'opted out of reminders';
+    } else if (!candidate.phone) {
+      candidate.skipReason = 'no mobile number in Tally';
+    }
+
+    return candidate;
+  }
+
+  private async sendReminder(
+    party: PartyAgeing,
+    candidate: ReminderCandidate,
+    companyName: string,
+    asAt: Date
+  ): Promise<ReminderRecord> {
+    const config = this.state.config;
+    const policy = config.policies.find(p => p.stage === candidate.stage)!;
+    const language = config.contacts[party.partyName]?.language || config.defaultLanguage;
+    const overdueBills = party.bills.filter(bill => bill.overdueDays > 0 && bill.amount > 0);
+
+    const billLines = overdueBills.slice(0, 5)
+      .map(bill => `• ${bill.billReference}: ₹${bill.amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })} (${bill.overdueDays} days)`)
+      .join('\n') + (overdueBills.length > 5 ? `\n• +${overdueBills.length - 5} more` : '');
+
+    const message = this.fillTemplate(policy.templates[language] || policy.templates.en, {
+      party: party.partyName,
+      amount: candidate.amount.toLocaleString('en-IN', { maximumFractionDigits: 2 }),
+      billCount: String(candidate.billCount),
+      overdueDays: String(candidate.overdueDays),
+      bills: billLines,
+      company: companyName
+    });
+
+    const record: ReminderRecord = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      partyName: party.partyName,
+      phone: candidate.phone!,
+      stage: candidate.stage,
+      cycleKey: candidate.cycleKey,
+      billReferences: overdueBills.map(bill => bill.billReference),
+      amount: candidate.amount,
+      overdueDays: candidate.overdueDays,
+      sentAt: asAt.toISOString(),
+      status: 'sent'
+    };
+
+    try {
+      const attachment = config.attachStatement ? await this.buildStatement(party, companyName) : undefined;
+      record.messageId = await this.whatsappService.sendMessageToNumber(candidate.phone!, message, attachment) || undefined;
+      console.log(`📨 ${candidate.stage} reminder sent to ${party.partyName}`);
+    } catch (error) {
+      record.status = 'failed';
+      record.error = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to send reminder to ${party.partyName}:`, error);
+    }
+
+    this.state.records.push(record);
+    this.saveState();
+    return record;
+  }
+
+  /**
+   * Statement of the party's pending bills, in the Tally ledger layout
+   */
+  private async buildStatement(party: PartyAgeing, companyName: string) {
+    const result = await this.pdfService.generateTallyFormatPDF({
+      title: `Statement - ${party.partyName}`,
+      companyName,
+      reportDate: new Date().toLocaleDateString('en-IN'),
+      data: party.bills.map(bill => ({
+        date: bill.billDate ? bill.billDate.toISOString() : '',
+        particulars: bill.overdueDays > 0 ? `Pending bill (${bill.overdueDays} days overdue)` : 'Pending bill',
+        voucherType: 'Bill',
+        voucherNumber: bill.billReference,
+        amount: bill.amount
+      })),
+      type: 'ledger'
+    });
+
+    // Without puppeteer only an HTML copy is produced, which isn't worth sending
+    if (!result.success || !result.filePath || !result.filePath.endsWith('.pdf')) {
+      console.log(`⚠️ Statement PDF unavailable for ${party.partyName}, sending reminder without attachment`);
+      return undefined;
+    }
+
+    return {
+      buffer: fs.readFileSync(result.filePath),
+      fileName: path.basename(result.filePath),
+      mimetype: 'application/pdf'
+    };
+  }
+
+  private recordMessageStatus(messageId: string, status: 'delivered' | 'read'): void {
+    const record = this.state.records.find(r => r.messageId === messageId);
+    if (!record || record.status === 'replied' || record.status === 'failed') return;
+
+    const now = new Date().toISOString();
+    if (status === 'read') {
+      record.status = 'read';
+      record.readAt = now;
+      record.deliveredAt = record.deliveredAt || now;
+    } else if (record.status === 'sent') {
+      record.status = 'delivered';
+      record.deliveredAt = now;
+    }
+    this.saveState();
+  }
+
+  /**
+   * The first message from a reminded number marks the latest reminder as replied; later
+   * messages leave that reply alone. Returns true for any message from a reminded number.
+   */
+  private recordReply(phoneNumber: string, text: string): boolean {
+    const digits = phoneNumber.replace(/\D/g, '');
+    const since = Date.now() - REPLY_WINDOW_DAYS * DAY_MS;
+    const record = [...this.state.records].reverse().find(r =>
+      r.phone === digits && r.status !== 'failed' && new Date(r.sentAt).getTime() >= since
+    );
+    if (!record) return false;
+    if (record.repliedAt) return true;
+
+    record.status = 'replied';
+    record.repliedAt = new Date().toISOString();
+    record.replyText = text.substring(0, 500);
+    this.saveState();
+
+    console.log(`💬 ${record.partyName} replied to payment reminder`);
+    return true;
+  }
+
+  /**
+   * Mobile numbers from the ledger master (LedgerMobile, else LedgerPhone)
+   */
+  private async loadPartyPhones(): Promise<Map<string, string>> {
+    const phones = new Map<string, string>();
+    const result = await this.dataSource.executeQuery('SELECT $Name, $LedgerMobile, $LedgerPhone FROM Ledger');
+    if (!result.success || !result.data) return phones;
+
+    result.data.forEach((row: any) => {
+      const name = row.$Name || row.Name;
+      const phone = normalisePhoneNumber(row.$LedgerMobile || row.$LedgerPhone);
+      if (name && phone) phones.set(name, phone);
+    });
+    return phones;
+  }
+
+  private resolvePhone(partyName: string, phoneBook: Map<string, string>): string | undefined {
+    const override = this.state.config.contacts[partyName]?.phone;
+    return normalisePhoneNumber(override) || phoneBook.get(partyName);
+  }
+
+  private fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+  }
+
+  private async getCompanyName(): Promise<string> {
+    const result = await this.dataSource.executeQuery('SELECT $Name FROM Company');
+    const company = result.success && result.data && result.data[0];
+    return (company && (company.$Name || company.Name)) || 'Accounts Team';
+  }
+
+  private loadState(): ReminderState {
+    const defaults: ReminderState = {
+      config: {
+        enabled: false,
+        checkIntervalMinutes: 24 * 60,
+        minimumAmount: 1000,
+        defaultLanguage: 'en',
+        attachStatement: true,
+        policies: DEFAULT_POLICIES,
+        contacts: {}
+      },
+      records: []
+    };
+
+    try {
+      if (fs.existsSync(this.statePath)) {
+        const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+        return {
+          config: { ...defaults.config, ...saved.config },
+          records: Array.isArray(saved.records) ? saved.records : []
+        };
+      }
+    } catch (error) {
+      console.error('Error loading payment reminder state:', error);
+    }
+    return defaults;
+  }
+
+  private saveState(): void {
+    try {
+      this.state.records = this.state.records.slice(-MAX_STORED_RECORDS);
+      fs.writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      console.error('Error saving payment reminder state:', error);
+    }
+  }
+}
+
+/**
+ * Reduce a Tally phone field to WhatsApp's international digits (Indian numbers by default)
+ */
+export function normalisePhoneNumber(value: any): string | undefined {
+  if (!value) return undefined;
+
+  // Ledger phone fields may hold several numbers separated by commas or slashes
+  const first = String(value).split(/[,/;]/)[0];
+  let digits = first.replace(/\D/g, '').replace(/^0+/, '');
+  if (digits.length === 10) digits = `91${digits}`;
+  return digits.length >= 11 && digits.length <= 15 ? digits : undefined;
+}
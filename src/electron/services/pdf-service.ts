@@ -7,13 +7,18 @@ export interface PDFReportData {
   companyName: string;
   reportDate: string;
   data: any[];
-  type: 'sales' | 'balance-sheet' | 'ledger' | 'stock' | 'custom';
+  type: 'sales' | 'balance-sheet' | 'ledger' | 'stock' | 'profit-loss' | 'cash-flow' | 'ageing' | 'bank-reconciliation' | 'custom';
   headers?: string[];
   totals?: any;
+  period?: {
+    from: string;
+    to: string;
+  };
   ledgerInfo?: {
     name: string;
     parent: string;
     closingBalance: number;
+    openingBalance?: number; // Statement opening; older callers pass it as closingBalance
   };
 }
 
@@ -291,6 +296,8 @@ export class PDFService {
         .vch-no-col { width: 10%; text-align: center; }
         .debit-col { width: 15%; text-align: right; }
         .credit-col { width: 15%; text-align: right; }
+        .balance-col { width: 15%; text-align: right; white-space: nowrap; }
+        .narration { font-style: italic; font-size: 9px; color: #444; }
         .amount-right { text-align: right; }
         .amount-bold { font-weight: bold; }
         .opening-balance { font-weight: bold; }
@@ -368,6 +375,14 @@ export class PDFService {
         return this.generateLedgerReportContent(reportData);
       case 'stock':
         return this.generateStockReportContent(reportData);
+      case 'profit-loss':
+        return this.generateStatementContent(reportData, 'Profit &amp; Loss A/c');
+      case 'cash-flow':
+        return this.generateStatementContent(reportData, 'Cash Flow Statement');
+      case 'ageing':
+        return this.generateAgeingContent(reportData);
+      case 'bank-reconciliation':
+        return this.generateStatementContent(reportData, 'Bank Reconciliation Statement');
       default:
         return this.generateCustomReportContent(reportData);
     }
@@ -426,11 +441,12 @@ export class PDFService {
     let content = '<h3>Balance Sheet</h3>';
     
     if (reportData.data && reportData.data.length > 0) {
+      // Rows tagged with a side are trusted as-is; untagged rows are split by sign
       const assets = reportData.data.filter((item: any) => 
-        item.type === 'asset' || (parseFloat(item.balance || 0) || 0) > 0
+        item.type ? item.type === 'asset' : (parseFloat(item.balance || 0) || 0) > 0
       );
       const liabilities = reportData.data.filter((item: any) => 
-        item.type === 'liability' || (parseFloat(item.balance || 0) || 0) < 0
+        item.type ? item.type === 'liability' : (parseFloat(item.balance || 0) || 0) < 0
       );
       
       // Assets
@@ -450,7 +466,7 @@ export class PDFService {
         
         let totalAssets = 0;
         assets.forEach((item: any, index: number) => {
-          const amount = Math.abs(parseFloat(item.balance || 0) || 0);
+          const amount = item.type ? (parseFloat(item.balance || 0) || 0) : Math.abs(parseFloat(item.balance || 0) || 0);
           totalAssets += amount;
           content += `
             <tr>
@@ -487,7 +503,7 @@ export class PDFService {
         
         let totalLiabilities = 0;
         liabilities.forEach((item: any, index: number) => {
-          const amount = Math.abs(parseFloat(item.balance || 0) || 0);
+          const amount = item.type ? (parseFloat(item.balance || 0) || 0) : Math.abs(parseFloat(item.balance || 0) || 0);
           totalLiabilities += amount;
           content += `
             <tr>
@@ -514,6 +530,13 @@ export class PDFService {
             <p>Net Worth: ₹${reportData.totals.netWorth.toLocaleString('en-IN')}</p>
           </div>`;
       }
+
+      if (reportData.totals?.difference) {
+        content += `
+          <div style="margin-top: 10px; text-align: center; color: #c00;">
+            <p>Difference in Opening Balances: ₹${Math.abs(reportData.totals.difference).toLocaleString('en-IN')}</p>
+          </div>`;
+      }
     }
     
     return content;
@@ -526,8 +549,14 @@ export class PDFService {
     const ledgerName = reportData.ledgerInfo?.name || reportData.title || 'Ledger Report';
     const parentGroup = reportData.ledgerInfo?.parent || '';
     const currentDate = new Date();
-    const fromDate = '1-Apr-2024';
-    const toDate = currentDate.toLocaleDateString('en-GB');
+    const fromDate = reportData.period?.from || '1-Apr-2024';
+    const toDate = reportData.period?.to || currentDate.toLocaleDateString('en-GB');
+    const isTransactionData = !!(reportData.data && (reportData.data[0]?.date || reportData.data[0]?.particulars));
+    // Ledger statements carry a running balance per voucher
+    const showBalance = isTransactionData && reportData.data.some((item: any) => item.balance !== undefined);
+    const balanceCell = (balance?: number) => showBalance
+      ? `<td class="balance-col amount-right">${balance !== undefined ? this.formatDrCr(balance) : ''}</td>`
+      : '';
     
     let content = `
     <div class="page-number">Page No.: 1</div>
@@ -545,24 +574,26 @@ export class PDFService {
                 <th class="vch-no-col">Vch No.</th>
                 <th class="debit-col">Debit</th>
                 <th class="credit-col">Credit</th>
+                ${showBalance ? '<th class="balance-col">Balance</th>' : ''}
             </tr>
         </thead>
         <tbody>`;
     
     // Opening Balance
-    const openingBalance = reportData.ledgerInfo?.closingBalance || 0;
+    const openingBalance = reportData.ledgerInfo?.openingBalance ?? reportData.ledgerInfo?.closingBalance ?? 0;
     if (openingBalance !== 0) {
         const openingDr = openingBalance >= 0 ? openingBalance.toLocaleString('en-IN', {minimumFractionDigits: 2}) : '';
         const openingCr = openingBalance < 0 ? Math.abs(openingBalance).toLocaleString('en-IN', {minimumFractionDigits: 2}) : '';
         
         content += `
             <tr class="opening-balance">
-                <td class="date-col">1-Apr-24</td>
+                <td class="date-col">${reportData.period?.from || '1-Apr-24'}</td>
                 <td class="particulars-col">Opening Balance</td>
                 <td class="vch-type-col"></td>
                 <td class="vch-no-col"></td>
                 <td class="debit-col amount-right">${openingDr}</td>
                 <td class="credit-col amount-right">${openingCr}</td>
+                ${balanceCell(openingBalance)}
             </tr>`;
     }
     
@@ -570,14 +601,12 @@ export class PDFService {
     let totalCredit = Math.max(0, -openingBalance);
     
     if (reportData.data && reportData.data.length > 0) {
-        // Check if this is transaction data (has date, particulars) or balance data
-        const isTransactionData = reportData.data[0]?.date || reportData.data[0]?.particulars;
-        
         if (isTransactionData) {
             // Transaction-based ledger report
             reportData.data.forEach((item: any) => {
                 const date = item.date ? new Date(item.date).toLocaleDateString('en-GB').replace(/\//g, '-') : '';
-                const particulars = item.particulars || item.account_name || '';
+                const particulars = (item.particulars || item.account_name || '')
+                  + (item.narration ? `<div class="narration">${item.narration}</div>` : '');
                 const vchType = item.voucherType || item.vch_type || '';
                 const vchNo = item.voucherNumber || item.vch_no || '';
                 const amount = parseFloat(item.amount || item.debit || item.credit || 0) || 0;
@@ -601,6 +630,7 @@ export class PDFService {
                         <td class="vch-no-col">${vchNo}</td>
                         <td class="debit-col amount-right">${debitAmount}</td>
                         <td class="credit-col amount-right">${creditAmount}</td>
+                        ${balanceCell(item.balance)}
                     </tr>`;
             });
         } else {
@@ -653,6 +683,7 @@ export class PDFService {
                 <td class="vch-no-col"></td>
                 <td class="debit-col amount-right">${closingCr}</td>
                 <td class="credit-col amount-right">${closingDr}</td>
+                ${balanceCell()}
             </tr>`;
     }
     
@@ -665,6 +696,7 @@ export class PDFService {
                 <td class="vch-no-col"></td>
                 <td class="debit-col amount-right amount-bold">${totalDebit.toLocaleString('en-IN', {minimumFractionDigits: 2})}</td>
                 <td class="credit-col amount-right amount-bold">${totalCredit.toLocaleString('en-IN', {minimumFractionDigits: 2})}</td>
+                ${balanceCell()}
             </tr>
         </tbody>
     </table>`;
@@ -672,6 +704,125 @@ export class PDFService {
     return content;
   }
 
+  /**
+   * Running balance as "1,234.00 Dr" / "1,234.00 Cr"
+   */
+  private formatDrCr(balance: number): string {
+    if (Math.abs(balance) < 0.005) return '0.00';
+    return `${Math.abs(balance).toLocaleString('en-IN', {minimumFractionDigits: 2, maximumFractionDigits: 2})} ${balance > 0 ? 'Dr' : 'Cr'}`;
+  }
+
+  /**
+   * Generate sectioned statement content (P&L, cash flow) in Tally format
+   * Rows: { section, particulars, amount, isTotal? }
+   */
+  private generateStatementContent(reportData: PDFReportData, heading: string): string {
+    const fromDate = reportData.period?.from || '';
+    const toDate = reportData.period?.to || reportData.reportDate;
+
+    let content = `
+    <div class="account-title">${heading}</div>
+    <div class="period-line">${fromDate ? `From ${fromDate} ` : ''}To ${toDate}</div>
+
+    <table class="ledger-table">
+        <thead>
+            <tr>
+                <th class="particulars-col">Particulars</th>
+                <th class="debit-col">Amount (₹)</th>
+                <th class="credit-col">Total (₹)</th>
+            </tr>
+        </thead>
+        <tbody>`;
+
+    let currentSection = '';
+    (reportData.data || []).forEach((item: any) => {
+      const amount = (parseFloat(item.amount || 0) || 0).toLocaleString('en-IN', {minimumFractionDigits: 2});
+
+      if (item.isTotal) {
+        content += `
+            <tr class="total-line">
+                <td class="particulars-col amount-bold">${item.particulars}</td>
+                <td class="debit-col"></td>
+                <td class="credit-col amount-right amount-bold">${amount}</td>
+            </tr>`;
+        currentSection = '';
+        return;
+      }
+
+      if (item.section && item.section !== currentSection) {
+        currentSection = item.section;
+        content += `
+            <tr class="opening-balance">
+                <td class="particulars-col" colspan="3">${item.section}</td>
+            </tr>`;
+      }
+
+      content += `
+            <tr>
+                <td class="particulars-col">&nbsp;&nbsp;${item.particulars}</td>
+                <td class="debit-col amount-right">${amount}</td>
+                <td class="credit-col"></td>
+            </tr>`;
+    });
+
+    content += `
+        </tbody>
+    </table>`;
+
+    return content;
+  }
+
+  /**
+   * Generate bill-wise ageing content
+   * Rows: { particulars, billDate?, dueDate?, overdueDays?, buckets: { '0-30', '31-60', '61-90', '90+' }, isParty?, isTotal? }
+   */
+  private generateAgeingContent(reportData: PDFReportData): string {
+    const bucketKeys = ['0-30', '31-60', '61-90', '90+'];
+    const formatAmount = (value: any) => {
+      const amount = parseFloat(value || 0) || 0;
+      return amount === 0 ? '' : amount.toLocaleString('en-IN', {minimumFractionDigits: 2});
+    };
+
+    let content = `
+    <div class="account-title">${reportData.title}</div>
+    <div class="period-line">As at ${reportData.period?.to || reportData.reportDate}</div>
+
+    <table class="ledger-table">
+        <thead>
+            <tr>
+                <th class="particulars-col">Particulars</th>
+                <th class="date-col">Bill Date</th>
+                <th class="date-col">Due Date</th>
+                <th class="amount-right">Overdue (Days)</th>
+                ${bucketKeys.map(bucket => `<th class="amount-right">${bucket} Days (₹)</th>`).join('')}
+            </tr>
+        </thead>
+        <tbody>`;
+
+    (reportData.data || []).forEach((item: any) => {
+      const rowClass = item.isTotal ? 'total-line' : item.isParty ? 'opening-balance' : '';
+      const particulars = item.isParty || item.isTotal ? item.particulars : `&nbsp;&nbsp;${item.particulars}`;
+      const bucketCells = bucketKeys
+        .map(bucket => `<td class="amount-right${item.isTotal ? ' amount-bold' : ''}">${formatAmount(item.buckets?.[bucket])}</td>`)
+        .join('');
+
+      content += `
+            <tr class="${rowClass}">
+                <td class="particulars-col">${particulars}</td>
+                <td class="date-col">${item.billDate || ''}</td>
+                <td class="date-col">${item.dueDate || ''}</td>
+                <td class="amount-right">${item.overdueDays !== undefined ? item.overdueDays : ''}</td>
+                ${bucketCells}
+            </tr>`;
+    });
+
+    content += `
+        </tbody>
+    </table>`;
+
+    return content;
+  }
+
   /**
    * Generate stock report content
    */
@@ -0,0 +1,239 @@
+/**
+ * Profit & Loss Service
+ * Builds a trading + P&L account for a period from Tally's GROUP/LEDGER collections
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { GroupHierarchyService, GroupedLedger, TallyGroupNode, parseTallyAmount } from './group-hierarchy-service';
+
+export type ProfitLossSection =
+  | 'Sales Accounts'
+  | 'Direct Incomes'
+  | 'Purchase Accounts'
+  | 'Direct Expenses'
+  | 'Indirect Incomes'
+  | 'Indirect Expenses';
+
+export interface ProfitLossGroupTotal {
+  section: ProfitLossSection;
+  total: number;
+  ledgers: { name: string; amount: number }[];
+}
+
+export interface ProfitLossStatement {
+  fromDate: Date;
+  toDate: Date;
+  sections: ProfitLossGroupTotal[];
+  openingStock: number;
+  closingStock: number;
+  grossProfit: number;
+  netProfit: number;
+  source: 'xml' | 'odbc';
+  warnings: string[];
+}
+
+// Income sections carry credit balances, so they're negated under the Dr-positive convention
+const INCOME_SECTIONS: ProfitLossSection[] = ['Sales Accounts', 'Direct Incomes', 'Indirect Incomes'];
+const SECTION_ORDER: ProfitLossSection[] = [
+  'Sales Accounts', 'Direct Incomes', 'Purchase Accounts', 'Direct Expenses', 'Indirect Incomes', 'Indirect Expenses'
+];
+
+export class ProfitLossService {
+  private dataSource: TallyDataSource;
+  private xmlApiService: TallyXMLAPIService;
+  private groupHierarchy: GroupHierarchyService;
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.xmlApiService = xmlApiService;
+    this.groupHierarchy = new GroupHierarchyService(dataSource);
+  }
+
+  /**
+   * Generate the P&L statement for a date range
+   */
+  async generateStatement(fromDate: Date, toDate: Date): Promise<ProfitLossStatement> {
+    const warnings: string[] = [];
+    const fyStart = getFinancialYearStart(toDate);
+
+    // Tally resets P&L ledgers every FY, so a range can't straddle two years
+    if (fromDate < fyStart) {
+      warnings.push(`Period clamped to the financial year starting ${fyStart.toLocaleDateString('en-IN')}`);
+      fromDate = fyStart;
+    }
+
+    const groups = await this.groupHierarchy.loadGroups();
+
+    try {
+      const statement = await this.buildFromXML(fromDate, toDate, fyStart, groups);
+      statement.warnings.unshift(...warnings);
+      return statement;
+    } catch (error) {
+      console.log('⚠️ XML period balances unavailable, falling back to ODBC:', error);
+    }
+
+    const statement = await this.buildFromODBC(fromDate, toDate, groups);
+    statement.warnings.unshift(...warnings);
+    return statement;
+  }
+
+  /**
+   * Period movement from XML: closing(to) - closing(from - 1) within the FY
+   */
+  private async buildFromXML(
+    fromDate: Date,
+    toDate: Date,
+    fyStart: Date,
+    groups: Map<string, TallyGroupNode>
+  ): Promise<ProfitLossStatement> {
+    const closingLedgers = await this.xmlApiService.getLedgerBalances(fyStart, toDate);
+    if (closingLedgers.length === 0) {
+      throw new Error('No ledger balances returned by Tally XML API');
+    }
+
+    const priorBalances = new Map<string, number>();
+    const isFromFyStart = fromDate.getTime() === fyStart.getTime();
+    let dayBeforeFrom: Date | null = null;
+
+    if (!isFromFyStart) {
+      dayBeforeFrom = new Date(fromDate);
+      dayBeforeFrom.setDate(dayBeforeFrom.getDate() - 1);
+      const priorLedgers = await this.xmlApiService.getLedgerBalances(fyStart, dayBeforeFrom);
+      priorLedgers.forEach(ledger => priorBalances.set(ledger.name, ledger.closingBalance));
+    }
+
+    const ledgers: GroupedLedger[] = closingLedgers.map(ledger => ({
+      name: ledger.name,
+      parent: ledger.parent,
+      primaryGroup: this.groupHierarchy.resolvePrimaryGroup(ledger.parent, groups),
+      openingBalance: ledger.openingBalance,
+      closingBalance: ledger.closingBalance - (priorBalances.get(ledger.name) || 0)
+    }));
+
+    const warnings: string[] = [];
+    let openingStock = 0;
+    let closingStock = 0;
+    try {
+      const stockAtTo = await this.xmlApiService.getStockValues(fyStart, toDate);
+      closingStock = stockAtTo.reduce((sum, item) => sum + item.closingValue, 0);
+
+      if (dayBeforeFrom) {
+        const stockAtFrom = await this.xmlApiService.getStockValues(fyStart, dayBeforeFrom);
+        openingStock = stockAtFrom.reduce((sum, item) => sum + item.closingValue, 0);
+      } else {
+        openingStock = stockAtTo.reduce((sum, item) => sum + item.openingValue, 0);
+      }
+    } catch (error) {
+      console.warn('⚠️ XML stock valuation failed, using current balances:', error instanceof Error ? error.message : error);
+      const stock = await this.getStockFromODBC(groups);
+      openingStock = stock.openingStock;
+      closingStock = stock.closingStock;
+      warnings.push('Stock values taken from current Tally balances (period stock valuation unavailable)');
+    }
+
+    return this.buildStatement(fromDate, toDate, ledgers, openingStock, closingStock, 'xml', warnings);
+  }
+
+  /**
+   * ODBC fallback: only current-period balances are available
+   */
+  private async buildFromODBC(
+    fromDate: Date,
+    toDate: Date,
+    groups: Map<string, TallyGroupNode>
+  ): Promise<ProfitLossStatement> {
+    const snapshot = await this.groupHierarchy.loadSnapshot();
+    const stock = await this.getStockFromODBC(groups);
+
+    return this.buildStatement(
+      fromDate,
+      toDate,
+      snapshot.ledgers,
+      stock.openingStock,
+      stock.closingStock,
+      'odbc',
+      ['Tally XML API not reachable - figures reflect the current period loaded in Tally, not the requested dates']
+    );
+  }
+
+  /**
+   * Stock values from the StockItem collection, falling back to Stock-in-Hand ledgers
+   */
+  private async getStockFromODBC(groups: Map<string, TallyGroupNode>): Promise<{ openingStock: number; closingStock: number }> {
+    const stockResult = await this.dataSource.executeQuery('SELECT $Name, $OpeningValue, $ClosingValue FROM StockItem');
+    if (stockResult.success && stockResult.data && stockResult.data.length > 0) {
+      return {
+        openingStock: stockResult.data.reduce((sum: number, row: any) => sum + Math.abs(parseTallyAmount(row.$OpeningValue)), 0),
+        closingStock: stockResult.data.reduce((sum: number, row: any) => sum + Math.abs(parseTallyAmount(row.$ClosingValue)), 0)
+      };
+    }
+
+    const ledgerResult = await this.dataSource.executeQuery('SELECT $Name, $Parent, $OpeningBalance, $ClosingBalance FROM Ledger');
+    let openingStock = 0;
+    let closingStock = 0;
+    if (ledgerResult.success && ledgerResult.data) {
+      ledgerResult.data
+        .filter((row: any) => this.groupHierarchy.isUnderGroup(row.$Parent || '', 'Stock-in-Hand', groups))
+        .forEach((row: any) => {
+          openingStock += Math.abs(parseTallyAmount(row.$OpeningBalance));
+          closingStock += Math.abs(parseTallyAmount(row.$ClosingBalance));
+        });
+    }
+    return { openingStock, closingStock };
+  }
+
+  /**
+   * Classify ledgers into P&L sections and compute gross and net profit
+   */
+  private buildStatement(
+    fromDate: Date,
+    toDate: Date,
+    ledgers: GroupedLedger[],
+    openingStock: number,
+    closingStock: number,
+    source: 'xml' | 'odbc',
+    warnings: string[]
+  ): ProfitLossStatement {
+    const sectionMap = new Map<ProfitLossSection, ProfitLossGroupTotal>();
+    SECTION_ORDER.forEach(section => sectionMap.set(section, { section, total: 0, ledgers: [] }));
+
+    ledgers.forEach(ledger => {
+      const section = sectionMap.get(ledger.primaryGroup as ProfitLossSection);
+      if (!section || ledger.closingBalance === 0) return;
+
+      const amount = INCOME_SECTIONS.includes(section.section) ? -ledger.closingBalance : ledger.closingBalance;
+      section.ledgers.push({ name: ledger.name, amount });
+      section.total += amount;
+    });
+
+    sectionMap.forEach(section => section.ledgers.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount)));
+
+    const total = (section: ProfitLossSection) => sectionMap.get(section)!.total;
+    const grossProfit = total('Sales Accounts') + total('Direct Incomes') + closingStock
+      - openingStock - total('Purchase Accounts') - total('Direct Expenses');
+    const netProfit = grossProfit + total('Indirect Incomes') - total('Indirect Expenses');
+
+    console.log(`📊 P&L (${source}): GP ₹${grossProfit.toFixed(2)}, NP ₹${netProfit.toFixed(2)}`);
+
+    return {
+      fromDate,
+      toDate,
+      sections: SECTION_ORDER.map(section => sectionMap.get(section)!),
+      openingStock,
+      closingStock,
+      grossProfit,
+      netProfit,
+      source,
+      warnings
+    };
+  }
+}
+
+/**
+ * Indian financial year start (1st April) for a date
+ */
+export function getFinancialYearStart(date: Date): Date {
+  const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, 3, 1);
+}
@@ -0,0 +1,195 @@
+/**
+ * Profit Margin Service
+ * Gross margin per stock item, stock group and customer over a period.
+ * Sales lines come from Tally's vouchers over XML, costs from purchase lines and StockItem
+ * closing rates. The Supabase sales/purchase tables only keep voucher totals and
+ * getDetailedStockSummary has no rates, so neither can price an item.
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { parseTallyAmount } from './group-hierarchy-service';
+
+export type MarginDimension = 'item' | 'group' | 'customer';
+
+export interface MarginRow {
+  name: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number;
+}
+
+export interface MarginAnalysis {
+  fromDate: Date;
+  toDate: Date;
+  byItem: MarginRow[];
+  byGroup: MarginRow[];
+  byCustomer: MarginRow[];
+  totals: MarginRow;
+  warnings: string[];
+}
+
+export class ProfitMarginService {
+  private dataSource: TallyDataSource;
+  private xmlApiService: TallyXMLAPIService;
+
+  constructor(dataSource: TallyDataSource, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.xmlApiService = xmlApiService;
+  }
+
+  /**
+   * Analyse margins for a date range.
+   * Cost is the period's weighted average purchase rate, falling back to the closing rate.
+   */
+  async analyse(fromDate: Date, toDate: Date): Promise<MarginAnalysis> {
+    const warnings: string[] = [];
+    const vouchers = await this.xmlApiService.getGSTVouchers(fromDate, toDate);
+
+    const stockGroups = await this.loadStockGroups();
+    const costRates = await this.loadClosingRates();
+
+    // Weighted average purchase rate for the period overrides the closing rate
+    const purchaseTotals = new Map<string, { quantity: number; amount: number }>();
+    vouchers
+      .filter(voucher => this.documentKind(voucher.voucherType, voucher.ledgerEntries, voucher.partyName) === 'purchase')
+      .forEach(voucher => voucher.inventoryEntries.forEach(entry => {
+        const totals = purchaseTotals.get(entry.stockItemName) || { quantity: 0, amount: 0 };
+        totals.quantity += entry.quantity;
+        totals.amount += entry.amount;
+        purchaseTotals.set(entry.stockItemName, totals);
+      }));
+    purchaseTotals.forEach((totals, itemName) => {
+      if (totals.quantity > 0) {
+        costRates.set(itemName, totals.amount / totals.quantity);
+      }
+    });
+
+    const byItem = new Map<string, MarginRow>();
+    const byGroup = new Map<string, MarginRow>();
+    const byCustomer = new Map<string, MarginRow>();
+    const missingCost = new Set<string>();
+
+    vouchers.forEach(voucher => {
+      const kind = this.documentKind(voucher.voucherType, voucher.ledgerEntries, voucher.partyName);
+      if (kind !== 'sales' && kind !== 'sales-return') return;
+      const sign = kind === 'sales-return' ? -1 : 1;
+
+      voucher.inventoryEntries.forEach(entry => {
+        const costRate = costRates.get(entry.stockItemName);
+        if (!costRate) missingCost.add(entry.stockItemName);
+
+        const quantity = sign * entry.quantity;
+        const revenue = sign * entry.amount;
+        const cost = quantity * (costRate || 0);
+
+        this.accumulate(byItem, entry.stockItemName, quantity, revenue, cost);
+        this.accumulate(byGroup, stockGroups.get(entry.stockItemName) || 'Ungrouped', quantity, revenue, cost);
+        this.accumulate(byCustomer, voucher.partyName || 'Cash Sales', quantity, revenue, cost);
+      });
+    });
+
+    if (byItem.size === 0) {
+      warnings.push('No item-wise sales found for this period (vouchers entered in accounting mode have no stock lines)');
+    }
+    if (missingCost.size > 0) {
+      warnings.push(`No purchase or closing rate for ${missingCost.size} item(s) - their cost is taken as zero: ${Array.from(missingCost).slice(0, 5).join(', ')}${missingCost.size > 5 ? '...' : ''}`);
+    }
+
+    const finalise = (rows: Map<string, MarginRow>) => Array.from(rows.values())
+      .map(row => ({ ...row, marginPercent: row.revenue !== 0 ? (row.margin / row.revenue) * 100 : 0 }))
+      .sort((a, b) => b.margin - a.margin);
+
+    const itemRows = finalise(byItem);
+    const totals = itemRows.reduce((sum, row) => ({
+      name: 'Total',
+      quantity: sum.quantity + row.quantity,
+      revenue: sum.revenue + row.revenue,
+      cost: sum.cost + row.cost,
+      margin: sum.margin + row.margin,
+      marginPercent: 0
+    }), { name: 'Total', quantity: 0, revenue: 0, cost: 0, margin: 0, marginPercent: 0 });
+    totals.marginPercent = totals.revenue !== 0 ? (totals.margin / totals.revenue) * 100 : 0;
+
+    console.log(`📈 Margin analysis: ${itemRows.length} items, margin ₹${totals.margin.toFixed(2)}`);
+
+    return {
+      fromDate,
+      toDate,
+      byItem: itemRows,
+      byGroup: finalise(byGroup),
+      byCustomer: finalise(byCustomer),
+      totals,
+      warnings
+    };
+  }
+
+  private accumulate(rows: Map<string, MarginRow>, name: string, quantity: number, revenue: number, cost: number): void {
+    const row = rows.get(name) || { name, quantity: 0, revenue: 0, cost: 0, margin: 0, marginPercent: 0 };
+    row.quantity += quantity;
+    row.revenue += revenue;
+    row.cost += cost;
+    row.margin = row.revenue - row.cost;
+    rows.set(name, row);
+  }
+
+  /**
+   * Sales, sales return (credit note) or purchase, falling back to the party's Dr/Cr side
+   */
+  private documentKind(
+    voucherType: string,
+    ledgerEntries: { ledgerName: string; amount: number }[],
+    partyName: string
+  ): 'sales' | 'sales-return' | 'purchase' | 'other' {
+    const typeName = voucherType.toLowerCase();
+    if (typeName.includes('credit note')) return 'sales-return';
+    if (typeName.includes('debit note')) return 'other';
+    if (typeName.includes('purchase')) return 'purchase';
+    if (typeName.includes('sales')) return 'sales';
+
+    const partyAmount = ledgerEntries
+      .filter(entry => entry.ledgerName === partyName)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+    return partyAmount >= 0 ? 'sales' : 'purchase';
+  }
+
+  /**
+   * Stock group of every item
+   */
+  private async loadStockGroups(): Promise<Map<string, string>> {
+    const groups = new Map<string, string>();
+    try {
+      const stockItems = await this.dataSource.getStockItems();
+      stockItems.forEach(item => groups.set(item.name, item.parent || 'Ungrouped'));
+    } catch (error) {
+      console.log('⚠️ Stock groups unavailable, items will be reported as Ungrouped:', error);
+    }
+    return groups;
+  }
+
+  /**
+   * Closing rate per item ($ClosingRate, or closing value / closing quantity)
+   */
+  private async loadClosingRates(): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    const result = await this.dataSource.executeQuery('SELECT $Name, $ClosingRate, $ClosingBalance, $ClosingValue FROM StockItem');
+    if (!result.success || !result.data) return rates;
+
+    result.data.forEach((row: any) => {
+      const name = row.$Name || row.Name;
+      if (!name) return;
+
+      let rate = Math.abs(parseTallyAmount(row.$ClosingRate));
+      if (!rate) {
+        const quantity = Math.abs(parseTallyAmount(row.$ClosingBalance));
+        const value = Math.abs(parseTallyAmount(row.$ClosingValue));
+        rate = quantity > 0 ? value / quantity : 0;
+      }
+      if (rate > 0) rates.set(name, rate);
+    });
+
+    return rates;
+  }
+}
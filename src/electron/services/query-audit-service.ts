@@ -0,0 +1,88 @@
+/**
+ * Query Audit Service
+ * Append-only local log (one JSON line per query) of the SQL run for the renderer and the AI,
+ * including queries the SQL policy refused
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+
+export interface QueryAuditEntry {
+  timestamp: string;
+  user: string;
+  company?: string;
+  sql: string;
+  collections: string[];
+  allowed: boolean;
+  success: boolean;
+  durationMs: number;
+  rowCount: number;
+  truncated?: boolean; // More rows came back than the collection's limit
+  error?: string;
+}
+
+// Only the tail of the log is read back for the UI
+const READ_TAIL_BYTES = 2 * 1024 * 1024;
+
+export class QueryAuditService {
+  private logPath: string | null;
+
+  constructor(logPath?: string) {
+    this.logPath = logPath || null;
+  }
+
+  private get path(): string {
+    if (!this.logPath) {
+      this.logPath = path.join(app.getPath('userData'), 'tally-query-audit.log');
+    }
+    return this.logPath;
+  }
+
+  record(entry: QueryAuditEntry): void {
+    try {
+      fs.appendFileSync(this.path, JSON.stringify(entry) + '\n', { encoding: 'utf8', mode: 0o600 });
+    } catch (error) {
+      console.error('Failed to write query audit entry:', error);
+    }
+  }
+
+  /**
+   * Most recent entries first
+   */
+  getEntries(limit = 200): QueryAuditEntry[] {
+    if (!fs.existsSync(this.path)) return [];
+
+    const { size } = fs.statSync(this.path);
+    const start = Math.max(0, size - READ_TAIL_BYTES);
+    const buffer = Buffer.alloc(size - start);
+    const fd = fs.openSync(this.path, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, start);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const lines = buffer.toString('utf8').split('\n');
+    // A tail read can start mid-line
+    if (start > 0) lines.shift();
+
+    const entries: QueryAuditEntry[] = [];
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+      if (!lines[i].trim()) continue;
+      try {
+        entries.push(JSON.parse(lines[i]));
+      } catch (error) {
+        // Skip a line cut short by a crash mid-write
+        console.warn('⚠️ Skipping unreadable audit log line:', error instanceof Error ? error.message : error);
+      }
+    }
+    return entries;
+  }
+
+  getLogPath(): string {
+    return this.path;
+  }
+}
+
+export const queryAuditService = new QueryAuditService();
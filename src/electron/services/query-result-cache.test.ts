@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryResultCache } from './query-result-cache';
+import { intentRouter } from './intent-router';
+import { TallyQueryExecutor } from './tally-change-tracker';
+
+vi.mock('electron', async () => {
+  const os = await import('os');
+  return { app: { getPath: () => os.tmpdir() } };
+});
+
+// Tally with fixed alteration counters: nothing changes between lookups
+const unchangedTally: TallyQueryExecutor = {
+  executeQuery: async () => ({ success: true, data: [{ $Name: 'Sharma Traders', $AltVchID: '120', $AltMstId: '45' }] })
+};
+
+async function storeAnswer(cache: QueryResultCache, query: string, answer: string): Promise<void> {
+  const lookup = await cache.lookup('chat', 'client-1', intentRouter.classify(query), unchangedTally);
+  cache.store(lookup, answer);
+}
+
+async function cachedAnswer(cache: QueryResultCache, query: string): Promise<string | undefined> {
+  const lookup = await cache.lookup<string>('chat', 'client-1', intentRouter.classify(query), unchangedTally);
+  return lookup.value;
+}
+
+describe('query result cache keys', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves an answer to the same question asked differently', async () => {
+    const cache = new QueryResultCache();
+    await storeAnswer(cache, 'sales in July 2024', 'July sales');
+    expect(await cachedAnswer(cache, 'what are my sales for july 2024')).toBe('July sales');
+  });
+
+  it('keeps receivables and payables apart', async () => {
+    const cache = new QueryResultCache();
+    await storeAnswer(cache, 'total receivables', 'receivables');
+    expect(await cachedAnswer(cache, 'total payables')).toBeUndefined();
+  });
+
+  // Each first query is asked again before the second, so a miss cannot come from a query
+  // that was never cacheable
+  it('keeps margin dimensions and sort directions apart', async () => {
+    const cache = new QueryResultCache();
+    await storeAnswer(cache, 'item wise margin', 'by item');
+    expect(await cachedAnswer(cache, 'item wise margin')).toBe('by item');
+    expect(await cachedAnswer(cache, 'customer wise margin')).toBeUndefined();
+
+    await storeAnswer(cache, 'top 5 highest balances', 'highest');
+    expect(await cachedAnswer(cache, 'top 5 highest balances')).toBe('highest');
+    expect(await cachedAnswer(cache, 'top 5 lowest balances')).toBeUndefined();
+  });
+
+  it('keeps different top-N requests apart', async () => {
+    const cache = new QueryResultCache();
+    await storeAnswer(cache, 'top 5 highest balances', 'five');
+    expect(await cachedAnswer(cache, 'top 5 highest balances')).toBe('five');
+    expect(await cachedAnswer(cache, 'top 10 highest balances')).toBeUndefined();
+  });
+
+  it('lets an undated answer expire with the day', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 9, 15, 18, 0));
+    const cache = new QueryResultCache();
+    await storeAnswer(cache, 'show overdue receivables', 'overdue on the 15th');
+    expect(await cachedAnswer(cache, 'show overdue receivables')).toBe('overdue on the 15th');
+
+    vi.setSystemTime(new Date(2024, 9, 16, 9, 0));
+    expect(await cachedAnswer(cache, 'show overdue receivables')).toBeUndefined();
+  });
+});
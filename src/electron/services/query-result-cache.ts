@@ -0,0 +1,187 @@
+/**
+ * Query Result Cache
+ * Answers keyed by intent and normalised slots rather than query text, so "Sharma ka balance"
+ * and "balance of sharma" share an entry. Every read checks Tally's company alteration
+ * counters: an entry is only served while the counter its intent depends on is unchanged.
+ */
+
+import { IntentMatch, IntentSlots, normaliseQuery } from './intent-router';
+import { tallyChangeTracker, companyCounter, CompanyAlterIds, TallyQueryExecutor } from './tally-change-tracker';
+
+type CacheDependency = 'vouchers' | 'masters' | 'both';
+
+interface CacheEntry {
+  value: any;
+  intent: string;
+  company: string;
+  tracks: CacheDependency;
+  counter: number; // companyCounter() when the answer was computed
+  storedAt: number;
+  hits: number;
+}
+
+export interface CacheLookup<T = any> {
+  key: string | null; // null when the query cannot be cached
+  hit: boolean;
+  value?: T;
+  intent?: string;
+  tracks?: CacheDependency;
+  // Counters read before the answer is computed, so an entry posted meanwhile makes it stale
+  marks: CompanyAlterIds | null;
+}
+
+export interface QueryCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  invalidations: number; // Misses where an entry existed but Tally had changed since
+  uncacheable: number; // No intent, a clarifying question, or no counters from the data source
+  stores: number;
+  hitRate: number;
+  byIntent: { [intent: string]: { hits: number; misses: number } };
+  timestamp: string;
+}
+
+const MAX_ENTRIES = 500;
+
+// Wording handlers branch on beyond the slots: receivables or payables, the margin dimension,
+// the sort direction and exports. Telling more apart than a handler does only costs a hit.
+const QUERY_VARIANTS: [string, RegExp][] = [
+  ['payable', /payable|creditor|supplier|vendor|we owe|i owe|dena/],
+  ['receivable', /receivable|debtor|customer|owe me|owes me|owe us|lena/],
+  ['ageing', /ageing|aging|overdue|bill.?wise/],
+  ['by-customer', /customer|party|client|grahak|buyer/],
+  ['by-group', /group|category/],
+  ['lowest', /lowest|least|worst|minimum|smallest|bottom|sabse kam|los(?:e|ing) money|loss making|nuksa+n|negative/],
+  ['export', /pdf|excel|export|download/]
+];
+
+export class QueryResultCache {
+  // Map order doubles as recency: a hit moves the entry to the end
+  private entries = new Map<string, CacheEntry>();
+  private counters = { hits: 0, misses: 0, invalidations: 0, uncacheable: 0, stores: 0 };
+  private byIntent: { [intent: string]: { hits: number; misses: number } } = {};
+
+  /**
+   * Look up a classified query. Costs one Company query for the counters when the intent
+   * is cacheable; pass the result to store() once the answer is computed.
+   *
+   * @param namespace - Keeps answers of different shapes apart (chat responses, WhatsApp replies)
+   */
+  async lookup<T = any>(namespace: string, clientId: string, match: IntentMatch, executor?: TallyQueryExecutor): Promise<CacheLookup<T>> {
+    const intent = match.intent;
+    if (!intent || !intent.invalidatedBy || match.clarification || !executor) {
+      this.counters.uncacheable++;
+      return { key: null, hit: false, marks: null };
+    }
+
+    const marks = await tallyChangeTracker.getCompanyAlterIds(executor);
+    if (!marks) {
+      this.counters.uncacheable++;
+      return { key: null, hit: false, marks: null };
+    }
+
+    const key = cacheKey(namespace, clientId, intent.id, match.slots, normaliseQuery(match.query));
+    const lookup: CacheLookup<T> = { key, hit: false, intent: intent.id, tracks: intent.invalidatedBy, marks };
+    const entry = this.entries.get(key);
+
+    if (entry && entry.company === marks.company && entry.counter === companyCounter(entry.tracks, marks)) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      entry.hits++;
+      this.counters.hits++;
+      this.intentStats(intent.id).hits++;
+      console.log(`⚡ Result cache hit: ${intent.id} (${Math.round((Date.now() - entry.storedAt) / 1000)}s old, Tally unchanged)`);
+      return { ...lookup, hit: true, value: entry.value };
+    }
+
+    if (entry) {
+      this.entries.delete(key);
+      this.counters.invalidations++;
+      console.log(`♻️ Result cache entry for ${intent.id} is stale: Tally ${entry.tracks === 'both' ? 'data' : entry.tracks} changed since it was stored`);
+    }
+    this.counters.misses++;
+    this.intentStats(intent.id).misses++;
+    return lookup;
+  }
+
+  store<T>(lookup: CacheLookup<T>, value: T): void {
+    if (!lookup.key || !lookup.marks || !lookup.tracks || !lookup.intent) return;
+
+    this.entries.delete(lookup.key);
+    this.entries.set(lookup.key, {
+      value,
+      intent: lookup.intent,
+      company: lookup.marks.company,
+      tracks: lookup.tracks,
+      counter: companyCounter(lookup.tracks, lookup.marks),
+      storedAt: Date.now(),
+      hits: 0
+    });
+    this.counters.stores++;
+
+    // Evict the least recently used
+    while (this.entries.size > MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Drop every entry, or those of one client. Returns how many were dropped.
+   */
+  clear(clientId?: string): number {
+    let dropped = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (!clientId || key.split('|')[1] === clientId) {
+        this.entries.delete(key);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  getStats(): QueryCacheStats {
+    const lookups = this.counters.hits + this.counters.misses;
+    return {
+      entries: this.entries.size,
+      ...this.counters,
+      hitRate: lookups > 0 ? Math.round((this.counters.hits / lookups) * 1000) / 1000 : 0,
+      byIntent: JSON.parse(JSON.stringify(this.byIntent)),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private intentStats(intent: string): { hits: number; misses: number } {
+    if (!this.byIntent[intent]) this.byIntent[intent] = { hits: 0, misses: 0 };
+    return this.byIntent[intent];
+  }
+}
+
+/**
+ * namespace|client|intent|slots|variants, with slots in a fixed order and names case- and space-folded.
+ * Relative dates ("this month") are already resolved to their days, so the key moves with the calendar;
+ * an answer without a period (FY to date, ageing, overdue bills) is as of today and keyed by it.
+ */
+function cacheKey(namespace: string, clientId: string, intent: string, slots: IntentSlots, text: string): string {
+  const parts: string[] = [];
+  if (slots.party) parts.push(`party=${foldName(slots.party)}`);
+  if (slots.item) parts.push(`item=${foldName(slots.item)}`);
+  parts.push(slots.date ? `date=${dayOf(slots.date.fromDate)}..${dayOf(slots.date.toDate)}` : `asof=${dayOf(new Date())}`);
+  if (slots.amount !== undefined) parts.push(`amount=${slots.amount}`);
+
+  const variants = QUERY_VARIANTS.filter(([, pattern]) => pattern.test(text)).map(([name]) => name);
+  const top = text.match(/\b(?:top|bottom|first)\s+(\d+)\b/);
+  if (top) variants.push(`top=${top[1]}`);
+
+  return [namespace, clientId, intent, parts.join('&'), variants.join('&')].join('|');
+}
+
+function foldName(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function dayOf(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export const queryResultCache = new QueryResultCache();
@@ -4,6 +4,8 @@
  */
 
 import { SupabaseService } from './supabase-service';
+import { parseDateExpression, toISODateString } from '../utils/date-expression';
+import { llmGateway } from '../utils/ai/llm-gateway';
 
 export interface DateRange {
   startDate: string;
@@ -40,22 +42,9 @@ export interface PurchaseQueryResult {
 
 export class SalesPurchaseQueryService {
   private supabaseService: SupabaseService;
-  private openAIService: any;
-  private geminiService: any;
 
   constructor(supabaseService: SupabaseService) {
     this.supabaseService = supabaseService;
-
-    // Initialize AI services for insights
-    try {
-      const { OpenAIService } = require('../utils/ai/openai');
-      const { GeminiService } = require('../utils/ai/gemini');
-      this.openAIService = new OpenAIService();
-      this.geminiService = new GeminiService();
-      console.log('✅ AI services initialized for sales insights');
-    } catch (error) {
-      console.warn('⚠️ AI services not available:', error);
-    }
   }
 
   /**
@@ -90,207 +79,17 @@ export class SalesPurchaseQueryService {
   }
 
   /**
-   * Parse natural language date queries with week support
+   * Parse natural language date queries (weeks, months, quarters, FY, Hinglish)
    */
   private parseDateQuery(query: string): DateRange | null {
-    const today = new Date();
-    const queryLower = query.toLowerCase();
-
-    // Check for week-based queries (e.g., "sales for july 1st week", "1st week of july")
-    const weekPatterns = [
-      /(\w+)\s+(\d+)(?:st|nd|rd|th)\s+week/i,         // "july 1st week"
-      /(\d+)(?:st|nd|rd|th)\s+week\s+of\s+(\w+)/i,   // "1st week of july"
-      /week\s+(\d+)\s+of\s+(\w+)/i                   // "week 1 of july"
-    ];
-
-    for (const pattern of weekPatterns) {
-      const match = query.match(pattern);
-      if (match) {
-        const monthName = match[1] || match[2];
-        const weekNumber = parseInt(match[2] || match[1]);
-
-        // Find the month
-        const monthMap: { [key: string]: number } = {
-          'january': 0, 'jan': 0,
-          'february': 1, 'feb': 1,
-          'march': 2, 'mar': 2,
-          'april': 3, 'apr': 3,
-          'may': 4,
-          'june': 5, 'jun': 5,
-          'july': 6, 'jul': 6,
-          'august': 7, 'aug': 7,
-          'september': 8, 'sep': 8, 'sept': 8,
-          'october': 9, 'oct': 9,
-          'november': 10, 'nov': 10,
-          'december': 11, 'dec': 11
-        };
-
-        const monthIndex = monthMap[monthName.toLowerCase()];
-        if (monthIndex !== undefined && weekNumber >= 1 && weekNumber <= 5) {
-          // Extract year from query (4-digit years like 2023, 2024, etc.)
-          const yearMatch = query.match(/\b(20\d{2})\b/);
-          const year = yearMatch ? parseInt(yearMatch[1]) : today.getFullYear();
-
-          // Calculate week dates
-          const startOfMonth = new Date(year, monthIndex, 1);
-          const startDay = (weekNumber - 1) * 7 + 1;
-          const endDay = Math.min(startDay + 6, new Date(year, monthIndex + 1, 0).getDate());
-
-          const startDate = `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(startDay).padStart(2, '0')}`;
-          const endDate = `${year}-${String(monthIndex + 1).padStart(2, '0')}-${String(endDay).padStart(2, '0')}`;
-
-          console.log(`📅 Matched week query: Week ${weekNumber} of ${monthName} ${year}`);
-
-          return {
-            startDate,
-            endDate
-          };
-        }
-      }
-    }
-
+    const expression = parseDateExpression(query);
+    if (!expression) return null;
 
-    // Check for "till now" / "till date" / "so far" / "ab tak" patterns
-    const tillNowPatterns = ['till now', 'till date', 'till today', 'so far', 'ab tak', 'ab tak ka', 'until now'];
-    for (const pattern of tillNowPatterns) {
-      if (queryLower.includes(pattern)) {
-        // Return from beginning of time to today
-        return {
-          startDate: '1970-01-01',
-          endDate: today.toISOString().split('T')[0]
-        };
-      }
-    }
-
-    // Today
-    if (queryLower.includes('today') || queryLower.includes('aaj')) {
-      const todayStr = today.toISOString().split('T')[0];
-      return { startDate: todayStr, endDate: todayStr };
-    }
-
-    // Yesterday
-    if (queryLower.includes('yesterday') || queryLower.includes('kal')) {
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayStr = yesterday.toISOString().split('T')[0];
-      return { startDate: yesterdayStr, endDate: yesterdayStr };
-    }
-
-    // This week
-    if (queryLower.includes('this week') || queryLower.includes('is week') || queryLower.includes('is hafte')) {
-      const startOfWeek = new Date(today);
-      startOfWeek.setDate(today.getDate() - today.getDay());
-      return {
-        startDate: startOfWeek.toISOString().split('T')[0],
-        endDate: today.toISOString().split('T')[0]
-      };
-    }
-
-    // Last week
-    if (queryLower.includes('last week') || queryLower.includes('pichle week') || queryLower.includes('pichle hafte')) {
-      const startOfLastWeek = new Date(today);
-      startOfLastWeek.setDate(today.getDate() - today.getDay() - 7);
-      const endOfLastWeek = new Date(startOfLastWeek);
-      endOfLastWeek.setDate(startOfLastWeek.getDate() + 6);
-      return {
-        startDate: startOfLastWeek.toISOString().split('T')[0],
-        endDate: endOfLastWeek.toISOString().split('T')[0]
-      };
-    }
-
-    // This month
-    if (queryLower.includes('this month') || queryLower.includes('is month') || queryLower.includes('is mahine')) {
-      const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-      return {
-        startDate: startOfMonth.toISOString().split('T')[0],
-        endDate: today.toISOString().split('T')[0]
-      };
-    }
-
-    // Last month
-    if (queryLower.includes('last month') || queryLower.includes('pichle month') || queryLower.includes('pichle mahine')) {
-      const lastMonth = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-      const endOfLastMonth = new Date(today.getFullYear(), today.getMonth(), 0);
-      return {
-        startDate: lastMonth.toISOString().split('T')[0],
-        endDate: endOfLastMonth.toISOString().split('T')[0]
-      };
-    }
-
-    // Specific month with fuzzy matching (handles typos and abbreviations)
-    const monthPatterns = [
-      { full: 'january', patterns: ['jan', 'janu', 'jaunary', 'janury'] },
-      { full: 'february', patterns: ['feb', 'febr', 'feburary', 'februry'] },
-      { full: 'march', patterns: ['mar', 'marc'] },
-      { full: 'april', patterns: ['apr', 'aprl'] },
-      { full: 'may', patterns: ['may'] },
-      { full: 'june', patterns: ['jun'] },
-      { full: 'july', patterns: ['jul', 'jly'] },
-      { full: 'august', patterns: ['aug', 'agust'] },
-      { full: 'september', patterns: ['sep', 'sept', 'setember'] },
-      { full: 'october', patterns: ['oct', 'octo', 'octber'] },
-      { full: 'november', patterns: ['nov', 'novem', 'novmber'] },
-      { full: 'december', patterns: ['dec', 'decem', 'decmber'] }
-    ];
-
-    for (let i = 0; i < monthPatterns.length; i++) {
-      const { full, patterns } = monthPatterns[i];
-
-      // Check if query contains full month name or any of its patterns
-      if (queryLower.includes(full) || patterns.some(p => queryLower.includes(p))) {
-        // Check if year is mentioned
-        const yearMatch = query.match(/20\d{2}/);
-        const year = yearMatch ? parseInt(yearMatch[0]) : today.getFullYear();
-
-        // Create dates in UTC to avoid timezone issues
-        const startOfMonth = new Date(Date.UTC(year, i, 1));
-        const endOfMonth = new Date(Date.UTC(year, i + 1, 0));
-
-        const startDate = `${year}-${String(i + 1).padStart(2, '0')}-01`;
-        const lastDay = new Date(year, i + 1, 0).getDate();
-        const endDate = `${year}-${String(i + 1).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
-
-        console.log(`📅 Matched month: ${full} (year: ${year})`);
-
-        return {
-          startDate,
-          endDate
-        };
-      }
-    }
-
-    // Last X days (e.g., "last 7 days", "last 30 days")
-    const daysMatch = query.match(/last (\d+) days?/i);
-    if (daysMatch) {
-      const days = parseInt(daysMatch[1]);
-      const startDate = new Date(today);
-      startDate.setDate(today.getDate() - days);
-      return {
-        startDate: startDate.toISOString().split('T')[0],
-        endDate: today.toISOString().split('T')[0]
-      };
-    }
-
-    // This year
-    if (queryLower.includes('this year') || queryLower.includes('is year') || queryLower.includes('is saal')) {
-      const startOfYear = new Date(today.getFullYear(), 0, 1);
-      return {
-        startDate: startOfYear.toISOString().split('T')[0],
-        endDate: today.toISOString().split('T')[0]
-      };
-    }
-
-    // Last year
-    if (queryLower.includes('last year') || queryLower.includes('pichle year') || queryLower.includes('pichle saal')) {
-      const startOfLastYear = new Date(today.getFullYear() - 1, 0, 1);
-      const endOfLastYear = new Date(today.getFullYear() - 1, 11, 31);
-      return {
-        startDate: startOfLastYear.toISOString().split('T')[0],
-        endDate: endOfLastYear.toISOString().split('T')[0]
-      };
-    }
-
-    return null;
+    console.log(`📅 Matched period: ${expression.description}`);
+    return {
+      startDate: toISODateString(expression.fromDate),
+      endDate: toISODateString(expression.toDate)
+    };
   }
 
   /**
@@ -750,22 +549,21 @@ ${dataSummary.topCustomers.map((c: any, i: number) =>
 
 Based on this data, provide actionable business insights and recommendations to answer the user's question. Be specific and practical. Keep response under 200 words.`;
 
-      // Try OpenAI first, fallback to Gemini
+      // First configured provider that answers
       let insights = '';
 
-      if (this.openAIService) {
-        try {
-          insights = await this.openAIService.processQuery(prompt, 'You are a helpful business advisor.');
-        } catch (error) {
-          console.warn('OpenAI failed, trying Gemini:', error);
-        }
-      }
-
-      if (!insights && this.geminiService) {
+      if (llmGateway.isAvailable()) {
         try {
-          insights = await this.geminiService.processQuery(prompt, 'You are a helpful business advisor.');
+          const completion = await llmGateway.complete({
+            system: 'You are a helpful business advisor.',
+            prompt,
+            maxTokens: 400,
+            temperature: 0.5,
+            label: 'sales-insights'
+          });
+          insights = completion.text.trim();
         } catch (error) {
-          console.warn('Gemini also failed:', error);
+          console.warn('AI insights failed:', error);
         }
       }
 
@@ -6,6 +6,8 @@
 import { TallyService } from './tally-services';
 import { SupabaseService } from './supabase-service';
 import { TallyXMLAPIService } from './tally-xml-api';
+import { tallyChangeTracker } from './tally-change-tracker';
+import { odbcScheduler } from '../utils/odbc-scheduler';
 
 export interface SyncResult {
   success: boolean;
@@ -84,111 +86,10 @@ export class SalesPurchaseSyncService {
     }
 
     this.isSyncing = true;
-    const errors: string[] = [];
-    let recordsSynced = 0;
-    const tableName = 'sales_vouchers';
-
     try {
-      console.log(`📊 Syncing sales vouchers from Tally using RTSAllVouchers ODBC collection...`);
-
-      // Use RTSAllVouchers collection with proper Fetch attributes in TDL
-      // Query format from Stack Overflow: https://stackoverflow.com/a/53654432
-      // $VoucherNumber is the actual voucher number, $Reference is the bill reference
-      const salesQuery = `SELECT $Date, $VoucherNumber, $Reference, $VouchertypeName, $PartyLedgerName, $$CollectionField:$Amount:1:LedgerEntries FROM RTSAllVouchers WHERE $$IsSales:$VoucherTypeName`;
-
-      console.log('🔍 Executing sales query:', salesQuery);
-
-      // Execute query via TallyService
-      const result = await this.tallyService.executeQuery(salesQuery);
-
-      if (!result.success) {
-        errors.push(result.error || 'Query execution failed');
-        console.error('❌ Sales query failed:', result.error);
-
-        return {
-          success: false,
-          recordsSynced: 0,
-          errors,
-          lastSyncTime: new Date(),
-          tableName
-        };
-      }
-
-      const salesData = result.data || [];
-      console.log(`✅ Retrieved ${salesData.length} sales vouchers from Tally`);
-
-      if (salesData.length === 0) {
-        console.log('⚠️ No sales vouchers found');
-        return {
-          success: true,
-          recordsSynced: 0,
-          errors: [],
-          lastSyncTime: new Date(),
-          tableName
-        };
-      }
-
-      // Transform data for Supabase - match schema exactly
-      // Use $VoucherNumber as the primary identifier, $Reference is the bill reference
-      const transformedData = salesData.map((row: any, index: number) => {
-        const amount = parseFloat(row['$$CollectionField:$Amount:1:LedgerEntries'] || row.amount || row.AMOUNT || '0');
-        const voucherNumber = row.$VoucherNumber || row.voucher_number || row.VOUCHER_NUMBER || `AUTO-${Date.now()}-${index}`;
-        const rawDate = row.$Date || row.voucher_date || row.VOUCHER_DATE;
-        const billReference = row.$Reference || row.reference_number || row.REFERENCE_NUMBER || null;
-
-        // Convert Tally date format (YYYYMMDD) to SQL date format (YYYY-MM-DD)
-        let voucherDate = rawDate;
-        if (rawDate && /^\d{8}$/.test(String(rawDate))) {
-          // Format: YYYYMMDD -> YYYY-MM-DD
-          const dateStr = String(rawDate);
-          voucherDate = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
-        }
-
-        return {
-          client_id: clientId,
-          voucher_number: voucherNumber,
-          voucher_date: voucherDate,
-          voucher_type: row.$VouchertypeName || row.voucher_type || row.VOUCHER_TYPE || 'Sales',
-          party_name: row.$PartyLedgerName || row.party_name || row.PARTY_NAME || 'Unknown',
-          party_ledger_name: row.$PartyLedgerName || row.party_name || row.PARTY_NAME || null,
-          total_amount: Math.abs(amount),
-          tax_amount: 0,
-          discount_amount: 0,
-          net_amount: Math.abs(amount),
-          reference_number: billReference,
-          narration: null,
-          synced_at: new Date().toISOString()
-        };
-      });
-
-      // Upsert to Supabase
-      await this.supabaseService.upsertRecords(tableName, transformedData);
-      recordsSynced = transformedData.length;
-
-      console.log(`✅ Synced ${recordsSynced} sales vouchers to Supabase`);
-
-      // Skip sync_status update for now - non-critical
-      // await this.updateSyncStatus(clientId, tableName, recordsSynced, errors);
-
-      return {
-        success: true,
-        recordsSynced,
-        errors,
-        lastSyncTime: new Date(),
-        tableName
-      };
-
-    } catch (error) {
-      console.error('❌ Sales sync error:', error);
-      errors.push(`Critical error: ${error instanceof Error ? error.message : String(error)}`);
-
-      return {
-        success: false,
-        recordsSynced,
-        errors,
-        lastSyncTime: new Date(),
-        tableName
-      };
+      return await odbcScheduler.withPriority('background', () =>
+        this.syncVouchers(clientId, 'sales_vouchers', '$$IsSales:$VoucherTypeName', 'Sales')
+      );
     } finally {
       this.isSyncing = false;
     }
@@ -198,87 +99,71 @@ export class SalesPurchaseSyncService {
    * Sync purchase vouchers from Tally to Supabase using RTSAllVouchers ODBC table
    */
   async syncPurchaseVouchers(clientId: string, fromDate?: string, toDate?: string): Promise<SyncResult> {
+    return odbcScheduler.withPriority('background', () =>
+      this.syncVouchers(clientId, 'purchase_vouchers', '$$IsPurchase:$VoucherTypeName', 'Purchase')
+    );
+  }
+
+  /**
+   * Push only the vouchers created, altered or deleted since the last run ($AlterID
+   * high-water mark per company); the first run and sources without AlterIDs sync everything
+   */
+  private async syncVouchers(
+    clientId: string,
+    tableName: 'sales_vouchers' | 'purchase_vouchers',
+    predicate: string,
+    defaultType: string
+  ): Promise<SyncResult> {
     const errors: string[] = [];
     let recordsSynced = 0;
-    const tableName = 'purchase_vouchers';
+    const label = defaultType.toLowerCase();
 
     try {
-      console.log(`📊 Syncing purchase vouchers from Tally using RTSAllVouchers ODBC collection...`);
+      console.log(`📊 Syncing ${label} vouchers from Tally using RTSAllVouchers ODBC collection...`);
 
       // Use RTSAllVouchers collection with proper Fetch attributes in TDL
+      // Query format from Stack Overflow: https://stackoverflow.com/a/53654432
       // $VoucherNumber is the actual voucher number, $Reference is the bill reference
-      const purchaseQuery = `SELECT $Date, $VoucherNumber, $Reference, $VouchertypeName, $PartyLedgerName, $$CollectionField:$Amount:1:LedgerEntries FROM RTSAllVouchers WHERE $$IsPurchase:$VoucherTypeName`;
-
-      console.log('🔍 Executing purchase query:', purchaseQuery);
-
-      // Execute query via TallyService
-      const result = await this.tallyService.executeQuery(purchaseQuery);
-
-      if (!result.success) {
-        errors.push(result.error || 'Query execution failed');
-        console.error('❌ Purchase query failed:', result.error);
+      const changes = await tallyChangeTracker.detectChanges(this.tallyService, {
+        name: tableName,
+        table: 'RTSAllVouchers',
+        fields: ['$Date', '$VoucherNumber', '$Reference', '$VouchertypeName', '$PartyLedgerName', '$$CollectionField:$Amount:1:LedgerEntries'],
+        where: predicate,
+        tracks: 'vouchers',
+        incremental: true,
+        keyOf: row => {
+          const record = this.toVoucherRecord(row, clientId, 0, defaultType);
+          return `${record.voucher_number}|${record.voucher_date}`;
+        }
+      }, clientId);
 
-        return {
-          success: false,
-          recordsSynced: 0,
-          errors,
-          lastSyncTime: new Date(),
-          tableName
-        };
-      }
+      console.log(`✅ Retrieved ${changes.rows.length} ${label} vouchers from Tally (${changes.mode})`);
 
-      const purchaseData = result.data || [];
-      console.log(`✅ Retrieved ${purchaseData.length} purchase vouchers from Tally`);
+      // Transform data for Supabase - match schema exactly
+      const transformedData = changes.rows.map((row: any, index: number) => this.toVoucherRecord(row, clientId, index, defaultType));
 
-      if (purchaseData.length === 0) {
-        console.log('⚠️ No purchase vouchers found');
-        return {
-          success: true,
-          recordsSynced: 0,
-          errors: [],
-          lastSyncTime: new Date(),
-          tableName
-        };
+      if (transformedData.length > 0) {
+        const upsert = await this.supabaseService.upsertRecords(tableName, transformedData);
+        if (!upsert.success) {
+          throw new Error(upsert.error || `Failed to upsert ${tableName}`);
+        }
+        recordsSynced = transformedData.length;
       }
 
-      // Transform data for Supabase - match schema exactly
-      // Use $VoucherNumber as the primary identifier, $Reference is the bill reference
-      const transformedData = purchaseData.map((row: any, index: number) => {
-        const amount = parseFloat(row['$$CollectionField:$Amount:1:LedgerEntries'] || row.amount || row.AMOUNT || '0');
-        const voucherNumber = row.$VoucherNumber || row.voucher_number || row.VOUCHER_NUMBER || `AUTO-${Date.now()}-${index}`;
-        const rawDate = row.$Date || row.voucher_date || row.VOUCHER_DATE;
-        const billReference = row.$Reference || row.reference_number || row.REFERENCE_NUMBER || null;
-
-        // Convert Tally date format (YYYYMMDD) to SQL date format (YYYY-MM-DD)
-        let voucherDate = rawDate;
-        if (rawDate && /^\d{8}$/.test(String(rawDate))) {
-          // Format: YYYYMMDD -> YYYY-MM-DD
-          const dateStr = String(rawDate);
-          voucherDate = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
+      if (changes.deletedKeys.length > 0) {
+        const removed = await this.supabaseService.deleteVoucherRecords(tableName, clientId, changes.deletedKeys.map(key => {
+          const separator = key.lastIndexOf('|');
+          return { voucher_number: key.slice(0, separator), voucher_date: key.slice(separator + 1) };
+        }));
+        if (!removed.success) {
+          throw new Error(removed.error || `Failed to delete from ${tableName}`);
         }
+      }
 
-        return {
-          client_id: clientId,
-          voucher_number: voucherNumber,
-          voucher_date: voucherDate,
-          voucher_type: row.$VouchertypeName || row.voucher_type || row.VOUCHER_TYPE || 'Purchase',
-          party_name: row.$PartyLedgerName || row.party_name || row.PARTY_NAME || 'Unknown',
-          party_ledger_name: row.$PartyLedgerName || row.party_name || row.PARTY_NAME || null,
-          total_amount: Math.abs(amount),
-          tax_amount: 0,
-          discount_amount: 0,
-          net_amount: Math.abs(amount),
-          reference_number: billReference,
-          narration: null,
-          synced_at: new Date().toISOString()
-        };
-      });
-
-      // Upsert to Supabase
-      await this.supabaseService.upsertRecords(tableName, transformedData);
-      recordsSynced = transformedData.length;
+      // Only move the watermark once Supabase has everything
+      tallyChangeTracker.commit(changes);
 
-      console.log(`✅ Synced ${recordsSynced} purchase vouchers to Supabase`);
+      console.log(`✅ Synced ${recordsSynced} ${label} vouchers to Supabase, removed ${changes.deletedKeys.length}`);
 
       // Skip sync_status update for now - non-critical
       // await this.updateSyncStatus(clientId, tableName, recordsSynced, errors);
@@ -292,7 +177,7 @@ export class SalesPurchaseSyncService {
       };
 
     } catch (error) {
-      console.error('❌ Purchase sync error:', error);
+      console.error(`❌ ${defaultType} sync error:`, error);
       errors.push(`Critical error: ${error instanceof Error ? error.message : String(error)}`);
 
       return {
@@ -305,6 +190,40 @@ export class SalesPurchaseSyncService {
     }
   }
 
+  /**
+   * Use $VoucherNumber as the primary identifier, $Reference is the bill reference
+   */
+  private toVoucherRecord(row: any, clientId: string, index: number, defaultType: string) {
+    const amount = parseFloat(row['$$CollectionField:$Amount:1:LedgerEntries'] || row.amount || row.AMOUNT || '0');
+    const voucherNumber = row.$VoucherNumber || row.voucher_number || row.VOUCHER_NUMBER || `AUTO-${Date.now()}-${index}`;
+    const rawDate = row.$Date || row.voucher_date || row.VOUCHER_DATE;
+    const billReference = row.$Reference || row.reference_number || row.REFERENCE_NUMBER || null;
+
+    // Convert Tally date format (YYYYMMDD) to SQL date format (YYYY-MM-DD)
+    let voucherDate = rawDate;
+    if (rawDate && /^\d{8}$/.test(String(rawDate))) {
+      // Format: YYYYMMDD -> YYYY-MM-DD
+      const dateStr = String(rawDate);
+      voucherDate = `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
+    }
+
+    return {
+      client_id: clientId,
+      voucher_number: voucherNumber,
+      voucher_date: voucherDate,
+      voucher_type: row.$VouchertypeName || row.voucher_type || row.VOUCHER_TYPE || defaultType,
+      party_name: row.$PartyLedgerName || row.party_name || row.PARTY_NAME || 'Unknown',
+      party_ledger_name: row.$PartyLedgerName || row.party_name || row.PARTY_NAME || null,
+      total_amount: Math.abs(amount),
+      tax_amount: 0,
+      discount_amount: 0,
+      net_amount: Math.abs(amount),
+      reference_number: billReference,
+      narration: null,
+      synced_at: new Date().toISOString()
+    };
+  }
+
   /**
    * Update sync status in Supabase
    */
@@ -337,6 +256,10 @@ export class SalesPurchaseSyncService {
    * Sync purchase orders from Tally to Supabase using POStockItem ODBC table
    */
   async syncPurchaseOrders(clientId: string): Promise<SyncResult> {
+    return odbcScheduler.withPriority('background', () => this.syncPurchaseOrderRows(clientId));
+  }
+
+  private async syncPurchaseOrderRows(clientId: string): Promise<SyncResult> {
     const errors: string[] = [];
     let recordsSynced = 0;
     const tableName = 'purchase_orders';
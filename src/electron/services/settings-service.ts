@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
+import { DataSourceKind } from './tally-data-source';
 
 export interface AppSettings {
   supabase?: {
@@ -16,10 +17,29 @@ export interface AppSettings {
   };
   tally?: {
     odbcConnectionString: string;
+    dataSource?: DataSourceKind;
+    xmlPort?: number;
+  };
+  mirror?: {
+    enabled: boolean;
+    intervalMinutes: number;
+    maxAgeMinutes: number; // Older than this, reads go to Tally while it is reachable
+  };
+  companies?: {
+    pinned: PinnedCompany[];
+    active?: string;
   };
   firstRun: boolean;
 }
 
+export interface PinnedCompany {
+  name: string; // Exact Tally company name
+  alias?: string; // What the user calls it in chat ("sharma", "old books")
+  pinnedAt: string;
+}
+
+const DEFAULT_MIRROR_CONFIG = { enabled: true, intervalMinutes: 15, maxAgeMinutes: 30 };
+
 export class SettingsService {
   private settingsPath: string;
   private settings: AppSettings = { firstRun: true };
@@ -89,6 +109,28 @@ export class SettingsService {
     this.saveSettings();
   }
 
+  getDataSourceKind(): DataSourceKind | undefined {
+    return this.settings.tally?.dataSource;
+  }
+
+  setDataSourceKind(kind: DataSourceKind): void {
+    this.settings.tally = { odbcConnectionString: '', ...this.settings.tally, dataSource: kind };
+    this.saveSettings();
+  }
+
+  getMirrorConfig(): { enabled: boolean; intervalMinutes: number; maxAgeMinutes: number } {
+    return { ...DEFAULT_MIRROR_CONFIG, ...this.settings.mirror };
+  }
+
+  getCompanySettings(): { pinned: PinnedCompany[]; active?: string } {
+    return { pinned: [], ...this.settings.companies };
+  }
+
+  setCompanySettings(companies: { pinned: PinnedCompany[]; active?: string }): void {
+    this.settings.companies = companies;
+    this.saveSettings();
+  }
+
   getSettingsPath(): string {
     return this.settingsPath;
   }
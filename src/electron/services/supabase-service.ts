@@ -31,16 +31,6 @@ export interface CompanyRecord {
   updated_at?: string;
 }
 
-export interface QueryCache {
-  id?: number;
-  query_hash: string;
-  query_text: string;
-  response_data: any;
-  client_id: string;
-  expires_at: string;
-  created_at?: string;
-}
-
 export class SupabaseService {
   public supabase: SupabaseClient | null = null;
   private config: SupabaseConfig | null = null;
@@ -502,75 +492,62 @@ export class SupabaseService {
   }
 
   /**
-   * Cache query results
+   * Delete vouchers that no longer exist in Tally (sales_vouchers / purchase_vouchers)
    */
-  async cacheQuery(clientId: string, queryText: string, responseData: any, expiryMinutes: number = 30): Promise<void> {
+  async deleteVoucherRecords(
+    tableName: string,
+    clientId: string,
+    vouchers: { voucher_number: string; voucher_date: string }[]
+  ): Promise<{ success: boolean; error?: string }> {
     if (!this.isSupabaseConfigured()) {
-      console.log('📴 Supabase offline - skipping query cache');
-      return;
-    }
-
-    try {
-      const queryHash = this.generateQueryHash(queryText);
-      const expiresAt = new Date(Date.now() + expiryMinutes * 60 * 1000).toISOString();
-
-      const cacheRecord: QueryCache = {
-        query_hash: queryHash,
-        query_text: queryText,
-        response_data: responseData,
-        client_id: clientId,
-        expires_at: expiresAt
+      return {
+        success: false,
+        error: 'Supabase not configured'
       };
-
-      await this.supabase!
-        .from('query_cache')
-        .upsert(cacheRecord, { onConflict: 'query_hash,client_id' });
-
-    } catch (error) {
-      console.error('Query cache error:', error);
     }
-  }
 
-  /**
-   * Get cached query result
-   */
-  async getCachedQuery(clientId: string, queryText: string): Promise<any | null> {
-    if (!this.isSupabaseConfigured()) {
-      return null;
+    if (!vouchers || vouchers.length === 0) {
+      return { success: true };
     }
 
     try {
-      const queryHash = this.generateQueryHash(queryText);
-      const now = new Date().toISOString();
+      // One request per date instead of one per voucher
+      const numbersByDate = new Map<string, string[]>();
+      vouchers.forEach(voucher => {
+        const numbers = numbersByDate.get(voucher.voucher_date) || [];
+        numbers.push(voucher.voucher_number);
+        numbersByDate.set(voucher.voucher_date, numbers);
+      });
 
-      const { data, error } = await this.supabase!
-        .from('query_cache')
-        .select('response_data')
-        .eq('query_hash', queryHash)
-        .eq('client_id', clientId)
-        .gt('expires_at', now)
-        .single();
+      for (const [voucherDate, voucherNumbers] of numbersByDate) {
+        const { error } = await this.supabase!
+          .from(tableName)
+          .delete()
+          .eq('client_id', clientId)
+          .eq('voucher_date', voucherDate)
+          .in('voucher_number', voucherNumbers);
 
-      if (error || !data) {
-        return null;
+        if (error) {
+          console.error(`Error deleting from ${tableName}:`, error);
+          return {
+            success: false,
+            error: error.message
+          };
+        }
       }
 
-      console.log('🚀 Cache hit for query:', queryText);
-      return data.response_data;
+      console.log(`🗑️ Deleted ${vouchers.length} records from ${tableName}`);
+      return { success: true };
+
     } catch (error) {
-      console.error('Cache lookup error:', error);
-      return null;
+      console.error(`Delete error for ${tableName}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      };
     }
   }
 
-  /**
-   * Generate hash for query caching
-   */
-  private generateQueryHash(queryText: string): string {
-    const crypto = require('crypto');
-    return crypto.createHash('md5').update(queryText.toLowerCase().trim()).digest('hex');
-  }
-
   /**
    * Get analytics/stats
    */
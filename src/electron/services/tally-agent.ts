@@ -0,0 +1,508 @@
+/**
+ * Tally Agent
+ * Tool-calling loop for questions one query cannot answer ("compare this month's sales
+ * to last month for my top 5 customers"). The model asks for typed tools backed by our
+ * report services, one per step, and finishes with an answer citing the tool results it
+ * used. The protocol is plain JSON in the reply, so every gateway provider (including
+ * local models and recorded fixtures) can drive it.
+ */
+
+import { TallyDataSource } from './tally-data-source';
+import { TallyXMLAPIService } from './tally-xml-api';
+import { LedgerStatementService } from './ledger-statement-service';
+import { AgeingService, AgeingBucket } from './ageing-service';
+import { OutstandingType } from './outstanding-service';
+import { llmGateway, LLMGateway } from '../utils/ai/llm-gateway';
+import { parseDateExpression, toISODateString } from '../utils/date-expression';
+
+type ToolParameterType = 'string' | 'number';
+
+interface ToolParameter {
+  type: ToolParameterType;
+  description: string;
+  required?: boolean;
+  enum?: string[];
+}
+
+// As the model wrote them; validateArguments() checks them against the tool's parameters
+export type ToolArguments = Record<string, unknown>;
+
+export interface AgentTool {
+  name: string;
+  description: string;
+  parameters: { [name: string]: ToolParameter };
+  run: (args: ToolArguments) => Promise<AgentToolResult>;
+}
+
+export interface LedgerSearchResult {
+  matches: { name: string; group: string; closingBalance: number }[];
+  totalMatches: number;
+}
+
+export interface LedgerStatementSummary {
+  ledger: string;
+  period: string;
+  from: string;
+  to: string;
+  openingBalance: number;
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+  voucherCount: number;
+  latestVouchers: { date: string; type: string; number: string; particulars: string; debit: number; credit: number }[];
+  warnings: string[];
+}
+
+export interface StockSummary {
+  items: { name: string; group: string; quantity: number; unit: string; rate: number; value: number }[];
+  totalItems: number;
+  totalValue: number;
+}
+
+export interface SalesSummary {
+  voucherType: string;
+  period: string;
+  from: string;
+  to: string;
+  total: number;
+  voucherCount: number;
+  partyCount: number;
+  topParties: { party: string; amount: number; vouchers: number }[];
+}
+
+export interface AgeingSummary {
+  type: OutstandingType;
+  asAt: string;
+  total: number;
+  buckets: Record<AgeingBucket, number>;
+  billWise: boolean;
+  parties: { party: string; total: number; buckets: Record<AgeingBucket, number>; maxOverdueDays: number }[];
+  warnings: string[];
+}
+
+export type AgentToolResult = LedgerSearchResult | LedgerStatementSummary | StockSummary | SalesSummary | AgeingSummary;
+
+export interface AgentCitation {
+  id: number;
+  tool: string;
+  arguments: ToolArguments;
+}
+
+export interface AgentStep {
+  id: number;
+  tool: string;
+  arguments: ToolArguments;
+  result?: AgentToolResult;
+  error?: string;
+  durationMs: number;
+}
+
+// A tool call or the final answer; anything else is rejected by parseReply()
+interface AgentReply {
+  tool?: string;
+  arguments?: ToolArguments;
+  answer?: string;
+  citations?: unknown;
+}
+
+export interface AgentResult {
+  success: boolean;
+  answer: string;
+  citations: AgentCitation[]; // The steps the answer says it used
+  steps: AgentStep[];
+  provider?: string;
+  error?: string;
+}
+
+// Tool calls before the agent must answer with what it has
+const MAX_STEPS = 6;
+// Tool results are cut to this many characters of JSON in the transcript
+const MAX_RESULT_CHARS = 4000;
+const DEFAULT_TOP = 10;
+
+export class TallyAgent {
+  private dataSource: TallyDataSource;
+  private llm: LLMGateway;
+  private ledgerStatementService: LedgerStatementService;
+  private ageingService: AgeingService;
+  private tools: AgentTool[];
+
+  constructor(dataSource: TallyDataSource, llm: LLMGateway = llmGateway, xmlApiService: TallyXMLAPIService = new TallyXMLAPIService()) {
+    this.dataSource = dataSource;
+    this.llm = llm;
+    this.ledgerStatementService = new LedgerStatementService(dataSource, xmlApiService);
+    this.ageingService = new AgeingService(dataSource, xmlApiService);
+    this.tools = this.buildTools();
+  }
+
+  isAvailable(): boolean {
+    return this.llm.isAvailable();
+  }
+
+  getTools(): AgentTool[] {
+    return this.tools;
+  }
+
+  /**
+   * Answer a question by letting the model call tools until it can reply
+   */
+  async run(question: string): Promise<AgentResult> {
+    const steps: AgentStep[] = [];
+    let provider: string | undefined;
+
+    console.log(`\n🕵️ Agent: "${question}"`);
+
+    for (let turn = 0; turn <= MAX_STEPS; turn++) {
+      const mustAnswer = turn === MAX_STEPS;
+      let reply: AgentReply;
+      try {
+        const completion = await this.llm.complete({
+          system: this.systemPrompt(),
+          prompt: this.transcript(question, steps, mustAnswer),
+          maxTokens: 1200,
+          temperature: 0.1,
+          json: true,
+          label: `agent step ${turn + 1}`
+        }, { accept: text => parseReply(text) !== null });
+        provider = completion.provider;
+        const parsed = parseReply(completion.text);
+        // The gateway only returns replies parseReply() accepted
+        if (!parsed) throw new Error('The model reply was neither a tool call nor an answer');
+        reply = parsed;
+      } catch (error) {
+        return {
+          success: false,
+          answer: '',
+          citations: [],
+          steps,
+          provider,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+
+      if (typeof reply.answer === 'string') {
+        const citations = citedSteps(reply.citations, steps);
+        console.log(`🕵️ Agent answered after ${steps.length} tool call(s), citing ${citations.map(citation => `[${citation.id}]`).join(' ') || 'nothing'}`);
+        return { success: true, answer: reply.answer.trim(), citations, steps, provider };
+      }
+
+      if (mustAnswer) break;
+      steps.push(await this.callTool(steps.length + 1, String(reply.tool), reply.arguments || {}));
+    }
+
+    return {
+      success: false,
+      answer: '',
+      citations: [],
+      steps,
+      provider,
+      error: `No answer after ${MAX_STEPS} tool calls`
+    };
+  }
+
+  private async callTool(id: number, name: string, args: ToolArguments): Promise<AgentStep> {
+    const startTime = Date.now();
+    const tool = this.tools.find(candidate => candidate.name === name);
+    if (!tool) {
+      return { id, tool: name, arguments: args, error: `Unknown tool "${name}"`, durationMs: 0 };
+    }
+
+    const problems = validateArguments(tool, args);
+    if (problems.length > 0) {
+      return { id, tool: name, arguments: args, error: problems.join('; '), durationMs: 0 };
+    }
+
+    try {
+      console.log(`🔧 [${id}] ${name} ${JSON.stringify(args)}`);
+      const result = await tool.run(args);
+      return { id, tool: name, arguments: args, result, durationMs: Date.now() - startTime };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`⚠️ [${id}] ${name} failed: ${message}`);
+      return { id, tool: name, arguments: args, error: message, durationMs: Date.now() - startTime };
+    }
+  }
+
+  private systemPrompt(): string {
+    const tools = this.tools.map(tool => {
+      const parameters = Object.entries(tool.parameters).map(([name, parameter]) =>
+        `    ${name} (${parameter.enum ? parameter.enum.map(value => `"${value}"`).join(' | ') : parameter.type}${parameter.required ? ', required' : ''}): ${parameter.description}`
+      );
+      return `- ${tool.name}: ${tool.description}\n${parameters.join('\n')}`;
+    }).join('\n');
+
+    return `You are TallyKaro AI, answering questions about a business's Tally accounts by calling tools.
+
+TOOLS:
+${tools}
+
+Periods are text such as "this month", "last month", "april 2024", "last quarter", "this year" or "2024-04-01 to 2024-04-30". Amounts are in rupees; debit balances are positive.
+
+Reply with exactly one JSON object and nothing else, either a tool call:
+{"tool": "get_sales", "arguments": {"period": "this month", "top": 5}}
+or, once the tool results answer the question, the answer:
+{"answer": "Text for the user with ₹ amounts, citing results like [1] and [2]", "citations": [1, 2]}
+
+Call one tool at a time. Use only numbers that appear in tool results; never guess figures. If the tools cannot answer, say so in the answer.`;
+  }
+
+  private transcript(question: string, steps: AgentStep[], mustAnswer: boolean): string {
+    const lines = [`QUESTION: ${question}`];
+    steps.forEach(step => {
+      const outcome = step.error ? { error: step.error } : step.result;
+      let json = JSON.stringify(outcome);
+      if (json && json.length > MAX_RESULT_CHARS) json = json.substring(0, MAX_RESULT_CHARS) + '... (truncated)';
+      lines.push(`\n[${step.id}] ${step.tool} ${JSON.stringify(step.arguments)}\n${json}`);
+    });
+    lines.push(mustAnswer
+      ? '\nNo more tool calls are allowed. Reply with the answer JSON now.'
+      : '\nReply with the next tool call or the answer JSON.');
+    return lines.join('\n');
+  }
+
+  private buildTools(): AgentTool[] {
+    return [
+      {
+        name: 'search_ledger',
+        description: 'Find ledgers (parties, banks, expense heads) whose name matches, with group and closing balance.',
+        parameters: {
+          query: { type: 'string', description: 'Part of the ledger name', required: true },
+          top: { type: 'number', description: `How many matches to return (default ${DEFAULT_TOP})` }
+        },
+        run: args => this.searchLedger(String(args.query), topOf(args.top))
+      },
+      {
+        name: 'get_ledger_statement',
+        description: 'Opening balance, debit and credit totals, closing balance and the latest vouchers of one ledger for a period.',
+        parameters: {
+          ledger: { type: 'string', description: 'Exact ledger name (use search_ledger first)', required: true },
+          period: { type: 'string', description: 'Period of the statement (default this financial year)' }
+        },
+        run: args => this.getLedgerStatement(String(args.ledger), textOf(args.period))
+      },
+      {
+        name: 'get_stock',
+        description: 'Stock items with closing quantity, rate and value, largest value first.',
+        parameters: {
+          item: { type: 'string', description: 'Part of the item or stock group name (omit for all items)' },
+          top: { type: 'number', description: `How many items to return (default ${DEFAULT_TOP})` }
+        },
+        run: args => this.getStock(textOf(args.item), topOf(args.top))
+      },
+      {
+        name: 'get_sales',
+        description: 'Sales (or purchase) vouchers in a period: total, voucher count and the top parties by amount.',
+        parameters: {
+          period: { type: 'string', description: 'Period to total', required: true },
+          voucher_type: { type: 'string', description: 'Which vouchers to total (default sales)', enum: ['sales', 'purchase'] },
+          party: { type: 'string', description: 'Only parties whose name contains this' },
+          top: { type: 'number', description: `How many parties to list (default ${DEFAULT_TOP})` }
+        },
+        run: args => this.getSales(String(args.period), String(args.voucher_type || 'sales').toLowerCase(), textOf(args.party), topOf(args.top))
+      },
+      {
+        name: 'compute_ageing',
+        description: 'Outstanding bills aged into 0-30, 31-60, 61-90 and 90+ day buckets, with the parties owing most.',
+        parameters: {
+          type: { type: 'string', description: 'Receivables (owed to us) or payables (we owe)', required: true, enum: ['receivable', 'payable'] },
+          party: { type: 'string', description: 'Only parties whose name contains this' },
+          top: { type: 'number', description: `How many parties to list (default ${DEFAULT_TOP})` }
+        },
+        run: args => this.computeAgeing(String(args.type).toLowerCase() as OutstandingType, textOf(args.party), topOf(args.top))
+      }
+    ];
+  }
+
+  // ==================== Tools ====================
+
+  private async searchLedger(query: string, top: number): Promise<LedgerSearchResult> {
+    const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 1);
+    const ledgers = await this.dataSource.getLedgers();
+
+    const scored = ledgers
+      .map(ledger => ({ ledger, score: words.filter(word => ledger.name.toLowerCase().includes(word)).length }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || Math.abs(b.ledger.closingBalance) - Math.abs(a.ledger.closingBalance));
+
+    return {
+      matches: scored.slice(0, top).map(({ ledger }) => ({
+        name: ledger.name,
+        group: ledger.parent,
+        closingBalance: round(ledger.closingBalance)
+      })),
+      totalMatches: scored.length
+    };
+  }
+
+  private async getLedgerStatement(ledger: string, period?: string): Promise<LedgerStatementSummary> {
+    const range = resolvePeriod(period || 'this financial year');
+    const statement = await this.ledgerStatementService.generateStatement(ledger, range.fromDate, range.toDate);
+
+    return {
+      ledger: statement.ledgerName,
+      period: range.description,
+      from: toISODateString(range.fromDate),
+      to: toISODateString(range.toDate),
+      openingBalance: round(statement.openingBalance),
+      totalDebit: round(statement.totalDebit),
+      totalCredit: round(statement.totalCredit),
+      closingBalance: round(statement.closingBalance),
+      voucherCount: statement.entries.length,
+      latestVouchers: statement.entries.slice(-10).map(entry => ({
+        date: toISODateString(entry.date),
+        type: entry.voucherType,
+        number: entry.voucherNumber,
+        particulars: entry.particulars,
+        debit: round(entry.debit),
+        credit: round(entry.credit)
+      })),
+      warnings: statement.warnings
+    };
+  }
+
+  private async getStock(item: string | undefined, top: number): Promise<StockSummary> {
+    const term = item ? item.toLowerCase() : '';
+    const items = (await this.dataSource.getStockItems())
+      .filter(stock => !term || stock.name.toLowerCase().includes(term) || stock.parent.toLowerCase().includes(term))
+      .sort((a, b) => b.closingValue - a.closingValue);
+
+    return {
+      items: items.slice(0, top).map(stock => ({
+        name: stock.name,
+        group: stock.parent,
+        quantity: stock.closingQuantity,
+        unit: stock.unit,
+        rate: round(stock.closingRate),
+        value: round(stock.closingValue)
+      })),
+      totalItems: items.length,
+      totalValue: round(items.reduce((sum, stock) => sum + stock.closingValue, 0))
+    };
+  }
+
+  private async getSales(period: string, voucherType: string, party: string | undefined, top: number): Promise<SalesSummary> {
+    const range = resolvePeriod(period);
+    const term = party ? party.toLowerCase() : '';
+    const vouchers = (await this.dataSource.getVouchers(range.fromDate, range.toDate, voucherType))
+      // Orders are commitments, not sales or purchases
+      .filter(voucher => !voucher.voucherType.toLowerCase().includes('order'))
+      .filter(voucher => !term || voucher.partyName.toLowerCase().includes(term));
+
+    const byParty = new Map<string, { amount: number; vouchers: number }>();
+    vouchers.forEach(voucher => {
+      const totals = byParty.get(voucher.partyName) || { amount: 0, vouchers: 0 };
+      totals.amount += voucher.amount;
+      totals.vouchers++;
+      byParty.set(voucher.partyName, totals);
+    });
+
+    return {
+      voucherType,
+      period: range.description,
+      from: toISODateString(range.fromDate),
+      to: toISODateString(range.toDate),
+      total: round(vouchers.reduce((sum, voucher) => sum + voucher.amount, 0)),
+      voucherCount: vouchers.length,
+      partyCount: byParty.size,
+      topParties: Array.from(byParty.entries())
+        .sort((a, b) => b[1].amount - a[1].amount)
+        .slice(0, top)
+        .map(([name, totals]) => ({ party: name, amount: round(totals.amount), vouchers: totals.vouchers }))
+    };
+  }
+
+  private async computeAgeing(type: OutstandingType, party: string | undefined, top: number): Promise<AgeingSummary> {
+    const report = await this.ageingService.generateAgeing(type);
+    const term = party ? party.toLowerCase() : '';
+    const parties = report.parties.filter(entry => !term || entry.partyName.toLowerCase().includes(term));
+
+    return {
+      type,
+      asAt: toISODateString(report.asAt),
+      total: round(report.total),
+      buckets: report.buckets,
+      billWise: report.billWise,
+      parties: parties.slice(0, top).map(entry => ({
+        party: entry.partyName,
+        total: round(entry.total),
+        buckets: entry.buckets,
+        maxOverdueDays: entry.maxOverdueDays
+      })),
+      warnings: report.warnings
+    };
+  }
+}
+
+/**
+ * Multi-step questions: comparisons across periods or against each other
+ */
+export function isMultiStepQuery(query: string): boolean {
+  return /\b(?:compare|comparison|compared|vs\.?|versus|against last|growth|change from|difference between|mukabla|mukable|tulna)\b/i.test(query);
+}
+
+/**
+ * The reply's JSON object, or null when it is neither a tool call nor an answer
+ */
+function parseReply(text: string): AgentReply | null {
+  const match = (text || '').match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const reply: AgentReply = JSON.parse(match[0]);
+    if (typeof reply.answer === 'string' || typeof reply.tool === 'string') return reply;
+  } catch (error) {
+    // Not JSON; the gateway asks the next provider
+    console.log('⚠️ Agent reply is not valid JSON:', error instanceof Error ? error.message : error);
+  }
+  return null;
+}
+
+function citedSteps(citations: unknown, steps: AgentStep[]): AgentCitation[] {
+  const ids = Array.isArray(citations) ? citations.map(Number) : [];
+  return steps
+    .filter(step => ids.includes(step.id) && !step.error)
+    .map(step => ({ id: step.id, tool: step.tool, arguments: step.arguments }));
+}
+
+function validateArguments(tool: AgentTool, args: ToolArguments): string[] {
+  if (!args || typeof args !== 'object' || Array.isArray(args)) return ['arguments must be an object'];
+
+  const problems: string[] = [];
+  Object.entries(tool.parameters).forEach(([name, parameter]) => {
+    const value = args[name];
+    if (value === undefined || value === null || value === '') {
+      if (parameter.required) problems.push(`${name} is required`);
+      return;
+    }
+    if (parameter.type === 'number' && !Number.isFinite(Number(value))) {
+      problems.push(`${name} must be a number`);
+    }
+    if (parameter.enum && !parameter.enum.includes(String(value).toLowerCase())) {
+      problems.push(`${name} must be one of ${parameter.enum.join(', ')}`);
+    }
+  });
+  Object.keys(args).forEach(name => {
+    if (!tool.parameters[name]) problems.push(`unknown argument ${name}`);
+  });
+  return problems;
+}
+
+function resolvePeriod(period: string) {
+  const range = parseDateExpression(String(period));
+  if (!range) {
+    throw new Error(`Could not understand the period "${period}"`);
+  }
+  return range;
+}
+
+function textOf(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function topOf(value: unknown): number {
+  const top = Math.floor(Number(value));
+  return top > 0 ? Math.min(top, 50) : DEFAULT_TOP;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,303 @@
+/**
+ * Tally Change Tracker
+ * Keeps $AlterID / $MasterID high-water marks per company and collection so syncs only
+ * fetch what was created, altered or deleted in Tally since the last successful run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { TallyQueryResult } from './tally-services';
+
+// Anything that can run Tally ODBC SQL: TallyService or a TallyDataSource
+export interface TallyQueryExecutor {
+  executeQuery(sql: string): Promise<TallyQueryResult>;
+}
+
+/**
+ * Company-wide counters: Tally bumps $AltVchID on every voucher create/alter/delete
+ * and $AltMstId on every master change
+ */
+export interface CompanyAlterIds {
+  company: string;
+  voucherAlterId: number;
+  masterAlterId: number;
+}
+
+export interface TrackedCollection {
+  name: string;
+  table: string;
+  fields: string[];
+  where?: string;
+  // Which company counter moves when this collection changes
+  tracks: 'vouchers' | 'masters' | 'both';
+  // Row-level deltas; off for collections whose computed balances change without an alteration
+  incremental: boolean;
+  // Identity the caller deletes by (defaults to the $MasterID)
+  keyOf?: (row: Record<string, any>) => string;
+}
+
+export type ChangeSetMode = 'unchanged' | 'full' | 'incremental';
+
+export interface ChangeSet {
+  collection: string;
+  company: string;
+  mode: ChangeSetMode;
+  // Every row for 'full', only new and altered rows for 'incremental'
+  rows: Record<string, any>[];
+  // Keys removed since the last commit, including the old identity of renumbered vouchers
+  deletedKeys: string[];
+  watermark: CollectionWatermark | null;
+}
+
+interface CollectionWatermark {
+  companyAlterId?: number;
+  maxAlterId: number;
+  keys: { [masterId: string]: string };
+  syncedAt: string;
+}
+
+interface WatermarkState {
+  [company: string]: { [collection: string]: CollectionWatermark };
+}
+
+const DEFAULT_COMPANY = 'default';
+
+export class TallyChangeTracker {
+  private statePath: string | null;
+  private _state: WatermarkState | null = null;
+
+  constructor(statePath?: string) {
+    this.statePath = statePath || null;
+  }
+
+  private get state(): WatermarkState {
+    if (!this._state) {
+      if (!this.statePath) {
+        this.statePath = path.join(app.getPath('userData'), 'tally-sync-watermarks.json');
+      }
+      this._state = this.loadState();
+    }
+    return this._state;
+  }
+
+  /**
+   * Current company counters, or null when the source cannot report them (XML, demo, old Tally)
+   */
+  async getCompanyAlterIds(executor: TallyQueryExecutor): Promise<CompanyAlterIds | null> {
+    try {
+      const result = await executor.executeQuery('SELECT $Name, $AltVchID, $AltMstId FROM Company');
+      const row = result.success && result.data ? result.data[0] : undefined;
+      if (!row) return null;
+
+      const voucherAlterId = parseId(fieldValue(row, '$AltVchID'));
+      const masterAlterId = parseId(fieldValue(row, '$AltMstId'));
+      if (voucherAlterId === undefined || masterAlterId === undefined) return null;
+
+      return { company: String(fieldValue(row, '$Name') || DEFAULT_COMPANY), voucherAlterId, masterAlterId };
+    } catch (error) {
+      console.log('Company alter IDs not available:', error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Work out what changed since the last commit. The watermark only moves once the
+   * caller has written the change set and calls commit().
+   *
+   * @param scope - Separates watermarks for the same collection synced to different targets (e.g. client id)
+   */
+  async detectChanges(executor: TallyQueryExecutor, collection: TrackedCollection, scope?: string): Promise<ChangeSet> {
+    const marks = await this.getCompanyAlterIds(executor);
+    const company = marks?.company || DEFAULT_COMPANY;
+    const key = scope ? `${collection.name}:${scope}` : collection.name;
+    const previous = this.state[company]?.[key];
+    const companyAlterId = marks ? companyCounter(collection.tracks, marks) : undefined;
+
+    if (previous && companyAlterId !== undefined && previous.companyAlterId === companyAlterId) {
+      console.log(`🔁 ${collection.name}: no changes in ${company} since ${previous.syncedAt}`);
+      return { collection: key, company, mode: 'unchanged', rows: [], deletedKeys: [], watermark: { ...previous, syncedAt: new Date().toISOString() } };
+    }
+
+    if (previous && collection.incremental && previous.maxAlterId > 0) {
+      const incremental = await this.fetchIncremental(executor, collection, previous, companyAlterId);
+      if (incremental) {
+        console.log(`🔁 ${collection.name}: ${incremental.rows.length} changed, ${incremental.deletedKeys.length} deleted since AlterID ${previous.maxAlterId}`);
+        return { collection: key, company, ...incremental };
+      }
+      console.log(`⚠️ ${collection.name}: incremental fetch not possible, falling back to a full sync`);
+    }
+
+    const fields = collection.incremental ? ['$MasterID', '$AlterID', ...collection.fields] : collection.fields;
+    const rows = await this.runQuery(executor, buildSelect(collection, fields));
+    const keys: { [masterId: string]: string } = {};
+    let maxAlterId = 0;
+    let tracked = true;
+
+    rows.forEach(row => {
+      if (!collection.incremental) return;
+      const masterId = parseId(fieldValue(row, '$MasterID'));
+      const alterId = parseId(fieldValue(row, '$AlterID'));
+      if (masterId === undefined || alterId === undefined) {
+        tracked = false;
+        return;
+      }
+      keys[masterId] = keyFor(collection, row, masterId);
+      maxAlterId = Math.max(maxAlterId, alterId);
+    });
+
+    return {
+      collection: key,
+      company,
+      mode: 'full',
+      rows,
+      deletedKeys: [],
+      // Without IDs on every row the next run has to be a full sync again
+      watermark: tracked ? { companyAlterId, maxAlterId, keys, syncedAt: new Date().toISOString() } : null
+    };
+  }
+
+  /**
+   * Persist the change set's watermark after its rows were written successfully
+   */
+  commit(changeSet: ChangeSet): void {
+    if (!changeSet.watermark) return;
+    if (!this.state[changeSet.company]) {
+      this.state[changeSet.company] = {};
+    }
+    this.state[changeSet.company][changeSet.collection] = changeSet.watermark;
+    this.saveState();
+  }
+
+  /**
+   * Forget watermarks so the next run is a full sync
+   */
+  reset(collection?: string): void {
+    Object.keys(this.state).forEach(company => {
+      if (!collection) {
+        delete this.state[company];
+        return;
+      }
+      Object.keys(this.state[company])
+        .filter(key => key === collection || key.startsWith(`${collection}:`))
+        .forEach(key => delete this.state[company][key]);
+    });
+    this.saveState();
+  }
+
+  private async fetchIncremental(
+    executor: TallyQueryExecutor,
+    collection: TrackedCollection,
+    previous: CollectionWatermark,
+    companyAlterId?: number
+  ): Promise<Pick<ChangeSet, 'mode' | 'rows' | 'deletedKeys' | 'watermark'> | null> {
+    const changed = await this.runQuery(executor, buildSelect(
+      collection,
+      ['$MasterID', '$AlterID', ...collection.fields],
+      `$AlterID > ${previous.maxAlterId}`
+    ));
+    const present = await this.runQuery(executor, buildSelect(collection, ['$MasterID']));
+
+    const presentIds = new Set<string>();
+    for (const row of present) {
+      const masterId = parseId(fieldValue(row, '$MasterID'));
+      // A source that drops $MasterID would make every row look deleted
+      if (masterId === undefined) return null;
+      presentIds.add(String(masterId));
+    }
+
+    const keys = { ...previous.keys };
+    const deletedKeys: string[] = [];
+    Object.keys(keys).forEach(masterId => {
+      if (!presentIds.has(masterId)) {
+        deletedKeys.push(keys[masterId]);
+        delete keys[masterId];
+      }
+    });
+
+    let maxAlterId = previous.maxAlterId;
+    for (const row of changed) {
+      const masterId = parseId(fieldValue(row, '$MasterID'));
+      const alterId = parseId(fieldValue(row, '$AlterID'));
+      if (masterId === undefined || alterId === undefined) return null;
+
+      const rowKey = keyFor(collection, row, masterId);
+      if (keys[masterId] && keys[masterId] !== rowKey) {
+        deletedKeys.push(keys[masterId]);
+      }
+      keys[masterId] = rowKey;
+      maxAlterId = Math.max(maxAlterId, alterId);
+    }
+
+    return {
+      mode: 'incremental',
+      rows: changed,
+      deletedKeys,
+      watermark: { companyAlterId, maxAlterId, keys, syncedAt: new Date().toISOString() }
+    };
+  }
+
+  private async runQuery(executor: TallyQueryExecutor, sql: string): Promise<Record<string, any>[]> {
+    const result = await executor.executeQuery(sql);
+    if (!result.success) {
+      throw new Error(result.error || 'Query failed');
+    }
+    return result.data || [];
+  }
+
+  private loadState(): WatermarkState {
+    try {
+      if (this.statePath && fs.existsSync(this.statePath)) {
+        const saved = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+        if (saved && typeof saved === 'object') return saved;
+      }
+    } catch (error) {
+      console.error('Error loading sync watermarks:', error);
+    }
+    return {};
+  }
+
+  private saveState(): void {
+    try {
+      fs.writeFileSync(this.statePath!, JSON.stringify(this._state, null, 2));
+    } catch (error) {
+      console.error('Error saving sync watermarks:', error);
+    }
+  }
+}
+
+function buildSelect(collection: TrackedCollection, fields: string[], extraCondition?: string): string {
+  const conditions = [collection.where, extraCondition].filter(Boolean);
+  const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+  return `SELECT ${fields.join(', ')} FROM ${collection.table}${where}`;
+}
+
+/**
+ * The company counter that moves when a collection with the given dependency changes
+ */
+export function companyCounter(tracks: TrackedCollection['tracks'], marks: CompanyAlterIds): number {
+  if (tracks === 'vouchers') return marks.voucherAlterId;
+  if (tracks === 'masters') return marks.masterAlterId;
+  // Both counters only ever grow, so their sum moves whenever either one does
+  return marks.voucherAlterId + marks.masterAlterId;
+}
+
+function keyFor(collection: TrackedCollection, row: Record<string, any>, masterId: number): string {
+  return collection.keyOf ? collection.keyOf(row) : String(masterId);
+}
+
+// ODBC field names are case-insensitive and drivers differ in what they return
+function fieldValue(row: Record<string, any>, field: string): any {
+  if (field in row) return row[field];
+  const bare = field.replace(/^\$/, '').toLowerCase();
+  const key = Object.keys(row).find(candidate => candidate.replace(/^\$/, '').toLowerCase() === bare);
+  return key ? row[key] : undefined;
+}
+
+function parseId(value: any): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === '') return undefined;
+  const id = parseInt(String(value).trim(), 10);
+  return isNaN(id) ? undefined : id;
+}
+
+export const tallyChangeTracker = new TallyChangeTracker();
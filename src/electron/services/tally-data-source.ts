@@ -0,0 +1,659 @@
+/**
+ * Tally Data Source
+ * One interface over every way TallyKaro can read a company's books (ODBC, XML API,
+ * Python bridge, demo data). Report services depend on this instead of TallyService.
+ */
+
+import { TallyQueryResult } from './tally-services';
+import { parseTallyAmount } from './group-hierarchy-service';
+
+export type DataSourceKind = 'odbc' | 'xml' | 'bridge' | 'demo';
+
+export const DATA_SOURCE_KINDS: DataSourceKind[] = ['odbc', 'xml', 'bridge', 'demo'];
+
+export interface DataSourceCompany {
+  name: string;
+  address?: string;
+  stateName?: string;
+  gstin?: string;
+  booksFrom?: Date;
+}
+
+export interface DataSourceLedger {
+  name: string;
+  parent: string;
+  openingBalance: number; // Dr-positive
+  closingBalance: number; // Dr-positive
+}
+
+export interface DataSourceGroup {
+  name: string;
+  parent: string;
+}
+
+export interface DataSourceStockItem {
+  name: string;
+  parent: string;
+  unit: string;
+  openingValue: number;
+  closingQuantity: number;
+  closingRate: number;
+  closingValue: number;
+}
+
+export interface DataSourceVoucher {
+  date: Date;
+  voucherNumber: string;
+  voucherType: string;
+  partyName: string;
+  amount: number;
+  reference?: string;
+  narration?: string;
+}
+
+export interface DataSourceBill {
+  partyName: string;
+  billReference: string;
+  billDate?: Date;
+  dueDate?: Date;
+  amount: number; // Dr-positive: receivables > 0, payables < 0
+}
+
+export interface TallyDataSource {
+  readonly kind: DataSourceKind;
+  isConnected(): boolean;
+
+  /**
+   * Raw Tally ODBC SQL. Sources without ODBC answer the common single-table
+   * SELECTs (Ledger, Group, StockItem, Company, vouchers, bills) from their own data.
+   */
+  executeQuery(sql: string): Promise<TallyQueryResult>;
+
+  getCompany(): Promise<DataSourceCompany | null>;
+  getLedgers(): Promise<DataSourceLedger[]>;
+  getGroups(): Promise<DataSourceGroup[]>;
+  getStockItems(): Promise<DataSourceStockItem[]>;
+  getVouchers(fromDate: Date, toDate: Date, voucherType?: string): Promise<DataSourceVoucher[]>;
+  getOutstandingBills(asAt: Date): Promise<DataSourceBill[]>;
+}
+
+/**
+ * Sources that speak Tally ODBC SQL (directly or through the bridge): the typed
+ * accessors are plain queries over the ODBC collections
+ */
+export abstract class SqlDataSource implements TallyDataSource {
+  abstract readonly kind: DataSourceKind;
+  abstract isConnected(): boolean;
+  abstract executeQuery(sql: string): Promise<TallyQueryResult>;
+
+  async getCompany(): Promise<DataSourceCompany | null> {
+    const result = await this.executeFirstSuccessful([
+      'SELECT $Name, $Address, $StateName, $GSTRegistrationNumber, $BooksFrom FROM Company',
+      'SELECT $Name FROM Company'
+    ]);
+    const row = result[0];
+    if (!row) return null;
+
+    return {
+      name: String(row.$Name || row.Name || ''),
+      address: row.$Address ? String(row.$Address) : undefined,
+      stateName: row.$StateName ? String(row.$StateName) : undefined,
+      gstin: row.$GSTRegistrationNumber ? String(row.$GSTRegistrationNumber) : undefined,
+      booksFrom: parseSourceDate(row.$BooksFrom)
+    };
+  }
+
+  async getLedgers(): Promise<DataSourceLedger[]> {
+    const rows = await this.query('SELECT $Name, $Parent, $OpeningBalance, $ClosingBalance FROM Ledger');
+    return rows.map(row => ({
+      name: String(row.$Name || row.Name || ''),
+      parent: String(row.$Parent || row.Parent || ''),
+      openingBalance: parseTallyAmount(row.$OpeningBalance),
+      closingBalance: parseTallyAmount(row.$ClosingBalance)
+    }));
+  }
+
+  async getGroups(): Promise<DataSourceGroup[]> {
+    const rows = await this.executeFirstSuccessful(['SELECT $Name, $Parent FROM Group', 'SELECT $Name, $Parent FROM Groups']);
+    return rows.map(row => ({
+      name: String(row.$Name || row.Name || ''),
+      parent: String(row.$Parent || row.Parent || '')
+    }));
+  }
+
+  async getStockItems(): Promise<DataSourceStockItem[]> {
+    const rows = await this.query('SELECT $Name, $Parent, $BaseUnits, $OpeningValue, $ClosingBalance, $ClosingRate, $ClosingValue FROM StockItem');
+    return rows.map(row => ({
+      name: String(row.$Name || row.Name || ''),
+      parent: String(row.$Parent || row.Parent || ''),
+      unit: String(row.$BaseUnits || ''),
+      openingValue: Math.abs(parseTallyAmount(row.$OpeningValue)),
+      closingQuantity: parseTallyAmount(row.$ClosingBalance),
+      closingRate: Math.abs(parseTallyAmount(row.$ClosingRate)),
+      closingValue: Math.abs(parseTallyAmount(row.$ClosingValue))
+    }));
+  }
+
+  async getVouchers(fromDate: Date, toDate: Date, voucherType?: string): Promise<DataSourceVoucher[]> {
+    const rows = await this.query(
+      'SELECT $Date, $VoucherNumber, $Reference, $VoucherTypeName, $PartyLedgerName, $$CollectionField:$Amount:1:LedgerEntries FROM RTSAllVouchers'
+    );
+
+    const vouchers: DataSourceVoucher[] = [];
+    rows.forEach(row => {
+      const date = parseSourceDate(row.$Date);
+      const type = String(row.$VoucherTypeName || row.$VouchertypeName || '');
+      if (!date || !isWithinPeriod(date, fromDate, toDate)) return;
+      if (voucherType && !type.toLowerCase().includes(voucherType.toLowerCase())) return;
+
+      vouchers.push({
+        date,
+        voucherNumber: String(row.$VoucherNumber || ''),
+        voucherType: type,
+        partyName: String(row.$PartyLedgerName || ''),
+        amount: Math.abs(parseTallyAmount(row['$$CollectionField:$Amount:1:LedgerEntries'])),
+        reference: row.$Reference ? String(row.$Reference) : undefined
+      });
+    });
+    return vouchers;
+  }
+
+  async getOutstandingBills(asAt: Date): Promise<DataSourceBill[]> {
+    const rows = await this.query(
+      'SELECT $LedgerName, $BillName, $BillDate, $DueDate, $ClosingBalance FROM LedgerOutstandings WHERE $ClosingBalance <> 0'
+    );
+
+    return rows
+      .map(row => {
+        const billDate = parseSourceDate(row.$BillDate);
+        return {
+          partyName: String(row.$LedgerName || 'Unknown Party'),
+          billReference: String(row.$BillName || 'On Account'),
+          billDate,
+          dueDate: parseSourceDate(row.$DueDate) || billDate,
+          amount: parseTallyAmount(row.$ClosingBalance)
+        };
+      })
+      .filter(bill => bill.amount !== 0 && (!bill.billDate || bill.billDate.getTime() <= asAt.getTime()));
+  }
+
+  protected async query(sql: string): Promise<any[]> {
+    const result = await this.executeQuery(sql);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || `${this.kind} query failed`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Collection and field names differ between Tally releases, so try the variants in order
+   */
+  private async executeFirstSuccessful(queries: string[]): Promise<any[]> {
+    let lastError = '';
+    for (const sql of queries) {
+      const result = await this.executeQuery(sql);
+      if (result.success && result.data) return result.data;
+      lastError = result.error || '';
+    }
+    throw new Error(lastError || `${this.kind} query failed`);
+  }
+}
+
+/**
+ * Sources without ODBC: raw SQL is answered by evaluating simple single-table
+ * SELECTs over rows built from the typed accessors, so existing report SQL keeps working
+ */
+export abstract class TableDataSource implements TallyDataSource {
+  abstract readonly kind: DataSourceKind;
+  abstract isConnected(): boolean;
+  abstract getCompany(): Promise<DataSourceCompany | null>;
+  abstract getLedgers(): Promise<DataSourceLedger[]>;
+  abstract getGroups(): Promise<DataSourceGroup[]>;
+  abstract getStockItems(): Promise<DataSourceStockItem[]>;
+  abstract getVouchers(fromDate: Date, toDate: Date, voucherType?: string): Promise<DataSourceVoucher[]>;
+  abstract getOutstandingBills(asAt: Date): Promise<DataSourceBill[]>;
+
+  /**
+   * Period used when SQL asks for vouchers without dates (the current financial year)
+   */
+  protected abstract getDefaultPeriod(): Promise<{ from: Date; to: Date }>;
+
+  async executeQuery(sql: string): Promise<TallyQueryResult> {
+    const startTime = Date.now();
+
+    try {
+      const parsed = parseSelect(sql);
+      const rows = await this.loadTable(parsed.table);
+      if (!rows) {
+        throw new Error(`Table ${parsed.table} is not available from the ${this.kind} data source`);
+      }
+
+      const data = runSelect(parsed, rows);
+      return {
+        success: true,
+        data,
+        rowCount: data.length,
+        executionTime: Date.now() - startTime,
+        query: sql,
+        timestamp: new Date().toISOString()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        executionTime: Date.now() - startTime,
+        query: sql,
+        timestamp: new Date().toISOString()
+      };
+    }
+  }
+
+  /**
+   * Rows for an ODBC collection, keyed by $Field the way the ODBC driver returns them
+   */
+  private async loadTable(table: string): Promise<Record<string, any>[] | null> {
+    switch (table.toLowerCase()) {
+      case 'company': {
+        const company = await this.getCompany();
+        return company ? [{
+          $Name: company.name,
+          $Address: company.address,
+          $StateName: company.stateName,
+          $GSTRegistrationNumber: company.gstin,
+          $BooksFrom: company.booksFrom
+        }] : [];
+      }
+      case 'ledger':
+        return (await this.getLedgers()).map(ledger => ({
+          $Name: ledger.name,
+          $Parent: ledger.parent,
+          $OpeningBalance: ledger.openingBalance,
+          $ClosingBalance: ledger.closingBalance
+        }));
+      case 'group':
+      case 'groups':
+        return (await this.getGroups()).map(group => ({ $Name: group.name, $Parent: group.parent }));
+      case 'stockitem':
+      case 'listofstockitems':
+        return (await this.getStockItems()).map(item => ({
+          $Name: item.name,
+          $Parent: item.parent,
+          $StockGroup: item.parent,
+          $BaseUnits: item.unit,
+          $OpeningValue: item.openingValue,
+          $ClosingBalance: item.closingQuantity,
+          $ClosingRate: item.closingRate,
+          $ClosingValue: item.closingValue
+        }));
+      case 'voucher':
+      case 'vouchers':
+      case 'rtsallvouchers': {
+        const period = await this.getDefaultPeriod();
+        return (await this.getVouchers(period.from, period.to)).map(voucher => ({
+          $Date: voucher.date,
+          $VoucherNumber: voucher.voucherNumber,
+          $VoucherTypeName: voucher.voucherType,
+          $PartyLedgerName: voucher.partyName,
+          $Amount: voucher.amount,
+          $Reference: voucher.reference,
+          $Narration: voucher.narration
+        }));
+      }
+      case 'ledgeroutstandings':
+        return (await this.getOutstandingBills(new Date())).map(bill => ({
+          $LedgerName: bill.partyName,
+          $BillName: bill.billReference,
+          $BillDate: bill.billDate,
+          $DueDate: bill.dueDate,
+          $ClosingBalance: bill.amount
+        }));
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * ODBC dates arrive as Date objects, YYYYMMDD strings or display strings
+ */
+export function parseSourceDate(value: any): Date | undefined {
+  if (!value || value === '—') return undefined;
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+
+  const str = String(value).trim();
+  const compact = str.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) {
+    return new Date(parseInt(compact[1]), parseInt(compact[2]) - 1, parseInt(compact[3]));
+  }
+
+  // ISO dates are local calendar dates, not UTC midnight
+  const iso = str.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    return new Date(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+  }
+
+  const parsed = new Date(str);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+export function isWithinPeriod(date: Date, fromDate: Date, toDate: Date): boolean {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const from = new Date(fromDate.getFullYear(), fromDate.getMonth(), fromDate.getDate()).getTime();
+  const to = new Date(toDate.getFullYear(), toDate.getMonth(), toDate.getDate()).getTime();
+  return day >= from && day <= to;
+}
+
+// ==================== IN-MEMORY SELECT ====================
+
+type Operand =
+  | { kind: 'field'; name: string }
+  | { kind: 'literal'; value: string | number }
+  | { kind: 'abs'; operand: Operand };
+
+type Condition =
+  | { kind: 'and' | 'or'; left: Condition; right: Condition }
+  | { kind: 'not'; condition: Condition }
+  | { kind: 'compare'; operator: string; left: Operand; right: Operand }
+  | { kind: 'like'; operand: Operand; pattern: RegExp; negated: boolean }
+  | { kind: 'in'; operand: Operand; values: Operand[]; negated: boolean };
+
+interface ParsedSelect {
+  distinct: boolean;
+  columns: { operand: Operand; alias: string }[] | '*';
+  table: string;
+  where?: Condition;
+  orderBy: { operand: Operand; descending: boolean }[];
+  limit?: number;
+}
+
+const SELECT_PATTERN = /^\s*SELECT\s+(DISTINCT\s+)?([\s\S]+?)\s+FROM\s+([A-Za-z_][\w]*)([\s\S]*)$/i;
+
+/**
+ * Parse the SELECT subset the report services use:
+ * columns with aliases, WHERE with AND/OR/NOT, =, <>, !=, <, >, LIKE and IN, ORDER BY (with ABS) and LIMIT
+ */
+function parseSelect(sql: string): ParsedSelect {
+  const match = sql.trim().replace(/;\s*$/, '').match(SELECT_PATTERN);
+  if (!match) throw new Error('Only SELECT ... FROM <table> queries are supported');
+
+  let rest = match[4];
+  let limit: number | undefined;
+  const limitMatch = rest.match(/\s+LIMIT\s+(\d+)\s*$/i);
+  if (limitMatch) {
+    limit = parseInt(limitMatch[1], 10);
+    rest = rest.slice(0, limitMatch.index);
+  }
+
+  let orderBy: ParsedSelect['orderBy'] = [];
+  const orderMatch = rest.match(/\s+ORDER\s+BY\s+([\s\S]+)$/i);
+  if (orderMatch) {
+    orderBy = splitTopLevel(orderMatch[1]).map(term => {
+      const descending = /\s+DESC$/i.test(term);
+      return { operand: parseOperand(term.replace(/\s+(ASC|DESC)$/i, '')), descending };
+    });
+    rest = rest.slice(0, orderMatch.index);
+  }
+
+  let where: Condition | undefined;
+  const whereMatch = rest.match(/^\s+WHERE\s+([\s\S]+)$/i);
+  if (whereMatch) {
+    where = new ConditionParser(whereMatch[1]).parse();
+  } else if (rest.trim()) {
+    throw new Error(`Unsupported clause: ${rest.trim()}`);
+  }
+
+  const columnList = match[2].trim();
+  const columns = columnList === '*' ? '*' : splitTopLevel(columnList).map(column => {
+    const aliasMatch = column.match(/^([\s\S]+?)\s+AS\s+([\w$]+)$/i);
+    const expression = aliasMatch ? aliasMatch[1].trim() : column.trim();
+    return { operand: parseOperand(expression), alias: aliasMatch ? aliasMatch[2] : expression };
+  });
+
+  return { distinct: !!match[1], columns, table: match[3], where, orderBy, limit };
+}
+
+function runSelect(parsed: ParsedSelect, rows: Record<string, any>[]): Record<string, any>[] {
+  const result = parsed.where ? rows.filter(row => evaluateCondition(parsed.where!, row)) : rows.slice();
+
+  if (parsed.orderBy.length > 0) {
+    result.sort((a, b) => {
+      for (const term of parsed.orderBy) {
+        const order = compareValues(evaluateOperand(term.operand, a), evaluateOperand(term.operand, b));
+        if (order !== 0) return term.descending ? -order : order;
+      }
+      return 0;
+    });
+  }
+
+  let projected = parsed.columns === '*'
+    ? result.map(row => ({ ...row }))
+    : result.map(row => {
+      const out: Record<string, any> = {};
+      (parsed.columns as { operand: Operand; alias: string }[]).forEach(column => {
+        out[column.alias] = evaluateOperand(column.operand, row);
+      });
+      return out;
+    });
+
+  if (parsed.distinct) {
+    const seen = new Set<string>();
+    projected = projected.filter(row => {
+      const key = JSON.stringify(row);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  return parsed.limit !== undefined ? projected.slice(0, parsed.limit) : projected;
+}
+
+function parseOperand(text: string): Operand {
+  const trimmed = text.trim();
+  const abs = trimmed.match(/^ABS\s*\(([\s\S]+)\)$/i);
+  if (abs) return { kind: 'abs', operand: parseOperand(abs[1]) };
+  if (/^\$[\w]+$/.test(trimmed)) return { kind: 'field', name: trimmed };
+  if (/^'([\s\S]*)'$/.test(trimmed)) return { kind: 'literal', value: trimmed.slice(1, -1).replace(/''/g, "'") };
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return { kind: 'literal', value: parseFloat(trimmed) };
+  throw new Error(`Unsupported expression: ${trimmed}`);
+}
+
+function evaluateOperand(operand: Operand, row: Record<string, any>): any {
+  switch (operand.kind) {
+    case 'literal':
+      return operand.value;
+    case 'abs':
+      return Math.abs(parseTallyAmount(evaluateOperand(operand.operand, row)));
+    case 'field': {
+      if (operand.name in row) return row[operand.name];
+      // ODBC field names are case-insensitive ($VouchertypeName, $PARENT)
+      const key = Object.keys(row).find(candidate => candidate.toLowerCase() === operand.name.toLowerCase());
+      return key ? row[key] : undefined;
+    }
+  }
+}
+
+function evaluateCondition(condition: Condition, row: Record<string, any>): boolean {
+  switch (condition.kind) {
+    case 'and':
+      return evaluateCondition(condition.left, row) && evaluateCondition(condition.right, row);
+    case 'or':
+      return evaluateCondition(condition.left, row) || evaluateCondition(condition.right, row);
+    case 'not':
+      return !evaluateCondition(condition.condition, row);
+    case 'like': {
+      const matched = condition.pattern.test(String(evaluateOperand(condition.operand, row) ?? ''));
+      return condition.negated ? !matched : matched;
+    }
+    case 'in': {
+      const value = evaluateOperand(condition.operand, row);
+      const found = condition.values.some(candidate => compareValues(value, evaluateOperand(candidate, row)) === 0);
+      return condition.negated ? !found : found;
+    }
+    case 'compare': {
+      const order = compareValues(evaluateOperand(condition.left, row), evaluateOperand(condition.right, row));
+      switch (condition.operator) {
+        case '=': return order === 0;
+        case '<>':
+        case '!=': return order !== 0;
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        case '>=': return order >= 0;
+      }
+      return false;
+    }
+  }
+}
+
+/**
+ * Numbers compare numerically, dates by time, everything else case-insensitively (like Tally)
+ */
+function compareValues(a: any, b: any): number {
+  if (a instanceof Date || b instanceof Date) {
+    const left = parseSourceDate(a)?.getTime() ?? 0;
+    const right = parseSourceDate(b)?.getTime() ?? 0;
+    return left - right;
+  }
+  if (typeof a === 'number' || typeof b === 'number') {
+    return parseTallyAmount(a) - parseTallyAmount(b);
+  }
+  return String(a ?? '').toLowerCase().localeCompare(String(b ?? '').toLowerCase());
+}
+
+/**
+ * Split on commas that are not inside quotes or parentheses
+ */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Recursive-descent parser for WHERE clauses (OR binds loosest, then AND, then NOT)
+ */
+class ConditionParser {
+  private tokens: string[];
+  private position = 0;
+
+  constructor(text: string) {
+    this.tokens = text.match(/'(?:[^']|'')*'|<>|!=|<=|>=|[=<>(),]|ABS\s*\(|[^\s'=<>!(),]+/gi) || [];
+  }
+
+  parse(): Condition {
+    const condition = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected "${this.tokens[this.position]}" in WHERE clause`);
+    }
+    return condition;
+  }
+
+  private parseOr(): Condition {
+    let left = this.parseAnd();
+    while (this.peekKeyword('OR')) {
+      this.position++;
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Condition {
+    let left = this.parseNot();
+    while (this.peekKeyword('AND')) {
+      this.position++;
+      left = { kind: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Condition {
+    if (this.peekKeyword('NOT')) {
+      this.position++;
+      return { kind: 'not', condition: this.parseNot() };
+    }
+    if (this.tokens[this.position] === '(') {
+      this.position++;
+      const condition = this.parseOr();
+      this.expect(')');
+      return condition;
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Condition {
+    const left = this.parseOperandToken();
+    let negated = false;
+    if (this.peekKeyword('NOT')) {
+      negated = true;
+      this.position++;
+    }
+
+    if (this.peekKeyword('LIKE')) {
+      this.position++;
+      const pattern = this.parseOperandToken();
+      if (pattern.kind !== 'literal') throw new Error('LIKE needs a quoted pattern');
+      return { kind: 'like', operand: left, pattern: likeToRegExp(String(pattern.value)), negated };
+    }
+
+    if (this.peekKeyword('IN')) {
+      this.position++;
+      this.expect('(');
+      const values: Operand[] = [this.parseOperandToken()];
+      while (this.tokens[this.position] === ',') {
+        this.position++;
+        values.push(this.parseOperandToken());
+      }
+      this.expect(')');
+      return { kind: 'in', operand: left, values, negated };
+    }
+
+    const operator = this.tokens[this.position++];
+    if (negated || !['=', '<>', '!=', '<', '<=', '>', '>='].includes(operator)) {
+      throw new Error(`Unsupported operator "${operator}" in WHERE clause`);
+    }
+    return { kind: 'compare', operator, left, right: this.parseOperandToken() };
+  }
+
+  private parseOperandToken(): Operand {
+    const token = this.tokens[this.position++];
+    if (token === undefined) throw new Error('Incomplete WHERE clause');
+    if (/^ABS\s*\($/i.test(token)) {
+      const operand = this.parseOperandToken();
+      this.expect(')');
+      return { kind: 'abs', operand };
+    }
+    return parseOperand(token);
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    return (this.tokens[this.position] || '').toUpperCase() === keyword;
+  }
+
+  private expect(token: string): void {
+    if (this.tokens[this.position] !== token) {
+      throw new Error(`Expected "${token}" in WHERE clause`);
+    }
+    this.position++;
+  }
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+  return new RegExp(`^${escaped}$`, 'i');
+}
@@ -19,6 +19,11 @@ try {
 
 import { exec } from 'child_process';
 import { promisify } from 'util';
+import { compileQuery, escapeLiteral, likePattern, QueryBuilder, QueryCondition } from '../utils/tally-query-builder';
+import { recordDiscoveredFields } from '../utils/tally-schema';
+import { NameIndex, hasDevanagari, phoneticKey, transliterate } from '../utils/name-matching';
+import { odbcScheduler } from '../utils/odbc-scheduler';
+import { tallyChangeTracker } from './tally-change-tracker';
 
 const execAsync = promisify(exec);
 
@@ -30,6 +35,7 @@ export interface TallyConfig {
   dataSourceName?: string;
   mobileNumber?: string;
   password?: string;
+  exactCompany?: boolean; // Only connect to companyName, never to whichever company is open
 }
 
 export interface TallyConnectionStatus {
@@ -111,6 +117,9 @@ export class TallyService {
   private isConnecting: boolean = false;
   private availableTables: string[] = [];
   private skipProblematicTables: boolean = true;
+  // Ledger names and groups only: balances move with every voucher, names with masters
+  private ledgerIndex = new NameIndex<{ name: string; parent: string }>();
+  private ledgerIndexToken: string | null = null;
 
   constructor() {
     console.log('TallyService initialized with enhanced connection management and smart query system');
@@ -226,24 +235,7 @@ export class TallyService {
         };
       }
 
-      // Step 4: ODBC Fallback - Load all ledgers and do client-side search
-      console.log(`ODBC LIMITATION DETECTED: String search failing, trying client-side fallback`);
-      const fallbackResult = await this.clientSideFuzzySearch(searchTerm);
-      
-      if (fallbackResult.length > 0) {
-        console.log(`Client-side search found ${fallbackResult.length} matches`);
-        return {
-          success: true,
-          type: fallbackResult.length === 1 ? 'exact_match' : 'multiple_matches',
-          ledgers: fallbackResult,
-          message: fallbackResult.length === 1 
-            ? `Found: ${fallbackResult[0].name} (using fallback search)`
-            : `Found ${fallbackResult.length} possible matches (using fallback search):`,
-          executionTime: Date.now() - startTime
-        };
-      }
-
-      // Step 5: Final fallback - provide suggestions
+      // Step 4: Final fallback - provide suggestions
       const suggestions = await this.getSuggestions(searchTerm);
       
       return {
@@ -305,7 +297,7 @@ export class TallyService {
       console.log(`Trying client-side exact match for: "${cleanTerm}"`);
       
       // Load all ledgers once (this is fast and accurate)
-      const allLedgers = await this.connection!.query('SELECT $Name, $Parent, $ClosingBalance FROM Ledger');
+      const allLedgers = await this.scheduledQuery('SELECT $Name, $Parent, $ClosingBalance FROM Ledger');
       
       if (Array.isArray(allLedgers) && allLedgers.length > 0) {
         const processedLedgers = this.processLedgerResults(allLedgers, 100);
@@ -339,24 +331,17 @@ export class TallyService {
       console.error('Client-side exact match failed, falling back to ODBC:', error);
     }
     
-    // Fallback to ODBC strategies
+    // Fallback to ODBC strategies (the client-side match above already ignores spacing)
     const strategies = [
       // Strategy 1: Simple exact match
-      `SELECT $Name as name, $Parent as parent, $ClosingBalance as closingBalance 
-       FROM Ledger 
-       WHERE UPPER($Name) = UPPER('${cleanTerm.replace(/'/g, "''")}')`,
-      
-      // Strategy 2: With LTRIM/RTRIM
-      `SELECT $Name as name, $Parent as parent, $ClosingBalance as closingBalance 
-       FROM Ledger 
-       WHERE UPPER(LTRIM(RTRIM($Name))) = UPPER('${cleanTerm.replace(/'/g, "''")}')`,
+      this.ledgerSearchQuery({ field: 'Name', operator: '=', value: cleanTerm, ignoreCase: true })
     ];
     
     console.log(`Trying ODBC exact match for: "${cleanTerm}"`);
     
     for (let i = 0; i < strategies.length; i++) {
       try {
-        const result = await this.connection!.query(strategies[i]);
+        const result = await this.scheduledQuery(strategies[i]);
         if (result.length > 0) {
           console.log(`✅ ODBC strategy ${i + 1} found ${result.length} results`);
           return this.processLedgerResults(result, 100);
@@ -372,120 +357,71 @@ export class TallyService {
   }
 
   /**
-   * Fuzzy matching with multiple strategies
+   * Fuzzy matching against every ledger name: Devanagari and Latin spellings, sound-alike
+   * spellings (Sharma/Sarma) and business suffixes are handled by the name index. Only the
+   * matches close to the best one are returned, so a clear winner comes back alone, with
+   * its balance read fresh.
    */
   private async fuzzyMatch(searchTerm: string): Promise<LedgerMatch[]> {
-    const strategies = [
-      // Strategy 1: Contains match
-      {
-        sql: `SELECT $Name as name, $Parent as parent, $ClosingBalance as closingBalance 
-              FROM Ledger 
-              WHERE UPPER($Name) LIKE UPPER('%${searchTerm.replace(/'/g, "''")}%')`,
-        baseScore: 80
-      },
-      // Strategy 2: Starts with match
-      {
-        sql: `SELECT $Name as name, $Parent as parent, $ClosingBalance as closingBalance 
-              FROM Ledger 
-              WHERE UPPER($Name) LIKE UPPER('${searchTerm.replace(/'/g, "''")}%')`,
-        baseScore: 90
-      }
-    ];
-
-    // Add word boundary matches for multi-word searches
-    const words = searchTerm.split(/[\s&]+/).filter(w => w.length > 1); // Split on spaces and ampersands
-    if (words.length > 0) {
-      words.forEach(word => {
-        strategies.push({
-          sql: `SELECT $Name as name, $Parent as parent, $ClosingBalance as closingBalance 
-                FROM Ledger 
-                WHERE UPPER($Name) LIKE UPPER('%${word.replace(/'/g, "''")}%')`,
-          baseScore: 70
-        });
-      });
-    }
-
-    // Add special strategy for dotted names (like A.A.MALLA)
-    if (searchTerm.includes('.')) {
-      // Try without dots for fuzzy matching
-      const withoutDots = searchTerm.replace(/\./g, '');
-      strategies.push({
-        sql: `SELECT $Name as name, $Parent as parent, $ClosingBalance as closingBalance 
-              FROM Ledger 
-              WHERE UPPER(REPLACE($Name, '.', '')) LIKE UPPER('%${withoutDots.replace(/'/g, "''")}%')`,
-        baseScore: 85
-      });
-      
-      // Try with optional dots (match both A.A.MALLA and AAMALLA patterns)
-      const dotPattern = searchTerm.replace(/\./g, '\\.?'); // Make dots optional in regex
-      strategies.push({
-        sql: `SELECT $Name as name, $Parent as parent, $ClosingBalance as closingBalance 
-              FROM Ledger 
-              WHERE UPPER($Name) LIKE UPPER('%${searchTerm.replace(/\./g, '%').replace(/'/g, "''")}%')`,
-        baseScore: 75
-      });
+    try {
+      const index = await this.loadLedgerIndex();
+      const matches = index.search(searchTerm, 10);
+      if (matches.length === 0) return [];
+
+      console.log(`Name index matched ${matches.length} of ${index.size} ledgers for "${searchTerm}"`);
+      const bestScore = matches[0].score;
+      const closest = matches.filter(match => match.score >= bestScore - 15);
+      const balances = await this.scheduledQuery(this.ledgerSearchQuery({ field: 'Name', operator: 'IN', value: closest.map(match => match.entry.name) }));
+      const balanceOf = new Map(this.processLedgerResults(balances, 100).map(ledger => [ledger.name, ledger.closingBalance]));
+      return closest.map(match => ({ ...match.entry, closingBalance: balanceOf.get(match.entry.name) || 0, matchScore: match.score }));
+    } catch (error) {
+      console.error('Fuzzy match error:', error);
+      return [];
     }
+  }
 
-    const allResults: LedgerMatch[] = [];
-    
-    for (const strategy of strategies) {
-      try {
-        const result = await this.connection!.query(strategy.sql);
-        const scored = this.processLedgerResults(result, strategy.baseScore, searchTerm);
-        allResults.push(...scored);
-      } catch (error) {
-        console.error('Fuzzy match strategy error:', error);
-        continue;
-      }
-    }
+  /**
+   * The ledger name index, rebuilt only when the company's master AlterID has moved (a
+   * ledger was created, renamed or deleted). Without the counter it is rebuilt every time.
+   */
+  private async loadLedgerIndex(): Promise<NameIndex<{ name: string; parent: string }>> {
+    const marks = await tallyChangeTracker.getCompanyAlterIds(this);
+    const token = marks ? `${marks.company}|${marks.masterAlterId}` : null;
+    if (token && token === this.ledgerIndexToken) return this.ledgerIndex;
+
+    const result = await this.scheduledQuery('SELECT $Name, $Parent FROM Ledger');
+    const ledgers = this.processLedgerResults(result, 100).map(ledger => ({ name: ledger.name, parent: ledger.parent }));
+    this.ledgerIndex.update(ledgers);
+    this.ledgerIndexToken = token;
+    console.log(`Name index built over ${ledgers.length} ledgers${marks ? ` at master AlterID ${marks.masterAlterId}` : ''}`);
+    return this.ledgerIndex;
+  }
 
-    // Remove duplicates and sort by match score
-    const uniqueResults = this.removeDuplicates(allResults);
-    return uniqueResults
-      .sort((a, b) => b.matchScore - a.matchScore)
-      .slice(0, 10);
+  /**
+   * Name, parent and closing balance of the ledgers matching a condition
+   */
+  private ledgerSearchQuery(condition: QueryCondition): string {
+    return compileQuery({
+      select: ['$Name as name', '$Parent as parent', '$ClosingBalance as closingBalance'],
+      from: 'Ledger',
+      where: [condition]
+    });
   }
 
   /**
    * Process ledger query results
    */
-  private processLedgerResults(result: any[], baseScore: number, searchTerm?: string): LedgerMatch[] {
+  private processLedgerResults(result: any[], baseScore: number): LedgerMatch[] {
     if (!Array.isArray(result)) return [];
     
     return result.map(r => ({
       name: r.name || r.$Name || '',
       parent: r.parent || r.$Parent || '',
       closingBalance: this.parseBalance(r.closingBalance || r.$ClosingBalance || 0),
-      matchScore: searchTerm ? this.calculateMatchScore(r.name || r.$Name || '', searchTerm, baseScore) : baseScore
+      matchScore: baseScore
     }));
   }
 
-  /**
-   * Calculate match score based on various factors
-   */
-  private calculateMatchScore(ledgerName: string, searchTerm: string, baseScore: number): number {
-    const upper = ledgerName.toUpperCase();
-    const search = searchTerm.toUpperCase();
-    
-    let score = baseScore;
-    
-    // Bonus for shorter names (more likely to be exact)
-    if (ledgerName.length <= searchTerm.length + 5) score += 10;
-    
-    // Bonus for exact word matches
-    const searchWords = search.split(' ');
-    const nameWords = upper.split(' ');
-    const exactWordMatches = searchWords.filter(sw => 
-      nameWords.some(nw => nw === sw)
-    ).length;
-    score += exactWordMatches * 5;
-    
-    // Penalty for very long names (less likely to be what user wants)
-    if (ledgerName.length > searchTerm.length * 3) score -= 10;
-    
-    return Math.max(0, Math.min(100, score));
-  }
-
   /**
    * Get suggestions for similar ledger names
    */
@@ -498,8 +434,13 @@ export class TallyService {
       }
 
       // Enhanced similarity matching - first try with broader search
-      const sql = `SELECT $Name as name FROM Ledger WHERE UPPER($Name) LIKE UPPER('%${searchTerm.substring(0, 5)}%') ORDER BY $Name`;
-      const result = await this.connection!.query(sql);
+      const sql = compileQuery({
+        select: ['$Name as name'],
+        from: 'Ledger',
+        where: [{ field: 'Name', operator: 'LIKE', value: likePattern(searchTerm.substring(0, 5)), ignoreCase: true }],
+        orderBy: [{ field: 'Name', direction: 'ASC' }]
+      });
+      const result = await this.scheduledQuery(sql);
       
       if (!Array.isArray(result)) return [];
       
@@ -537,7 +478,7 @@ export class TallyService {
     for (const [pattern, sql] of Object.entries(patterns)) {
       if (term.includes(pattern)) {
         try {
-          const result = await this.connection!.query(sql);
+          const result = await this.scheduledQuery(sql);
           if (Array.isArray(result) && result.length > 0) {
             return result.slice(0, 5).map(r => (r as any).$Name || (r as any).name || '');
           }
@@ -616,87 +557,6 @@ export class TallyService {
     return matrix[str2.length][str1.length];
   }
 
-  /**
-   * Remove duplicate results
-   */
-  private removeDuplicates(results: LedgerMatch[]): LedgerMatch[] {
-    const seen = new Set<string>();
-    return results.filter(r => {
-      if (seen.has(r.name)) return false;
-      seen.add(r.name);
-      return true;
-    });
-  }
-
-  /**
-   * Client-side fuzzy search when ODBC LIKE operations fail
-   */
-  private async clientSideFuzzySearch(searchTerm: string): Promise<LedgerMatch[]> {
-    try {
-      console.log(`Loading all ledgers for client-side search of: "${searchTerm}"`);
-      
-      // Load all ledgers (this works with ODBC)
-      const result = await this.connection!.query('SELECT $Name, $Parent, $ClosingBalance FROM Ledger');
-      
-      if (!Array.isArray(result) || result.length === 0) {
-        console.log('No ledgers loaded for client-side search');
-        return [];
-      }
-      
-      console.log(`Loaded ${result.length} ledgers for client-side matching`);
-      
-      // Process all ledgers
-      const allLedgers = this.processLedgerResults(result, 100);
-      
-      // Client-side fuzzy matching
-      const matches: LedgerMatch[] = [];
-      const searchUpper = searchTerm.toUpperCase();
-      
-      for (const ledger of allLedgers) {
-        const nameUpper = ledger.name.toUpperCase();
-        let matchScore = 0;
-        
-        // Exact match (highest priority)
-        if (nameUpper === searchUpper) {
-          matchScore = 100;
-        }
-        // Contains match
-        else if (nameUpper.includes(searchUpper)) {
-          matchScore = 90;
-        }
-        // Individual word matches
-        else {
-          const searchWords = searchUpper.split(/\s+/);
-          const nameWords = nameUpper.split(/\s+/);
-          
-          const matchingWords = searchWords.filter(sw => 
-            nameWords.some(nw => nw.includes(sw) || sw.includes(nw))
-          );
-          
-          if (matchingWords.length > 0) {
-            matchScore = Math.min(80, (matchingWords.length / searchWords.length) * 80);
-          }
-        }
-        
-        if (matchScore > 0) {
-          matches.push({
-            ...ledger,
-            matchScore
-          });
-        }
-      }
-      
-      // Sort by match score and return top results
-      return matches
-        .sort((a, b) => b.matchScore - a.matchScore)
-        .slice(0, 10);
-        
-    } catch (error) {
-      console.error('Client-side fuzzy search failed:', error);
-      return [];
-    }
-  }
-
   /**
    * Parse balance value from various formats
    */
@@ -712,8 +572,10 @@ export class TallyService {
 
   /**
    * Enhanced executeQuery with smart query detection
+   *
+   * @param timeoutMs - Defaults to 60 seconds for complex voucher queries
    */
-  async executeQuery(sql: string): Promise<TallyQueryResult> {
+  async executeQuery(sql: string, timeoutMs: number = 60000): Promise<TallyQueryResult> {
     const startTime = Date.now();
     
     console.log('Executing query:', sql.substring(0, 100) + (sql.length > 100 ? '...' : ''));
@@ -739,13 +601,8 @@ export class TallyService {
     }
 
     try {
-      // Add timeout to prevent hanging queries (60 seconds for complex voucher queries)
-      const queryPromise = this.connection.query(sql);
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Query timeout after 60 seconds')), 60000);
-      });
-
-      const result = await Promise.race([queryPromise, timeoutPromise]);
+      // The scheduler times the query out so it cannot hang the queue
+      const result = await this.scheduledQuery(sql, timeoutMs);
       console.log('Query successful, result type:', Array.isArray(result) ? `Array[${result.length}]` : typeof result);
 
       return {
@@ -781,6 +638,46 @@ export class TallyService {
     }
   }
 
+  /**
+   * Run SQL on the shared connection through the ODBC scheduler, at the caller's priority.
+   * Identical SQL already waiting for the same company shares that run.
+   */
+  private scheduledQuery(sql: string, timeoutMs: number = 60000): Promise<any> {
+    return odbcScheduler.run(() => {
+      if (!this.connection) {
+        throw new Error('Not connected to Tally database. Please connect first.');
+      }
+      return this.connection.query(sql);
+    }, {
+      label: sql.replace(/\s+/g, ' ').trim().substring(0, 80),
+      timeoutMs,
+      coalesceKey: `${this.config?.companyName || ''}|${sql}`
+    });
+  }
+
+  /**
+   * Compile a QueryBuilder (whitelisted collections and fields, escaped values) and run it
+   */
+  async executeBuilderQuery(query: QueryBuilder): Promise<TallyQueryResult> {
+    let sql: string;
+    try {
+      sql = compileQuery(query);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    const result = await this.executeQuery(sql);
+    if (result.success && query.offset && result.data) {
+      result.data = result.data.slice(query.offset);
+      result.rowCount = result.data.length;
+    }
+    return { ...result, query: sql };
+  }
+
   /**
    * Test connection (read-only test)
    */
@@ -1023,7 +920,7 @@ export class TallyService {
     }
 
     try {
-      const result = await this.connection.query("SELECT COUNT(*) as COUNT FROM COMPANY");
+      const result = await this.scheduledQuery("SELECT COUNT(*) as COUNT FROM COMPANY");
       return { success: true };
     } catch (error) {
       return { success: false, error: this.extractErrorMessage(error) };
@@ -1082,7 +979,7 @@ export class TallyService {
       try {
         console.log(`Querying ${table} table`);
         const query = `SELECT TOP 5 * FROM ${table}`;
-        const result = await this.connection.query(query);
+        const result = await this.scheduledQuery(query);
         
         if (Array.isArray(result) && result.length > 0) {
           results[table] = {
@@ -1143,6 +1040,13 @@ export class TallyService {
     console.log('Cleanup completed');
   }
 
+  /**
+   * Config of the live connection (companyName is the company it was opened for)
+   */
+  getConfig(): TallyConfig | null {
+    return this.config ? { ...this.config } : null;
+  }
+
   /**
    * Connection state checker
    */
@@ -1168,7 +1072,7 @@ export class TallyService {
 
     try {
       const startTime = Date.now();
-      const result = await this.connection.query("SELECT COUNT(*) as STATUS_COUNT FROM COMPANY");
+      const result = await this.scheduledQuery("SELECT COUNT(*) as STATUS_COUNT FROM COMPANY");
       
       return {
         isConnected: true,
@@ -1228,7 +1132,7 @@ export class TallyService {
 
         // Test 2: Basic SQL test
         console.log('Testing basic SQL');
-        const basicTest = await this.connection.query("SELECT 1 as TEST_VALUE");
+        const basicTest = await this.scheduledQuery("SELECT 1 as TEST_VALUE");
         debugInfo.rawConnectionTest = {
           success: true,
           result: basicTest,
@@ -1238,7 +1142,7 @@ export class TallyService {
         // Test 3: Company table test
         console.log('Testing COMPANY table');
         try {
-          const companyTest = await this.connection.query("SELECT COUNT(*) as COMPANY_COUNT FROM COMPANY");
+          const companyTest = await this.scheduledQuery("SELECT COUNT(*) as COMPANY_COUNT FROM COMPANY");
           debugInfo.tallySpecificTests.push({
             test: 'COMPANY table',
             success: true,
@@ -1257,7 +1161,7 @@ export class TallyService {
         // Test 4: Ledger table test
         console.log('Testing LEDGER table');
         try {
-          const ledgerTest = await this.connection.query("SELECT COUNT(*) as LEDGER_COUNT FROM LEDGER");
+          const ledgerTest = await this.scheduledQuery("SELECT COUNT(*) as LEDGER_COUNT FROM LEDGER");
           debugInfo.tallySpecificTests.push({
             test: 'LEDGER table',
             success: true,
@@ -1340,16 +1244,18 @@ export class TallyService {
     const port = config.port || 9000;
     const server = config.serverPath || 'localhost';
 
-    // Method 1: Current open company (most likely to work)
-    methods.push({
-      method: 'Current Open Company via DSN',
-      connectionString: `DSN=TallyODBC64_${port};`
-    });
+    // Method 1: Current open company (most likely to work), unless switching to a named company
+    if (!config.exactCompany || !config.companyName?.trim()) {
+      methods.push({
+        method: 'Current Open Company via DSN',
+        connectionString: `DSN=TallyODBC64_${port};`
+      });
 
-    methods.push({
-      method: 'Current Open Company via Driver',
-      connectionString: `Driver={Tally ODBC Driver64};Server=${server};Port=${port};`
-    });
+      methods.push({
+        method: 'Current Open Company via Driver',
+        connectionString: `Driver={Tally ODBC Driver64};Server=${server};Port=${port};`
+      });
+    }
 
     // Method 2: Specific company (if provided)
     if (config.companyName && config.companyName.trim().length > 0) {
@@ -1605,7 +1511,7 @@ export class TallyService {
           console.log('🔍 TRYING QUERY:', query);
           console.log('🎯 TARGET TABLE:', query.includes('ListofStockItems') ? 'ListofStockItems' : query.includes('StockItem') ? 'StockItem' : 'Ledger');
           
-          result = await this.connection.query(query);
+          result = await this.scheduledQuery(query);
           
           console.log('📊 QUERY RESULT:', {
             type: Array.isArray(result) ? 'Array' : typeof result,
@@ -1766,7 +1672,17 @@ export class TallyService {
       'samaan kitna': 'goods quantity'
     };
     
-    let translatedTerm = searchTerm.toLowerCase();
+    // Devanagari words are matched by sound, so सामान finds 'samaan' and कितना finds 'kitna'
+    const bySound = new Map<string, string>();
+    Object.entries(translations)
+      .filter(([hindi]) => !hindi.includes(' '))
+      .forEach(([hindi, english]) => bySound.set(phoneticKey(hindi), english));
+    
+    let translatedTerm = searchTerm
+      .split(/\s+/)
+      .map(word => hasDevanagari(word) ? bySound.get(phoneticKey(transliterate(word))) || transliterate(word) : word)
+      .join(' ')
+      .toLowerCase();
     
     // Replace Hindi/Hinglish terms
     Object.entries(translations).forEach(([hindi, english]) => {
@@ -1823,33 +1739,56 @@ export class TallyService {
       ];
       
       // Proper Tally ODBC SQL syntax based on official documentation
-      const originalEscaped = searchTerm.replace(/'/g, "''").trim();
+      const original = searchTerm.trim();
+      const nameMatches = (term: string, ignoreCase = true): QueryCondition[] => [
+        { field: 'Name', operator: 'LIKE', value: likePattern(term), ignoreCase },
+        { field: 'Name', operator: '!=', value: '' }
+      ];
+      const stockListQuery = (where: QueryBuilder['where']): QueryBuilder => ({
+        select: ['$Name', '$StockGroup', '$ClosingBalance', '$BaseUnits'],
+        from: 'ListofStockItems',
+        where
+      });
       
       // Use ListofStockItems first since individual searches are working with it
       const searchQueries: string[] = [
         // Primary ListofStockItems search (this is working for individual searches)
-        `SELECT $Name, $StockGroup, $ClosingBalance, $BaseUnits FROM ListofStockItems WHERE UPPER($Name) LIKE UPPER('%${originalEscaped}%') AND $Name <> ''`,
+        compileQuery(stockListQuery(nameMatches(original))),
         
         // Case-sensitive fallback
-        `SELECT $Name, $StockGroup, $ClosingBalance, $BaseUnits FROM ListofStockItems WHERE $Name LIKE '%${originalEscaped}%' AND $Name <> ''`,
+        compileQuery(stockListQuery(nameMatches(original, false))),
         
         // Get all items with search term (broader match)
-        `SELECT $Name, $StockGroup, $ClosingBalance, $BaseUnits FROM ListofStockItems WHERE $Name <> '' AND UPPER($Name) LIKE UPPER('%${originalEscaped}%')`,
+        compileQuery(stockListQuery([...nameMatches(original)].reverse())),
         
         // Fallback to StockItem table
-        `SELECT $Name, $Parent, $ClosingBalance, $BaseUnits FROM StockItem WHERE UPPER($Name) LIKE UPPER('%${originalEscaped}%') AND $Name <> ''`,
+        compileQuery({
+          select: ['$Name', '$Parent', '$ClosingBalance', '$BaseUnits'],
+          from: 'StockItem',
+          where: nameMatches(original)
+        }),
         
         // Ledger-based fallback
-        `SELECT $Name, $Parent, $ClosingBalance FROM Ledger WHERE ($Parent LIKE '%Stock%' OR $Parent LIKE '%Inventory%') AND UPPER($Name) LIKE UPPER('%${originalEscaped}%') AND $Name <> ''`
+        compileQuery({
+          select: ['$Name', '$Parent', '$ClosingBalance'],
+          from: 'Ledger',
+          where: [
+            {
+              conditions: [
+                { field: 'Parent', operator: 'LIKE', value: '%Stock%' },
+                { field: 'Parent', operator: 'LIKE', value: '%Inventory%', logicalOperator: 'OR' }
+              ]
+            },
+            ...nameMatches(original)
+          ]
+        })
       ];
       
       // Add translated search variants using ListofStockItems
       searchVariants.forEach(variant => {
-        const escapedVariant = variant.replace(/'/g, "''").trim();
-        if (escapedVariant.length > 0 && escapedVariant !== originalEscaped) {
-          searchQueries.push(
-            `SELECT $Name, $StockGroup, $ClosingBalance, $BaseUnits FROM ListofStockItems WHERE UPPER($Name) LIKE UPPER('%${escapedVariant}%') AND $Name <> ''`
-          );
+        const trimmedVariant = variant.trim();
+        if (trimmedVariant.length > 0 && trimmedVariant !== original) {
+          searchQueries.push(compileQuery(stockListQuery(nameMatches(trimmedVariant))));
         }
       });
       
@@ -1861,7 +1800,7 @@ export class TallyService {
           console.log('🔍 TRYING QUERY:', query);
           console.log('🎯 TARGET TABLE:', query.includes('ListofStockItems') ? 'ListofStockItems' : query.includes('StockItem') ? 'StockItem' : 'Ledger');
           
-          result = await this.connection.query(query);
+          result = await this.scheduledQuery(query);
           
           console.log('📊 QUERY RESULT:', {
             type: Array.isArray(result) ? 'Array' : typeof result,
@@ -1887,7 +1826,7 @@ export class TallyService {
         // Let's try to get some sample data to understand the structure
         try {
           const sampleQuery = `SELECT TOP 5 $Name FROM ListofStockItems WHERE $Name <> '' AND LENGTH($Name) > 0`;
-          const sampleResult = await this.connection.query(sampleQuery);
+          const sampleResult = await this.scheduledQuery(sampleQuery);
           if (sampleResult && Array.isArray(sampleResult) && sampleResult.length > 0) {
             const availableItems = sampleResult.map(row => row.$Name || row.Name).filter(Boolean).filter(name => name.trim().length > 0);
             if (availableItems.length > 0) {
@@ -1970,11 +1909,11 @@ export class TallyService {
 
     try {
       // Use the _StkBatches procedure mentioned in Tally documentation
-      const query = `CALL _StkBatches('${stockItemName}')`;
+      const query = `CALL _StkBatches(${escapeLiteral(stockItemName)})`;
       const successfulQuery = query;
       console.log('🔍 Calling Tally stock batches procedure:', query);
       
-      const result = await this.connection.query(query);
+      const result = await this.scheduledQuery(query);
       
       if (!result || !Array.isArray(result)) {
         return {
@@ -2028,7 +1967,7 @@ export class TallyService {
         const ledgerQuery = `SELECT $Name, $Parent, $ClosingBalance FROM Ledger WHERE $Parent LIKE '%Stock%' OR $Parent LIKE '%Inventory%'`;
         
         try {
-          const result = await this.connection?.query(ledgerQuery);
+          const result = await this.scheduledQuery(ledgerQuery);
           if (result && Array.isArray(result)) {
             const stockItems: StockItem[] = result.map(row => ({
               name: row.$Name || row.Name || '',
@@ -2110,7 +2049,7 @@ export class TallyService {
       console.log('🔄 Starting ODBC to Cloud sync...');
       
       // First, get list of available tables
-      const tablesResult = await this.connection.query('SELECT $Name FROM ODBCTables');
+      const tablesResult = await this.scheduledQuery('SELECT $Name FROM ODBCTables');
       const availableTables = tablesResult?.map((row: any) => row.$Name || row.Name) || [];
       
       console.log('📋 Available ODBC tables:', availableTables);
@@ -2145,7 +2084,7 @@ export class TallyService {
           if (availableTables.includes(table.name)) {
             console.log(`📊 Syncing ${table.name} table...`);
             
-            const data = await this.connection.query(table.query);
+            const data = await this.scheduledQuery(table.query);
             if (data && Array.isArray(data) && data.length > 0) {
               
               // Upload to S3 in JSON format
@@ -2346,19 +2285,25 @@ export class TallyService {
       try {
         // First check if table has any data
         const countQuery = `SELECT COUNT(*) as RecordCount FROM ${tableName}`;
-        const countResult = await this.connection.query(countQuery);
+        const countResult = await this.scheduledQuery(countQuery);
         const recordCount = countResult?.[0]?.RecordCount || 0;
         
         if (recordCount > 0) {
           // Get sample data
           const sampleQuery = `SELECT TOP 5 * FROM ${tableName}`;
-          const sampleData = await this.connection.query(sampleQuery);
+          const sampleData = await this.scheduledQuery(sampleQuery);
+          const columns = sampleData?.[0] ? Object.keys(sampleData[0]) : [];
+          // Columns this Tally exposes become valid fields for AI-generated SQL
+          const discovered = recordDiscoveredFields(tableName, columns);
+          if (discovered.length > 0) {
+            console.log(`🧭 ${tableName}: added ${discovered.join(', ')} to the schema catalogue`);
+          }
           results.push({
             tableName,
             recordCount,
             status: 'SUCCESS',
             sampleData: sampleData || [],
-            columns: sampleData?.[0] ? Object.keys(sampleData[0]) : []
+            columns
           });
         } else {
           results.push({
@@ -2463,7 +2408,7 @@ export class TallyService {
     }
 
     try {
-      const result = await this.connection.query('SELECT $Name as name, $Parent as parent, $ClosingBalance as balance FROM Ledger');
+      const result = await this.scheduledQuery('SELECT $Name as name, $Parent as parent, $ClosingBalance as balance FROM Ledger');
       return Array.isArray(result) ? result : [];
     } catch (error) {
       console.error('Error getting all ledgers:', error);
@@ -0,0 +1,133 @@
+/**
+ * Tally SQL Generator
+ * Turns a question into Tally ODBC SQL with the schema-grounded prompt, checks the SQL
+ * against the read-only policy and the schema catalogue before it runs, and feeds every
+ * rejection or ODBC error back to the model for another attempt.
+ */
+
+import { TallyQueryResult } from './tally-services';
+import { queryAuditService } from './query-audit-service';
+import { llmGateway, LLMGateway } from '../utils/ai/llm-gateway';
+import {
+  TallyAIResponse,
+  TallySqlAttempt,
+  TALLY_QUERY_SYSTEM_PROMPT,
+  buildTallyQueryPrompt,
+  buildTallyRepairPrompt,
+  parseTallyAIResponse,
+  isActionableTallyReply
+} from '../utils/ai/tally-query-prompt';
+import { checkSqlPolicy, checkSqlFields, withRowLimit } from '../utils/sql-policy';
+import { clientContext } from '../utils/client-context';
+
+export interface SqlExecutor {
+  executeQuery(sql: string, timeoutMs?: number): Promise<TallyQueryResult>;
+}
+
+export interface SqlGenerationResult {
+  response: TallyAIResponse; // The last reply
+  result?: TallyQueryResult; // Set when the reply's SQL ran
+  attempts: TallySqlAttempt[]; // SQL that was rejected or failed, in order
+  provider: string;
+}
+
+// Repairs after the first attempt (AI_SQL_MAX_REPAIRS)
+const DEFAULT_MAX_REPAIRS = 2;
+
+export class TallySqlGenerator {
+  private executor: SqlExecutor;
+  private llm: LLMGateway;
+  private maxRepairs: number;
+
+  constructor(executor: SqlExecutor, llm: LLMGateway = llmGateway, maxRepairs?: number) {
+    this.executor = executor;
+    this.llm = llm;
+    const configured = parseInt(process.env.AI_SQL_MAX_REPAIRS || '', 10);
+    this.maxRepairs = maxRepairs ?? (Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MAX_REPAIRS);
+  }
+
+  /**
+   * Ask for SQL and run it, repairing up to maxRepairs times. Replies without SQL to run
+   * (analysis, smart_query) come back as they are. Throws when no provider answers.
+   */
+  async generate(question: string, connectionStatus: any): Promise<SqlGenerationResult> {
+    const attempts: TallySqlAttempt[] = [];
+
+    while (true) {
+      const completion = await this.llm.complete({
+        system: TALLY_QUERY_SYSTEM_PROMPT,
+        prompt: attempts.length === 0
+          ? buildTallyQueryPrompt(question, connectionStatus)
+          : buildTallyRepairPrompt(question, connectionStatus, attempts),
+        maxTokens: 1500,
+        temperature: attempts.length === 0 ? 0.3 : 0.1,
+        json: true,
+        label: attempts.length === 0 ? 'tally-query' : `tally-query repair ${attempts.length}`
+      }, { accept: isActionableTallyReply });
+
+      const response = parseTallyAIResponse(completion.text);
+      if (response.type !== 'sql' || !response.sql || !response.requiresExecution) {
+        return { response, attempts, provider: completion.provider };
+      }
+
+      const sql = response.sql.trim();
+      const outcome = await this.run(sql);
+      if ('result' in outcome) {
+        if (attempts.length > 0) console.log(`🛠️ SQL repaired after ${attempts.length} failed attempt(s)`);
+        return { response, result: outcome.result, attempts, provider: completion.provider };
+      }
+
+      attempts.push({ sql, error: outcome.error });
+      console.log(`⚠️ AI SQL attempt ${attempts.length} failed: ${outcome.error}`);
+      if (!outcome.repairable || attempts.length > this.maxRepairs) {
+        return { response, attempts, provider: completion.provider };
+      }
+    }
+  }
+
+  /**
+   * Validate and execute; the error is what the model sees when it is asked to repair
+   */
+  private async run(sql: string): Promise<{ result: TallyQueryResult } | { error: string; repairable: boolean }> {
+    const startTime = Date.now();
+    const policy = checkSqlPolicy(sql);
+    const fieldErrors = policy.allowed ? checkSqlFields(sql) : [];
+    const refusal = policy.error || fieldErrors.join('; ');
+
+    const audit = (success: boolean, rowCount: number, error?: string, truncated?: boolean) => queryAuditService.record({
+      timestamp: new Date().toISOString(),
+      user: 'ai',
+      company: clientContext.getActiveCompany() || undefined,
+      sql,
+      collections: policy.collections,
+      allowed: !refusal,
+      success,
+      durationMs: Date.now() - startTime,
+      rowCount,
+      truncated,
+      error
+    });
+
+    if (refusal) {
+      audit(false, 0, refusal);
+      return { error: `Query not allowed: ${refusal}`, repairable: true };
+    }
+
+    const result = await this.executor.executeQuery(withRowLimit(sql, policy.maxRows), policy.timeoutMs);
+    if (!result.success) {
+      audit(false, 0, result.error);
+      // A closed connection is not something the SQL can fix
+      return { error: result.error || 'Query failed', repairable: !/not connected/i.test(result.error || '') };
+    }
+
+    // TOP asked Tally for one row past the limit; that row only marks the result as truncated
+    const rows = result.data || [];
+    const truncated = rows.length > policy.maxRows;
+    if (truncated) {
+      result.data = rows.slice(0, policy.maxRows);
+      result.rowCount = result.data.length;
+    }
+    audit(true, result.data?.length || 0, undefined, truncated);
+    return { result };
+  }
+}
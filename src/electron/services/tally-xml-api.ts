@@ -9,6 +9,7 @@ import { parseStringPromise } from 'xml2js';
 export interface TallyXMLConfig {
   host: string;
   port: number;
+  company?: string; // Requests go to this company rather than whichever Tally has in front
 }
 
 export interface VoucherData {
@@ -21,19 +22,123 @@ export interface VoucherData {
   narration?: string;
 }
 
+export interface LedgerBalanceData {
+  name: string;
+  parent: string;
+  openingBalance: number;
+  closingBalance: number;
+}
+
+export interface GSTVoucherData {
+  voucherNumber: string;
+  voucherDate: string;
+  voucherType: string;
+  partyName: string;
+  partyGSTIN: string;
+  placeOfSupply: string;
+  countryOfResidence: string;
+  ledgerEntries: { ledgerName: string; amount: number }[];
+  inventoryEntries: { stockItemName: string; quantity: number; unit: string; amount: number }[];
+}
+
+export interface StockItemGSTData {
+  name: string;
+  hsnCode: string;
+  description: string;
+  unit: string;
+}
+
+export interface StockValueData {
+  name: string;
+  openingValue: number;
+  closingValue: number;
+}
+
+export interface LedgerVoucherData {
+  voucherDate: string; // YYYYMMDD
+  voucherNumber: string;
+  voucherType: string;
+  partyName: string;
+  narration: string;
+  amount: number; // This ledger's side of the voucher, Dr-positive
+  bankAllocations: {
+    instrumentNumber: string;
+    instrumentDate: string;
+    bankersDate: string;
+    transactionType: string;
+    amount: number;
+  }[];
+}
+
+export interface CompanyInfoData {
+  name: string;
+  address: string;
+  stateName: string;
+  gstin: string;
+  booksFrom: string; // YYYYMMDD
+}
+
+export interface GroupData {
+  name: string;
+  parent: string;
+}
+
+export interface StockItemData {
+  name: string;
+  parent: string;
+  unit: string;
+  openingValue: number;
+  closingQuantity: number;
+  closingRate: number;
+  closingValue: number;
+}
+
+export interface RegisterVoucherData {
+  voucherDate: string; // YYYYMMDD
+  voucherNumber: string;
+  voucherType: string;
+  partyName: string;
+  amount: number; // Voucher total (largest ledger line)
+  reference: string;
+  narration: string;
+}
+
+export interface BillOutstandingData {
+  partyName: string;
+  billReference: string;
+  billDate?: Date;
+  dueDate?: Date;
+  amount: number;
+  overdueDays: number;
+}
+
 export class TallyXMLAPIService {
   private config: TallyXMLConfig;
   private baseUrl: string;
 
   constructor(config: TallyXMLConfig = { host: 'localhost', port: 9000 }) {
-    this.config = config;
+    this.config = { ...config };
     this.baseUrl = `http://${config.host}:${config.port}`;
   }
 
+  /**
+   * Address later requests to a company (the pinned active one); undefined goes back to Tally's current company
+   */
+  setCompany(company: string | undefined): void {
+    this.config.company = company || undefined;
+  }
+
   /**
    * Execute XML request to Tally
    */
   private async executeXMLRequest(xmlRequest: string): Promise<any> {
+    if (this.config.company) {
+      xmlRequest = xmlRequest.replace(
+        '<STATICVARIABLES>',
+        `<STATICVARIABLES><SVCURRENTCOMPANY>${this.escapeXML(this.config.company)}</SVCURRENTCOMPANY>`
+      );
+    }
+
     try {
       console.log('🔄 Sending XML request to Tally:', this.baseUrl);
       console.log('📤 Request XML:', xmlRequest.substring(0, 500) + '...');
@@ -147,6 +252,448 @@ export class TallyXMLAPIService {
     }
   }
 
+  /**
+   * Get ledger balances as at toDate (period set through SVFROMDATE/SVTODATE).
+   * Tally reports debit amounts as negative in XML, so signs are flipped to the
+   * Dr-positive convention used by the ODBC layer.
+   */
+  async getLedgerBalances(fromDate: Date, toDate: Date): Promise<LedgerBalanceData[]> {
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroLedgerBalances', 'Ledger', 'Name, Parent, OpeningBalance, ClosingBalance', fromDate, toDate
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'ledger').map((item: any) => ({
+        name: this.textValue(item.name),
+        parent: this.textValue(item.parent),
+        openingBalance: -this.parseAmount(this.textValue(item.openingbalance)),
+        closingBalance: -this.parseAmount(this.textValue(item.closingbalance))
+      }));
+    } catch (error) {
+      console.error('Failed to get ledger balances:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get stock item opening/closing values for the period
+   */
+  async getStockValues(fromDate: Date, toDate: Date): Promise<StockValueData[]> {
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroStockValues', 'StockItem', 'Name, OpeningValue, ClosingValue', fromDate, toDate
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'stockitem').map((item: any) => ({
+        name: this.textValue(item.name),
+        openingValue: Math.abs(this.parseAmount(this.textValue(item.openingvalue))),
+        closingValue: Math.abs(this.parseAmount(this.textValue(item.closingvalue)))
+      }));
+    } catch (error) {
+      console.error('Failed to get stock values:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get sales/purchase/credit note/debit note vouchers with the ledger and inventory
+   * detail needed for GST returns. Ledger amounts use the Dr-positive convention.
+   */
+  async getGSTVouchers(fromDate: Date, toDate: Date): Promise<GSTVoucherData[]> {
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroGSTVouchers',
+      'Voucher',
+      'Date, VoucherNumber, VoucherTypeName, PartyLedgerName, PartyGSTIN, PlaceOfSupply, CountryOfResidence, AllLedgerEntries, AllInventoryEntries',
+      fromDate,
+      toDate,
+      {
+        name: 'GSTVoucherTypes',
+        formula: '$$IsSales:$VoucherTypeName OR $$IsPurchase:$VoucherTypeName OR $$IsCreditNote:$VoucherTypeName OR $$IsDebitNote:$VoucherTypeName'
+      }
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'voucher').map((v: any) => ({
+        voucherNumber: this.textValue(v.vouchernumber),
+        voucherDate: this.textValue(v.date),
+        voucherType: this.textValue(v.vouchertypename),
+        partyName: this.textValue(v.partyledgername),
+        partyGSTIN: this.textValue(v.partygstin).toUpperCase(),
+        placeOfSupply: this.textValue(v.placeofsupply),
+        countryOfResidence: this.textValue(v.countryofresidence),
+        ledgerEntries: this.asList(v['allledgerentries.list']).map((entry: any) => ({
+          ledgerName: this.textValue(entry.ledgername),
+          amount: -this.parseAmount(this.textValue(entry.amount))
+        })),
+        inventoryEntries: this.asList(v['allinventoryentries.list']).map((entry: any) => {
+          const billedQty = this.textValue(entry.billedqty || entry.actualqty).trim();
+          const qtyMatch = billedQty.match(/^(-?[\d.,]+)\s*(.*)$/);
+          return {
+            stockItemName: this.textValue(entry.stockitemname),
+            quantity: qtyMatch ? Math.abs(parseFloat(qtyMatch[1].replace(/,/g, ''))) || 0 : 0,
+            unit: qtyMatch ? qtyMatch[2] : '',
+            amount: Math.abs(this.parseAmount(this.textValue(entry.amount)))
+          };
+        })
+      }));
+    } catch (error) {
+      console.error('Failed to get GST vouchers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get HSN/SAC code and unit for every stock item
+   */
+  async getStockItemGSTDetails(): Promise<StockItemGSTData[]> {
+    const today = new Date();
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroStockItemGST', 'StockItem', 'Name, BaseUnits, Description, GSTDetails', today, today
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'stockitem').map((item: any) => {
+        // GST details are kept with history; the last entry carrying an HSN is current
+        const gstDetails = this.asList(item['gstdetails.list']).filter((detail: any) => this.textValue(detail.hsncode));
+        const current = gstDetails[gstDetails.length - 1];
+        return {
+          name: this.textValue(item.name),
+          hsnCode: current ? this.textValue(current.hsncode) : '',
+          description: current ? this.textValue(current.hsn) : this.textValue(item.description),
+          unit: this.textValue(item.baseunits)
+        };
+      });
+    } catch (error) {
+      console.error('Failed to get stock item GST details:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every voucher posted to a ledger in the period, with this ledger's amount and
+   * (for bank ledgers) the instrument/bank date allocations
+   */
+  async getLedgerVouchers(ledgerName: string, fromDate: Date, toDate: Date): Promise<LedgerVoucherData[]> {
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroLedgerVouchers',
+      'Vouchers : Ledger',
+      'Date, VoucherNumber, VoucherTypeName, PartyLedgerName, Narration, AllLedgerEntries',
+      fromDate,
+      toDate,
+      undefined,
+      ledgerName
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'voucher').map((v: any) => {
+        const entries = this.asList(v['allledgerentries.list'])
+          .filter((entry: any) => this.textValue(entry.ledgername).toLowerCase() === ledgerName.toLowerCase());
+        const otherLedger = this.asList(v['allledgerentries.list'])
+          .map((entry: any) => this.textValue(entry.ledgername))
+          .find((name: string) => name && name.toLowerCase() !== ledgerName.toLowerCase());
+
+        // On a party's own ledger the voucher's party is the ledger itself, so show the other side
+        const party = this.textValue(v.partyledgername);
+        const isOwnLedger = party.toLowerCase() === ledgerName.toLowerCase();
+
+        return {
+          voucherDate: this.textValue(v.date),
+          voucherNumber: this.textValue(v.vouchernumber),
+          voucherType: this.textValue(v.vouchertypename),
+          partyName: (isOwnLedger ? otherLedger : party) || otherLedger || '',
+          narration: this.textValue(v.narration),
+          amount: entries.reduce((sum: number, entry: any) => sum - this.parseAmount(this.textValue(entry.amount)), 0),
+          bankAllocations: entries.flatMap((entry: any) => this.asList(entry['bankallocations.list']).map((allocation: any) => ({
+            instrumentNumber: this.textValue(allocation.instrumentnumber),
+            instrumentDate: this.textValue(allocation.instrumentdate),
+            bankersDate: this.textValue(allocation.bankersdate),
+            transactionType: this.textValue(allocation.transactiontype),
+            amount: -this.parseAmount(this.textValue(allocation.amount))
+          })))
+        };
+      });
+    } catch (error) {
+      console.error(`Failed to get vouchers for ledger ${ledgerName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get pending bills from Tally's Bills Receivable / Bills Payable report as at a date.
+   * The report is a flat sequence of BILLFIXED, BILLCL, BILLDUE and BILLOVERDUE tags,
+   * one set per bill, so the repeated tags are zipped back together by position.
+   * Amounts use the Dr-positive convention (receivables > 0, payables < 0).
+   */
+  async getOutstandingBills(
+    reportName: 'Bills Receivable' | 'Bills Payable',
+    asAt: Date
+  ): Promise<BillOutstandingData[]> {
+    const xmlRequest = `
+      <ENVELOPE>
+        <HEADER>
+          <TALLYREQUEST>Export Data</TALLYREQUEST>
+        </HEADER>
+        <BODY>
+          <EXPORTDATA>
+            <REQUESTDESC>
+              <REPORTNAME>${reportName}</REPORTNAME>
+              <STATICVARIABLES>
+                <SVEXPORTFORMAT>$$SysName:XML</SVEXPORTFORMAT>
+                <SVTODATE>${this.formatDateForRequest(asAt)}</SVTODATE>
+              </STATICVARIABLES>
+            </REQUESTDESC>
+          </EXPORTDATA>
+        </BODY>
+      </ENVELOPE>
+    `;
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      const envelope = result?.envelope;
+      const fixed = this.asList(envelope?.billfixed);
+      const closing = this.asList(envelope?.billcl);
+      const due = this.asList(envelope?.billdue);
+      const overdue = this.asList(envelope?.billoverdue);
+
+      return fixed.map((bill: any, index: number) => ({
+        partyName: this.textValue(bill.billparty),
+        billReference: this.textValue(bill.billref),
+        billDate: this.parseReportDate(this.textValue(bill.billdate)),
+        dueDate: this.parseReportDate(this.textValue(due[index])),
+        amount: -this.parseAmount(this.textValue(closing[index])),
+        overdueDays: parseInt(this.textValue(overdue[index]), 10) || 0
+      })).filter(bill => bill.partyName && bill.amount !== 0);
+    } catch (error) {
+      console.error(`Failed to get ${reportName}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the loaded company's name, address, GST registration and books-from date
+   */
+  async getCompanyInfo(): Promise<CompanyInfoData | null> {
+    const today = new Date();
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroCompanyInfo', 'Company', 'Name, Address, StateName, GSTRegistrationNumber, BooksFrom', today, today
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      const company = this.extractCollectionItems(result, 'company')[0];
+      if (!company) return null;
+
+      return {
+        name: this.textValue(company.name),
+        address: this.asList(company['address.list']?.address).map((line: any) => this.textValue(line)).join(', '),
+        stateName: this.textValue(company.statename),
+        gstin: this.textValue(company.gstregistrationnumber).toUpperCase(),
+        booksFrom: this.textValue(company.booksfrom)
+      };
+    } catch (error) {
+      console.error('Failed to get company info:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every account group with its parent
+   */
+  async getGroups(): Promise<GroupData[]> {
+    const today = new Date();
+    const xmlRequest = this.buildCollectionRequest('TallyKaroGroups', 'Group', 'Name, Parent', today, today);
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'group').map((group: any) => ({
+        name: this.textValue(group.name),
+        parent: this.textValue(group.parent)
+      }));
+    } catch (error) {
+      console.error('Failed to get groups:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get stock items with closing quantity ("25 Nos"), rate ("120.00/Nos") and value as at toDate
+   */
+  async getStockItems(fromDate: Date, toDate: Date): Promise<StockItemData[]> {
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroStockItems',
+      'StockItem',
+      'Name, Parent, BaseUnits, OpeningValue, ClosingBalance, ClosingRate, ClosingValue',
+      fromDate,
+      toDate
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'stockitem').map((item: any) => ({
+        name: this.textValue(item.name),
+        parent: this.textValue(item.parent),
+        unit: this.textValue(item.baseunits),
+        openingValue: Math.abs(this.parseAmount(this.textValue(item.openingvalue))),
+        closingQuantity: this.parseQuantity(this.textValue(item.closingbalance)),
+        closingRate: Math.abs(this.parseAmount(this.textValue(item.closingrate).split('/')[0])),
+        closingValue: Math.abs(this.parseAmount(this.textValue(item.closingvalue)))
+      }));
+    } catch (error) {
+      console.error('Failed to get stock items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every voucher in the period (day book), with the voucher total
+   */
+  async getVouchers(fromDate: Date, toDate: Date): Promise<RegisterVoucherData[]> {
+    const xmlRequest = this.buildCollectionRequest(
+      'TallyKaroVouchers',
+      'Voucher',
+      'Date, VoucherNumber, VoucherTypeName, PartyLedgerName, Reference, Narration, AllLedgerEntries',
+      fromDate,
+      toDate
+    );
+
+    try {
+      const result = await this.executeXMLRequest(xmlRequest);
+      return this.extractCollectionItems(result, 'voucher').map((v: any) => ({
+        voucherDate: this.textValue(v.date),
+        voucherNumber: this.textValue(v.vouchernumber),
+        voucherType: this.textValue(v.vouchertypename),
+        partyName: this.textValue(v.partyledgername),
+        // Debits and credits balance, so the largest line is the voucher total
+        amount: this.asList(v['allledgerentries.list'])
+          .reduce((max: number, entry: any) => Math.max(max, Math.abs(this.parseAmount(this.textValue(entry.amount)))), 0),
+        reference: this.textValue(v.reference),
+        narration: this.textValue(v.narration)
+      }));
+    } catch (error) {
+      console.error('Failed to get vouchers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Build a TDL collection export request for a period
+   */
+  private buildCollectionRequest(
+    collectionName: string,
+    objectType: string,
+    fetchFields: string,
+    fromDate: Date,
+    toDate: Date,
+    filter?: { name: string; formula: string },
+    childOf?: string
+  ): string {
+    const filterTag = filter ? `<FILTER>${filter.name}</FILTER>` : '';
+    const formulaTag = filter ? `<SYSTEM TYPE="Formulae" NAME="${filter.name}">${filter.formula}</SYSTEM>` : '';
+    const childOfTag = childOf ? `<CHILDOF>${this.escapeXML(childOf)}</CHILDOF>` : '';
+
+    return `
+      <ENVELOPE>
+        <HEADER>
+          <VERSION>1</VERSION>
+          <TALLYREQUEST>Export</TALLYREQUEST>
+          <TYPE>Collection</TYPE>
+          <ID>${collectionName}</ID>
+        </HEADER>
+        <BODY>
+          <DESC>
+            <STATICVARIABLES>
+              <SVEXPORTFORMAT>$$SysName:XML</SVEXPORTFORMAT>
+              <SVFROMDATE>${this.formatDateForRequest(fromDate)}</SVFROMDATE>
+              <SVTODATE>${this.formatDateForRequest(toDate)}</SVTODATE>
+            </STATICVARIABLES>
+            <TDL>
+              <TDLMESSAGE>
+                <COLLECTION NAME="${collectionName}" ISMODIFY="No">
+                  <TYPE>${objectType}</TYPE>
+                  ${childOfTag}
+                  <FETCH>${fetchFields}</FETCH>
+                  ${filterTag}
+                </COLLECTION>
+                ${formulaTag}
+              </TDLMESSAGE>
+            </TDL>
+          </DESC>
+        </BODY>
+      </ENVELOPE>
+    `;
+  }
+
+  /**
+   * Pull the repeated objects out of a collection export response
+   */
+  private extractCollectionItems(xmlResult: any, tagName: string): any[] {
+    const collection = xmlResult?.envelope?.body?.data?.collection;
+    const items = collection?.[tagName];
+    if (!items) {
+      console.log(`⚠️ No ${tagName} entries found in collection response`);
+      return [];
+    }
+    return Array.isArray(items) ? items : [items];
+  }
+
+  /**
+   * Normalise an optional repeated node into an array
+   */
+  private asList(node: any): any[] {
+    if (!node) return [];
+    return Array.isArray(node) ? node : [node];
+  }
+
+  /**
+   * Read the text of a parsed node (handles attribute-merged nodes and NAME attr/tag clashes)
+   */
+  private textValue(node: any): string {
+    if (node === undefined || node === null) return '';
+    if (Array.isArray(node)) return this.textValue(node[0]);
+    if (typeof node === 'object') return String(node._ ?? '');
+    return String(node);
+  }
+
+  /**
+   * Format date for SVFROMDATE/SVTODATE (e.g. 1-Apr-2025)
+   */
+  private formatDateForRequest(date: Date): string {
+    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    return `${date.getDate()}-${months[date.getMonth()]}-${date.getFullYear()}`;
+  }
+
+  /**
+   * Escape names (e.g. "HDFC Bank A/c & OD") for use inside request XML
+   */
+  private escapeXML(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+
+  /**
+   * Parse report display dates (e.g. 1-Apr-25 or 1-Apr-2025)
+   */
+  private parseReportDate(value: string): Date | undefined {
+    const match = value.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{2}|\d{4})$/);
+    if (!match) return undefined;
+
+    const months = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+    const month = months.indexOf(match[2].toLowerCase());
+    if (month < 0) return undefined;
+
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+    return new Date(year, month, parseInt(match[1], 10));
+  }
+
   /**
    * Parse voucher response from XML
    */
@@ -269,6 +816,14 @@ export class TallyXMLAPIService {
     }
   }
 
+  /**
+   * Parse a quantity with its unit (e.g. "-12.5 Nos"); negative stock keeps its sign
+   */
+  private parseQuantity(value: string): number {
+    const match = (value || '').trim().match(/^(-?[\d.,]+)/);
+    return match ? parseFloat(match[1].replace(/,/g, '')) || 0 : 0;
+  }
+
   /**
    * Test connection to Tally XML API
    */
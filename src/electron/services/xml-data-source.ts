@@ -0,0 +1,108 @@
+/**
+ * XML Data Source
+ * Reads the books over Tally's HTTP/XML interface (port 9000), for machines without the ODBC driver
+ */
+
+import { TallyXMLAPIService, TallyXMLConfig } from './tally-xml-api';
+import {
+  TableDataSource,
+  DataSourceKind,
+  DataSourceCompany,
+  DataSourceLedger,
+  DataSourceGroup,
+  DataSourceStockItem,
+  DataSourceVoucher,
+  DataSourceBill,
+  parseSourceDate
+} from './tally-data-source';
+import { getFinancialYearStart } from './profit-loss-service';
+
+export class XmlDataSource extends TableDataSource {
+  readonly kind: DataSourceKind = 'xml';
+  private xmlApiService: TallyXMLAPIService;
+  private connected: boolean = false;
+
+  constructor(config: TallyXMLConfig = { host: 'localhost', port: 9000 }) {
+    super();
+    this.xmlApiService = new TallyXMLAPIService(config);
+  }
+
+  /**
+   * Ping Tally; isConnected() reports the result of the last check
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      this.connected = await this.xmlApiService.testConnection();
+    } catch (error) {
+      console.warn('⚠️ Tally XML connection check failed:', error instanceof Error ? error.message : error);
+      this.connected = false;
+    }
+    return this.connected;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async getCompany(): Promise<DataSourceCompany | null> {
+    const company = await this.xmlApiService.getCompanyInfo();
+    if (!company) return null;
+
+    return {
+      name: company.name,
+      address: company.address || undefined,
+      stateName: company.stateName || undefined,
+      gstin: company.gstin || undefined,
+      booksFrom: parseSourceDate(company.booksFrom)
+    };
+  }
+
+  async getLedgers(): Promise<DataSourceLedger[]> {
+    const period = await this.getDefaultPeriod();
+    return this.xmlApiService.getLedgerBalances(period.from, period.to);
+  }
+
+  async getGroups(): Promise<DataSourceGroup[]> {
+    return this.xmlApiService.getGroups();
+  }
+
+  async getStockItems(): Promise<DataSourceStockItem[]> {
+    const period = await this.getDefaultPeriod();
+    return this.xmlApiService.getStockItems(period.from, period.to);
+  }
+
+  async getVouchers(fromDate: Date, toDate: Date, voucherType?: string): Promise<DataSourceVoucher[]> {
+    const vouchers = await this.xmlApiService.getVouchers(fromDate, toDate);
+    return vouchers
+      .filter(voucher => !voucherType || voucher.voucherType.toLowerCase().includes(voucherType.toLowerCase()))
+      .map(voucher => ({
+        date: parseSourceDate(voucher.voucherDate) || fromDate,
+        voucherNumber: voucher.voucherNumber,
+        voucherType: voucher.voucherType,
+        partyName: voucher.partyName,
+        amount: voucher.amount,
+        reference: voucher.reference || undefined,
+        narration: voucher.narration || undefined
+      }));
+  }
+
+  async getOutstandingBills(asAt: Date): Promise<DataSourceBill[]> {
+    const [receivable, payable] = await Promise.all([
+      this.xmlApiService.getOutstandingBills('Bills Receivable', asAt),
+      this.xmlApiService.getOutstandingBills('Bills Payable', asAt)
+    ]);
+
+    return [...receivable, ...payable].map(bill => ({
+      partyName: bill.partyName,
+      billReference: bill.billReference || 'On Account',
+      billDate: bill.billDate,
+      dueDate: bill.dueDate || bill.billDate,
+      amount: bill.amount
+    }));
+  }
+
+  protected async getDefaultPeriod(): Promise<{ from: Date; to: Date }> {
+    const today = new Date();
+    return { from: getFinancialYearStart(today), to: today };
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { verifyAnswer } from './answer-verification';
+
+const rows = [
+  { NAME: 'Sharma Traders', AMOUNT: 104000 },
+  { NAME: 'Gupta Brothers', AMOUNT: 6000 }
+];
+
+describe('verifyAnswer', () => {
+  it('verifies figures that match a cell, a total or a count', () => {
+    const result = verifyAnswer('Sharma Traders owes ₹1,04,000, the total is ₹1,10,000 across 2 parties.', rows);
+    expect(result.checks.map(check => check.status)).toEqual(['verified', 'verified', 'verified']);
+  });
+
+  it('corrects a misquoted total to the sum, not to the nearest row', () => {
+    const result = verifyAnswer('Total outstanding is ₹1,06,500.', rows);
+    expect(result.checks[0]).toMatchObject({ status: 'corrected', actual: 110000 });
+    expect(result.text).toBe('Total outstanding is ₹1,10,000.');
+  });
+
+  it('corrects a misquoted maximum to the largest row', () => {
+    const result = verifyAnswer('The highest balance is ₹1,06,000.', rows);
+    expect(result.checks[0]).toMatchObject({ status: 'corrected', actual: 104000 });
+  });
+
+  it('corrects a party\'s amount only to that party\'s own figure', () => {
+    expect(verifyAnswer('Gupta Brothers owes ₹6,100.', rows).checks[0]).toMatchObject({ status: 'corrected', actual: 6000 });
+    expect(verifyAnswer('Mehta Steel owes ₹6,100.', rows).checks[0].status).toBe('flagged');
+  });
+
+  it('flags a near miss when the sentence does not say which figure it is', () => {
+    const result = verifyAnswer('Outstanding stands at ₹1,06,500.', rows);
+    expect(result.checks[0].status).toBe('flagged');
+    expect(result.text).toBe('Outstanding stands at ₹1,06,500 ⚠️.');
+  });
+
+  it('checks small counts of rows but not rankings or periods', () => {
+    expect(verifyAnswer('7 overdue parties owe money.', rows).checks[0].status).toBe('flagged');
+    expect(verifyAnswer('2 parties owe money.', rows).checks[0].status).toBe('verified');
+    expect(verifyAnswer('The top 5 parties over the last 7 days.', rows).checks).toEqual([]);
+  });
+
+  it('treats a cell named as a total as a total', () => {
+    const result = verifyAnswer('Total sales were ₹2,40,000.', [{ TOTAL_SALES: 250000 }]);
+    expect(result.checks[0]).toMatchObject({ status: 'corrected', actual: 250000 });
+  });
+});
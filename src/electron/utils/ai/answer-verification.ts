@@ -0,0 +1,288 @@
+/**
+ * Answer Verification
+ * Post-checks figures in AI-written prose against the data the answer came from. Each
+ * amount or count must match a cell, a column total, a row count, a maximum, minimum or
+ * average of the rows. A near miss on an amount is corrected only to a figure of the kind its
+ * sentence names (a total to a sum, "highest" to a maximum, a party's amount to that party's
+ * cell); anything else is flagged.
+ */
+
+export type FigureStatus = 'verified' | 'corrected' | 'flagged' | 'unchecked';
+
+export interface FigureCheck {
+  text: string; // As written in the answer
+  value: number;
+  status: FigureStatus;
+  actual?: number; // The matching figure from the data
+  source?: string; // How the data gives it, e.g. "sum of BALANCE over 12 rows"
+}
+
+export interface AnswerVerification {
+  text: string; // The answer with corrections applied and flagged figures marked
+  checks: FigureCheck[];
+}
+
+// Shown in the chat's "How this was computed" panel
+export interface AnswerComputation {
+  source: 'sql' | 'agent';
+  sql?: string;
+  tools?: string[]; // Agent tool calls, e.g. "get_sales (period: this month)"
+  rowCount: number;
+  aggregation: string;
+  figures: FigureCheck[];
+}
+
+type FigureKind = 'cell' | 'sum' | 'max' | 'min' | 'average' | 'count';
+
+interface Candidate {
+  value: number;
+  source: string;
+  kind: FigureKind;
+  label?: string; // Row a cell belongs to, e.g. the party name
+  column?: string; // Column a cell is in
+}
+
+// Amounts written within this fraction of a figure are taken as a rounding of it
+const ROUNDING_TOLERANCE = 0.005;
+// Amounts within this fraction are a misquote and get corrected; further off they are flagged
+const CORRECTION_TOLERANCE = 0.05;
+
+const SCALES: { [unit: string]: number } = { k: 1e3, lakh: 1e5, lakhs: 1e5, lac: 1e5, lacs: 1e5, cr: 1e7, crore: 1e7, crores: 1e7 };
+
+// Words naming which figure an amount is; the one nearest before the amount wins, else the nearest after
+const KIND_WORDS: [Exclude<FigureKind, 'cell'>, RegExp][] = [
+  ['sum', /\b(?:total|totals|sum|overall|combined|altogether|aggregate|kul)\b/i],
+  ['max', /\b(?:highest|largest|maximum|max|biggest|most|top|sabse zyada|sabse bada)\b/i],
+  ['min', /\b(?:lowest|smallest|minimum|min|least|sabse kam)\b/i],
+  ['average', /\b(?:average|avg|mean|typical)\b/i]
+];
+
+// "7 overdue parties": a small number that counts rows, unlike "top 5" or "last 7 days"
+const COUNTED_NOUN = /^\s+(?:[a-z-]+\s+)?(?:part(?:y|ies)|customers?|suppliers?|debtors?|creditors?|items?|products?|ledgers?|accounts?|bills?|invoices?|vouchers?|entries|entry|transactions?|records?|rows?|compan(?:y|ies))\b/i;
+const RANKING_WORD = /\b(?:top|first|last|bottom|next|previous)\s*$/i;
+
+const SENTENCE_BREAK = /[!?\n]|\.(?=\s)/;
+
+// ₹1,23,456.50 · Rs. 2.5 lakh · 42 · 12.5% (not inside words, citations [1] or dates)
+const FIGURE_PATTERN = /(?<![\w.[\/-])((?:₹|Rs\.?|INR)\s?)?(\d{1,3}(?:,\d{2,3})+(?:\.\d+)?|\d+(?:\.\d+)?)(?!\d|[\/-]\d)(?:\s?(lakhs?|lacs?|crores?|cr|k)\b)?(\s?%)?/gi;
+
+/**
+ * Check every figure in the text against the data (rows, or any nesting of objects and arrays)
+ */
+export function verifyAnswer(text: string, data: any): AnswerVerification {
+  const candidates = collectCandidates(data);
+  const checks: FigureCheck[] = [];
+
+  const checked = (text || '').replace(FIGURE_PATTERN, (mention, currency, digits, unit, percent, offset: number, whole: string) => {
+    const scale = unit ? SCALES[unit.toLowerCase()] : 1;
+    const value = parseFloat(digits.replace(/,/g, '')) * scale;
+    const isAmount = !!currency || !!unit;
+    const before = whole.slice(0, offset).split(SENTENCE_BREAK).pop() || '';
+    const after = whole.slice(offset + mention.length).split(SENTENCE_BREAK)[0];
+
+    // Ordinals, "top 5", years and percentages say nothing about the totals
+    if (!Number.isFinite(value) || isIncidental(digits, value, isAmount, !!percent, before, after)) {
+      if (percent) checks.push({ text: mention.trim(), value, status: 'unchecked' });
+      return mention;
+    }
+
+    const match = closest(candidates, value);
+    const decimals = (digits.split('.')[1] || '').length;
+    const rounding = unit ? 0.5 * Math.pow(10, -decimals) * scale : 0;
+    const tolerance = match ? Math.max(1, rounding, Math.abs(match.value) * ROUNDING_TOLERANCE) : 0;
+
+    if (match && Math.abs(Math.abs(match.value) - value) <= tolerance) {
+      checks.push({ text: mention.trim(), value, status: 'verified', actual: match.value, source: match.source });
+      return mention;
+    }
+
+    // A misquote is only put right with a figure of the kind the sentence says it is
+    const sentence = `${before} ${after}`.toLowerCase();
+    const kind = statedKind(before, after);
+    const correction = isAmount ? closest(candidates.filter(candidate => correctableTo(candidate, kind, sentence)), value) : undefined;
+    if (correction && Math.abs(Math.abs(correction.value) - value) <= Math.abs(correction.value) * CORRECTION_TOLERANCE) {
+      const corrected = formatAmount(Math.abs(correction.value), unit, scale, decimals);
+      checks.push({ text: mention.trim(), value, status: 'corrected', actual: correction.value, source: correction.source });
+      return `${currency || ''}${corrected}`;
+    }
+
+    checks.push({ text: mention.trim(), value, status: 'flagged' });
+    return `${mention} ⚠️`;
+  });
+
+  return { text: checked, checks };
+}
+
+/**
+ * Footer for the chat response, empty when every figure checked out
+ */
+export function formatVerificationNote(checks: FigureCheck[]): string {
+  const corrected = checks.filter(check => check.status === 'corrected');
+  const flagged = checks.filter(check => check.status === 'flagged');
+  let note = '';
+
+  if (corrected.length > 0) {
+    note += `\n\n✏️ Corrected to match the Tally data: ${corrected.map(check => `${check.text} → ₹${Math.abs(check.actual!).toLocaleString('en-IN')}`).join(', ')}`;
+  }
+  if (flagged.length > 0) {
+    note += `\n\n⚠️ ${flagged.length === 1 ? 'This figure' : `${flagged.length} figures`} marked ⚠️ could not be traced to the Tally data: ${flagged.map(check => check.text).join(', ')}`;
+  }
+  return note;
+}
+
+/**
+ * What the SQL does to the rows, in words
+ */
+export function describeAggregation(sql: string, rowCount: number, shown: number): string {
+  const parts: string[] = [];
+  const functions = Array.from(sql.matchAll(/\b(SUM|COUNT|AVG|MIN|MAX)\s*\(([^)]*)\)/gi))
+    .map(match => `${match[1].toUpperCase()} of ${match[2].trim() || '*'}`);
+  parts.push(functions.length > 0 ? functions.join(', ') : 'Rows as returned by Tally, no aggregation');
+
+  const where = sql.match(/\bWHERE\b([\s\S]*?)(?:\bGROUP BY\b|\bORDER BY\b|\bLIMIT\b|$)/i);
+  if (where) parts.push(`filtered by ${where[1].trim()}`);
+  const groupBy = sql.match(/\bGROUP BY\b([\s\S]*?)(?:\bORDER BY\b|\bLIMIT\b|$)/i);
+  if (groupBy) parts.push(`grouped by ${groupBy[1].trim()}`);
+  const orderBy = sql.match(/\bORDER BY\b([\s\S]*?)(?:\bLIMIT\b|$)/i);
+  if (orderBy) parts.push(`sorted by ${orderBy[1].trim()}`);
+  const limit = sql.match(/\bLIMIT\s+(\d+)|\bTOP\s+(\d+)/i);
+  if (limit) parts.push(`limited to ${limit[1] || limit[2]} rows`);
+
+  let description = parts.join('; ');
+  if (shown < rowCount) description += `. The answer lists the first ${shown} of ${rowCount} rows`;
+  return description;
+}
+
+function isIncidental(digits: string, value: number, isAmount: boolean, isPercent: boolean, before: string, after: string): boolean {
+  if (isPercent) return true;
+  if (isAmount) return false;
+  const isWhole = !digits.includes('.');
+  if (isWhole && value <= 10) return !COUNTED_NOUN.test(after) || RANKING_WORD.test(before);
+  return isWhole && !digits.includes(',') && value >= 1900 && value <= 2100;
+}
+
+/**
+ * The kind of figure the sentence names for an amount, nearest word before it first
+ */
+function statedKind(before: string, after: string): FigureKind | undefined {
+  let kind: FigureKind | undefined;
+  let nearest = -1;
+  KIND_WORDS.forEach(([name, pattern]) => {
+    const index = lastMatchIndex(before, pattern);
+    if (index > nearest) {
+      nearest = index;
+      kind = name;
+    }
+  });
+  if (kind) return kind;
+
+  nearest = Infinity;
+  KIND_WORDS.forEach(([name, pattern]) => {
+    const index = after.search(pattern);
+    if (index >= 0 && index < nearest) {
+      nearest = index;
+      kind = name;
+    }
+  });
+  return kind;
+}
+
+/**
+ * Whether a misquote may be corrected to this figure: one of the stated kind (a cell counts when
+ * its column is named for that kind, e.g. TOTAL_AMOUNT), or, when no kind is stated, a cell of a
+ * row the sentence names
+ */
+function correctableTo(candidate: Candidate, kind: FigureKind | undefined, sentence: string): boolean {
+  if (!kind) {
+    return candidate.kind === 'cell' && !!candidate.label && candidate.label.length >= 3 && sentence.includes(candidate.label.toLowerCase());
+  }
+  if (candidate.kind === kind) return true;
+  return candidate.kind === 'cell' && !!candidate.column && statedKind(candidate.column.replace(/[_$.]/g, ' '), '') === kind;
+}
+
+function lastMatchIndex(text: string, pattern: RegExp): number {
+  let index = -1;
+  const global = new RegExp(pattern.source, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(text))) {
+    index = match.index;
+  }
+  return index;
+}
+
+function closest(candidates: Candidate[], value: number): Candidate | undefined {
+  let best: Candidate | undefined;
+  candidates.forEach(candidate => {
+    if (!best || Math.abs(Math.abs(candidate.value) - value) < Math.abs(Math.abs(best.value) - value)) {
+      best = candidate;
+    }
+  });
+  return best;
+}
+
+/**
+ * Every figure the data supports: cells, and per-column totals, extremes and averages of row arrays
+ */
+function collectCandidates(data: any, path = '', candidates: Candidate[] = [], label?: string, column?: string): Candidate[] {
+  if (Array.isArray(data)) {
+    const rows = data.filter(row => row && typeof row === 'object' && !Array.isArray(row));
+    if (rows.length > 0) {
+      candidates.push({ value: rows.length, source: `count of ${path || 'rows'}`, kind: 'count' });
+      columnFigures(rows, path, candidates);
+    }
+    data.forEach((entry, index) => {
+      const entryLabel = rowLabel(entry);
+      collectCandidates(entry, `${path}[${entryLabel || index + 1}]`, candidates, entryLabel || label);
+    });
+  } else if (data && typeof data === 'object' && !(data instanceof Date)) {
+    Object.entries(data).forEach(([key, value]) => collectCandidates(value, path ? `${path}.${key}` : key, candidates, label, key));
+  } else {
+    const value = toNumber(data);
+    if (value !== null) candidates.push({ value, source: path || 'value', kind: 'cell', label, column });
+  }
+  return candidates;
+}
+
+function columnFigures(rows: any[], path: string, candidates: Candidate[]): void {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+
+  columns.forEach(column => {
+    const values = rows.map(row => toNumber(row[column])).filter((value): value is number => value !== null);
+    if (values.length < 2) return;
+
+    const label = `${column}${path ? ` in ${path}` : ''} over ${values.length} rows`;
+    const sum = values.reduce((total, value) => total + value, 0);
+    const absolute = values.reduce((total, value) => total + Math.abs(value), 0);
+    candidates.push({ value: sum, source: `sum of ${label}`, kind: 'sum' });
+    if (absolute !== Math.abs(sum)) candidates.push({ value: absolute, source: `sum of absolute ${label}`, kind: 'sum' });
+    candidates.push({ value: Math.max(...values.map(Math.abs)), source: `largest ${label}`, kind: 'max' });
+    candidates.push({ value: Math.min(...values.map(Math.abs)), source: `smallest ${label}`, kind: 'min' });
+    candidates.push({ value: sum / values.length, source: `average of ${label}`, kind: 'average' });
+    if (absolute !== Math.abs(sum)) candidates.push({ value: absolute / values.length, source: `average of absolute ${label}`, kind: 'average' });
+    candidates.push({ value: values.filter(value => value !== 0).length, source: `non-zero ${label}`, kind: 'count' });
+  });
+}
+
+function rowLabel(row: any): string | undefined {
+  if (!row || typeof row !== 'object') return undefined;
+  const label = Object.values(row).find(value => typeof value === 'string' && toNumber(value) === null);
+  return label as string | undefined;
+}
+
+// ODBC returns amounts as numbers or strings such as "-1234.50" or "1,234.50 Dr"
+function toNumber(value: any): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(-?[\d,]+(?:\.\d+)?)(?:\s?(Dr|Cr))?$/i);
+  if (!match) return null;
+  const number = parseFloat(match[1].replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+function formatAmount(value: number, unit: string | undefined, scale: number, decimals: number): string {
+  if (unit) {
+    return `${(value / scale).toFixed(Math.max(decimals, 2)).replace(/\.?0+$/, '')} ${unit}`;
+  }
+  return value.toLocaleString('en-IN', { maximumFractionDigits: 2 });
+}
@@ -1,39 +1,8 @@
-import { GoogleGenAI } from "@google/genai";
+import { llmGateway } from './llm-gateway';
+import { TallyAIResponse, TALLY_QUERY_SYSTEM_PROMPT, buildTallyQueryPrompt, parseTallyAIResponse } from './tally-query-prompt';
+import { verifyAnswer, formatVerificationNote } from './answer-verification';
 
-let ai: GoogleGenAI | null = null;
-
-// Initialize Gemini client lazily with better error handling
-function getGeminiClient(): GoogleGenAI | null {
-  const GEMINI_API_KEY = process.env.GOOGLE_AI_API_KEY;
-  if (!GEMINI_API_KEY) {
-    console.warn('🔑 GOOGLE_AI_API_KEY not found - Gemini service unavailable');
-    console.log('💡 Tip: Set GOOGLE_AI_API_KEY environment variable to enable Gemini features');
-    return null;
-  }
-  
-  if (!ai) {
-    try {
-      ai = new GoogleGenAI({ apiKey: GEMINI_API_KEY });
-      console.log('✅ Gemini service initialized successfully');
-    } catch (error) {
-      console.error('❌ Gemini initialization failed:', error);
-      return null;
-    }
-  }
-  
-  return ai;
-}
-
-export interface TallyAIResponse {
-  type: 'sql' | 'analysis' | 'explanation' | 'smart_query';
-  sql?: string;
-  explanation: string;
-  requiresExecution: boolean;
-  businessInsights?: string;
-  followUpQuestions?: string[];
-  confidence?: number;
-  searchTerm?: string; // For smart ledger queries
-}
+export type { TallyAIResponse };
 
 export interface SmartQueryContext {
   isLedgerQuery: boolean;
@@ -77,13 +46,12 @@ export class GeminiService {
       // Process as general query
       console.log('🔄 Processing as general query...');
       const promptStartTime = Date.now();
-      const prompt = this.buildTallyQueryPrompt(userQuery, connectionStatus, businessContext);
+      const prompt = buildTallyQueryPrompt(userQuery, connectionStatus);
       console.log(`📋 Prompt built in ${Date.now() - promptStartTime}ms`);
       console.log('📝 Prompt preview (first 300 chars):', prompt.substring(0, 300) + '...');
       console.log('📊 Prompt length:', prompt.length, 'characters');
 
-      const geminiClient = getGeminiClient();
-      if (!geminiClient) {
+      if (!llmGateway.getAvailableProviders().includes('gemini')) {
         console.error('❌ Gemini client unavailable - using fallback');
         return {
           type: 'explanation',
@@ -96,10 +64,12 @@ export class GeminiService {
       console.log("📤 Sending request to Gemini Flash Thinking...");
       const apiStartTime = Date.now();
       
-      const response = await geminiClient.models.generateContent({
-        model: "gemini-2.0-flash-thinking-exp",
-        contents: [{ text: prompt }],
-      });
+      const response = await llmGateway.complete({
+        system: TALLY_QUERY_SYSTEM_PROMPT,
+        prompt,
+        json: true,
+        label: 'tally-query'
+      }, { providers: ['gemini'] });
 
       const apiTime = Date.now() - apiStartTime;
       console.log(`📥 Gemini response received in ${apiTime}ms`);
@@ -112,7 +82,7 @@ export class GeminiService {
       });
       
       console.log('🔄 Parsing AI response...');
-      const parsedResponse = this.parseAIResponse(aiResponse, userQuery);
+      const parsedResponse = parseTallyAIResponse(aiResponse);
       console.log('✅ Gemini processing completed successfully');
       return parsedResponse;
 
@@ -145,15 +115,11 @@ export class GeminiService {
       // Detailed analysis for complex queries
       const prompt = this.buildResultAnalysisPrompt(originalQuery, sqlQuery, results, executionTime);
 
-      const geminiClient = getGeminiClient();
-    if (!geminiClient) {
+      if (!llmGateway.getAvailableProviders().includes('gemini')) {
       console.warn('⚠️ Gemini client unavailable - using fallback');
       return this.generateFallbackAnalysis(originalQuery, results);
     }
-      const response = await geminiClient.models.generateContent({
-        model: "gemini-2.0-flash-thinking-exp",
-        contents: [{ text: prompt }],
-      });
+      const response = await llmGateway.complete({ prompt }, { providers: ['gemini'] });
 
       return this.formatAnalysisResponse(response.text || "Query executed successfully.", results);
 
@@ -336,8 +302,9 @@ export class GeminiService {
    * Format analysis response with key points only
    */
   private formatAnalysisResponse(aiResponse: string, results: any[]): string {
-    // Extract key points and make more concise
-    let response = aiResponse;
+    // Extract key points and make more concise; figures the rows do not back are corrected or flagged
+    const verification = verifyAnswer(aiResponse, results);
+    let response = verification.text + formatVerificationNote(verification.checks);
     
     // Add summary if multiple records
     if (results.length > 1) {
@@ -353,82 +320,6 @@ export class GeminiService {
     return response;
   }
 
-  /**
-   * Enhanced Tally query prompt with smart query context
-   */
-  private buildTallyQueryPrompt(
-    userQuery: string,
-    connectionStatus: any,
-    businessContext?: any
-  ): string {
-    return `You are TallyKaro AI, an expert in Tally ERP and Indian business data.
-
-CONNECTION STATUS:
-- Connected: ${connectionStatus.isConnected}
-- Company: ${connectionStatus.companyName || 'Current Company'}
-- Available: ${connectionStatus.availableData?.join(', ') || 'Ledger, Company'}
-
-LANGUAGE SUPPORT:
-- User may ask in English, Hindi, or Hinglish (mixed)
-- Common Hinglish terms: "kitna hai" = "how much", "ka balance" = "'s balance", "dikhao" = "show", "sabse zyada" = "highest"
-- Always respond in English with Indian business context
-
-QUERY ROUTING:
-- Company questions (address, name, details) → Query "Company" table
-- Account/Ledger questions (balance, customer, supplier) → Query "Ledger" table  
-- Analytical questions (highest, lowest, summary) → Use ORDER BY and LIMIT
-
-CRITICAL RULES:
-1. Use $Name, $ClosingBalance, $Parent syntax (Tally ODBC format)
-2. NEVER use VOUCHERHEAD or VOUCHERITEM tables (causes errors)
-3. Safe tables: Ledger, Company, StockItem
-4. For fuzzy matching: UPPER($Name) LIKE UPPER('%search%')
-5. Currency format: ₹
-6. Keep responses concise and actionable
-
-TALLY PATTERNS:
-- Cash/Bank: WHERE $Parent = 'Cash-in-Hand' OR $Parent = 'Bank Accounts'
-- Customers: WHERE $Parent = 'Sundry Debtors'
-- Suppliers: WHERE $Parent = 'Sundry Creditors'
-- Non-zero: WHERE $ClosingBalance <> 0
-
-USER QUERY: "${userQuery}"
-
-RESPONSE FORMAT (JSON):
-{
-  "type": "sql|analysis|explanation",
-  "sql": "SELECT $Name, $ClosingBalance FROM...",
-  "explanation": "Brief explanation",
-  "requiresExecution": true/false,
-  "businessInsights": "Key business insight",
-  "followUpQuestions": ["Next questions"]
-}
-
-EXAMPLES:
-
-Query: "cash balance"
-{
-  "type": "sql",
-  "sql": "SELECT $Name, $ClosingBalance FROM Ledger WHERE $Parent = 'Cash-in-Hand' OR $Parent = 'Bank Accounts'",
-  "explanation": "Getting all cash and bank account balances",
-  "requiresExecution": true,
-  "businessInsights": "Cash position shows business liquidity",
-  "followUpQuestions": ["Which account has highest balance?", "Total liquid funds?"]
-}
-
-Query: "all customers"
-{
-  "type": "sql", 
-  "sql": "SELECT $Name, $ClosingBalance FROM Ledger WHERE $Parent = 'Sundry Debtors' ORDER BY $ClosingBalance DESC",
-  "explanation": "Getting all customer account balances",
-  "requiresExecution": true,
-  "businessInsights": "Customer balances show receivables position",
-  "followUpQuestions": ["Who owes the most?", "Overdue amounts?"]
-}
-
-Generate response:`;
-  }
-
   /**
    * Enhanced result analysis prompt for concise insights
    */
@@ -475,38 +366,6 @@ ${hasBalances ? 'Include balance totals where relevant.' : ''}
 Generate analysis:`;
   }
 
-  /**
-   * Parse AI response with better error handling
-   */
-  private parseAIResponse(aiResponse: string, originalQuery: string): TallyAIResponse {
-    try {
-      // Try to extract JSON
-      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          type: parsed.type || 'explanation',
-          sql: parsed.sql,
-          explanation: parsed.explanation || aiResponse,
-          requiresExecution: parsed.requiresExecution || false,
-          businessInsights: parsed.businessInsights,
-          followUpQuestions: parsed.followUpQuestions || [],
-          confidence: 80
-        };
-      }
-    } catch (parseError) {
-      console.log("JSON parse failed, using text response");
-    }
-
-    // Fallback: treat as explanation
-    return {
-      type: 'explanation',
-      explanation: aiResponse,
-      requiresExecution: false,
-      confidence: 60
-    };
-  }
-
   /**
    * Generate fallback response for errors
    */
@@ -597,15 +456,11 @@ Use Indian business context and ₹ currency format.
 
 Response:`;
 
-      const geminiClient = getGeminiClient();
-    if (!geminiClient) {
+      if (!llmGateway.getAvailableProviders().includes('gemini')) {
       console.warn('⚠️ Gemini client unavailable - using fallback');
       return 'Service temporarily unavailable.';
     }
-      const response = await geminiClient.models.generateContent({
-        model: "gemini-2.0-flash-thinking-exp",
-        contents: [{ text: prompt }],
-      });
+      const response = await llmGateway.complete({ prompt }, { providers: ['gemini'] });
 
       return response.text || "Data analyzed successfully.";
     } catch (error) {
@@ -635,15 +490,11 @@ Provide brief analysis:
 
 Response (2-3 sentences):`;
 
-      const geminiClient = getGeminiClient();
-    if (!geminiClient) {
+      if (!llmGateway.getAvailableProviders().includes('gemini')) {
       console.warn('⚠️ Gemini client unavailable - using fallback');
       return 'Service temporarily unavailable.';
     }
-      const response = await geminiClient.models.generateContent({
-        model: "gemini-2.0-flash-thinking-exp",
-        contents: [{ text: prompt }],
-      });
+      const response = await llmGateway.complete({ prompt }, { providers: ['gemini'] });
 
       return response.text || `File ${fileName} processed successfully.`;
     } catch (error) {
@@ -680,15 +531,11 @@ Response (2-3 sentences):`;
    */
   async testConnection(): Promise<boolean> {
     try {
-      const geminiClient = getGeminiClient();
-    if (!geminiClient) {
+      if (!llmGateway.getAvailableProviders().includes('gemini')) {
       console.warn('⚠️ Gemini client unavailable - using fallback');
       return false;
     }
-      const response = await geminiClient.models.generateContent({
-        model: "gemini-2.0-flash-thinking-exp",
-        contents: [{ text: "Respond with 'OK' if you can process this message." }],
-      });
+      const response = await llmGateway.complete({ prompt: "Respond with 'OK' if you can process this message." }, { providers: ['gemini'] });
 
       return response.text?.includes('OK') || false;
     } catch (error) {
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LLMGateway, LLMProvider, LLMProviderName } from './llm-gateway';
+
+// The SDK-backed providers are never called: these tests bring their own
+vi.mock('./llm-providers', () => ({
+  OpenAICompatibleProvider: class {},
+  GeminiProvider: class {},
+  BedrockProvider: class {}
+}));
+
+function stubProvider(name: LLMProviderName, reply: () => Promise<string>, configured = true): LLMProvider & { calls: number } {
+  const provider = {
+    name,
+    calls: 0,
+    model: () => `${name}-model`,
+    isConfigured: () => configured,
+    complete: async () => {
+      provider.calls++;
+      return { text: await reply(), inputTokens: 10, outputTokens: 5 };
+    }
+  };
+  return provider;
+}
+
+const request = { prompt: 'sales for July 2024', system: 'Answer from Tally data', label: 'test' };
+
+describe('fixture mode', () => {
+  const fixturePath = path.join(os.tmpdir(), `llm-fixtures-${process.pid}.json`);
+
+  afterEach(() => {
+    fs.rmSync(fixturePath, { force: true });
+  });
+
+  async function recordFixture(): Promise<void> {
+    const recorder = new LLMGateway([stubProvider('openai', async () => 'Sales were ₹1,20,000')], { order: ['openai'], fixtureMode: 'record', fixturePath });
+    await recorder.complete(request);
+  }
+
+  it('replays a recorded response without calling a provider', async () => {
+    await recordFixture();
+    const provider = stubProvider('openai', async () => 'live answer');
+    const replayer = new LLMGateway([provider], { order: ['openai'], fixtureMode: 'replay', fixturePath });
+
+    const completion = await replayer.complete(request);
+    expect(completion).toMatchObject({ text: 'Sales were ₹1,20,000', provider: 'openai', fromFixture: true, costUsd: 0 });
+    expect(provider.calls).toBe(0);
+  });
+
+  it('fails a request that has no recorded response', async () => {
+    await recordFixture();
+    const replayer = new LLMGateway([], { fixtureMode: 'replay', fixturePath });
+    await expect(replayer.complete({ ...request, prompt: 'purchases for July 2024' })).rejects.toThrow('No recorded LLM response for "test"');
+  });
+
+  it('fails a recorded response the caller does not accept', async () => {
+    await recordFixture();
+    const replayer = new LLMGateway([], { fixtureMode: 'replay', fixturePath });
+    await expect(replayer.complete(request, { accept: text => text.startsWith('{') })).rejects.toThrow('was not accepted');
+  });
+});
+
+describe('provider fallback', () => {
+  it('tries providers in order, skipping those not configured', async () => {
+    const openai = stubProvider('openai', async () => { throw new Error('invalid API key'); });
+    const gemini = stubProvider('gemini', async () => 'gemini answer', false);
+    const local = stubProvider('local', async () => 'local answer');
+    const gateway = new LLMGateway([openai, gemini, local], { order: ['openai', 'gemini', 'local'], fixtureMode: 'off' });
+
+    const completion = await gateway.complete(request);
+    expect(completion).toMatchObject({ text: 'local answer', provider: 'local', fromFixture: false });
+    expect([openai.calls, gemini.calls, local.calls]).toEqual([1, 0, 1]);
+    expect(gateway.getUsage().providers.openai.failures).toBe(1);
+  });
+
+  it('moves on from a reply the caller does not accept', async () => {
+    const openai = stubProvider('openai', async () => 'not json');
+    const local = stubProvider('local', async () => '{"intent":"sales"}');
+    const gateway = new LLMGateway([openai, local], { order: ['openai', 'local'], fixtureMode: 'off' });
+
+    const completion = await gateway.complete(request, { accept: text => text.startsWith('{') });
+    expect(completion.provider).toBe('local');
+  });
+
+  it('reports every provider when all fail', async () => {
+    const openai = stubProvider('openai', async () => { throw new Error('invalid API key'); });
+    const local = stubProvider('local', async () => { throw new Error('model not found'); });
+    const gateway = new LLMGateway([openai, local], { order: ['openai', 'local'], fixtureMode: 'off' });
+
+    await expect(gateway.complete(request)).rejects.toThrow('All LLM providers failed (openai: invalid API key; local: model not found)');
+  });
+});
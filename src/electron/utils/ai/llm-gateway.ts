@@ -0,0 +1,332 @@
+/**
+ * LLM Gateway
+ * One way to call a language model whichever provider answers: providers are tried in a
+ * configurable order, each with its own timeout and retries, and every call is counted
+ * (tokens and estimated cost). In fixture mode responses are recorded to, or replayed
+ * from, a JSON file so the AI query path runs without network.
+ *
+ * Environment:
+ *   LLM_PROVIDER_ORDER   - e.g. "local,openai" (default openai,gemini,bedrock,local)
+ *   LLM_<NAME>_TIMEOUT_MS, LLM_<NAME>_RETRIES - per provider, e.g. LLM_LOCAL_TIMEOUT_MS
+ *   LLM_FIXTURE_MODE     - "record" or "replay"
+ *   LLM_FIXTURE_PATH     - fixture file (default llm-fixtures.json in the working directory)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { OpenAICompatibleProvider, GeminiProvider, BedrockProvider } from './llm-providers';
+
+export type LLMProviderName = 'openai' | 'gemini' | 'bedrock' | 'local';
+
+export interface LLMRequest {
+  prompt: string;
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean; // Ask the provider for a JSON object where it supports that
+  label?: string; // Shown in logs
+}
+
+export interface LLMProviderReply {
+  text: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * An adapter for one provider. complete() should pass the signal on to the SDK so a
+ * timed-out request is abandoned rather than left running.
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  model(): string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest, signal: AbortSignal): Promise<LLMProviderReply>;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  fromFixture: boolean;
+}
+
+export interface LLMCompleteOptions {
+  // Only these providers, in this order (defaults to the configured order)
+  providers?: LLMProviderName[];
+  // A reply that fails this counts as a failure and the next provider is tried
+  accept?: (text: string) => boolean;
+}
+
+export interface LLMProviderUsage {
+  requests: number;
+  failures: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface LLMGatewayOptions {
+  order?: LLMProviderName[];
+  fixtureMode?: 'record' | 'replay' | 'off';
+  fixturePath?: string;
+}
+
+interface ProviderSettings {
+  timeoutMs: number;
+  retries: number;
+}
+
+type FixtureFile = { [key: string]: { provider: LLMProviderName; model: string; text: string; inputTokens: number; outputTokens: number } };
+
+const DEFAULT_ORDER: LLMProviderName[] = ['openai', 'gemini', 'bedrock', 'local'];
+
+// Local models run on the user's machine and are slow to answer, but never rate-limit
+const PROVIDER_DEFAULTS: { [name in LLMProviderName]: ProviderSettings } = {
+  openai: { timeoutMs: 30000, retries: 1 },
+  gemini: { timeoutMs: 30000, retries: 1 },
+  bedrock: { timeoutMs: 45000, retries: 1 },
+  local: { timeoutMs: 120000, retries: 0 }
+};
+
+// USD per million input / output tokens, matched by model-name prefix; unknown models cost 0
+const MODEL_PRICES: [string, number, number][] = [
+  ['gpt-4o-mini', 0.15, 0.6],
+  ['gpt-4o', 2.5, 10],
+  ['gemini-2.0-flash', 0.1, 0.4],
+  ['gemini-1.5-flash', 0.075, 0.3],
+  ['anthropic.claude-3-5-sonnet', 3, 15],
+  ['anthropic.claude-3-5-haiku', 0.8, 4],
+  ['anthropic.claude-3-haiku', 0.25, 1.25]
+];
+
+const RETRY_BASE_DELAY_MS = 1000;
+
+export class LLMGateway {
+  private providers = new Map<LLMProviderName, LLMProvider>();
+  private options: LLMGatewayOptions;
+  private usage: { [name: string]: LLMProviderUsage } = {};
+  private fixtures: FixtureFile | null = null;
+
+  // Options are read on each call when not given, since .env loads after modules are imported
+  constructor(providers: LLMProvider[] = [], options: LLMGatewayOptions = {}) {
+    providers.forEach(provider => this.register(provider));
+    this.options = options;
+  }
+
+  register(provider: LLMProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Configured providers in the order they will be tried
+   */
+  getAvailableProviders(): LLMProviderName[] {
+    return this.order().filter(name => this.providers.get(name)?.isConfigured());
+  }
+
+  isAvailable(): boolean {
+    return this.fixtureMode() === 'replay' || this.getAvailableProviders().length > 0;
+  }
+
+  /**
+   * Complete a prompt with the first provider that answers. Throws when every provider fails.
+   */
+  async complete(request: LLMRequest, options: LLMCompleteOptions = {}): Promise<LLMCompletion> {
+    const label = request.label || 'completion';
+    const key = fixtureKey(request);
+
+    if (this.fixtureMode() === 'replay') {
+      const fixture = this.loadFixtures()[key];
+      if (!fixture) {
+        throw new Error(`No recorded LLM response for "${label}" (fixture ${key.substring(0, 12)})`);
+      }
+      if (options.accept && !options.accept(fixture.text)) {
+        throw new Error(`Recorded LLM response for "${label}" was not accepted`);
+      }
+      return { ...fixture, costUsd: 0, latencyMs: 0, fromFixture: true };
+    }
+
+    const names = (options.providers || this.order()).filter(name => this.providers.get(name)?.isConfigured());
+    if (names.length === 0) {
+      throw new Error('No LLM provider is configured. Set OPENAI_API_KEY, GOOGLE_AI_API_KEY, AWS_BEARER_TOKEN_BEDROCK or LOCAL_LLM_BASE_URL.');
+    }
+
+    const errors: string[] = [];
+    let lastError: any;
+    for (const name of names) {
+      const provider = this.providers.get(name)!;
+      try {
+        const completion = await this.completeWith(provider, request, label);
+        if (options.accept && !options.accept(completion.text)) {
+          this.usageFor(name).failures++;
+          errors.push(`${name}: reply not usable`);
+          console.log(`⚠️ ${name} reply for "${label}" was not usable, trying the next provider`);
+          continue;
+        }
+        if (this.fixtureMode() === 'record') {
+          this.saveFixture(key, completion);
+        }
+        return completion;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        lastError = error;
+        errors.push(`${name}: ${message}`);
+        console.log(`⚠️ ${name} failed for "${label}": ${message}`);
+      }
+    }
+
+    // A single provider's own error keeps its status and code for the caller
+    if (names.length === 1 && lastError) throw lastError;
+    throw new Error(`All LLM providers failed (${errors.join('; ')})`);
+  }
+
+  getUsage(): { providers: { [name: string]: LLMProviderUsage }; totalCostUsd: number; order: LLMProviderName[]; available: LLMProviderName[] } {
+    const providers = JSON.parse(JSON.stringify(this.usage));
+    const totalCostUsd = Object.values(this.usage).reduce((sum, usage) => sum + usage.costUsd, 0);
+    return { providers, totalCostUsd: round(totalCostUsd), order: this.order(), available: this.getAvailableProviders() };
+  }
+
+  private async completeWith(provider: LLMProvider, request: LLMRequest, label: string): Promise<LLMCompletion> {
+    const settings = this.settingsFor(provider.name);
+    const usage = this.usageFor(provider.name);
+
+    for (let attempt = 0; ; attempt++) {
+      const startTime = Date.now();
+      usage.requests++;
+      try {
+        const reply = await withTimeout(signal => provider.complete(request, signal), settings.timeoutMs, `${provider.name} timed out after ${settings.timeoutMs / 1000} seconds`);
+        const model = provider.model();
+        const inputTokens = reply.inputTokens || 0;
+        const outputTokens = reply.outputTokens || 0;
+        const costUsd = estimateCost(model, inputTokens, outputTokens);
+
+        usage.inputTokens += inputTokens;
+        usage.outputTokens += outputTokens;
+        usage.costUsd = round(usage.costUsd + costUsd);
+
+        const latencyMs = Date.now() - startTime;
+        console.log(`🤖 ${provider.name} (${model}) answered "${label}" in ${latencyMs}ms, ${inputTokens}+${outputTokens} tokens`);
+        return { text: reply.text || '', provider: provider.name, model, inputTokens, outputTokens, costUsd, latencyMs, fromFixture: false };
+      } catch (error) {
+        usage.failures++;
+        if (attempt >= settings.retries || !isRetryable(error)) throw error;
+
+        usage.retries++;
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+        console.log(`🔄 Retrying ${provider.name} for "${label}" in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private order(): LLMProviderName[] {
+    if (this.options.order) return this.options.order;
+    const configured = (process.env.LLM_PROVIDER_ORDER || '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter((name): name is LLMProviderName => DEFAULT_ORDER.includes(name as LLMProviderName));
+    return configured.length > 0 ? Array.from(new Set(configured)) : DEFAULT_ORDER;
+  }
+
+  private settingsFor(name: LLMProviderName): ProviderSettings {
+    const prefix = `LLM_${name.toUpperCase()}_`;
+    const timeoutMs = parseInt(process.env[`${prefix}TIMEOUT_MS`] || '', 10);
+    const retries = parseInt(process.env[`${prefix}RETRIES`] || '', 10);
+    return {
+      timeoutMs: timeoutMs > 0 ? timeoutMs : PROVIDER_DEFAULTS[name].timeoutMs,
+      retries: retries >= 0 ? retries : PROVIDER_DEFAULTS[name].retries
+    };
+  }
+
+  private usageFor(name: LLMProviderName): LLMProviderUsage {
+    if (!this.usage[name]) {
+      this.usage[name] = { requests: 0, failures: 0, retries: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+    }
+    return this.usage[name];
+  }
+
+  private fixtureMode(): 'record' | 'replay' | 'off' {
+    const mode = this.options.fixtureMode || process.env.LLM_FIXTURE_MODE;
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+  }
+
+  private fixturePath(): string {
+    return this.options.fixturePath || process.env.LLM_FIXTURE_PATH || path.join(process.cwd(), 'llm-fixtures.json');
+  }
+
+  private loadFixtures(): FixtureFile {
+    if (!this.fixtures) {
+      const file = this.fixturePath();
+      this.fixtures = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+    }
+    return this.fixtures!;
+  }
+
+  private saveFixture(key: string, completion: LLMCompletion): void {
+    try {
+      const fixtures = this.loadFixtures();
+      fixtures[key] = {
+        provider: completion.provider,
+        model: completion.model,
+        text: completion.text,
+        inputTokens: completion.inputTokens,
+        outputTokens: completion.outputTokens
+      };
+      fs.writeFileSync(this.fixturePath(), JSON.stringify(fixtures, null, 2), 'utf8');
+    } catch (error) {
+      console.error('Failed to record LLM fixture:', error);
+    }
+  }
+}
+
+/**
+ * Run fn with an AbortSignal that fires, and a rejection, once timeoutMs has passed
+ */
+function withTimeout<T>(fn: (signal: AbortSignal) => Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(message));
+    }, timeoutMs);
+  });
+  return Promise.race([fn(controller.signal), timeout]).finally(() => clearTimeout(timer));
+}
+
+// Rate limits, server errors, timeouts and dropped connections are worth another try
+function isRetryable(error: any): boolean {
+  const status = error?.status || error?.statusCode || error?.$metadata?.httpStatusCode;
+  if (status === 429 || (status >= 500 && status < 600)) return true;
+  const message = String(error?.message || error).toLowerCase();
+  return ['timed out', 'timeout', 'network', 'econnreset', 'socket hang up', 'rate limit', 'throttl'].some(word => message.includes(word));
+}
+
+function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  return price ? round((inputTokens * price[1] + outputTokens * price[2]) / 1000000) : 0;
+}
+
+// The same request replays the same fixture whichever provider recorded it
+function fixtureKey(request: LLMRequest): string {
+  const identity = JSON.stringify({ system: request.system || '', prompt: request.prompt, json: !!request.json });
+  return crypto.createHash('sha256').update(identity).digest('hex');
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000000) / 1000000;
+}
+
+export const llmGateway = new LLMGateway([
+  new OpenAICompatibleProvider('openai'),
+  new GeminiProvider(),
+  new BedrockProvider(),
+  new OpenAICompatibleProvider('local')
+]);
@@ -0,0 +1,149 @@
+/**
+ * LLM provider adapters for the gateway. Clients are created on first use, once the
+ * environment (.env) has been loaded.
+ */
+
+import OpenAI from "openai";
+import { GoogleGenAI } from "@google/genai";
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { LLMProvider, LLMProviderName, LLMProviderReply, LLMRequest } from './llm-gateway';
+
+/**
+ * OpenAI, and any OpenAI-compatible endpoint such as Ollama or llama.cpp's server
+ * (LOCAL_LLM_BASE_URL, e.g. http://localhost:11434/v1, with LOCAL_LLM_MODEL)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  name: LLMProviderName;
+  private client: OpenAI | null = null;
+
+  constructor(name: 'openai' | 'local') {
+    this.name = name;
+  }
+
+  model(): string {
+    return this.name === 'local'
+      ? process.env.LOCAL_LLM_MODEL || 'llama3.1'
+      : process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  }
+
+  isConfigured(): boolean {
+    return this.name === 'local' ? !!process.env.LOCAL_LLM_BASE_URL : !!process.env.OPENAI_API_KEY;
+  }
+
+  async complete(request: LLMRequest, signal: AbortSignal): Promise<LLMProviderReply> {
+    const messages: { role: 'system' | 'user'; content: string }[] = [];
+    if (request.system) messages.push({ role: 'system', content: request.system });
+    messages.push({ role: 'user', content: request.prompt });
+
+    const completion = await this.getClient().chat.completions.create({
+      model: this.model(),
+      messages,
+      max_tokens: request.maxTokens || 1000,
+      temperature: request.temperature ?? 0.3,
+      // Not every local server supports response_format
+      ...(request.json && this.name === 'openai' ? { response_format: { type: 'json_object' as const } } : {})
+    }, { signal });
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      inputTokens: completion.usage?.prompt_tokens,
+      outputTokens: completion.usage?.completion_tokens
+    };
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = this.name === 'local'
+        ? new OpenAI({ baseURL: process.env.LOCAL_LLM_BASE_URL, apiKey: process.env.LOCAL_LLM_API_KEY || 'local' })
+        : new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.client;
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  name: LLMProviderName = 'gemini';
+  private client: GoogleGenAI | null = null;
+
+  model(): string {
+    return process.env.GEMINI_MODEL || 'gemini-2.0-flash-thinking-exp';
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.GOOGLE_AI_API_KEY;
+  }
+
+  async complete(request: LLMRequest, signal: AbortSignal): Promise<LLMProviderReply> {
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: process.env.GOOGLE_AI_API_KEY });
+    }
+
+    const response = await this.client.models.generateContent({
+      model: this.model(),
+      contents: [{ text: request.prompt }],
+      config: {
+        systemInstruction: request.system,
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+        abortSignal: signal
+      }
+    });
+
+    return {
+      text: response.text || '',
+      inputTokens: response.usageMetadata?.promptTokenCount,
+      outputTokens: response.usageMetadata?.candidatesTokenCount
+    };
+  }
+}
+
+/**
+ * Claude on AWS Bedrock, authenticated with a Bedrock bearer token
+ */
+export class BedrockProvider implements LLMProvider {
+  name: LLMProviderName = 'bedrock';
+  private client: BedrockRuntimeClient | null = null;
+
+  model(): string {
+    return process.env.BEDROCK_MODEL_ID || 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+  }
+
+  isConfigured(): boolean {
+    const token = process.env.AWS_BEARER_TOKEN_BEDROCK;
+    return !!token && !token.includes('PLACEHOLDER');
+  }
+
+  async complete(request: LLMRequest, signal: AbortSignal): Promise<LLMProviderReply> {
+    if (!this.client) {
+      this.client = new BedrockRuntimeClient({
+        region: process.env.AWS_REGION || 'us-east-1',
+        credentials: {
+          accessKeyId: 'unused', // Bearer token doesn't use access keys
+          secretAccessKey: 'unused',
+          sessionToken: process.env.AWS_BEARER_TOKEN_BEDROCK!
+        }
+      });
+    }
+
+    const command = new InvokeModelCommand({
+      modelId: this.model(),
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify({
+        anthropic_version: 'bedrock-2023-05-31',
+        max_tokens: request.maxTokens || 1024,
+        temperature: request.temperature,
+        system: request.system,
+        messages: [{ role: 'user', content: request.prompt }]
+      })
+    });
+
+    const response = await this.client.send(command, { abortSignal: signal });
+    const body = JSON.parse(new TextDecoder().decode(response.body));
+    return {
+      text: body.content?.[0]?.text || '',
+      inputTokens: body.usage?.input_tokens,
+      outputTokens: body.usage?.output_tokens
+    };
+  }
+}
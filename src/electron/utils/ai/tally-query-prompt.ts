@@ -0,0 +1,204 @@
+/**
+ * Tally Query Prompt
+ * The prompt every LLM provider gets for turning a question into Tally ODBC SQL, and the
+ * parser for its JSON reply, so providers are interchangeable behind the gateway
+ */
+
+import { describeTallySchema } from '../tally-schema';
+
+export interface TallyAIResponse {
+  type: 'sql' | 'analysis' | 'explanation' | 'smart_query';
+  sql?: string;
+  explanation: string;
+  requiresExecution: boolean;
+  businessInsights?: string;
+  followUpQuestions?: string[];
+  searchTerm?: string; // For smart ledger queries
+  confidence?: number;
+}
+
+export const TALLY_QUERY_SYSTEM_PROMPT = "You are TallyKaro AI, an expert in Tally ERP ODBC queries and Indian business intelligence. Always respond with valid JSON format.";
+
+export function buildTallyQueryPrompt(userQuery: string, connectionStatus: any): string {
+  return `You are TallyKaro AI, an expert in Tally ERP ODBC queries and Indian business intelligence.
+
+CONNECTION STATUS:
+- Connected: ${connectionStatus?.isConnected || false}
+- Company: ${connectionStatus?.companyName || 'Unknown'}
+- Available Data: ${connectionStatus?.availableData?.join(', ') || 'Basic tables'}
+
+TALLY ODBC QUERY RULES:
+1. CRITICAL: Use $Method syntax only: SELECT $Name, $ClosingBalance FROM Ledger
+2. NEVER use VOUCHERHEAD or VOUCHERITEM tables (causes TDL errors in educational Tally)
+3. Use ONLY the collections and fields listed under TALLY SCHEMA; queries with any other field are rejected before they run
+4. Indian currency format: ₹
+5. QUERY ROUTING:
+   - Company questions (address, name, details) → Query "Company" table
+   - Account/Ledger questions (balance, customer, supplier) → Query "Ledger" table
+   - Analytical questions (highest, lowest, summary) → Use ORDER BY and LIMIT
+6. Common patterns:
+   - Cash accounts: WHERE $Parent = 'Cash-in-Hand' OR $Parent = 'Bank Accounts'
+   - Debit balances: WHERE $$IsDr:$ClosingBalance
+   - Credit balances: WHERE $$IsCr:$ClosingBalance
+   - Non-zero balances: WHERE $ClosingBalance <> 0 (use only when specifically requested)
+   - Account groups: WHERE $Parent = 'Sundry Debtors' (for receivables)
+   - Sorting by amount: ORDER BY ABS($ClosingBalance) DESC (for highest absolute values)
+   - Include zero balances by default unless user specifically asks to exclude them
+
+TALLY SCHEMA (collection: fields):
+${describeTallySchema()}
+
+USER QUERY: "${userQuery}"
+
+You must respond with valid JSON in this exact format:
+{
+  "type": "sql|analysis|explanation",
+  "sql": "SELECT $Name, $ClosingBalance FROM Ledger WHERE...",
+  "explanation": "Business explanation of what this query does",
+  "requiresExecution": true,
+  "businessInsights": "What this data tells us about the business",
+  "followUpQuestions": ["What other questions the user might ask"]
+}
+
+EXAMPLE RESPONSES:
+
+For "What's my cash balance?":
+{
+  "type": "sql",
+  "sql": "SELECT $Name as ACCOUNT_NAME, $ClosingBalance as BALANCE FROM Ledger WHERE $Parent = 'Cash-in-Hand' OR $Parent = 'Bank Accounts' ORDER BY $ClosingBalance DESC",
+  "explanation": "This query retrieves all cash and bank account balances from your chart of accounts to show your liquid funds position.",
+  "requiresExecution": true,
+  "businessInsights": "Cash position analysis helps understand liquidity, working capital management, and ability to meet short-term obligations.",
+  "followUpQuestions": ["Which bank account has the highest balance?", "What's my total liquid funds?", "Show me all account balances"]
+}
+
+For "Show me my customers":
+{
+  "type": "sql", 
+  "sql": "SELECT $Name as CUSTOMER_NAME, $ClosingBalance as OUTSTANDING_AMOUNT FROM Ledger WHERE $Parent = 'Sundry Debtors' ORDER BY $ClosingBalance DESC",
+  "explanation": "This query shows all customers and their outstanding amounts from your accounts receivable.",
+  "requiresExecution": true,
+  "businessInsights": "Customer outstanding analysis helps with cash flow planning and credit management.",
+  "followUpQuestions": ["Which customer owes the most?", "What's my total receivables?", "Show me overdue accounts"]
+}
+
+For "What is my address?" or "company address":
+{
+  "type": "sql",
+  "sql": "SELECT $Name as COMPANY_NAME, $Address as COMPANY_ADDRESS FROM Company",
+  "explanation": "This query retrieves your company's registered address from the company master data.",
+  "requiresExecution": true,
+  "businessInsights": "Company address is used for official correspondence, compliance, and business registration purposes.",
+  "followUpQuestions": ["What's my company name?", "Show company details", "What's my GST registration?"]
+}
+
+For "highest closing balance" or "top balance":
+{
+  "type": "sql",
+  "sql": "SELECT $Name as LEDGER_NAME, $Parent as GROUP_NAME, $ClosingBalance as BALANCE FROM Ledger ORDER BY ABS($ClosingBalance) DESC LIMIT 10",
+  "explanation": "This query finds accounts with the highest closing balances sorted by amount.",
+  "requiresExecution": true,
+  "businessInsights": "Highest balances indicate your major assets, liabilities, or key business relationships that need attention.",
+  "followUpQuestions": ["Show me top 5 customers", "What are my largest suppliers?", "Show all cash accounts"]
+}
+
+For "How is my business doing?":
+{
+  "type": "analysis",
+  "sql": "",
+  "explanation": "To analyze your business performance, I need to examine key financial indicators. Let me start by checking your cash position, account balances, and receivables/payables.",
+  "requiresExecution": false,
+  "businessInsights": "Business performance analysis typically includes liquidity (cash position), profitability trends, receivables management, and overall financial health indicators.",
+  "followUpQuestions": ["What's my cash position?", "Show me all account balances", "What are my receivables and payables?", "Show me income vs expenses"]
+}
+
+For "closing balance kitna hai" or "clsing balane kitna hai":
+{
+  "type": "sql",
+  "sql": "SELECT $Name as LEDGER_NAME, $ClosingBalance as BALANCE FROM Ledger ORDER BY ABS($ClosingBalance) DESC LIMIT 20",
+  "explanation": "This query shows all accounts with their closing balances, including zero balances, sorted by absolute amount.",
+  "requiresExecution": true,
+  "businessInsights": "Closing balances show your current financial position across all accounts, including accounts with zero balance.",
+  "followUpQuestions": ["Which account has the highest balance?", "Show me only cash accounts", "What's my total balance?"]
+}
+
+For "total sales kitna hai" or "sales kitna hua":
+{
+  "type": "sql",
+  "sql": "SELECT $Name as SALES_ACCOUNT, $ClosingBalance as SALES_AMOUNT FROM Ledger WHERE $Parent LIKE '%Sales%' OR $Parent LIKE '%Income%' ORDER BY $ClosingBalance DESC",
+  "explanation": "This query retrieves all sales and income accounts to show your revenue.",
+  "requiresExecution": true,
+  "businessInsights": "Sales analysis helps track revenue performance and identify top-performing income sources.",
+  "followUpQuestions": ["Which product/service sold the most?", "Monthly sales trend?", "Compare with last year"]
+}
+
+For "Ramniklal K Doshi balance" or "[Account Name] balance kitna hai":
+{
+  "type": "sql",
+  "sql": "SELECT $Name as ACCOUNT_NAME, $ClosingBalance as BALANCE, $Parent as GROUP_NAME FROM Ledger WHERE UPPER($Name) LIKE UPPER('%Ramniklal%') AND UPPER($Name) LIKE UPPER('%Doshi%') AND UPPER($Name) LIKE UPPER('%Capital%')",
+  "explanation": "This query searches for the specific account by name to get its closing balance.",
+  "requiresExecution": true,
+  "businessInsights": "Account-specific balance helps track individual ledger performance.",
+  "followUpQuestions": ["Show me transaction details", "Generate ledger report", "Compare with last month"]
+}
+
+Generate your JSON response now:`;
+}
+
+export interface TallySqlAttempt {
+  sql: string;
+  error: string; // Why the SQL was rejected or what Tally's ODBC driver said
+}
+
+/**
+ * The query prompt again, with the SQL that already failed and why, so the model can correct it
+ */
+export function buildTallyRepairPrompt(userQuery: string, connectionStatus: any, attempts: TallySqlAttempt[]): string {
+  const failures = attempts.map((attempt, index) =>
+    `Attempt ${index + 1}: ${attempt.sql}\nError: ${attempt.error}`
+  ).join('\n\n');
+
+  return `${buildTallyQueryPrompt(userQuery, connectionStatus)}
+
+PREVIOUS ATTEMPTS FAILED:
+${failures}
+
+Correct the SQL using only the collections and fields in TALLY SCHEMA. Respond with the same JSON format.`;
+}
+
+/**
+ * Parse a provider's reply; the JSON object may be wrapped in prose or a code fence.
+ * Anything unparseable becomes an explanation.
+ */
+export function parseTallyAIResponse(text: string): TallyAIResponse {
+  try {
+    const jsonMatch = (text || '').match(/\{[\s\S]*\}/);
+    if (jsonMatch) {
+      const parsed = JSON.parse(jsonMatch[0]);
+      return {
+        type: parsed.type || 'explanation',
+        sql: parsed.sql,
+        explanation: parsed.explanation || 'Query processed.',
+        requiresExecution: parsed.requiresExecution || false,
+        businessInsights: parsed.businessInsights,
+        followUpQuestions: parsed.followUpQuestions || [],
+        searchTerm: parsed.searchTerm
+      };
+    }
+  } catch (parseError) {
+    console.error("Could not parse AI JSON response:", parseError);
+  }
+
+  return {
+    type: 'explanation',
+    explanation: text || 'I apologize, but I had trouble processing your query. Please try asking a more specific question about your Tally data.',
+    requiresExecution: false
+  };
+}
+
+/**
+ * Whether a reply is worth acting on (an explanation alone sends the query elsewhere)
+ */
+export function isActionableTallyReply(text: string): boolean {
+  return parseTallyAIResponse(text).type !== 'explanation';
+}
@@ -3,9 +3,22 @@
  * Single source of truth for client_id across the application
  */
 
+/**
+ * Client IDs are the company name slug ("Rohit Steels (from 1-Apr-23)" -> "rohit-steels-from-1-apr-23"),
+ * the same normalisation the renderer uses when it initialises sync
+ */
+export function toClientId(companyName: string): string {
+  return companyName
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
 class ClientContextManager {
   private static instance: ClientContextManager;
   private currentClientId: string | null = null;
+  private currentCompany: string | null = null;
 
   private constructor() {}
 
@@ -28,6 +41,22 @@ class ClientContextManager {
     this.currentClientId = clientId;
   }
 
+  /**
+   * Make a Tally company the active one; sync, cache and preferences follow its client ID
+   */
+  setActiveCompany(companyName: string): void {
+    if (!companyName || companyName.trim() === '') {
+      throw new Error('Company name cannot be empty');
+    }
+
+    this.currentCompany = companyName.trim();
+    this.setClientId(toClientId(this.currentCompany));
+  }
+
+  getActiveCompany(): string | null {
+    return this.currentCompany;
+  }
+
   /**
    * Get the current client ID
    * Throws error if not set (fail-fast instead of silent bugs)
@@ -64,6 +93,7 @@ class ClientContextManager {
   clearClientId(): void {
     console.log('🔓 Clearing client context');
     this.currentClientId = null;
+    this.currentCompany = null;
   }
 }
 
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { defaultReportPeriod, parseDateExpression, parseFinancialYear, toISODateString } from './date-expression';
+
+// Tuesday 15 Oct 2024: Q3 of FY 2024-25
+const today = new Date(2024, 9, 15);
+
+function period(query: string, booksFrom?: Date): [string, string] | null {
+  const expression = parseDateExpression(query, { today, booksFrom });
+  return expression ? [toISODateString(expression.fromDate), toISODateString(expression.toDate)] : null;
+}
+
+describe('financial years and quarters', () => {
+  it('reads FY labels in every common spelling', () => {
+    expect(parseFinancialYear('sales for FY24')).toBe(2023);
+    expect(parseFinancialYear('FY 2023-24')).toBe(2023);
+    expect(parseFinancialYear('2023-24 balance sheet')).toBe(2023);
+    expect(parseFinancialYear('ABC Traders (from 1-Apr-23)')).toBe(2023);
+  });
+
+  it('maps quarters onto April-March', () => {
+    expect(period('sales in Q1')).toEqual(['2024-04-01', '2024-06-30']);
+    expect(period('Q2 FY 2023-24')).toEqual(['2023-07-01', '2023-09-30']);
+    expect(period('third quarter of last year')).toEqual(['2023-10-01', '2023-12-31']);
+  });
+
+  it('takes a quarter that has not started yet from the previous FY', () => {
+    expect(period('q4 purchases')).toEqual(['2024-01-01', '2024-03-31']);
+  });
+
+  it('resolves this and last quarter from today', () => {
+    expect(period('last quarter profit')).toEqual(['2024-07-01', '2024-09-30']);
+    expect(period('this quarter sales')).toEqual(['2024-10-01', '2024-10-15']);
+  });
+
+  it('reads last FY and a bare year as financial years', () => {
+    expect(period('last financial year expenses')).toEqual(['2023-04-01', '2024-03-31']);
+    expect(period('sales 2022')).toEqual(['2022-04-01', '2023-03-31']);
+  });
+});
+
+describe('months', () => {
+  it('reads Hinglish and Hindi month names', () => {
+    expect(period('julai ki sales')).toEqual(['2024-07-01', '2024-07-31']);
+    expect(period('disambar ka hisaab')).toEqual(['2023-12-01', '2023-12-31']);
+    expect(period('फरवरी की बिक्री')).toEqual(['2024-02-01', '2024-02-29']);
+  });
+
+  it('reads this and last month in Hinglish', () => {
+    expect(period('pichle mahine ki sales')).toEqual(['2024-09-01', '2024-09-30']);
+    expect(period('is mahine ka kharcha')).toEqual(['2024-10-01', '2024-10-15']);
+  });
+
+  it('does not take "mai" or "is month wise" as a period', () => {
+    expect(period('mai sales dekhna chahta hu')).toBeNull();
+    expect(period('what is month wise sales')).toBeNull();
+  });
+
+  it('reads "may" as a month only when it is not the modal verb', () => {
+    expect(period('may I see sales for this month')).toEqual(['2024-10-01', '2024-10-15']);
+    expect(period('may we get the purchase register')).toBeNull();
+    expect(period('sales in may')).toEqual(['2024-05-01', '2024-05-31']);
+    expect(period('may 2023 sales')).toEqual(['2023-05-01', '2023-05-31']);
+  });
+
+  it('reads month ranges and open-ended ranges', () => {
+    expect(period('april to june')).toEqual(['2024-04-01', '2024-06-30']);
+    expect(period('April se')).toEqual(['2024-04-01', '2024-10-15']);
+    expect(period('1/4/2024 se 30/6/2024 tak')).toEqual(['2024-04-01', '2024-06-30']);
+  });
+
+  it('reads today at the end of a range as the end, not the period', () => {
+    expect(period('April se aaj tak ki sales')).toEqual(['2024-04-01', '2024-10-15']);
+    expect(period('sales from april till today')).toEqual(['2024-04-01', '2024-10-15']);
+    expect(period('अप्रैल से आज तक की बिक्री')).toEqual(['2024-04-01', '2024-10-15']);
+    expect(period('ledger statement from 1/4/2024 to today')).toEqual(['2024-04-01', '2024-10-15']);
+  });
+});
+
+describe('relative days and ranges', () => {
+  it('reads kal, parso and aaj', () => {
+    expect(period('kal ki sales')).toEqual(['2024-10-14', '2024-10-14']);
+    expect(period('parso ka cash')).toEqual(['2024-10-13', '2024-10-13']);
+    expect(period('aaj ka collection')).toEqual(['2024-10-15', '2024-10-15']);
+  });
+
+  it('counts last-N ranges back from today inclusive', () => {
+    expect(period('last 15 days sales')).toEqual(['2024-10-01', '2024-10-15']);
+    expect(period('past 2 weeks')).toEqual(['2024-10-02', '2024-10-15']);
+    expect(period('pichle 3 mahine')).toEqual(['2024-07-16', '2024-10-15']);
+  });
+});
+
+describe('company books', () => {
+  const booksFrom = new Date(2024, 5, 10);
+
+  it('starts no period before the books do', () => {
+    expect(period('this financial year', booksFrom)).toEqual(['2024-06-10', '2024-10-15']);
+    expect(period('till date', booksFrom)).toEqual(['2024-06-10', '2024-10-15']);
+    expect(period('aaj tak ki sales', booksFrom)).toEqual(['2024-06-10', '2024-10-15']);
+    expect(period('last 6 months', booksFrom)).toEqual(['2024-06-10', '2024-10-15']);
+  });
+
+  it('leaves a period wholly before the books as asked', () => {
+    expect(period('Q1 FY 2023-24', booksFrom)).toEqual(['2023-04-01', '2023-06-30']);
+  });
+
+  it('defaults to the FY to date within the books', () => {
+    const expression = defaultReportPeriod({ today, booksFrom });
+    expect([toISODateString(expression.fromDate), toISODateString(expression.toDate)]).toEqual(['2024-06-10', '2024-10-15']);
+  });
+});
@@ -0,0 +1,501 @@
+/**
+ * Date Expressions
+ * The one parser for the periods users ask about in English, Hinglish and Hindi:
+ * Indian financial years (April-March) and their quarters, months, weeks, single dates,
+ * relative ranges ("last 15 days", "kal", "parso") and open-ended ranges ("April se"),
+ * kept within the company's books
+ */
+
+export type DateGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year' | 'range';
+
+export interface DateExpression {
+  fromDate: Date;
+  toDate: Date;
+  description: string;
+  granularity: DateGranularity;
+}
+
+export interface DateExpressionOptions {
+  today?: Date; // Reference date, defaults to now
+  booksFrom?: Date; // Company books beginning; no period starts before it
+}
+
+// A month or calendar date found in the query, with where it was found
+interface DatePoint {
+  fromDate: Date;
+  toDate: Date;
+  label: string;
+  granularity: 'day' | 'month';
+  monthIndex: number;
+  year: number;
+  explicitYear: boolean;
+  start: number;
+  end: number;
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December'];
+
+// English names, abbreviations, common typos and Hinglish spellings, matched as whole words.
+// "mai" is left out: in Hinglish it is far more often "in" or "I" than May.
+const MONTH_WORDS: string[][] = [
+  ['january', 'jan', 'janu', 'jaunary', 'janury', 'janvari', 'janwari', 'janavari'],
+  ['february', 'feb', 'febr', 'feburary', 'februry', 'farvari', 'farwari', 'faravari', 'pharvari'],
+  ['march', 'mar', 'marc', 'maarch'],
+  ['april', 'apr', 'aprl', 'aprail', 'aprel'],
+  ['may'],
+  ['june', 'jun', 'joon'],
+  ['july', 'jul', 'jly', 'julai', 'julaai'],
+  ['august', 'aug', 'agust', 'agast'],
+  ['september', 'sep', 'sept', 'setember', 'sitambar', 'sitamber'],
+  ['october', 'oct', 'octo', 'octber', 'aktubar', 'aktoobar'],
+  ['november', 'nov', 'novem', 'novmber', 'navambar', 'navamber'],
+  ['december', 'dec', 'decem', 'decmber', 'disambar', 'disamber']
+];
+
+// Devanagari has no \b word boundary in JS regexes, so these are matched as plain text
+const HINDI_MONTHS: string[][] = [
+  ['जनवरी'], ['फरवरी', 'फ़रवरी'], ['मार्च'], ['अप्रैल'], ['मई'], ['जून'], ['जुलाई'], ['अगस्त'],
+  ['सितंबर', 'सितम्बर'], ['अक्टूबर', 'अक्तूबर'], ['नवंबर', 'नवम्बर'], ['दिसंबर', 'दिसम्बर']
+];
+
+const MONTH_LOOKUP: { [word: string]: number } = {};
+MONTH_WORDS.forEach((words, monthIndex) => words.forEach(word => { MONTH_LOOKUP[word] = monthIndex; }));
+const MONTH_PATTERN = Object.keys(MONTH_LOOKUP).sort((a, b) => b.length - a.length).join('|');
+
+const LAST = '(?:last|previous|prev|pichle|pichhle|pichla|pichhla|pichli|pichhli|beete|bite)';
+const THIS = '(?:this|current|chalu)';
+// Hinglish "is"/"iss" only before Hindi nouns: "what is month wise sales" is not this month
+const THIS_HINGLISH = '(?:is|iss)';
+// "may I see", "may we get": the modal verb, not the month
+const MODAL_MAY = /^\s+(?:i|we|you|u|he|she|it|they|this|that|be|have|not|also|please|know|get|see|show|check)\b/;
+// "April se aaj tak", "from 1/4/2025 to today": today ends a range rather than being the period
+const TODAY_ENDS_RANGE = /\b(?:se|to|till|until|upto|up to)\s+(?:aaj|today)\b|\b(?:aaj|today)\s+tak\b|आज\s+तक/;
+const ORDINAL_QUARTERS: { [word: string]: number } = { first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4 };
+
+/**
+ * Parse the period a query talks about, or null when it names none
+ */
+export function parseDateExpression(query: string, options: DateExpressionOptions = {}): DateExpression | null {
+  const text = query.toLowerCase();
+  const today = startOfDay(options.today || new Date());
+
+  const expression = (TODAY_ENDS_RANGE.test(text) ? null : parseRelativeDay(text, today))
+    || parseLastN(text, today)
+    || parseWeek(text, today)
+    || parseMonthKeyword(text, today)
+    || parseDatePoints(text, today)
+    || parseQuarter(text, today)
+    || parseFinancialYearExpression(text, today)
+    || parseTillDate(text, today, options.booksFrom);
+
+  return expression ? withinBooks(expression, today, options.booksFrom) : null;
+}
+
+/**
+ * What reports cover when the query names no period: the financial year to date
+ */
+export function defaultReportPeriod(options: DateExpressionOptions = {}): DateExpression {
+  const today = startOfDay(options.today || new Date());
+  const startYear = financialYearOf(today);
+  return withinBooks({
+    fromDate: new Date(startYear, 3, 1),
+    toDate: today,
+    description: `${financialYearLabel(startYear)} (to date)`,
+    granularity: 'year'
+  }, today, options.booksFrom);
+}
+
+/**
+ * Start year of the financial year a date falls in (1-Apr-2024 to 31-Mar-2025 -> 2024)
+ */
+export function financialYearOf(date: Date): number {
+  return date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+export function financialYearLabel(startYear: number): string {
+  return `FY ${startYear}-${String(startYear + 1).slice(-2)}`;
+}
+
+/**
+ * Start year of the financial year named in a query or company name:
+ * "FY24" / "FY 2023-24" / "2023-24" / "(from 1-Apr-23)" -> 2023
+ */
+export function parseFinancialYear(text: string): number | undefined {
+  const lower = text.toLowerCase();
+
+  const range = lower.match(/\b(?:fy\s*)?(20\d{2})\s*[-/]\s*(\d{2}|20\d{2})\b/) || lower.match(/\bfy\s*(\d{2})\s*[-/]\s*(\d{2})\b/);
+  if (range && toYear(range[2]) % 100 === (toYear(range[1]) + 1) % 100) {
+    return toYear(range[1]);
+  }
+
+  const fy = lower.match(/\bfy\s*'?(\d{2}|20\d{2})\b/);
+  if (fy) return toYear(fy[1]) - 1;
+
+  const from = lower.match(/from\s+\d{1,2}[-\s]?([a-z]{3})[a-z]*[-\s]?(\d{2}|20\d{2})\b/);
+  if (from) {
+    const year = toYear(from[2]);
+    return ['jan', 'feb', 'mar'].includes(from[1]) ? year - 1 : year;
+  }
+
+  return undefined;
+}
+
+/**
+ * YYYY-MM-DD of the local calendar date (toISOString would shift IST midnight to the previous day)
+ */
+export function toISODateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// ==================== Relative expressions ====================
+
+function parseRelativeDay(text: string, today: Date): DateExpression | null {
+  if (/\b(?:day before yesterday|parso|parson|parsoon)\b/.test(text) || hasHindiWord(text, 'परसों')) {
+    return day(addDays(today, -2), 'Day before yesterday');
+  }
+  if (/\b(?:yesterday|kal)\b/.test(text) || hasHindiWord(text, 'कल')) {
+    return day(addDays(today, -1), 'Yesterday');
+  }
+  if (/\b(?:today|todays|aaj)\b/.test(text) || hasHindiWord(text, 'आज')) {
+    return day(today, 'Today');
+  }
+  return null;
+}
+
+// "last 15 days", "pichle 3 mahine", "past 2 weeks"
+function parseLastN(text: string, today: Date): DateExpression | null {
+  const match = text.match(new RegExp(`\\b(?:${LAST}|past)\\s+(\\d{1,3})\\s*(days?|din|dino|dinon|weeks?|hafte|hafton|months?|mahine|mahino|mahinon|years?|saal|sal)\\b`));
+  if (!match) return null;
+
+  const count = parseInt(match[1], 10);
+  if (count <= 0) return null;
+  const unit = match[2];
+
+  if (/^(day|din)/.test(unit)) {
+    return { fromDate: addDays(today, -(count - 1)), toDate: today, description: `Last ${count} ${count === 1 ? 'day' : 'days'}`, granularity: 'range' };
+  }
+  if (/^(week|haft)/.test(unit)) {
+    return { fromDate: addDays(today, -(count * 7 - 1)), toDate: today, description: `Last ${count} ${count === 1 ? 'week' : 'weeks'}`, granularity: 'range' };
+  }
+  if (/^(year|saal|sal)/.test(unit)) {
+    const fromDate = addDays(new Date(today.getFullYear() - count, today.getMonth(), today.getDate()), 1);
+    return { fromDate, toDate: today, description: `Last ${count} ${count === 1 ? 'year' : 'years'}`, granularity: 'range' };
+  }
+  const fromDate = addDays(new Date(today.getFullYear(), today.getMonth() - count, today.getDate()), 1);
+  return { fromDate, toDate: today, description: `Last ${count} ${count === 1 ? 'month' : 'months'}`, granularity: 'range' };
+}
+
+// Weeks run Sunday to Saturday
+function parseWeek(text: string, today: Date): DateExpression | null {
+  const weekStart = addDays(today, -today.getDay());
+  if (new RegExp(`\\b${LAST}\\s+(?:week|hafte|hafta)\\b`).test(text)) {
+    return { fromDate: addDays(weekStart, -7), toDate: addDays(weekStart, -1), description: 'Last Week', granularity: 'week' };
+  }
+  if (new RegExp(`\\b(?:${THIS}\\s+(?:week|hafte|hafta)|${THIS_HINGLISH}\\s+(?:hafte|hafta))\\b`).test(text)) {
+    return { fromDate: weekStart, toDate: today, description: 'This Week', granularity: 'week' };
+  }
+  return null;
+}
+
+function parseMonthKeyword(text: string, today: Date): DateExpression | null {
+  if (new RegExp(`\\b${LAST}\\s+(?:month|mahine|mahina)\\b`).test(text)) {
+    const fromDate = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+    return {
+      fromDate,
+      toDate: new Date(today.getFullYear(), today.getMonth(), 0),
+      description: `Last Month (${MONTH_NAMES[fromDate.getMonth()]})`,
+      granularity: 'month'
+    };
+  }
+  if (new RegExp(`\\b(?:${THIS}\\s+(?:month|mahine|mahina)|${THIS_HINGLISH}\\s+(?:mahine|mahina))\\b`).test(text)) {
+    return { fromDate: new Date(today.getFullYear(), today.getMonth(), 1), toDate: today, description: 'This Month', granularity: 'month' };
+  }
+  return null;
+}
+
+// "till date", "ab tak", "aaj tak" on their own: everything in the books
+function parseTillDate(text: string, today: Date, booksFrom?: Date): DateExpression | null {
+  if (!/\b(?:till now|till date|till today|so far|until now|ab tak|abhi tak|aaj tak)\b/.test(text) && !hasHindiWord(text, 'आज तक')) return null;
+  return { fromDate: booksFrom ? startOfDay(booksFrom) : new Date(1970, 0, 1), toDate: today, description: 'Till date', granularity: 'range' };
+}
+
+// ==================== Financial year and quarters ====================
+
+// Quarters follow the Indian FY: Q1 Apr-Jun, Q2 Jul-Sep, Q3 Oct-Dec, Q4 Jan-Mar
+function parseQuarter(text: string, today: Date): DateExpression | null {
+  const currentStartYear = financialYearOf(today);
+  const currentQuarter = quarterOf(today);
+
+  if (new RegExp(`\\b${LAST}\\s+(?:quarter|timahi)\\b`).test(text)) {
+    const quarter = currentQuarter === 1 ? 4 : currentQuarter - 1;
+    const startYear = currentQuarter === 1 ? currentStartYear - 1 : currentStartYear;
+    return quarterExpression(startYear, quarter, today, 'Last Quarter');
+  }
+  if (new RegExp(`\\b${THIS}\\s+(?:quarter|timahi)\\b`).test(text)) {
+    return quarterExpression(currentStartYear, currentQuarter, today, 'This Quarter');
+  }
+
+  const numbered = text.match(/\bq([1-4])\b/) || text.match(/\b(first|1st|second|2nd|third|3rd|fourth|4th)\s+quarter\b/);
+  if (!numbered) return null;
+
+  const quarter = ORDINAL_QUARTERS[numbered[1]] || parseInt(numbered[1], 10);
+  let startYear = parseFinancialYear(text);
+  if (startYear === undefined) {
+    const previousYear = new RegExp(`\\b${LAST}\\s+(?:fy|financial year|year|saal|sal)\\b`).test(text);
+    const bareYear = text.match(/\b(20\d{2})\b/);
+    if (bareYear) {
+      startYear = parseInt(bareYear[1], 10);
+    } else {
+      startYear = previousYear ? currentStartYear - 1 : currentStartYear;
+      // A quarter that has not started yet means the one last year
+      if (!previousYear && quarterStart(startYear, quarter) > today) startYear -= 1;
+    }
+  }
+  return quarterExpression(startYear, quarter, today);
+}
+
+function parseFinancialYearExpression(text: string, today: Date): DateExpression | null {
+  const currentStartYear = financialYearOf(today);
+
+  let startYear = parseFinancialYear(text);
+  if (startYear === undefined) {
+    if (new RegExp(`\\b${LAST}\\s+(?:fy|financial year|year|saal|sal|varsh)\\b`).test(text)) {
+      startYear = currentStartYear - 1;
+    } else if (new RegExp(`\\b(?:${THIS}\\s+(?:fy|financial year|year|saal|sal|varsh)|${THIS_HINGLISH}\\s+(?:saal|sal|varsh)|ytd|(?:fy|year) to date)\\b`).test(text)) {
+      startYear = currentStartYear;
+    } else {
+      // A bare year means the FY starting in April of that year
+      const bareYear = text.match(/\b(20\d{2})\b/);
+      if (!bareYear) return null;
+      startYear = parseInt(bareYear[1], 10);
+    }
+  }
+
+  return { fromDate: new Date(startYear, 3, 1), toDate: new Date(startYear + 1, 2, 31), description: financialYearLabel(startYear), granularity: 'year' };
+}
+
+function quarterExpression(startYear: number, quarter: number, today: Date, prefix?: string): DateExpression {
+  const fromDate = quarterStart(startYear, quarter);
+  const label = `Q${quarter} ${financialYearLabel(startYear)}`;
+  return {
+    fromDate,
+    toDate: new Date(fromDate.getFullYear(), fromDate.getMonth() + 3, 0),
+    description: prefix ? `${prefix} (${label})` : label,
+    granularity: 'quarter'
+  };
+}
+
+function quarterStart(startYear: number, quarter: number): Date {
+  return new Date(startYear, 3 + (quarter - 1) * 3, 1);
+}
+
+function quarterOf(date: Date): number {
+  return Math.floor(((date.getMonth() + 9) % 12) / 3) + 1;
+}
+
+// ==================== Months and calendar dates ====================
+
+/**
+ * Months and dates named in the query: one on its own, a range between two
+ * ("April to June", "1/4/2024 se 30/6/2024 tak"), an open-ended range
+ * ("from April", "April se", "since 15 Jan") or a week of a month ("July 1st week")
+ */
+function parseDatePoints(text: string, today: Date): DateExpression | null {
+  const points = findDatePoints(text, today);
+  if (points.length === 0) return null;
+  const first = points[0];
+
+  if (points.length >= 2) {
+    const second = points[1];
+    const between = text.slice(first.end, second.start);
+    if (/^\s*(?:to|till|until|upto|up to|and|se|-|–)\s*$/.test(between)) {
+      // "March to May" without years reads forward from the first month
+      let toPoint = second;
+      if (!second.explicitYear && second.fromDate < first.fromDate) {
+        toPoint = pointInYear(second, second.year + 1);
+      }
+      return {
+        fromDate: first.fromDate,
+        toDate: toPoint.toDate,
+        description: `${first.label} to ${toPoint.label}`,
+        granularity: 'range'
+      };
+    }
+  }
+
+  const before = text.slice(0, first.start);
+  const after = text.slice(first.end);
+  if (/\b(?:from|since|starting)\s+(?:the\s+)?$/.test(before) || /^\s*(?:se|onwards?|to date|till date|till now)\b/.test(after) || /^\s*से(?=$|\s)/.test(after)) {
+    return { fromDate: first.fromDate, toDate: today, description: `${first.label} to date`, granularity: 'range' };
+  }
+
+  const week = text.match(/\b(\d)(?:st|nd|rd|th)?\s+week\b/) || text.match(/\bweek\s+(\d)\b/);
+  if (week && first.granularity === 'month') {
+    const weekNumber = parseInt(week[1], 10);
+    if (weekNumber >= 1 && weekNumber <= 5) {
+      const fromDate = addDays(first.fromDate, (weekNumber - 1) * 7);
+      const toDate = addDays(fromDate, 6) > first.toDate ? first.toDate : addDays(fromDate, 6);
+      return { fromDate, toDate, description: `Week ${weekNumber} of ${first.label}`, granularity: 'week' };
+    }
+  }
+
+  return { fromDate: first.fromDate, toDate: first.toDate, description: first.label, granularity: first.granularity };
+}
+
+function findDatePoints(text: string, today: Date): DatePoint[] {
+  const points: DatePoint[] = [];
+  const taken = (start: number, end: number) => points.some(point => start < point.end && end > point.start);
+  const add = (point: DatePoint | null) => {
+    if (point && !taken(point.start, point.end)) points.push(point);
+  };
+
+  // 15/04/2024, 15-04-24 (day first, as Tally shows them) and 2024-04-15
+  scan(text, /\b(20\d{2})-(\d{1,2})-(\d{1,2})\b/g, (match, index) =>
+    add(datePoint(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10), true, index, match[0].length)));
+  scan(text, /\b(\d{1,2})[-/.](\d{1,2})[-/.](20\d{2}|\d{2})\b/g, (match, index) =>
+    add(datePoint(toYear(match[3]), parseInt(match[2], 10) - 1, parseInt(match[1], 10), true, index, match[0].length)));
+
+  // "15 April 2024", "1st of jan", "April 15, 2024"
+  scan(text, new RegExp(`(?<!week\\s+)\\b(\\d{1,2})(?:st|nd|rd|th)?\\s*(?:of\\s+)?-?(${MONTH_PATTERN})\\b(?:[\\s,-]+(20\\d{2})\\b|-(\\d{2})\\b)?`, 'g'), (match, index) => {
+    const year = match[3] || match[4];
+    add(monthDayPoint(MONTH_LOOKUP[match[2]], parseInt(match[1], 10), year, text, today, index, match[0].length));
+  });
+  scan(text, new RegExp(`\\b(${MONTH_PATTERN})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?!\\s*(?:st|nd|rd|th)?\\s*week)(?:,?\\s*(20\\d{2})\\b)?`, 'g'), (match, index) =>
+    add(monthDayPoint(MONTH_LOOKUP[match[1]], parseInt(match[2], 10), match[3], text, today, index, match[0].length)));
+
+  // "July", "july 2024", "Apr-24", "april '24"
+  scan(text, new RegExp(`\\b(${MONTH_PATTERN})\\b(?:[\\s,]+(20\\d{2})\\b|\\s*['-](\\d{2})\\b)?`, 'g'), (match, index) => {
+    const year = match[2] || match[3];
+    if (match[1] === 'may' && !year && MODAL_MAY.test(text.slice(index + match[0].length))) return;
+    add(monthPoint(MONTH_LOOKUP[match[1]], year, text, today, index, match[0].length));
+  });
+  HINDI_MONTHS.forEach((words, monthIndex) => words.forEach(word => {
+    const index = text.indexOf(word);
+    if (index < 0) return;
+    const year = text.slice(index + word.length).match(/^\s*(20\d{2})\b/);
+    add(monthPoint(monthIndex, year?.[1], text, today, index, word.length + (year ? year[0].length : 0)));
+  }));
+
+  return points.filter(point => !isNaN(point.fromDate.getTime())).sort((a, b) => a.start - b.start);
+}
+
+function monthPoint(monthIndex: number, yearText: string | undefined, text: string, today: Date, start: number, length: number): DatePoint {
+  const year = yearText ? toYear(yearText) : impliedYear(monthIndex, text, today);
+  const fromDate = new Date(year, monthIndex, 1);
+  return {
+    fromDate,
+    toDate: new Date(year, monthIndex + 1, 0),
+    label: `${MONTH_NAMES[monthIndex]} ${year}`,
+    granularity: 'month',
+    monthIndex,
+    year,
+    explicitYear: !!yearText,
+    start,
+    end: start + length
+  };
+}
+
+function monthDayPoint(monthIndex: number, dayOfMonth: number, yearText: string | undefined, text: string, today: Date, start: number, length: number): DatePoint | null {
+  const year = yearText ? toYear(yearText) : impliedYear(monthIndex, text, today);
+  return datePoint(year, monthIndex, dayOfMonth, !!yearText, start, length);
+}
+
+function datePoint(year: number, monthIndex: number, dayOfMonth: number, explicitYear: boolean, start: number, length: number): DatePoint | null {
+  const date = new Date(year, monthIndex, dayOfMonth);
+  // Rejects 31-Feb and 15/13/2024
+  if (monthIndex < 0 || monthIndex > 11 || date.getMonth() !== monthIndex || date.getDate() !== dayOfMonth) return null;
+  return {
+    fromDate: date,
+    toDate: date,
+    label: formatDate(date),
+    granularity: 'day',
+    monthIndex,
+    year,
+    explicitYear,
+    start,
+    end: start + length
+  };
+}
+
+function pointInYear(point: DatePoint, year: number): DatePoint {
+  if (point.granularity === 'day') {
+    const date = new Date(year, point.monthIndex, point.fromDate.getDate());
+    return { ...point, fromDate: date, toDate: date, label: formatDate(date), year };
+  }
+  return {
+    ...point,
+    fromDate: new Date(year, point.monthIndex, 1),
+    toDate: new Date(year, point.monthIndex + 1, 0),
+    label: `${MONTH_NAMES[point.monthIndex]} ${year}`,
+    year
+  };
+}
+
+/**
+ * Year of a month named without one: inside the FY the query names ("April FY24"),
+ * else a standalone year in the query, else the most recent occurrence of the month
+ */
+function impliedYear(monthIndex: number, text: string, today: Date): number {
+  const startYear = parseFinancialYear(text);
+  if (startYear !== undefined) {
+    return monthIndex >= 3 ? startYear : startYear + 1;
+  }
+
+  const bareYear = text.match(/\b(20\d{2})\b(?!\s*[-/]\s*\d)/);
+  if (bareYear) return parseInt(bareYear[1], 10);
+
+  if (new RegExp(`\\b${LAST}\\s+(?:fy|financial year|year|saal|sal)\\b`).test(text)) {
+    const lastStart = financialYearOf(today) - 1;
+    return monthIndex >= 3 ? lastStart : lastStart + 1;
+  }
+
+  return monthIndex > today.getMonth() ? today.getFullYear() - 1 : today.getFullYear();
+}
+
+// ==================== Helpers ====================
+
+/**
+ * Nothing runs past today, and nothing starts before the company's books do
+ */
+function withinBooks(expression: DateExpression, today: Date, booksFrom?: Date): DateExpression {
+  let { fromDate, toDate } = expression;
+  if (toDate > today && fromDate <= today) toDate = today;
+
+  const booksStart = booksFrom ? startOfDay(booksFrom) : undefined;
+  if (booksStart && fromDate < booksStart && toDate >= booksStart) fromDate = booksStart;
+
+  return { ...expression, fromDate, toDate };
+}
+
+function hasHindiWord(text: string, word: string): boolean {
+  return new RegExp(`(?:^|[\\s,.?!])${word}(?=$|[\\s,.?!])`).test(text);
+}
+
+function day(date: Date, description: string): DateExpression {
+  return { fromDate: date, toDate: date, description, granularity: 'day' };
+}
+
+function scan(text: string, pattern: RegExp, onMatch: (match: RegExpExecArray, index: number) => void): void {
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    onMatch(match, match.index);
+  }
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toYear(value: string): number {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 2 ? 2000 + parseInt(digits, 10) : parseInt(digits, 10);
+}
+
+function formatDate(date: Date): string {
+  return `${date.getDate()} ${MONTH_NAMES[date.getMonth()].slice(0, 3)} ${date.getFullYear()}`;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { NameIndex, scoreNameMatch } from './name-matching';
+
+describe('scoreNameMatch', () => {
+  it('scores 100 only when every word is spelled the same', () => {
+    expect(scoreNameMatch('sharma traders', 'Sharma Traders')).toBe(100);
+    expect(scoreNameMatch('gupta bros', 'Gupta Brothers')).toBeLessThan(100);
+    expect(scoreNameMatch('sarma traders', 'Sharma Traders')).toBeLessThan(100);
+  });
+
+  it('matches Devanagari and sound-alike spellings', () => {
+    expect(scoreNameMatch('शर्मा ट्रेडर्स', 'Sharma Traders')).toBeGreaterThanOrEqual(80);
+    expect(scoreNameMatch('agrawal', 'Aggarwal')).toBeGreaterThanOrEqual(80);
+  });
+});
+
+describe('NameIndex', () => {
+  // Thousands of ledgers sharing a common word and the first letters of another
+  const ledgers = [
+    ...Array.from({ length: 3000 }, (_, i) => ({ name: `Shop ${i} Traders` })),
+    ...Array.from({ length: 3000 }, (_, i) => ({ name: `Shiv ${i} Party` })),
+    { name: 'Sharma Traders' },
+    { name: 'Traders' }
+  ];
+  const index = new NameIndex<{ name: string }>().update(ledgers);
+
+  it('still finds the best match among capped candidates', () => {
+    expect(index.search('sarma traders')[0].entry.name).toBe('Sharma Traders');
+    expect(index.search('traders')[0]).toMatchObject({ entry: { name: 'Traders' }, score: 100 });
+  });
+
+  it('searches a common word in well under 50 ms', () => {
+    // Fastest of a few runs, so a garbage collection pause does not fail the test
+    const timings = Array.from({ length: 3 }, () => {
+      const started = performance.now();
+      index.search('party');
+      return performance.now() - started;
+    });
+    expect(Math.min(...timings)).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Name Matching
+ * Matches what users type against ledger names the way they are actually written in
+ * Indian books: Devanagari and Latin spellings of the same name meet through
+ * transliteration, spelling variants (Sharma/Sarma, Agarwal/Aggarwal/Agrawal) through a
+ * phonetic key, and business suffixes (& Co, Traders, Pvt Ltd) count for little.
+ * NameIndex keeps the keys of every ledger in memory so a search only scores the
+ * ledgers sharing a key with the query, and at most MAX_CANDIDATES of those.
+ */
+
+export interface NameToken {
+  text: string; // Latin, lower case
+  key: string;
+  suffix: boolean;
+}
+
+export interface NameMatch<T> {
+  entry: T;
+  score: number; // 0-100; 100 only when every word is spelled the same
+  queryCoverage: number; // 0-1, how much of the query the name accounts for
+  nameCoverage: number; // 0-1, how much of the name (without suffixes) the query names
+}
+
+const VOWELS: { [char: string]: string } = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ri',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o'
+};
+
+const MATRAS: { [char: string]: string } = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ri',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o'
+};
+
+const CONSONANTS: { [char: string]: string } = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v', 'श': 'sh', 'ष': 'sh', 'स': 's', 'ह': 'h',
+  // Precomposed nukta letters
+  'क़': 'q', 'ख़': 'kh', 'ग़': 'g', 'ज़': 'z', 'ड़': 'r', 'ढ़': 'rh', 'फ़': 'f', 'य़': 'y'
+};
+
+// Consonant + nukta (़) written as two characters
+const NUKTA_FORMS: { [char: string]: string } = { 'क': 'q', 'ख': 'kh', 'ग': 'g', 'ज': 'z', 'ड': 'r', 'ढ': 'rh', 'फ': 'f', 'य': 'y' };
+
+const NUKTA = '़';
+const VIRAMA = '्';
+const DEVANAGARI_DIGIT_ZERO = 0x0966;
+
+// Words in ledger names that rarely decide which ledger is meant
+const SUFFIX_WORDS = [
+  'and', 'the', 'co', 'company', 'traders', 'trader', 'trading', 'enterprises', 'enterprise',
+  'pvt', 'private', 'ltd', 'limited', 'llp', 'inc', 'corp', 'corporation', 'industries',
+  'agency', 'agencies', 'sons', 'brothers', 'bros', 'ms', 'ac', 'account'
+];
+const SUFFIX_SET = new Set(SUFFIX_WORDS);
+const SUFFIX_KEYS = new Set(SUFFIX_WORDS.map(word => phoneticKey(word)).filter(key => key.length >= 3));
+
+// Common words ("traders", "party") are shared by thousands of ledgers; scoring all of them
+// would miss the 50 ms a search has
+const MAX_CANDIDATES = 500;
+
+export function hasDevanagari(text: string): boolean {
+  return /[ऀ-ॿ]/.test(text || '');
+}
+
+/**
+ * Devanagari to Latin letters ("शर्मा ट्रेडर्स" -> "sharmaa tredars"); other text is left as it is.
+ * The inherent vowel is dropped at the end of a word, as it is in speech.
+ */
+export function transliterate(text: string): string {
+  if (!hasDevanagari(text)) return text;
+
+  const chars = Array.from(text);
+  const isLetter = (char?: string) => !!char && (!!CONSONANTS[char] || !!VOWELS[char] || !!MATRAS[char] || char === VIRAMA || char === NUKTA || char === 'ं' || char === 'ँ' || char === 'ः');
+  let output = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (CONSONANTS[char]) {
+      let consonant = CONSONANTS[char];
+      if (chars[i + 1] === NUKTA) {
+        consonant = NUKTA_FORMS[char] || consonant;
+        i++;
+      }
+      output += consonant;
+
+      const next = chars[i + 1];
+      if (next && MATRAS[next]) {
+        output += MATRAS[next];
+        i++;
+      } else if (next === VIRAMA) {
+        i++;
+      } else if (isLetter(next)) {
+        output += 'a';
+      }
+    } else if (VOWELS[char]) {
+      output += VOWELS[char];
+    } else if (char === 'ं' || char === 'ँ') {
+      // Anusvara sounds as m before p, b and m
+      output += /^[pbm]/.test(CONSONANTS[chars[i + 1]] || '') ? 'm' : 'n';
+    } else if (char === 'ः') {
+      output += 'h';
+    } else if (char === NUKTA || char === VIRAMA) {
+      continue;
+    } else if (char >= '०' && char <= '९') {
+      output += String(char.charCodeAt(0) - DEVANAGARI_DIGIT_ZERO);
+    } else if (char === '।') {
+      output += '.';
+    } else {
+      output += char;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Sound-alike key for a Latin word: aspirates and doubled letters merge, vowels after the
+ * first letter drop out (sharma, sarma and shrama all give "srm")
+ */
+export function phoneticKey(word: string): string {
+  let key = (word || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (!key || /^[0-9]+$/.test(key)) return key;
+
+  key = key
+    .replace(/chh?/g, 'C')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/c/g, 'k')
+    .replace(/C/g, 'c')
+    .replace(/sh/g, 's')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/q/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 'j')
+    .replace(/w/g, 'v')
+    .replace(/y$/, 'i')
+    // Aspiration left after other consonants, and a closing h (Shah/Sah)
+    .replace(/([^aeiou])h/g, '$1')
+    .replace(/h$/, '');
+
+  const first = key[0] === 'e' ? 'i' : key[0] === 'o' ? 'u' : key[0];
+  const rest = key.slice(1).replace(/[aeiouy]/g, '');
+  return (first + rest).replace(/(.)\1+/g, '$1');
+}
+
+export function nameTokens(name: string): NameToken[] {
+  return transliterate(name || '')
+    .toLowerCase()
+    .replace(/\bm\/s\b/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(text => {
+      const key = phoneticKey(text) || text;
+      return { text, key, suffix: SUFFIX_SET.has(text) || SUFFIX_KEYS.has(key) };
+    });
+}
+
+/**
+ * Score one name against a query without building an index
+ */
+export function scoreNameMatch(query: string, name: string): number {
+  return scoreTokens(nameTokens(query), nameTokens(name)).score;
+}
+
+/**
+ * In-memory index of names by phonetic key. update() only re-indexes when the names change,
+ * so it can be fed a freshly loaded ledger list (new balances, same names) on every search.
+ */
+export class NameIndex<T extends { name: string }> {
+  private entries: T[] = [];
+  private tokens: NameToken[][] = [];
+  private coreCounts: number[] = [];
+  private byKey = new Map<string, number[]>();
+  // First two letters of each key, for names still being typed and later-letter typos
+  private byPrefix = new Map<string, number[]>();
+  private signature = '';
+
+  update(entries: T[]): this {
+    const signature = entries.map(entry => entry.name).join('\u0000');
+    this.entries = entries;
+    if (signature === this.signature) return this;
+
+    this.signature = signature;
+    // One token object per distinct word, so searches can remember comparisons by identity
+    const vocabulary = new Map<string, NameToken>();
+    this.tokens = entries.map(entry => nameTokens(entry.name).map(token => {
+      const shared = vocabulary.get(token.text);
+      if (shared) return shared;
+      vocabulary.set(token.text, token);
+      return token;
+    }));
+    this.coreCounts = this.tokens.map(tokens => tokens.filter(token => !token.suffix).length);
+    this.byKey.clear();
+    this.byPrefix.clear();
+    this.tokens.forEach((tokens, id) => {
+      new Set(tokens).forEach(token => {
+        addPosting(this.byKey, token.key, id);
+        // Searches look words up by prefix, never suffixes
+        if (!token.suffix && token.key.length >= 2) addPosting(this.byPrefix, token.key.slice(0, 2), id);
+      });
+    });
+    return this;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  search(query: string, limit = 10, minScore = 50): NameMatch<T>[] {
+    const queryTokens = nameTokens(query);
+    const lookup = queryTokens.filter(token => !token.suffix && token.text.length > 1);
+    // A ledger sharing a query word's key counts for more than one sharing its first letters
+    const hits = new Map<number, number>();
+    (lookup.length > 0 ? lookup : queryTokens).forEach(token => {
+      (this.byKey.get(token.key) || []).forEach(id => hits.set(id, (hits.get(id) || 0) + 2));
+      if (token.key.length >= 2) (this.byPrefix.get(token.key.slice(0, 2)) || []).forEach(id => hits.set(id, (hits.get(id) || 0) + 1));
+    });
+    let candidates = Array.from(hits.keys());
+    if (candidates.length > MAX_CANDIDATES) {
+      // Most hits first, then the names with the fewest words besides suffixes, which leave
+      // the least of the name unmatched
+      candidates = candidates
+        .sort((a, b) => hits.get(b)! - hits.get(a)! || this.coreCounts[a] - this.coreCounts[b])
+        .slice(0, MAX_CANDIDATES);
+    }
+
+    // Names share few distinct words, so each word is compared with the query once per search
+    const seen = new Map<NameToken, Map<NameToken, number>>();
+    const similarity = (a: NameToken, b: NameToken) => {
+      let compared = seen.get(a);
+      if (!compared) seen.set(a, compared = new Map());
+      let value = compared.get(b);
+      if (value === undefined) {
+        value = tokenSimilarity(a, b);
+        compared.set(b, value);
+      }
+      return value;
+    };
+
+    const matches: NameMatch<T>[] = [];
+    candidates.forEach(id => {
+      const scored = scoreTokens(queryTokens, this.tokens[id], similarity);
+      if (scored.score >= minScore) matches.push({ entry: this.entries[id], ...scored });
+    });
+
+    return matches
+      .sort((a, b) => b.score - a.score || a.entry.name.length - b.entry.name.length)
+      .slice(0, limit);
+  }
+}
+
+function addPosting(index: Map<string, number[]>, key: string, id: number): void {
+  const ids = index.get(key);
+  if (ids) ids.push(id);
+  else index.set(key, [id]);
+}
+
+function scoreTokens(
+  query: NameToken[],
+  name: NameToken[],
+  similarity: (a: NameToken, b: NameToken) => number = tokenSimilarity
+): Omit<NameMatch<unknown>, 'entry'> {
+  if (query.length === 0 || name.length === 0) return { score: 0, queryCoverage: 0, nameCoverage: 0 };
+
+  const queryCore = query.filter(token => !token.suffix);
+  const nameCore = name.filter(token => !token.suffix);
+  const queryWords = queryCore.length > 0 ? queryCore : query;
+  const nameWords = nameCore.length > 0 ? nameCore : name;
+
+  const best = (token: NameToken, against: NameToken[]) => {
+    let top = 0;
+    for (const other of against) top = Math.max(top, similarity(token, other));
+    return top;
+  };
+  const queryCoverage = queryWords.reduce((sum, token) => sum + best(token, name), 0) / queryWords.length;
+  const nameCoverage = nameWords.reduce((sum, token) => sum + best(token, query), 0) / nameWords.length;
+
+  // Matching suffixes only separate "Sharma Traders" from "Sharma Industries"
+  const suffixBonus = Math.min(0.1, query.filter(token => token.suffix && name.some(other => other.suffix && other.key === token.key)).length * 0.05);
+
+  const score = Math.round(Math.min(1, 0.7 * queryCoverage + 0.3 * nameCoverage + suffixBonus) * 100);
+  // Suffixes and sound-alikes can round up to full coverage ("gupta bros" for "Gupta Brothers")
+  return { score: score === 100 && !sameWords(query, name) ? 99 : score, queryCoverage, nameCoverage };
+}
+
+function sameWords(a: NameToken[], b: NameToken[]): boolean {
+  return a.every(token => b.some(other => other.text === token.text)) && b.every(token => a.some(other => other.text === token.text));
+}
+
+function tokenSimilarity(a: NameToken, b: NameToken): number {
+  if (a.text === b.text) return 1;
+  // Initials and numbers only match themselves
+  if (a.text.length === 1 || b.text.length === 1) return 0;
+  if (/^[0-9]/.test(a.text) || /^[0-9]/.test(b.text)) return 0;
+  if (a.key === b.key) return 0.9;
+  if (a.text.length >= 3 && (b.text.startsWith(a.text) || (a.key.length >= 3 && b.key.startsWith(a.key)))) return 0.75;
+
+  const longest = Math.max(a.key.length, b.key.length);
+  // Too different in length to reach the threshold
+  if (Math.abs(a.key.length - b.key.length) > 0.4 * longest) return 0;
+  const similarity = 1 - editDistance(a.key, b.key) / longest;
+  return similarity >= 0.6 && longest >= 3 ? 0.7 * similarity : 0;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -0,0 +1,277 @@
+/**
+ * ODBC Scheduler
+ * Runs ODBC calls one at a time (concurrent queries crash the Tally driver), highest priority
+ * first: interactive chat, then WhatsApp, then background sync. Identical SQL that is already
+ * queued or running is shared instead of being run twice.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type ODBCPriority = 'interactive' | 'whatsapp' | 'background';
+
+export const ODBC_PRIORITIES: ODBCPriority[] = ['interactive', 'whatsapp', 'background'];
+
+export interface ODBCJobOptions {
+  label?: string;
+  // Defaults to the caller's withPriority() scope, else interactive
+  priority?: ODBCPriority;
+  // Running time only. The driver cannot abort a query, so the caller gets the timeout
+  // error while the next job still waits for the driver call to return.
+  timeoutMs?: number;
+  // Aborting leaves the queue; a queued job nobody waits for any more is dropped
+  signal?: AbortSignal;
+  // Jobs with the same key share one run
+  coalesceKey?: string;
+}
+
+export interface ODBCSchedulerMetrics {
+  running: { label: string; priority: ODBCPriority; runningMs: number } | null;
+  queueDepth: number;
+  queued: { [priority in ODBCPriority]: number };
+  averageWaitMs: { [priority in ODBCPriority]: number };
+  oldestWaitMs: number; // How long the longest-queued job has been waiting
+  completed: number;
+  failed: number;
+  cancelled: number;
+  timedOut: number;
+  coalesced: number;
+  timestamp: string;
+}
+
+interface ODBCJob {
+  id: number;
+  label: string;
+  priority: ODBCPriority;
+  coalesceKey?: string;
+  task: () => Promise<any>;
+  timeoutMs?: number;
+  enqueuedAt: number;
+  startedAt?: number;
+  waiters: number;
+  settled: boolean;
+  promise: Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+type ODBCOutcome = 'completed' | 'failed' | 'cancelled' | 'timedOut';
+
+// Wait times kept per priority for the rolling average
+const WAIT_SAMPLES = 100;
+
+class ODBCScheduler {
+  private static instance: ODBCScheduler;
+  private queue: ODBCJob[] = [];
+  private running: ODBCJob | null = null;
+  private busy = false; // Stays set after a timeout until the driver call returns
+  private nextId = 1;
+  private scope = new AsyncLocalStorage<ODBCPriority>();
+  private waits: { [priority in ODBCPriority]: number[] } = { interactive: [], whatsapp: [], background: [] };
+  private counters = { completed: 0, failed: 0, cancelled: 0, timedOut: 0, coalesced: 0 };
+
+  private constructor() {}
+
+  static getInstance(): ODBCScheduler {
+    if (!ODBCScheduler.instance) {
+      ODBCScheduler.instance = new ODBCScheduler();
+    }
+    return ODBCScheduler.instance;
+  }
+
+  /**
+   * Run fn with every ODBC call it makes (however deep) scheduled at this priority
+   */
+  withPriority<T>(priority: ODBCPriority, fn: () => Promise<T>): Promise<T> {
+    return this.scope.run(priority, fn);
+  }
+
+  currentPriority(): ODBCPriority {
+    return this.scope.getStore() || 'interactive';
+  }
+
+  /**
+   * Queue an ODBC call and resolve with its result once it has had its turn
+   */
+  run<T>(task: () => Promise<T>, options: ODBCJobOptions = {}): Promise<T> {
+    const priority = options.priority || this.currentPriority();
+    const label = options.label || 'ODBC query';
+
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error(`ODBC job "${label}" was cancelled`));
+    }
+
+    let job = options.coalesceKey ? this.findActive(options.coalesceKey) : undefined;
+    if (job) {
+      this.counters.coalesced++;
+      // An interactive caller waiting on a queued background job lifts it, and gets its patience
+      if (!job.startedAt) {
+        if (rank(priority) < rank(job.priority)) job.priority = priority;
+        if (job.timeoutMs !== undefined) {
+          job.timeoutMs = options.timeoutMs === undefined ? undefined : Math.max(job.timeoutMs, options.timeoutMs);
+        }
+      }
+      console.log(`🔗 Sharing in-flight ODBC job "${job.label}" (${priority} caller)`);
+    } else {
+      job = this.createJob(task, label, priority, options);
+      if (this.busy) {
+        console.log(`⏳ ODBC busy with "${this.running?.label || 'a timed-out query'}", queuing "${label}" (${priority}, ${this.queue.length} waiting)`);
+      }
+      this.queue.push(job);
+    }
+
+    job.waiters++;
+    const result = this.waitFor(job, options.signal);
+    this.pump();
+    return result;
+  }
+
+  /**
+   * Drop queued jobs (all, or one priority); running jobs finish. Returns how many were dropped.
+   */
+  cancelQueued(priority?: ODBCPriority): number {
+    const dropped = this.queue.filter(job => !priority || job.priority === priority);
+    this.queue = this.queue.filter(job => !dropped.includes(job));
+    dropped.forEach(job => this.settle(job, new Error(`ODBC job "${job.label}" was cancelled`), 'cancelled'));
+    if (dropped.length > 0) {
+      console.log(`🚫 Cancelled ${dropped.length} queued ODBC job(s)${priority ? ` (${priority})` : ''}`);
+    }
+    return dropped.length;
+  }
+
+  getMetrics(): ODBCSchedulerMetrics {
+    const now = Date.now();
+    const queued = { interactive: 0, whatsapp: 0, background: 0 };
+    this.queue.forEach(job => queued[job.priority]++);
+
+    const averageWaitMs = { interactive: 0, whatsapp: 0, background: 0 };
+    ODBC_PRIORITIES.forEach(priority => {
+      const samples = this.waits[priority];
+      averageWaitMs[priority] = samples.length > 0 ? Math.round(samples.reduce((sum, wait) => sum + wait, 0) / samples.length) : 0;
+    });
+
+    return {
+      running: this.running
+        ? { label: this.running.label, priority: this.running.priority, runningMs: now - (this.running.startedAt || now) }
+        : null,
+      queueDepth: this.queue.length,
+      queued,
+      averageWaitMs,
+      oldestWaitMs: this.queue.length > 0 ? now - Math.min(...this.queue.map(job => job.enqueuedAt)) : 0,
+      ...this.counters,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private createJob(task: () => Promise<any>, label: string, priority: ODBCPriority, options: ODBCJobOptions): ODBCJob {
+    let resolve: (value: any) => void;
+    let reject: (error: Error) => void;
+    const promise = new Promise<any>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Rejections reach the waiters; nobody may be waiting on a dropped job
+    promise.catch(() => undefined);
+
+    return {
+      id: this.nextId++,
+      label,
+      priority,
+      coalesceKey: options.coalesceKey,
+      task,
+      timeoutMs: options.timeoutMs,
+      enqueuedAt: Date.now(),
+      waiters: 0,
+      settled: false,
+      promise,
+      resolve: resolve!,
+      reject: reject!
+    };
+  }
+
+  private findActive(coalesceKey: string): ODBCJob | undefined {
+    if (this.running && !this.running.settled && this.running.coalesceKey === coalesceKey) {
+      return this.running;
+    }
+    return this.queue.find(job => job.coalesceKey === coalesceKey);
+  }
+
+  private waitFor(job: ODBCJob, signal?: AbortSignal): Promise<any> {
+    if (!signal) return job.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.leave(job);
+        reject(new Error(`ODBC job "${job.label}" was cancelled`));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      job.promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private leave(job: ODBCJob): void {
+    job.waiters--;
+    if (job.waiters <= 0 && !job.startedAt) {
+      this.queue = this.queue.filter(queued => queued !== job);
+      this.settle(job, new Error(`ODBC job "${job.label}" was cancelled`), 'cancelled');
+    }
+  }
+
+  private pump(): void {
+    if (this.busy || this.queue.length === 0) return;
+
+    // Best priority first, first come first served within a priority
+    const next = this.queue.reduce((best, job) => rank(job.priority) < rank(best.priority) ? job : best);
+    this.queue = this.queue.filter(job => job !== next);
+
+    this.busy = true;
+    this.running = next;
+    next.startedAt = Date.now();
+    this.recordWait(next.priority, next.startedAt - next.enqueuedAt);
+
+    let timer: NodeJS.Timeout | undefined;
+    if (next.timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        console.warn(`⏱️ ODBC job "${next.label}" timed out after ${next.timeoutMs}ms; waiting for the driver before the next job`);
+        this.settle(next, new Error(`Query timeout after ${next.timeoutMs! / 1000} seconds`), 'timedOut');
+      }, next.timeoutMs);
+    }
+
+    Promise.resolve()
+      .then(next.task)
+      .then(
+        result => this.settle(next, null, 'completed', result),
+        error => this.settle(next, error instanceof Error ? error : new Error(String(error)), 'failed')
+      )
+      .finally(() => {
+        if (timer) clearTimeout(timer);
+        this.busy = false;
+        this.running = null;
+        this.pump();
+      });
+  }
+
+  private settle(job: ODBCJob, error: Error | null, outcome: ODBCOutcome, result?: any): void {
+    if (job.settled) return;
+    job.settled = true;
+    this.counters[outcome]++;
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(result);
+    }
+  }
+
+  private recordWait(priority: ODBCPriority, waitMs: number): void {
+    const samples = this.waits[priority];
+    samples.push(waitMs);
+    if (samples.length > WAIT_SAMPLES) samples.shift();
+  }
+}
+
+function rank(priority: ODBCPriority): number {
+  return ODBC_PRIORITIES.indexOf(priority);
+}
+
+export const odbcScheduler = ODBCScheduler.getInstance();
@@ -0,0 +1,240 @@
+/**
+ * SQL Policy
+ * Read-only guard for SQL that arrives from outside the main process (the renderer and
+ * AI-generated queries): a single SELECT over whitelisted collections, with a row limit
+ * and timeout per collection
+ */
+
+import { resolveCollection, getCollectionFields } from './tally-schema';
+
+export interface CollectionLimits {
+  maxRows: number;
+  timeoutMs: number;
+}
+
+export interface SqlPolicyDecision {
+  allowed: boolean;
+  error?: string;
+  collections: string[];
+  maxRows: number;
+  timeoutMs: number;
+}
+
+interface SqlToken {
+  type: 'word' | 'string' | 'number' | 'symbol';
+  value: string;
+}
+
+const DEFAULT_LIMITS: CollectionLimits = { maxRows: 5000, timeoutMs: 30000 };
+
+// Masters are cheap to read; Company has one row; voucher-level collections are slow in Tally
+const COLLECTION_LIMITS: { [collection: string]: CollectionLimits } = {
+  Company: { maxRows: 10, timeoutMs: 10000 },
+  Ledger: { maxRows: 10000, timeoutMs: 30000 },
+  Group: { maxRows: 2000, timeoutMs: 15000 },
+  Groups: { maxRows: 2000, timeoutMs: 15000 },
+  StockGroup: { maxRows: 2000, timeoutMs: 15000 },
+  VoucherType: { maxRows: 500, timeoutMs: 15000 },
+  Voucher: { maxRows: 2000, timeoutMs: 60000 },
+  LedgerOutstandings: { maxRows: 5000, timeoutMs: 60000 }
+};
+
+// Statements and clauses that write, run procedures or read past the single FROM list
+const FORBIDDEN_KEYWORDS = new Set([
+  'insert', 'update', 'delete', 'drop', 'alter', 'create', 'truncate', 'merge',
+  'exec', 'execute', 'call', 'into', 'grant', 'revoke', 'union', 'intersect', 'except'
+]);
+
+// Keywords that end a FROM list
+const CLAUSE_KEYWORDS = new Set(['where', 'order', 'group', 'having', 'limit', 'join', 'inner', 'left', 'right', 'outer', 'cross', 'on']);
+
+/**
+ * Decide whether SQL may run; when it may, collections and the limits to run it with
+ */
+export function checkSqlPolicy(sql: string): SqlPolicyDecision {
+  const deny = (error: string): SqlPolicyDecision => ({ allowed: false, error, collections: [], ...DEFAULT_LIMITS });
+
+  if (typeof sql !== 'string' || !sql.trim()) {
+    return deny('Query is empty');
+  }
+
+  let tokens: SqlToken[];
+  try {
+    tokens = tokenize(sql);
+  } catch (error) {
+    return deny(error instanceof Error ? error.message : String(error));
+  }
+
+  // One trailing semicolon is harmless; anything after it is a second statement
+  if (tokens.length > 0 && tokens[tokens.length - 1].value === ';') tokens.pop();
+  if (tokens.some(token => token.value === ';')) {
+    return deny('Only one statement can run at a time');
+  }
+
+  const words = tokens.filter(token => token.type === 'word').map(token => token.value.toLowerCase());
+  if (words[0] !== 'select') {
+    return deny('Only SELECT queries are allowed');
+  }
+
+  const forbidden = words.find(word => FORBIDDEN_KEYWORDS.has(word));
+  if (forbidden) {
+    return deny(`${forbidden.toUpperCase()} is not allowed`);
+  }
+  if (words.filter(word => word === 'select').length > 1) {
+    return deny('Subqueries are not allowed');
+  }
+
+  const requested = fromCollections(tokens);
+  if (requested.length === 0) {
+    return deny('Query must read FROM a Tally collection');
+  }
+
+  const collections: string[] = [];
+  for (const name of requested) {
+    const collection = resolveCollection(name);
+    if (!collection) {
+      return deny(`Collection "${name}" is not available to queries`);
+    }
+    collections.push(collection);
+  }
+
+  // Joined collections get the tightest row limit and the longest timeout of the set
+  const limits = collections.map(collection => COLLECTION_LIMITS[collection] || DEFAULT_LIMITS);
+  return {
+    allowed: true,
+    collections,
+    maxRows: Math.min(...limits.map(limit => limit.maxRows)),
+    timeoutMs: Math.max(...limits.map(limit => limit.timeoutMs))
+  };
+}
+
+/**
+ * The query with a TOP clause so Tally stops one row past the limit (the extra row shows the
+ * result was cut short); a smaller TOP of its own is kept. Expects a query that passed checkSqlPolicy.
+ */
+export function withRowLimit(sql: string, maxRows: number): string {
+  const match = sql.match(/^\s*select\s+(distinct\s+)?(?:top\s*\(?\s*(\d+)\s*\)?\s+)?/i);
+  if (!match) return sql;
+  if (match[2] && parseInt(match[2], 10) <= maxRows) return sql;
+  return `SELECT ${match[1] ? 'DISTINCT ' : ''}TOP ${maxRows + 1} ${sql.slice(match[0].length)}`;
+}
+
+/**
+ * Fields ($Name) the query uses that none of its collections expose, as messages naming
+ * the fields that do exist. Run on AI-generated SQL before it reaches Tally; expects a
+ * query that passed checkSqlPolicy.
+ */
+export function checkSqlFields(sql: string): string[] {
+  let tokens: SqlToken[];
+  try {
+    tokens = tokenize(sql);
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+
+  const collections = fromCollections(tokens)
+    .map(name => resolveCollection(name))
+    .filter((name): name is string => !!name);
+  if (collections.length === 0) return [];
+
+  const known = new Set<string>();
+  collections.forEach(collection => getCollectionFields(collection)!.forEach(name => known.add(name.toLowerCase())));
+
+  const unknown: string[] = [];
+  tokens.forEach(token => {
+    if (token.type !== 'word' || !token.value.startsWith('$')) return;
+    // $$CollectionField:$Amount:1:LedgerEntries reads a sub-collection the catalogue does not list
+    if (/^\$\$CollectionField:/i.test(token.value)) return;
+
+    // "$$IsDr:$ClosingBalance" is a function applied to a field; only the fields are checked
+    token.value.split(':')
+      .filter(part => /^\$[A-Za-z_]/.test(part))
+      .map(part => part.substring(1))
+      .forEach(name => {
+        if (!known.has(name.toLowerCase()) && !unknown.includes(name)) unknown.push(name);
+      });
+  });
+
+  return unknown.map(name =>
+    `Unknown field $${name} in ${collections.join(', ')}; available fields: ${collections.map(collection => getCollectionFields(collection)!.map(field => `$${field}`).join(', ')).join('; ')}`
+  );
+}
+
+function fromCollections(tokens: SqlToken[]): string[] {
+  const collections: string[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    if (depth !== 0 || token.type !== 'word') continue;
+
+    const keyword = token.value.toLowerCase();
+    if (keyword === 'join' && tokens[i + 1]?.type === 'word') {
+      collections.push(tokens[i + 1].value);
+    }
+    if (keyword !== 'from') continue;
+
+    // FROM a, b alias, c
+    let j = i + 1;
+    while (j < tokens.length && tokens[j].type === 'word' && !CLAUSE_KEYWORDS.has(tokens[j].value.toLowerCase())) {
+      collections.push(tokens[j].value);
+      j++;
+      // Skip an alias ("Ledger l", "Ledger AS l")
+      if (tokens[j]?.type === 'word' && tokens[j].value.toLowerCase() === 'as') j++;
+      if (tokens[j]?.type === 'word' && !CLAUSE_KEYWORDS.has(tokens[j].value.toLowerCase())) j++;
+      if (tokens[j]?.value !== ',') break;
+      j++;
+    }
+  }
+
+  return collections;
+}
+
+function tokenize(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (sql.startsWith('--', i) || sql.startsWith('/*', i)) {
+      throw new Error('Comments are not allowed in queries');
+    } else if (char === "'") {
+      // '' is an escaped quote inside a literal
+      let j = i + 1;
+      while (j < sql.length && !(sql[j] === "'" && sql[j + 1] !== "'")) {
+        j += sql[j] === "'" ? 2 : 1;
+      }
+      if (j >= sql.length) throw new Error('Unterminated string in query');
+      tokens.push({ type: 'string', value: sql.slice(i, j + 1) });
+      i = j + 1;
+    } else if (char === '"' || char === '[') {
+      const close = sql.indexOf(char === '"' ? '"' : ']', i + 1);
+      if (close === -1) throw new Error('Unterminated identifier in query');
+      tokens.push({ type: 'word', value: sql.slice(i + 1, close) });
+      i = close + 1;
+    } else if (/[$A-Za-z_]/.test(char)) {
+      const match = sql.slice(i).match(/^[$A-Za-z_][$A-Za-z0-9_:]*/)!;
+      tokens.push({ type: 'word', value: match[0] });
+      i += match[0].length;
+    } else if (/[0-9]/.test(char)) {
+      const match = sql.slice(i).match(/^[0-9]+(\.[0-9]+)?/)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (['<=', '>=', '<>', '!='].includes(sql.substr(i, 2))) {
+      tokens.push({ type: 'symbol', value: sql.substr(i, 2) });
+      i += 2;
+    } else if ('(),.*=<>+-/%;'.includes(char)) {
+      tokens.push({ type: 'symbol', value: char });
+      i++;
+    } else {
+      throw new Error(`Unexpected character "${char}" in query`);
+    }
+  }
+
+  return tokens;
+}
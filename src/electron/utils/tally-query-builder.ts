@@ -0,0 +1,223 @@
+/**
+ * Tally Query Builder
+ * Compiles QueryBuilder structures into Tally ODBC SQL. Collections and fields come from the
+ * schema catalogue and every value is written as an escaped literal, so user input (ledger names,
+ * search terms) never ends up in the SQL as text.
+ */
+
+import { resolveCollection, getCollectionFields } from './tally-schema';
+
+// Also exported to the renderer through shared/types/tally.ts
+export interface QueryBuilder {
+  select: string[]; // "Name", "$Name" or "$Name as name"
+  from: string;
+  where?: (QueryCondition | QueryConditionGroup)[];
+  orderBy?: QuerySort[];
+  limit?: number;
+  offset?: number; // Tally ODBC has no OFFSET: TOP covers limit + offset and executeBuilderQuery drops the rest
+}
+
+export interface QueryCondition {
+  field: string;
+  operator: '=' | '!=' | '>' | '<' | '>=' | '<=' | 'LIKE' | 'IN' | 'BETWEEN';
+  value: any; // IN takes an array, BETWEEN a [low, high] pair
+  logicalOperator?: 'AND' | 'OR';
+  ignoreCase?: boolean; // UPPER() both sides
+}
+
+// Conditions compiled inside parentheses, e.g. ($Parent LIKE '%Stock%' OR $Parent LIKE '%Inventory%')
+export interface QueryConditionGroup {
+  conditions: QueryCondition[];
+  logicalOperator?: 'AND' | 'OR';
+}
+
+export interface QuerySort {
+  field: string;
+  direction: 'ASC' | 'DESC';
+}
+
+const MAX_ROWS = 10000;
+
+/**
+ * Quote a value as a Tally SQL string literal
+ */
+export function escapeLiteral(value: string): string {
+  return `'${String(value).replace(/\0/g, '').replace(/'/g, "''")}'`;
+}
+
+/**
+ * LIKE pattern for a search term; % and _ in the term stay wildcards, which only widens the match
+ */
+export function likePattern(term: string, mode: 'contains' | 'startsWith' = 'contains'): string {
+  const trimmed = term.trim();
+  return mode === 'startsWith' ? `${trimmed}%` : `%${trimmed}%`;
+}
+
+/**
+ * Problems with a query, empty when it can be compiled
+ */
+export function validateQuery(query: QueryBuilder): string[] {
+  const errors: string[] = [];
+  const collection = resolveCollection(query?.from);
+  if (!collection) {
+    errors.push(`Unknown collection "${query?.from}"`);
+    return errors;
+  }
+
+  if (!Array.isArray(query.select) || query.select.length === 0) {
+    errors.push('Select at least one field');
+  } else {
+    query.select.forEach(column => {
+      const parsed = parseColumn(column);
+      if (!parsed) {
+        errors.push(`Invalid column "${column}"`);
+      } else if (!resolveField(collection, parsed.field)) {
+        errors.push(`Unknown field "${parsed.field}" in ${collection}`);
+      }
+    });
+  }
+
+  (query.where || []).forEach(entry => {
+    const conditions = isGroup(entry) ? entry.conditions : [entry];
+    if (isGroup(entry) && (!Array.isArray(entry.conditions) || entry.conditions.length === 0)) {
+      errors.push('Condition groups need at least one condition');
+    }
+    (conditions || []).forEach(condition => errors.push(...validateCondition(collection, condition)));
+  });
+
+  (query.orderBy || []).forEach(sort => {
+    if (!resolveField(collection, sort.field)) {
+      errors.push(`Unknown sort field "${sort.field}" in ${collection}`);
+    }
+    if (sort.direction !== 'ASC' && sort.direction !== 'DESC') {
+      errors.push(`Invalid sort direction "${sort.direction}"`);
+    }
+  });
+
+  if (query.limit !== undefined && !isRowCount(query.limit, 1)) {
+    errors.push(`Limit must be a whole number between 1 and ${MAX_ROWS}`);
+  }
+  if (query.offset !== undefined && !isRowCount(query.offset, 0)) {
+    errors.push(`Offset must be a whole number between 0 and ${MAX_ROWS}`);
+  }
+  if (query.offset && query.limit === undefined) {
+    errors.push('Offset needs a limit');
+  }
+
+  return errors;
+}
+
+/**
+ * Compile to Tally ODBC SQL; throws with every validation error when the query is invalid
+ */
+export function compileQuery(query: QueryBuilder): string {
+  const errors = validateQuery(query);
+  if (errors.length > 0) {
+    throw new Error(`Invalid Tally query: ${errors.join('; ')}`);
+  }
+
+  const collection = resolveCollection(query.from)!;
+  const columns = query.select.map(column => {
+    const { field, alias } = parseColumn(column)!;
+    const compiled = `$${resolveField(collection, field)}`;
+    return alias ? `${compiled} as ${alias}` : compiled;
+  });
+
+  const top = query.limit !== undefined ? `TOP ${query.limit + (query.offset || 0)} ` : '';
+  let sql = `SELECT ${top}${columns.join(', ')} FROM ${collection}`;
+
+  if (query.where && query.where.length > 0) {
+    sql += ` WHERE ${joinConditions(collection, query.where)}`;
+  }
+
+  if (query.orderBy && query.orderBy.length > 0) {
+    sql += ` ORDER BY ${query.orderBy.map(sort => `$${resolveField(collection, sort.field)} ${sort.direction}`).join(', ')}`;
+  }
+
+  return sql;
+}
+
+function joinConditions(collection: string, entries: (QueryCondition | QueryConditionGroup)[]): string {
+  return entries.map((entry, index) => {
+    const compiled = isGroup(entry)
+      ? `(${joinConditions(collection, entry.conditions)})`
+      : compileCondition(collection, entry);
+    return index === 0 ? compiled : `${entry.logicalOperator || 'AND'} ${compiled}`;
+  }).join(' ');
+}
+
+function compileCondition(collection: string, condition: QueryCondition): string {
+  const field = `$${resolveField(collection, condition.field)}`;
+  const wrap = (sql: string) => condition.ignoreCase ? `UPPER(${sql})` : sql;
+
+  switch (condition.operator) {
+    case 'IN':
+      return `${wrap(field)} IN (${(condition.value as any[]).map(value => wrap(toLiteral(value))).join(', ')})`;
+    case 'BETWEEN':
+      return `${wrap(field)} BETWEEN ${wrap(toLiteral(condition.value[0]))} AND ${wrap(toLiteral(condition.value[1]))}`;
+    case '!=':
+      return `${wrap(field)} <> ${wrap(toLiteral(condition.value))}`;
+    default:
+      return `${wrap(field)} ${condition.operator} ${wrap(toLiteral(condition.value))}`;
+  }
+}
+
+function validateCondition(collection: string, condition: QueryCondition): string[] {
+  const errors: string[] = [];
+  if (!condition || !resolveField(collection, condition.field)) {
+    errors.push(`Unknown condition field "${condition?.field}" in ${collection}`);
+    return errors;
+  }
+
+  const values = condition.operator === 'IN' || condition.operator === 'BETWEEN' ? condition.value : [condition.value];
+  switch (condition.operator) {
+    case '=': case '!=': case '>': case '<': case '>=': case '<=':
+      break;
+    case 'LIKE':
+      if (typeof condition.value !== 'string') errors.push(`LIKE on ${condition.field} needs a text pattern`);
+      break;
+    case 'IN':
+      if (!Array.isArray(values) || values.length === 0) errors.push(`IN on ${condition.field} needs a non-empty list`);
+      break;
+    case 'BETWEEN':
+      if (!Array.isArray(values) || values.length !== 2) errors.push(`BETWEEN on ${condition.field} needs two values`);
+      break;
+    default:
+      errors.push(`Unsupported operator "${condition.operator}"`);
+  }
+
+  if (Array.isArray(values) && values.some(value => !isLiteral(value))) {
+    errors.push(`Values for ${condition.field} must be text or finite numbers`);
+  }
+  if (condition.logicalOperator && condition.logicalOperator !== 'AND' && condition.logicalOperator !== 'OR') {
+    errors.push(`Invalid logical operator "${condition.logicalOperator}"`);
+  }
+  return errors;
+}
+
+function toLiteral(value: string | number): string {
+  return typeof value === 'number' ? String(value) : escapeLiteral(value);
+}
+
+function isLiteral(value: any): boolean {
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isRowCount(value: any, min: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= MAX_ROWS;
+}
+
+function isGroup(entry: QueryCondition | QueryConditionGroup): entry is QueryConditionGroup {
+  return !!entry && Array.isArray((entry as QueryConditionGroup).conditions);
+}
+
+function parseColumn(column: string): { field: string; alias?: string } | null {
+  const match = typeof column === 'string' && column.trim().match(/^\$?([A-Za-z][A-Za-z0-9]*)(?:\s+as\s+([A-Za-z_][A-Za-z0-9_]*))?$/i);
+  return match ? { field: match[1], alias: match[2] } : null;
+}
+
+function resolveField(collection: string, field: string): string | undefined {
+  if (typeof field !== 'string') return undefined;
+  const name = field.trim().replace(/^\$/, '').toLowerCase();
+  return getCollectionFields(collection)!.find(known => known.toLowerCase() === name);
+}
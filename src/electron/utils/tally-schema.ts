@@ -0,0 +1,154 @@
+/**
+ * Tally Schema
+ * Catalogue of the Tally ODBC collections the app reads and the fields each exposes. It is
+ * the whitelist for QueryBuilder and the SQL policy, and the schema AI prompts are grounded
+ * in. Columns seen on the connected Tally (diagnoseStockTables) are added at runtime.
+ */
+
+export type TallyFieldType = 'text' | 'amount' | 'quantity' | 'rate' | 'date' | 'number';
+
+export interface TallyFieldSchema {
+  name: string; // Without the $ prefix
+  type: TallyFieldType;
+  description?: string;
+  discovered?: boolean; // Seen on the connected Tally rather than catalogued
+}
+
+export interface TallyCollectionSchema {
+  name: string;
+  description: string;
+  fields: TallyFieldSchema[];
+}
+
+const field = (name: string, type: TallyFieldType = 'text', description?: string): TallyFieldSchema =>
+  description ? { name, type, description } : { name, type };
+
+const MASTER_IDS = [
+  field('MasterID', 'number'),
+  field('AlterID', 'number', 'Raised every time the master is changed')
+];
+
+const TALLY_SCHEMA: TallyCollectionSchema[] = [
+  {
+    name: 'Company',
+    description: 'The open company (one row)',
+    fields: [
+      field('Name'), field('Address'), field('Phone'), field('Email'), field('StateName'),
+      field('GSTRegistrationNumber'),
+      field('BooksFrom', 'date', 'First day of the books'),
+      field('AltVchID', 'number', 'Raised whenever a voucher changes'),
+      field('AltMstId', 'number', 'Raised whenever a master changes')
+    ]
+  },
+  {
+    name: 'Ledger',
+    description: 'Account masters: parties, cash and bank, income and expense heads',
+    fields: [
+      field('Name'),
+      field('Parent', 'text', "Group, e.g. 'Sundry Debtors', 'Sundry Creditors', 'Cash-in-Hand', 'Bank Accounts', 'Sales Accounts'"),
+      field('OpeningBalance', 'amount', 'Debit/credit tested with $$IsDr:$OpeningBalance'),
+      field('ClosingBalance', 'amount', 'Debit/credit tested with $$IsDr:$ClosingBalance'),
+      field('Address'), field('Phone'), field('Email'), field('LedgerPhone'), field('LedgerMobile'),
+      field('GSTRegistrationNumber'), field('StateName'),
+      ...MASTER_IDS
+    ]
+  },
+  { name: 'Group', description: 'Account groups', fields: [field('Name'), field('Parent'), ...MASTER_IDS] },
+  { name: 'Groups', description: 'Account groups (alternate name)', fields: [field('Name'), field('Parent'), ...MASTER_IDS] },
+  {
+    name: 'StockItem',
+    description: 'Inventory items',
+    fields: [
+      field('Name'),
+      field('Parent', 'text', 'Stock group'),
+      field('BaseUnits', 'text', 'Unit, e.g. Nos, Kg'),
+      field('OpeningBalance', 'quantity'),
+      field('OpeningValue', 'amount'),
+      field('ClosingBalance', 'quantity', 'Closing quantity, not money'),
+      field('ClosingRate', 'rate'),
+      field('ClosingValue', 'amount'),
+      ...MASTER_IDS
+    ]
+  },
+  {
+    name: 'ListofStockItems',
+    description: 'Inventory items as Tally reports them (use when StockItem is empty)',
+    fields: [
+      field('Name'), field('StockGroup'), field('BaseUnits'),
+      field('ClosingBalance', 'quantity'), field('ClosingRate', 'rate'), field('ClosingValue', 'amount')
+    ]
+  },
+  { name: 'StockGroup', description: 'Stock groups', fields: [field('Name'), field('Parent')] },
+  { name: 'VoucherType', description: 'Voucher types (Sales, Purchase, Receipt, ...)', fields: [field('Name'), field('Parent')] },
+  {
+    name: 'Voucher',
+    description: 'Vouchers; slow on large books, so always filter by $Date',
+    fields: [
+      field('Date', 'date'), field('VoucherTypeName'), field('VoucherNumber'), field('PartyLedgerName'),
+      field('Amount', 'amount'), field('Narration'), field('Reference'),
+      ...MASTER_IDS
+    ]
+  },
+  {
+    name: 'LedgerOutstandings',
+    description: 'Pending bills of parties',
+    fields: [
+      field('LedgerName'), field('BillName'), field('BillDate', 'date'), field('DueDate', 'date'),
+      field('ClosingBalance', 'amount')
+    ]
+  }
+];
+
+/**
+ * Catalogued collection name as Tally spells it ("LEDGER" -> "Ledger"), undefined when not catalogued
+ */
+export function resolveCollection(name: string): string | undefined {
+  return getCollectionSchema(name)?.name;
+}
+
+export function getCollectionSchema(name: string): TallyCollectionSchema | undefined {
+  if (typeof name !== 'string') return undefined;
+  const wanted = name.trim().toLowerCase();
+  return TALLY_SCHEMA.find(collection => collection.name.toLowerCase() === wanted);
+}
+
+export function getCollectionFields(collection: string): string[] | undefined {
+  return getCollectionSchema(collection)?.fields.map(entry => entry.name);
+}
+
+export function getTallySchema(): TallyCollectionSchema[] {
+  return TALLY_SCHEMA;
+}
+
+/**
+ * Add columns a query returned ("$Name", "$StockGroup") to a catalogued collection.
+ * Returns the names that were new; collections outside the catalogue are left alone.
+ */
+export function recordDiscoveredFields(collection: string, columns: string[]): string[] {
+  const schema = getCollectionSchema(collection);
+  if (!schema) return [];
+
+  const added: string[] = [];
+  columns.forEach(column => {
+    const name = String(column).replace(/^\$/, '');
+    // Computed columns ($$Function:...) and aliases with spaces are not fields
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return;
+    if (schema.fields.some(entry => entry.name.toLowerCase() === name.toLowerCase())) return;
+    schema.fields.push({ name, type: 'text', discovered: true });
+    added.push(name);
+  });
+  return added;
+}
+
+/**
+ * The catalogue as prompt text, one collection per line
+ */
+export function describeTallySchema(): string {
+  return TALLY_SCHEMA.map(collection => {
+    const fields = collection.fields.map(entry => {
+      const detail = [entry.type, entry.description].filter(Boolean).join(': ');
+      return `$${entry.name} (${detail})`;
+    });
+    return `- ${collection.name}: ${collection.description}\n    ${fields.join(', ')}`;
+  }).join('\n');
+}
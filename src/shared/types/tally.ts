@@ -272,27 +272,8 @@ export interface DataExport {
   expiresAt?: Date;
 }
 
-// Advanced query builder types
-export interface QueryBuilder {
-  select: string[];
-  from: string;
-  where?: QueryCondition[];
-  orderBy?: QuerySort[];
-  limit?: number;
-  offset?: number;
-}
-
-export interface QueryCondition {
-  field: string;
-  operator: '=' | '!=' | '>' | '<' | '>=' | '<=' | 'LIKE' | 'IN' | 'BETWEEN';
-  value: any;
-  logicalOperator?: 'AND' | 'OR';
-}
-
-export interface QuerySort {
-  field: string;
-  direction: 'ASC' | 'DESC';
-}
+// Advanced query builder types, defined where the electron build (rootDir src/electron) can compile them
+export type { QueryBuilder, QueryCondition, QueryConditionGroup, QuerySort } from '../../electron/utils/tally-query-builder';
 
 // API response wrapper for consistent error handling
 export interface TallyAPIResponse<T = any> {
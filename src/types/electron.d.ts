@@ -29,9 +29,24 @@ export interface TallyQueryResult {
   rowCount?: number;
   executionTime?: number;
   query?: string;
+  truncated?: boolean; // Rows cut to the collection's limit
   timestamp?: string;
 }
 
+export interface QueryAuditEntry {
+  timestamp: string;
+  user: string;
+  company?: string;
+  sql: string;
+  collections: string[];
+  allowed: boolean;
+  success: boolean;
+  durationMs: number;
+  rowCount: number;
+  truncated?: boolean;
+  error?: string;
+}
+
 export interface SmartQueryResult {
   success: boolean;
   type: 'exact_match' | 'multiple_matches' | 'no_match' | 'suggestions';
@@ -79,6 +94,11 @@ export interface ElectronAPI {
 
   // Query Execution
   tallyExecuteQuery: (sql: string) => Promise<TallyQueryResult>;
+  odbcSchedulerMetrics: () => Promise<any>;
+  tallyGetQueryAudit: (limit?: number) => Promise<{ success: boolean; entries?: QueryAuditEntry[]; logPath?: string; error?: string }>;
+  queryCacheStats: () => Promise<any>;
+  queryCacheClear: (clientId?: string) => Promise<{ success: boolean; dropped?: number; error?: string }>;
+  llmUsage: () => Promise<any>;
   tallyQueryLedgerSmart: (userInput: string) => Promise<SmartQueryResult>;
   tallyProcessAiQuery: (userQuery: string) => Promise<any>;
 
@@ -100,6 +120,37 @@ export interface ElectronAPI {
   syncManual: () => Promise<any>;
   syncUpdateConfig: (config: any) => Promise<any>;
 
+  // Payment Reminders
+  remindersStart: () => Promise<any>;
+  remindersStop: () => Promise<any>;
+  remindersRun: (options?: { dryRun?: boolean }) => Promise<any>;
+  remindersStatus: () => Promise<any>;
+  remindersUpdateConfig: (config: any) => Promise<any>;
+
+  // Bank Reconciliation
+  bankLedgers: () => Promise<any>;
+  bankImportStatement: (bankLedger: string, filePath?: string) => Promise<any>;
+  bankReconcile: (bankLedger: string, options?: { dateToleranceDays?: number }) => Promise<any>;
+
+  // Export
+  exportTable: (request: { format: 'excel' | 'csv' | 'json'; title: string; rows: any[]; companyName?: string }) => Promise<any>;
+  showFileInFolder: (filePath: string) => Promise<any>;
+
+  // Data Source
+  dataSourceGet: () => Promise<any>;
+  dataSourceSet: (kind: 'odbc' | 'xml' | 'bridge' | 'demo') => Promise<any>;
+  mirrorStatus: () => Promise<any>;
+  mirrorSyncNow: () => Promise<any>;
+
+  // Companies
+  companyList: () => Promise<any>;
+  companyPin: (companyName: string, alias?: string) => Promise<any>;
+  companyUnpin: (companyName: string) => Promise<any>;
+  companySwitch: (companyName: string) => Promise<any>;
+
+  // Intent router
+  intentRouterEvaluate: (corpus?: { query: string; intent: string; language: 'en' | 'hi' | 'hinglish' }[]) => Promise<any>;
+
   // Utilities
   getSystemInfo: () => Promise<any>;
 